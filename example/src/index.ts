@@ -74,33 +74,33 @@ function render() {
 
   lastExpression = expression
 
-  try {
-
-    instructions = expreva.parse(expression)
+  // Recover from parse errors, to show all of them with partially parsed instructions
+  var errors = []
 
-    if (instructions==null) {
-      log('Empty result after parse')
-      clearText($instructions, $result, $resultError)
-      return
-    }
+  instructions = expreva.parse(expression, undefined, undefined, { errors })
 
-    $instructions.innerText = renderInstructions(instructions)
+  if (errors.length) {
 
-    log('Parsed', instructions)
-    clearError()
+    log('Parse errors', errors)
+    setError(errors.map(function(e) { return e.message }).join('\n'))
 
-  } catch(e) {
-
-    log('Parse error', e)
-    setError(e.message)
-
-    // Partially parsed Instructions
-    $instructions.innerText = renderInstructions(expreva.instructions)
+    $instructions.innerText = instructions==null ? '' : renderInstructions(instructions)
 
     clearText($result)
     return
   }
 
+  if (instructions==null) {
+    log('Empty result after parse')
+    clearText($instructions, $result, $resultError)
+    return
+  }
+
+  $instructions.innerText = renderInstructions(instructions)
+
+  log('Parsed', instructions)
+  clearError()
+
   try {
 
     result = expreva.evaluate(instructions, env)
@@ -0,0 +1,690 @@
+/**
+ * Static analysis of syntax tree, with scopes resolved as in evaluate: parameters,
+ * `let` bindings, loop variables and variables declared with `let` or `const` in a
+ * function or loop are local, and `def` sets a variable in the nearest scope that
+ * has it, or global scope.
+ *
+ * Global variables are not reported as unused, since the host can read them
+ * from the environment after evaluation.
+ */
+
+import type { Expression, RuntimeEnvironment } from '../evaluate'
+import { Environment } from '../evaluate/environment'
+import type { SourceMap, SourceSpan } from '../parse/sourceMap'
+import {
+  SyntaxNode,
+  PatternNode,
+  nodeType,
+  declarations,
+  declaredNames as declaredNodeNames,
+  parameterNames,
+  patternNames,
+  patternDefaults,
+  matchPatternNames,
+  isPatternNode
+} from '../ast'
+
+export type DiagnosticCode =
+  | 'undefined-symbol'
+  | 'unused-variable'
+  | 'unused-parameter'
+  | 'shadowed-name'
+  | 'wrong-argument-count'
+  | 'unreachable-branch'
+  | 'constant-assignment'
+
+export type Diagnostic = {
+  code: DiagnosticCode
+  severity: 'error' | 'warning'
+  message: string
+  // Symbol of the diagnostic, if any
+  name?: string
+  // Nearest list node
+  expression: Expression
+  location?: SourceSpan
+}
+
+export type AnalyzeOptions = {
+  // Host environment - its keys are defined symbols
+  environment?: { [name: string]: any }
+  // Root environment with built-ins and special forms
+  root?: RuntimeEnvironment
+  // Names of special forms, by default from root environment
+  specialForms?: string[]
+  // Source map from parse, to locate diagnostics
+  sourceMap?: SourceMap
+}
+
+type BindingKind = 'parameter' | 'variable'
+
+type Binding = {
+  name: string
+  kind: BindingKind
+  expression: Expression
+  used: boolean
+  // Lambda expression, if bound to one
+  lambda?: Expression[]
+  // Declared with const
+  constant?: boolean
+}
+
+type Scope = {
+  bindings: { [name: string]: Binding }
+  parent?: Scope
+}
+
+type GlobalVariable = {
+  // Number of definitions
+  definitions: number
+  lambda?: Expression[]
+  isMacro?: boolean
+  // Defined in function body
+  inFunction?: boolean
+  // Declared with const
+  constant?: boolean
+}
+
+// Symbols of evaluate
+const environmentSymbols = ['local', 'global']
+
+// Expression without type annotation
+const withoutAnnotation = (ast: Expression): Expression =>
+  Array.isArray(ast) && ast[0]===':' ? withoutAnnotation(ast[1]) : ast
+
+const isLambda = (ast: Expression): ast is Expression[] =>
+  Array.isArray(ast) && nodeType(ast)==='lambda'
+
+// Names of variables declared in scope of given body
+const declaredNames = (body: Expression): string[] => declaredNodeNames(body as SyntaxNode)
+
+/**
+ * Analyze syntax tree and return diagnostics
+ */
+export function analyze(ast: Expression, options: AnalyzeOptions = {}): Diagnostic[] {
+  return new Analyzer(options).run(ast)
+}
+
+class Analyzer {
+
+  diagnostics: Diagnostic[] = []
+  root: RuntimeEnvironment
+  environment: { [name: string]: any }
+  specialForms: string[]
+
+  // Global variables defined anywhere
+  globals: { [name: string]: GlobalVariable } = {}
+  // Global variables defined so far, in evaluation order of top level
+  definedGlobals = new Set<string>()
+  // Inside function body, which can run after any definition
+  functionDepth = 0
+
+  constructor(public options: AnalyzeOptions) {
+    this.root = options.root || Environment.root
+    this.environment = options.environment || {}
+    this.specialForms = options.specialForms || Object.keys(this.root.specialForms || {})
+  }
+
+  run(ast: Expression): Diagnostic[] {
+    this.collectGlobals(ast)
+    this.visit(ast, undefined, ast)
+    return this.diagnostics
+  }
+
+  report(
+    code: DiagnosticCode,
+    message: string,
+    expression: Expression,
+    name?: string,
+    severity: Diagnostic['severity'] = code==='undefined-symbol' || code==='constant-assignment'
+      ? 'error'
+      : 'warning'
+  ) {
+    const diagnostic: Diagnostic = { code, severity, message, expression }
+    if (name!=null) diagnostic.name = name
+    const location = this.options.sourceMap && Array.isArray(expression)
+      ? this.options.sourceMap.get(expression)
+      : undefined
+    if (location) diagnostic.location = location
+    this.diagnostics.push(diagnostic)
+  }
+
+  /**
+   * Collect global variables from every def and declaration that is not local,
+   * including those in function bodies
+   */
+  collectGlobals(ast: Expression, inFunction = false, locals: string[] = []): void {
+
+    if (!Array.isArray(ast)) return
+
+    const type = nodeType(ast)
+    if (type==='expr' || type==='comment') return
+    if (type==='annotation') return this.collectGlobals(ast[1], inFunction, locals)
+
+    if (type==='lambda') {
+      const functionLocals = [...locals, ...parameterNames(ast[1] as SyntaxNode), ...declaredNames(ast[2])]
+      // Default values of parameters, and body
+      const params = Array.isArray(ast[1]) ? ast[1] : []
+      for (const param of params) {
+        for (const value of patternDefaults(Array.isArray(param) && param[0]==='def' ? param[1] : param)) {
+          this.collectGlobals(value as Expression, true, functionLocals)
+        }
+        if (Array.isArray(param) && param[0]==='def') this.collectGlobals(param[2], true, functionLocals)
+      }
+      this.collectGlobals(ast[2], true, functionLocals)
+      return
+    }
+
+    if (type==='let' && Array.isArray(ast[1])) {
+      const letLocals = [
+        ...locals,
+        ...ast[1].filter((name, i) => i % 2===0 && typeof name==='string') as string[],
+        ...declaredNames(ast[2])
+      ]
+      for (const child of ast[1]) this.collectGlobals(child, inFunction, letLocals)
+      this.collectGlobals(ast[2], inFunction, letLocals)
+      return
+    }
+
+    if (type==='while' || type==='for' || type==='forIn') {
+      const body = ast[ ast.length-1 ]
+      const loopLocals = [
+        ...locals,
+        ...(type==='while' ? [] : [ast[1] as string]),
+        ...declaredNames(body)
+      ]
+      for (const child of ast.slice(type==='while' ? 1 : 2, -1)) {
+        this.collectGlobals(child, inFunction, locals)
+      }
+      this.collectGlobals(body, inFunction, loopLocals)
+      return
+    }
+
+    if ((type==='def' || type==='declare') && isPatternNode(ast[1])) {
+      // Each name in destructuring pattern
+      for (const name of patternNames(ast[1])) {
+        if (locals.includes(name)) continue
+        const variable = this.globals[ name ] || (this.globals[ name ] = { definitions: 0 })
+        variable.definitions++
+        if (ast[0]==='const') variable.constant = true
+        if (inFunction) variable.inFunction = true
+      }
+      for (const value of patternDefaults(ast[1])) {
+        this.collectGlobals(value as Expression, inFunction, locals)
+      }
+      this.collectGlobals(ast[2], inFunction, locals)
+      return
+    }
+
+    if ((type==='def' || type==='declare') && typeof ast[1]==='string' && !locals.includes(ast[1])) {
+      const name = ast[1]
+      const variable = this.globals[ name ] || (this.globals[ name ] = { definitions: 0 })
+      variable.definitions++
+      if (ast[0]==='const') variable.constant = true
+      // Function can be called before any statement
+      if (inFunction) variable.inFunction = true
+      const value = withoutAnnotation(ast[2])
+      if (isLambda(value)) {
+        variable.lambda = value
+      } else if (Array.isArray(value) && nodeType(value)==='macro') {
+        variable.isMacro = true
+      }
+    }
+
+    for (const child of ast) this.collectGlobals(child, inFunction, locals)
+  }
+
+  lookup(name: string, scope?: Scope): Binding | undefined {
+    for (let current = scope; current; current = current.parent) {
+      if (current.bindings.hasOwnProperty(name)) return current.bindings[ name ]
+    }
+    return undefined
+  }
+
+  isGlobal(name: string) {
+    return this.functionDepth > 0 || this.definedGlobals.has(name)
+      ? this.globals.hasOwnProperty(name)
+      : this.globals.hasOwnProperty(name) && !!this.globals[ name ].inFunction
+  }
+
+  isBuiltin(name: string) {
+    return this.root.propertyIsEnumerable(name)
+  }
+
+  isHost(name: string) {
+    return this.environment.hasOwnProperty(name)
+  }
+
+  /**
+   * Bind name in scope, and report if it shadows another
+   */
+  bind(scope: Scope, name: string, kind: BindingKind, expression: Expression, lambda?: Expression[]) {
+
+    const label = kind==='parameter' ? 'Parameter' : 'Variable'
+    const outer = this.lookup(name, scope.parent)
+
+    const shadowed = outer ? (outer.kind==='parameter' ? 'parameter' : 'variable')
+      : this.globals.hasOwnProperty(name) ? 'global variable'
+        : this.isHost(name) ? 'host variable'
+          : this.isBuiltin(name) ? 'built-in'
+            : undefined
+
+    if (shadowed && !name.startsWith('_')) {
+      this.report('shadowed-name', `${label} "${name}" shadows ${shadowed}`, expression, name)
+    }
+
+    scope.bindings[ name ] = { name, kind, expression, used: false, lambda }
+  }
+
+  /**
+   * Bind variables declared in body of scope, before visiting it - so functions
+   * in the same scope can call each other
+   */
+  declare(scope: Scope, body: Expression) {
+    for (const declaration of declarations(body as SyntaxNode)) {
+      const [kind, target, value] = declaration
+      for (const name of patternNames(target)) {
+        const binding = scope.bindings.hasOwnProperty(name) ? scope.bindings[ name ] : undefined
+        if (binding) {
+          // Declared again, or same name as parameter
+          binding.lambda = undefined
+          if (kind==='const') binding.constant = true
+          continue
+        }
+        const lambda = withoutAnnotation(value as Expression)
+        this.bind(scope, name, 'variable', declaration,
+          typeof target==='string' && isLambda(lambda) ? lambda : undefined)
+        if (kind==='const') scope.bindings[ name ].constant = true
+      }
+    }
+  }
+
+  /**
+   * Report assignment to constant, if variable is one
+   */
+  checkAssignment(name: string, scope: Scope | undefined, expression: Expression) {
+    const binding = this.lookup(name, scope)
+    const constant = binding ? binding.constant
+      : this.globals.hasOwnProperty(name) && this.globals[ name ].constant
+    if (constant) {
+      this.report('constant-assignment', `Cannot assign to constant "${name}"`, expression, name)
+    }
+  }
+
+  /**
+   * Report unused bindings of scope
+   */
+  leave(scope: Scope) {
+    for (const name of Object.keys(scope.bindings)) {
+      const binding = scope.bindings[ name ]
+      if (binding.used || name.startsWith('_')) continue
+      this.report(
+        binding.kind==='parameter' ? 'unused-parameter' : 'unused-variable',
+        `${binding.kind==='parameter' ? 'Parameter' : 'Variable'} "${name}" is never used`,
+        binding.expression,
+        name
+      )
+    }
+  }
+
+  visitSymbol(name: string, scope: Scope | undefined, parent: Expression) {
+
+    const binding = this.lookup(name, scope)
+    if (binding) {
+      binding.used = true
+      return
+    }
+
+    if (this.isGlobal(name) || this.isHost(name) || this.isBuiltin(name)
+      || environmentSymbols.includes(name)
+    ) return
+
+    this.report('undefined-symbol', `Undefined symbol "${name}"`, parent, name)
+  }
+
+  visit(ast: Expression, scope: Scope | undefined, parent: Expression): void {
+
+    if (typeof ast==='string') return this.visitSymbol(ast, scope, parent)
+    if (!Array.isArray(ast) || !ast.length) return
+
+    const args = ast.slice(1)
+
+    switch (nodeType(ast)) {
+
+    case 'expr':
+    case 'comment':
+      return
+
+    // Type is not evaluated
+    case 'annotation':
+      return this.visit(ast[1], scope, ast)
+
+    case 'def': {
+      const [target, value] = args
+      this.visit(value, scope, ast)
+      if (typeof target!=='string' && !isPatternNode(target)) {
+        this.visit(target, scope, ast)
+        return
+      }
+      for (const name of patternNames(target as SyntaxNode)) {
+        this.checkAssignment(name, scope, ast)
+        // Global variable, unless it's local
+        if (!this.functionDepth && !this.lookup(name, scope)) this.definedGlobals.add(name)
+      }
+      // Default values can refer to names before them
+      if (isPatternNode(target)) this.visitPattern(target, scope, ast)
+      return
+    }
+
+    case 'declare': {
+      const [target, value] = args
+      this.visit(value, scope, ast)
+      for (const name of patternNames(target as SyntaxNode)) {
+        if (!scope) {
+          // Variable in global scope
+          if (!this.functionDepth) this.definedGlobals.add(name)
+          continue
+        }
+        // Declared in value of let binding
+        if (!scope.bindings.hasOwnProperty(name)) this.bind(scope, name, 'variable', ast)
+      }
+      if (isPatternNode(target)) this.visitPattern(target, scope, ast)
+      return
+    }
+
+    case 'lambda':
+      return this.visitLambda(ast, scope)
+
+    case 'let':
+      return this.visitLet(ast, scope)
+
+    case 'while':
+      this.visit(args[0], scope, ast)
+      return this.visitLoop(ast, scope)
+
+    case 'for':
+    case 'forIn':
+      for (const arg of args.slice(1, -1)) this.visit(arg, scope, ast)
+      return this.visitLoop(ast, scope, args[0] as string)
+
+    case 'if':
+      return this.visitIf(ast, scope)
+
+    case 'match':
+      return this.visitMatch(ast, scope)
+
+    case 'try': {
+      const [body, handler] = args
+      this.visit(body, scope, ast)
+      if (Array.isArray(handler)) this.visitLambda(handler, scope)
+      return
+    }
+
+    case 'obj':
+      for (const pair of args) {
+        if (!Array.isArray(pair)) continue
+        const [key, value] = pair
+        if (pair.length===1 && typeof key==='string') {
+          // { key } is { key: key }
+          this.visit(key, scope, ast)
+          continue
+        }
+        if (typeof key!=='string') this.visit(key, scope, ast)
+        if (pair.length > 1) this.visit(value, scope, ast)
+      }
+      return
+
+    case 'get':
+    case 'optionalGet':
+      this.visit(args[0], scope, ast)
+      for (const member of args.slice(1)) {
+        // Set member with key as is
+        if (Array.isArray(member) && member[0]==='def') {
+          this.visit(member[2], scope, ast)
+          continue
+        }
+        this.visit(member, scope, ast)
+      }
+      return
+
+    case 'do':
+    case 'exit':
+    case 'list':
+    case 'logical':
+    case 'optionalCall':
+    case 'macro':
+    case 'eva':
+    case 'spread':
+      for (const arg of args) this.visit(arg, scope, ast)
+      return
+    }
+
+    this.visitCall(ast, scope)
+  }
+
+  visitCall(ast: Expression[], scope: Scope | undefined) {
+
+    const [head, ...args] = ast
+
+    if (typeof head==='string' && this.specialForms.includes(head)) {
+      for (const arg of args) this.visit(arg, scope, ast)
+      return
+    }
+
+    this.visit(head, scope, ast)
+
+    // Macro receives its arguments unevaluated
+    if (typeof head==='string' && !this.lookup(head, scope)
+      && this.globals[ head ] && this.globals[ head ].isMacro
+    ) return
+
+    for (const arg of args) this.visit(arg, scope, ast)
+
+    const lambda = isLambda(withoutAnnotation(head))
+      ? withoutAnnotation(head) as Expression[]
+      : typeof head==='string' ? this.knownLambda(head, scope) : undefined
+
+    if (lambda) this.checkArgumentCount(lambda, ast, typeof head==='string' ? head : 'anonymous')
+  }
+
+  /**
+   * Lambda bound to name, if it's the only definition
+   */
+  knownLambda(name: string, scope: Scope | undefined): Expression[] | undefined {
+    const binding = this.lookup(name, scope)
+    if (binding) return binding.lambda
+    const variable = this.globals[ name ]
+    return variable && variable.definitions===1 ? variable.lambda : undefined
+  }
+
+  checkArgumentCount(lambda: Expression[], call: Expression[], name: string) {
+
+    const args = call.slice(1)
+    // Spread arguments can be any number
+    if (args.some(arg => Array.isArray(arg) && arg[0]==='...')) return
+
+    const params = Array.isArray(lambda[1]) ? lambda[1] : []
+    let min = 0
+    let max = 0
+    for (const param of params) {
+      if (param==='&' || (Array.isArray(param) && param[0]==='...')) {
+        max = Infinity
+        break
+      }
+      max++
+      // Default argument
+      if (typeof param==='string' || isPatternNode(param)) min = max
+    }
+
+    if (args.length >= min && args.length <= max) return
+
+    const expected = min===max ? `${min}`
+      : max===Infinity ? `at least ${min}`
+        : `${min} to ${max}`
+
+    this.report(
+      'wrong-argument-count',
+      `Function "${name}" expects ${expected} argument${expected==='1' ? '' : 's'}, but got ${args.length}`,
+      call,
+      name
+    )
+  }
+
+  visitLambda(ast: Expression[], scope: Scope | undefined) {
+
+    const params = Array.isArray(ast[1]) ? ast[1] as Expression[]
+      : typeof ast[1]==='string' ? [ast[1]] : []
+    const functionScope: Scope = { bindings: {}, parent: scope }
+
+    this.functionDepth++
+
+    params.forEach(param => {
+      if (param==='&') return
+      if (typeof param==='string') return this.bind(functionScope, param, 'parameter', ast)
+      if (!Array.isArray(param)) return
+      if (param[0]==='def') {
+        // Default value is evaluated in function scope
+        this.visit(param[2], functionScope, ast)
+        return this.bindParameter(functionScope, param[1], ast)
+      }
+      if (param[0]==='...') return this.bindParameter(functionScope, param[1], ast)
+      if (isPatternNode(param)) return this.bindParameter(functionScope, param, ast)
+    })
+
+    this.declare(functionScope, ast[2])
+    this.visit(ast[2], functionScope, ast)
+    this.functionDepth--
+
+    this.leave(functionScope)
+  }
+
+  /**
+   * Bind parameter name, or names in destructuring pattern
+   */
+  bindParameter(scope: Scope, target: Expression, ast: Expression[]) {
+    for (const name of patternNames(target as SyntaxNode)) {
+      this.bind(scope, name, 'parameter', ast)
+    }
+    if (isPatternNode(target)) this.visitPattern(target, scope, ast)
+  }
+
+  /**
+   * Default values in destructuring pattern
+   */
+  visitPattern(pattern: PatternNode, scope: Scope | undefined, ast: Expression[]) {
+    for (const value of patternDefaults(pattern)) {
+      this.visit(value as Expression, scope, ast)
+    }
+  }
+
+  visitLet(ast: Expression[], scope: Scope | undefined) {
+
+    const bindings = ast[1]
+    if (!Array.isArray(bindings)) {
+      for (const arg of ast.slice(1)) this.visit(arg, scope, ast)
+      return
+    }
+
+    const letScope: Scope = { bindings: {}, parent: scope }
+
+    for (let i = 0; i < bindings.length; i += 2) {
+      const name = bindings[i]
+      const value = bindings[i + 1]
+      // Value is evaluated in new scope, with bindings before it
+      this.visit(value, letScope, ast)
+      if (typeof name!=='string') continue
+      const lambda = withoutAnnotation(value)
+      this.bind(letScope, name, 'variable', ast, isLambda(lambda) ? lambda : undefined)
+    }
+
+    this.declare(letScope, ast[2])
+    this.visit(ast[2], letScope, ast)
+    this.leave(letScope)
+  }
+
+  /**
+   * Loop body has its own scope, with loop variable if any
+   */
+  visitLoop(ast: Expression[], scope: Scope | undefined, name?: string) {
+
+    const body = ast[ ast.length-1 ]
+    const loopScope: Scope = { bindings: {}, parent: scope }
+
+    if (typeof name==='string') this.bind(loopScope, name, 'variable', ast)
+
+    this.declare(loopScope, body)
+    this.visit(body, loopScope, ast)
+    this.leave(loopScope)
+  }
+
+  /**
+   * Each branch of match has its own scope, with names bound by pattern
+   */
+  visitMatch(ast: Expression[], scope: Scope | undefined) {
+
+    this.visit(ast[1], scope, ast)
+
+    for (const branch of ast.slice(2)) {
+      if (!Array.isArray(branch)) continue
+
+      const branchScope: Scope = { bindings: {}, parent: scope }
+      for (const name of matchPatternNames(branch[0] as SyntaxNode)) {
+        this.bind(branchScope, name, 'variable', ast)
+      }
+
+      for (const expr of branch.slice(1)) this.declare(branchScope, expr)
+      for (const expr of branch.slice(1)) this.visit(expr, branchScope, ast)
+      this.leave(branchScope)
+    }
+  }
+
+  visitIf(ast: Expression[], scope: Scope | undefined) {
+
+    const [condition, trueBranch, falseBranch] = ast.slice(1)
+
+    this.visit(condition, scope, ast)
+
+    const value = this.constantCondition(condition, scope)
+    if (value!=null && (value ? ast.length > 3 : true)) {
+      this.report(
+        'unreachable-branch',
+        `Unreachable ${value ? 'else' : 'true'} branch: condition is always ${value}`,
+        ast
+      )
+    }
+
+    this.visit(trueBranch, scope, ast)
+    if (ast.length > 3) this.visit(falseBranch, scope, ast)
+  }
+
+  /**
+   * Truthiness of condition if it's constant
+   */
+  constantCondition(condition: Expression, scope: Scope | undefined): boolean | undefined {
+
+    if (typeof condition==='number') return !!condition
+    if (typeof condition==='boolean') return condition
+
+    if (typeof condition==='string') {
+      // Built-in constants, unless defined otherwise
+      if (this.lookup(condition, scope) || this.globals.hasOwnProperty(condition)
+        || this.isHost(condition)
+      ) return undefined
+      if (condition==='true') return true
+      if (condition==='false' || condition==='nil') return false
+      return undefined
+    }
+
+    if (!Array.isArray(condition)) return undefined
+
+    switch (nodeType(condition)) {
+    case 'expr':
+      return typeof condition[1]==='string' ? !!condition[1] : undefined
+    // Always create new object or function
+    case 'list':
+    case 'obj':
+    case 'lambda':
+      return true
+    }
+    return undefined
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Typed syntax tree, with utilities to walk, transform and fold it
+ */
+
+export * from './types'
+export * from './traverse'
@@ -0,0 +1,286 @@
+import { SyntaxNode, DeclareNode, PatternNode, nodeType } from './types'
+import type { Expression } from '../evaluate'
+
+export type Visitor = {
+  // Return false to skip children
+  enter?: (node: SyntaxNode, parent?: SyntaxNode) => boolean | void
+  exit?: (node: SyntaxNode, parent?: SyntaxNode) => void
+}
+
+const mapIfObject = (node: SyntaxNode, f: (node: SyntaxNode) => SyntaxNode) =>
+  typeof node==='object' && node!=null ? f(node) : node
+
+/**
+ * Create node with its evaluated sub-expressions mapped - names, parameters,
+ * object keys and quoted expressions stay as they are. Returns the same node
+ * if nothing changed.
+ */
+export function mapChildren(node: SyntaxNode, f: (node: SyntaxNode) => SyntaxNode): SyntaxNode {
+
+  if (!Array.isArray(node)) return node
+
+  const ast: SyntaxNode[] = node
+  // Map argument at index, if given
+  const at = (i: number) => i < ast.length ? f(ast[i]) : undefined
+  let mapped: SyntaxNode[]
+
+  switch (nodeType(node)) {
+  case 'expr':
+  case 'comment':
+    return node
+  case 'def':
+  case 'declare':
+    mapped = [
+      ast[0],
+      isPatternNode(ast[1]) ? mapPattern(ast[1], f) : mapIfObject(ast[1], f),
+      at(2)
+    ]
+    break
+  case 'for':
+  case 'forIn':
+    // Loop variable
+    mapped = [ast[0], ast[1], ...ast.slice(2).map(f)]
+    break
+  case 'lambda':
+    mapped = [
+      ast[0],
+      !Array.isArray(ast[1]) ? ast[1] : mapArray(ast[1], ast[1].map(param =>
+        Array.isArray(param) && param[0]==='def'
+          // Default value
+          ? mapArray(param, [param[0], mapTarget(param[1], f), f(param[2])])
+          : mapTarget(param, f)
+      )),
+      at(2)
+    ]
+    break
+  case 'let':
+    if (!Array.isArray(ast[1])) {
+      mapped = [ast[0], ...ast.slice(1).map(f)]
+      break
+    }
+    mapped = [
+      ast[0],
+      mapArray(ast[1], ast[1].map((item, i) => i % 2 ? f(item) : item)),
+      at(2)
+    ]
+    break
+  case 'obj':
+    mapped = [ast[0], ...ast.slice(1).map(pair => !Array.isArray(pair) ? pair
+      : mapArray(pair, pair.length===1 && Array.isArray(pair[0]) && pair[0][0]==='...'
+        ? [f(pair[0] as SyntaxNode)]
+        : [mapIfObject(pair[0], f), ...pair.slice(1).map(f)]
+      )
+    )]
+    break
+  case 'match':
+    // Patterns stay as they are
+    mapped = [ast[0], at(1), ...ast.slice(2).map(branch => !Array.isArray(branch) ? branch
+      : mapArray(branch, [branch[0], ...branch.slice(1).map(f)])
+    )]
+    break
+  case 'annotation':
+    mapped = [ast[0], at(1), ast[2]]
+    break
+  case 'call':
+    mapped = ast.map(f)
+    break
+  default:
+    // Special form with all arguments as expressions
+    mapped = [ast[0], ...ast.slice(1).map(f)]
+  }
+
+  mapped.length = ast.length
+  return mapArray(ast, mapped)
+}
+
+/**
+ * Destructuring pattern - list or object as target of assignment, declaration
+ * or parameter
+ */
+export const isPatternNode = (node: SyntaxNode | Expression): node is PatternNode =>
+  Array.isArray(node) && (node[0]==='list' || node[0]==='obj')
+
+// Map default values in target, which is a name or pattern
+const mapTarget = (target: SyntaxNode, f: (node: SyntaxNode) => SyntaxNode): SyntaxNode =>
+  isPatternNode(target) ? mapPattern(target, f) : target
+
+// Map default values in pattern - names and keys stay as they are
+function mapPattern(pattern: PatternNode, f: (node: SyntaxNode) => SyntaxNode): SyntaxNode {
+  // Item with default value, or rest
+  const mapItem = (item: SyntaxNode): SyntaxNode => !Array.isArray(item) ? item
+    : item[0]==='def' ? mapArray(item, [item[0], mapTarget(item[1], f), f(item[2])])
+      : item[0]==='...' ? mapArray(item, [item[0], mapTarget(item[1], f)])
+        : mapTarget(item, f)
+  return mapArray(pattern, [
+    pattern[0],
+    ...pattern.slice(1).map(item => pattern[0]==='list' ? mapItem(item)
+      : !Array.isArray(item) ? item
+        : mapArray(item, item.length===1 ? [mapItem(item[0])] : [item[0], mapItem(item[1])])
+    )
+  ])
+}
+
+// Keep original array if items are the same
+function mapArray(original: SyntaxNode[], mapped: SyntaxNode[]): SyntaxNode {
+  return original.length===mapped.length && original.every((item, i) => item===mapped[i])
+    ? original
+    : mapped
+}
+
+/**
+ * Evaluated sub-expressions of node
+ */
+export function children(node: SyntaxNode): SyntaxNode[] {
+  const nodes: SyntaxNode[] = []
+  mapChildren(node, child => {
+    nodes.push(child)
+    return child
+  })
+  return nodes
+}
+
+/**
+ * Visit every node, depth first
+ */
+export function walk(
+  node: SyntaxNode,
+  visitor: Visitor | Visitor['enter'],
+  parent?: SyntaxNode
+): void {
+
+  const { enter, exit } = visitor instanceof Function ? { enter: visitor, exit: undefined } : visitor!
+
+  if (enter && enter(node, parent)===false) return
+  for (const child of children(node)) {
+    walk(child, { enter, exit }, node)
+  }
+  if (exit) exit(node, parent)
+}
+
+/**
+ * Replace nodes from the bottom up - given function returns new node, or undefined
+ * to keep it. Unchanged parts of the tree are shared with the original.
+ */
+export function transform(
+  node: SyntaxNode,
+  f: (node: SyntaxNode, parent?: SyntaxNode) => SyntaxNode | void,
+  parent?: SyntaxNode
+): SyntaxNode {
+  const mapped = mapChildren(node, child => transform(child, f, node))
+  const result = f(mapped, parent)
+  return result===undefined ? mapped : result
+}
+
+/**
+ * Compute a value for each node from the values of its children, from the bottom up
+ */
+export function fold<T>(
+  node: SyntaxNode,
+  f: (node: SyntaxNode, results: T[]) => T
+): T {
+  return f(node, children(node).map(child => fold(child, f)))
+}
+
+/**
+ * Declarations with let or const in the scope of given node - not in functions,
+ * let forms, loops or match branches, which have their own scope
+ */
+export function declarations(node: SyntaxNode): DeclareNode[] {
+  const nodes: DeclareNode[] = []
+  walk(node, child => {
+    const type = nodeType(child)
+    if (type==='declare' && (typeof (child as DeclareNode)[1]==='string'
+      || isPatternNode((child as DeclareNode)[1])
+    )) {
+      nodes.push(child as DeclareNode)
+    }
+    return !isScope(type)
+  })
+  return nodes
+}
+
+/**
+ * Names declared with let or const in the scope of given node
+ */
+export function declaredNames(node: SyntaxNode): string[] {
+  const names: string[] = []
+  for (const declaration of declarations(node)) names.push(...patternNames(declaration[1]))
+  return names
+}
+
+const isScope = (type: string) =>
+  type==='lambda' || type==='let' || type==='while' || type==='for' || type==='forIn'
+    || type==='match'
+
+/**
+ * Names of function parameters
+ */
+export function parameterNames(params: SyntaxNode): string[] {
+  if (!Array.isArray(params)) return typeof params==='string' ? [params] : []
+  const names: string[] = []
+  for (const param of params) {
+    const target = Array.isArray(param) && !isPatternNode(param) ? param[1] : param
+    if (target!=='&') names.push(...patternNames(target))
+  }
+  return names
+}
+
+/**
+ * Names bound by target of assignment - a name, or names in destructuring pattern
+ */
+export function patternNames(target: SyntaxNode): string[] {
+  if (typeof target==='string') return [target]
+  if (!isPatternNode(target)) return []
+  const names: string[] = []
+  for (const item of target.slice(1)) {
+    // Object pair with key only, or key and target
+    const element = target[0]==='obj'
+      ? (Array.isArray(item) ? item[ item.length - 1 ] : undefined)
+      : item
+    const itemTarget = Array.isArray(element) && (element[0]==='def' || element[0]==='...')
+      ? element[1]
+      : element
+    names.push(...patternNames(itemTarget))
+  }
+  return names
+}
+
+/**
+ * Default values in destructuring pattern, in order
+ */
+export function patternDefaults(target: SyntaxNode): SyntaxNode[] {
+  if (!isPatternNode(target)) return []
+  const values: SyntaxNode[] = []
+  for (const item of target.slice(1)) {
+    const element = target[0]==='obj'
+      ? (Array.isArray(item) ? item[ item.length - 1 ] : undefined)
+      : item
+    if (!Array.isArray(element)) continue
+    if (element[0]==='def') values.push(...patternDefaults(element[1]), element[2])
+    else values.push(...patternDefaults(element[0]==='...' ? element[1] : element))
+  }
+  return values
+}
+
+// Symbols in match pattern which are not bound
+const matchConstants = ['_', 'nil', 'true', 'false']
+
+/**
+ * Names bound by pattern of match branch - literals and wildcard _ bind nothing
+ */
+export function matchPatternNames(pattern: SyntaxNode): string[] {
+  if (typeof pattern==='string') return matchConstants.includes(pattern) ? [] : [pattern]
+  if (!isPatternNode(pattern)) return []
+  const names: string[] = []
+  for (const item of pattern.slice(1)) {
+    // Object pair with key only, or key and pattern
+    const element = pattern[0]==='obj'
+      ? (Array.isArray(item) ? item[ item.length - 1 ] : undefined)
+      : item
+    const target = Array.isArray(element) && element[0]==='...' ? element[1] : element
+    for (const name of matchPatternNames(target)) {
+      if (!names.includes(name)) names.push(name)
+    }
+  }
+  return names
+}
@@ -0,0 +1,169 @@
+/**
+ * Syntax tree node types - list forms are tuples discriminated by their first element
+ */
+import type { Expression } from '../evaluate'
+
+// Variable name, or function name as first element of a call
+export type SymbolNode = string
+export type LiteralNode = number | boolean | null | undefined
+
+/**
+ * Function parameter - name, destructuring pattern, default value (def x 1), or rest (... x)
+ */
+export type ParameterNode = string | PatternNode
+  | ['def', string | PatternNode, SyntaxNode]
+  | ['...', string | PatternNode]
+
+// Destructuring pattern - list or object of names, with default values and rest
+export type PatternNode = ListNode | ObjNode
+
+export type DefNode = ['def', string | GetNode | PatternNode, SyntaxNode]
+// Variable in current scope, declared with let or const
+export type DeclareNode = ['var' | 'const', string | PatternNode, SyntaxNode]
+export type GetNode = ['get', SyntaxNode, ...SyntaxNode[]]
+// Optional member and call evaluate to nil if target is nil
+export type OptionalGetNode = ['get?', SyntaxNode, SyntaxNode]
+export type OptionalCallNode = ['call?', SyntaxNode, ...SyntaxNode[]]
+export type LambdaNode = ['λ' | 'lambda', ParameterNode[] | string, SyntaxNode]
+export type IfNode = ['if', SyntaxNode, SyntaxNode] | ['if', SyntaxNode, SyntaxNode, SyntaxNode]
+// Right side is evaluated only if needed
+export type LogicalNode = ['&&' | '||' | '??', SyntaxNode, SyntaxNode]
+// Bindings are pairs of name and value: (let (x 1 y 2) body)
+export type LetNode = ['let', (string | SyntaxNode)[], SyntaxNode]
+export type DoNode = ['do', ...SyntaxNode[]]
+// Loops evaluate body in its own scope for each iteration, with loop variable if any
+export type WhileNode = ['while', SyntaxNode, SyntaxNode]
+// Numeric range, inclusive: (for i start end step body)
+export type ForNode = ['for', string, SyntaxNode, SyntaxNode, SyntaxNode, SyntaxNode]
+export type ForInNode = ['for-in', string, SyntaxNode, SyntaxNode]
+// Exit from loop or function - return can have a value
+export type ExitNode = ['break'] | ['continue'] | ['return'] | ['return', SyntaxNode]
+// Pattern matching: (match value (pattern result) (pattern guard result) ..)
+export type MatchBranchNode = [SyntaxNode, SyntaxNode] | [SyntaxNode, SyntaxNode, SyntaxNode]
+export type MatchNode = ['match', SyntaxNode, ...MatchBranchNode[]]
+export type SpreadNode = ['...', SyntaxNode]
+export type ListNode = ['list', ...(SyntaxNode | SpreadNode)[]]
+// Key is a string, or expression to evaluate; { key } has no value
+export type ObjectPair = [string | SyntaxNode] | [string | SyntaxNode, SyntaxNode] | [SpreadNode]
+export type ObjNode = ['obj', ...ObjectPair[]]
+export type TryNode = ['try', SyntaxNode] | ['try', SyntaxNode, LambdaNode]
+// Quoted expression, unevaluated
+export type ExprNode = ['expr' | '`', any]
+export type MacroNode = ['macro' | '~', SyntaxNode]
+export type EvaNode = ['eva', SyntaxNode]
+export type CommentNode = ['comment', ...any[]]
+// Expression with type for type checker, unevaluated
+export type AnnotationNode = [':', SyntaxNode, any]
+export type CallNode = SyntaxNode[]
+
+export type FormNode =
+  | DefNode
+  | DeclareNode
+  | GetNode
+  | OptionalGetNode
+  | OptionalCallNode
+  | LambdaNode
+  | IfNode
+  | LogicalNode
+  | LetNode
+  | DoNode
+  | WhileNode
+  | ForNode
+  | ForInNode
+  | ExitNode
+  | MatchNode
+  | ListNode
+  | ObjNode
+  | TryNode
+  | ExprNode
+  | MacroNode
+  | EvaNode
+  | CommentNode
+  | SpreadNode
+  | AnnotationNode
+
+export type SyntaxNode = SymbolNode | LiteralNode | FormNode | CallNode
+
+/**
+ * Node type names
+ */
+export type NodeTypes = {
+  symbol: SymbolNode
+  literal: LiteralNode
+  def: DefNode
+  declare: DeclareNode
+  get: GetNode
+  optionalGet: OptionalGetNode
+  optionalCall: OptionalCallNode
+  lambda: LambdaNode
+  if: IfNode
+  logical: LogicalNode
+  let: LetNode
+  do: DoNode
+  while: WhileNode
+  for: ForNode
+  forIn: ForInNode
+  exit: ExitNode
+  match: MatchNode
+  list: ListNode
+  obj: ObjNode
+  try: TryNode
+  expr: ExprNode
+  macro: MacroNode
+  eva: EvaNode
+  comment: CommentNode
+  spread: SpreadNode
+  annotation: AnnotationNode
+  call: CallNode
+}
+
+export type NodeType = keyof NodeTypes
+
+// Aliases of special forms
+const formTypes: { [head: string]: NodeType } = {
+  def: 'def',
+  var: 'declare',
+  const: 'declare',
+  get: 'get',
+  'get?': 'optionalGet',
+  'call?': 'optionalCall',
+  'λ': 'lambda',
+  lambda: 'lambda',
+  if: 'if',
+  '&&': 'logical',
+  '||': 'logical',
+  '??': 'logical',
+  let: 'let',
+  do: 'do',
+  while: 'while',
+  for: 'for',
+  'for-in': 'forIn',
+  break: 'exit',
+  continue: 'exit',
+  return: 'exit',
+  match: 'match',
+  list: 'list',
+  obj: 'obj',
+  try: 'try',
+  expr: 'expr',
+  '`': 'expr',
+  macro: 'macro',
+  '~': 'macro',
+  eva: 'eva',
+  comment: 'comment',
+  '...': 'spread',
+  ':': 'annotation',
+}
+
+export function nodeType(node: SyntaxNode | Expression): NodeType {
+  if (Array.isArray(node)) {
+    return typeof node[0]==='string' && formTypes.hasOwnProperty(node[0])
+      ? formTypes[ node[0] ]
+      : 'call'
+  }
+  return typeof node==='string' ? 'symbol' : 'literal'
+}
+
+export function isNode<T extends NodeType>(node: SyntaxNode | Expression, type: T): node is NodeTypes[T] {
+  return nodeType(node)===type
+}
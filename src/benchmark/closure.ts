@@ -0,0 +1,95 @@
+/**
+ * Benchmark of compiled closures, compared to the interpreter - each program is
+ * parsed once, then evaluated or run as compiled function a number of times, and
+ * the fastest of a few rounds is taken
+ *
+ * yarn benchmark:closure [times=1]
+ */
+import { parse } from '../parse'
+import { evaluate, createEnvironment } from '../evaluate'
+import { compile } from '../closure'
+
+const times = parseFloat(process.argv[2]) || 1
+const rounds = 3
+
+const programs: { name: string, source: string, runs: number }[] = [
+  {
+    name: 'Formula',
+    source: 'price * quantity * (1 + tax) - (quantity > 10 ? discount : 0)',
+    runs: 200000,
+  },
+  {
+    name: 'Recursion',
+    source: 'fib = n => n < 2 ? n : fib(n - 1) + fib(n - 2); fib(18)',
+    runs: 20,
+  },
+  {
+    name: 'Loop',
+    source: `total = 0
+for (i = 1, 1000) total = total + (i > 500 ? i : 0)
+total`,
+    runs: 200,
+  },
+  {
+    name: 'List',
+    source: 'items->map(x => x * 2)->filter(x => x > 50)->reduce((sum, x) => sum + x, 0)',
+    runs: 2000,
+  },
+]
+
+const createInputs = () => createEnvironment({
+  price: 2.5,
+  quantity: 12,
+  tax: 0.2,
+  discount: 5,
+  items: Array.from({ length: 100 }, (_, i) => i),
+})
+
+function time(callback: () => void): number {
+  let fastest = Infinity
+  for (let i = 0; i < rounds; i++) {
+    const start = process.hrtime.bigint()
+    callback()
+    fastest = Math.min(fastest, Number(process.hrtime.bigint() - start) / 1e6)
+  }
+  return fastest
+}
+
+const format = (ms: number) => `${ms.toFixed(1)} ms`.padStart(12)
+
+function run() {
+
+  console.log(`${''.padEnd(12)}${'interpreter'.padStart(12)}${'closure'.padStart(12)}\n`)
+
+  for (const { name, source, runs } of programs) {
+
+    const ast = parse(source)
+    const count = Math.max(1, Math.round(runs * times))
+    const env = createInputs()
+    const compiled = compile(ast, env)
+
+    let expected: any
+    let result: any
+
+    // Warm up
+    evaluate(ast, createInputs())
+    compiled(createInputs())
+
+    const interpreted = time(() => {
+      for (let i = 0; i < count; i++) expected = evaluate(ast, env)
+    })
+    const closure = time(() => {
+      for (let i = 0; i < count; i++) result = compiled(env)
+    })
+
+    if (result!==expected) {
+      throw new Error(`${name}: closure returned ${result}, interpreter ${expected}`)
+    }
+
+    console.log(`${name.padEnd(12)}${format(interpreted)}${format(closure)}  ${
+      (interpreted / closure).toFixed(1)
+    }x`)
+  }
+}
+
+run()
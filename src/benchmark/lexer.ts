@@ -0,0 +1,116 @@
+/**
+ * Benchmark of lexer on large sources, compared to the previous lexer which matched
+ * each token type in turn on the rest of the source, and split the source before
+ * a position to find its line - it runs the same tokenizing and source map as
+ * parse, without the parser
+ *
+ * yarn benchmark [megabytes=4]
+ */
+import { Lexer, Token, EOF } from '../parse/Lexer'
+import { registerTokens } from '../parse/grammar'
+
+const megabytes = parseFloat(process.argv[2]) || 4
+
+// Maximum calls of previous line and column, which gets slower with position
+const maxPreviousPositions = 200
+
+const sample = `/**
+ * Sample program
+ */
+double = x => x * 2;
+items = [1, 2, 3, 4, 5]->map(double)->filter(x => x >= 4)
+total = items->reduce((sum, x) => sum + x, 0)
+config = { width: 80, name: "expreva", 'quoted': 'it\\'s' } // Settings
+result = total > 10 ? config.width / 2 : -1
+`
+
+function createSource() {
+  const size = megabytes * 1024 * 1024
+  return sample.repeat(Math.ceil(size / sample.length))
+}
+
+/**
+ * Previous lexer, with the same token types and iteration
+ */
+class PreviousLexer<T> extends Lexer<T> {
+
+  peek(position: number = this.position): Token<T> {
+    const read = (i: number): Token<T> => {
+      if (i >= this.source.length) return EOF(this) as Token<T>
+      const s = this.source.substr(i)
+      for (const item of this.getTokenTypes()) {
+        if (!item.enabled) continue
+        item.regex.lastIndex = 0
+        const result = item.regex.exec(s)
+        if (!result) continue
+        return item.skip
+          ? read(i + result[0].length)
+          : new Token(item.type, result[0], result.map(x => x), i, i + result[0].length, this)
+      }
+      throw new Error(`Unexpected input at ${i}`)
+    }
+    return read(position)
+  }
+
+  strpos(i: number) {
+    const lines = this.source.substring(0, i).split(/\r?\n/)
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 }
+  }
+}
+
+function time<R>(callback: () => R): { result: R, ms: number } {
+  const start = process.hrtime.bigint()
+  const result = callback()
+  return { result, ms: Number(process.hrtime.bigint() - start) / 1e6 }
+}
+
+const format = (ms: number) => `${ms.toFixed(1)} ms`.padStart(12)
+
+function run() {
+
+  const source = createSource()
+  const lexer = new Lexer(source)
+  const previous = new PreviousLexer(source)
+  registerTokens(lexer)
+  registerTokens(previous)
+
+  console.log(`Source: ${(source.length / 1024 / 1024).toFixed(1)} MB\n`)
+
+  const before = time(() => previous.toArray())
+  const current = time(() => lexer.toArray())
+
+  if (current.result.length!==before.result.length
+    || current.result.some((token, i) => token.start!==before.result[i].start
+      || token.type!==before.result[i].type
+    )
+  ) {
+    throw new Error('Lexers returned different tokens')
+  }
+
+  const count = current.result.length
+  console.log(`Tokens: ${count}\n`)
+  console.log(`Tokenize     ${'previous'.padStart(12)}${'current'.padStart(12)}`)
+  console.log(`             ${format(before.ms)}${format(current.ms)}  ${(before.ms / current.ms).toFixed(1)}x\n`)
+
+  // Line and column of every token, as with source map - previous lexer is
+  // estimated from evenly spaced tokens
+  const starts = current.result.map(token => token.start)
+  const step = Math.max(1, Math.floor(count / maxPreviousPositions))
+  const positions = starts.filter((_, i) => i % step===0)
+
+  const currentLines = time(() => starts.map(i => lexer.strpos(i)))
+  const previousLines = time(() => positions.map(i => previous.strpos(i)))
+
+  if (previousLines.result.some(({ line, column }, i) =>
+    line!==currentLines.result[i * step].line || column!==currentLines.result[i * step].column
+  )) {
+    throw new Error('Lexers returned different positions')
+  }
+
+  const estimate = previousLines.ms / positions.length * count
+
+  console.log(`Line and column of all tokens`)
+  console.log(`             ${format(estimate)}${format(currentLines.ms)}  ${(estimate / currentLines.ms).toFixed(1)}x`)
+}
+
+run()
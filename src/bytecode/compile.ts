@@ -0,0 +1,887 @@
+/**
+ * Compile syntax tree to bytecode for the stack machine
+ */
+
+import type { Expression } from '../evaluate'
+import { Pattern, PatternTarget, boundNames, isPattern, parsePattern, restKeys } from '../evaluate/pattern'
+import { matchNames, parseMatchBranches } from '../evaluate/match'
+import { chainTarget, isOptional, isOptionalChain } from '../evaluate/chain'
+import { SyntaxNode, declaredNames } from '../ast'
+import type { SourceMap, SourceSpan } from '../parse/sourceMap'
+import {
+  Bytecode,
+  FunctionCode,
+  Instruction,
+  bytecodeVersion
+} from './opcodes'
+
+export type CompileOptions = {
+  // Source map from parse, to locate runtime errors
+  sourceMap?: SourceMap
+  // Names of special forms, evaluated by the interpreter
+  specialForms?: string[]
+}
+
+// Scope of local variables at compile time
+type Scope = {
+  names: string[]
+  // Names declared with const
+  constants?: string[]
+  parent?: Scope
+}
+
+// Jump target, replaced with instruction index when function is compiled
+class Label {
+  position: number = -1
+}
+
+type FunctionBuilder = {
+  code: Instruction[]
+  spans: [number, SourceSpan | null][]
+  span: SourceSpan | null
+  isMain: boolean
+  loops: number // Depth of loops being compiled
+}
+
+export function compileBytecode(ast: Expression, options: CompileOptions = {}): Bytecode {
+  const compiler = new Compiler(options)
+  compiler.compileFunction([], ast, undefined, undefined, true)
+  return {
+    version: bytecodeVersion,
+    functions: compiler.functions
+  }
+}
+
+class Compiler {
+
+  functions: FunctionCode[] = []
+
+  // End of optional chain that the member or call being compiled continues
+  private chainEnd?: Label
+
+  constructor(private options: CompileOptions) {}
+
+  /**
+   * Compile function with parameters and body - returns its index in functions
+   */
+  compileFunction(
+    args: Expression[],
+    body: Expression,
+    scope?: Scope,
+    source?: Expression,
+    isMain: boolean = false
+  ): number {
+
+    const index = this.functions.length
+    const params: string[] = []
+    // Default value and destructuring pattern of parameters, in order
+    const initializers: { index: number, defaultValue?: Expression, pattern?: Pattern }[] = []
+    let rest: number | undefined
+
+    args.forEach((arg, i) => {
+      if (arg==='&') {
+        rest = i
+      } else if (typeof arg==='string') {
+        // Rest parameter after &
+        params[ args[i - 1]==='&' ? i - 1 : i ] = arg
+      } else if (isPattern(arg)) {
+        // Slot without name, for value to destructure
+        params[i] = ''
+        initializers.push({ index: i, pattern: parsePattern(arg) })
+      } else {
+        const [type, target, defaultValue] = arg as Expression[]
+        const pattern = isPattern(target) ? parsePattern(target) : undefined
+        params[i] = pattern ? '' : target as string
+        if (type==='...') rest = i
+        else initializers.push({ index: i, defaultValue, pattern })
+      }
+    })
+
+    const fn: FunctionCode = { params, code: [] }
+    if (rest!=null) fn.rest = rest
+    if (source) fn.source = source
+    this.functions.push(fn)
+
+    const builder: FunctionBuilder = { code: fn.code, spans: [], span: null, isMain, loops: 0 }
+    // Names in patterns and local variables come after parameters
+    const functionScope: Scope = { names: [...params], parent: scope }
+    for (const { pattern } of initializers) {
+      if (!pattern) continue
+      for (const name of boundNames(pattern)) {
+        if (!functionScope.names.includes(name)) functionScope.names.push(name)
+      }
+    }
+    if (!isMain) this.declare(body, functionScope)
+
+    // Default arguments, and destructuring
+    for (const { index, defaultValue, pattern } of initializers) {
+      if (defaultValue!==undefined) {
+        const target = new Label
+        this.emit(builder, ['load', 0, index])
+        this.emit(builder, ['jumpIfNotNil', target])
+        this.compile(defaultValue, builder, functionScope, false)
+        this.emit(builder, ['store', 0, index])
+        target.position = fn.code.length
+      }
+      if (!pattern) continue
+      this.emit(builder, ['load', 0, index])
+      this.compilePattern(pattern, builder, functionScope, name => {
+        this.emit(builder, ['dup'])
+        this.emit(builder, ['store', 0, functionScope.names.indexOf(name)])
+      })
+      this.emit(builder, ['pop'])
+    }
+
+    // Main function runs in the environment, without local scope
+    this.compile(body, builder, isMain ? undefined : functionScope, true)
+
+    if (functionScope.names.length > params.length) {
+      fn.locals = functionScope.names.slice(params.length)
+    }
+
+    // Replace labels with instruction index
+    for (const instruction of fn.code) {
+      instruction.forEach((operand, i) => {
+        if (operand instanceof Label) instruction[i] = operand.position
+      })
+    }
+
+    if (builder.spans.length) fn.spans = builder.spans
+    return index
+  }
+
+  emit(builder: FunctionBuilder, instruction: Instruction) {
+    const { code, spans, span } = builder
+    const lastSpan = spans.length ? spans[ spans.length - 1 ][1] : null
+    if (span!==lastSpan) spans.push([code.length, span])
+    code.push(instruction)
+  }
+
+  /**
+   * Resolve local variable to scope depth and index
+   */
+  resolve(name: string, scope?: Scope): [number, number] | undefined {
+    for (let depth = 0; scope; depth++, scope = scope.parent) {
+      const index = scope.names.lastIndexOf(name)
+      if (index >= 0) return [depth, index]
+    }
+    return
+  }
+
+  /**
+   * Add local variables declared in given body to scope, before compiling it -
+   * so functions in the same scope can call each other
+   */
+  declare(body: Expression, scope: Scope) {
+    for (const name of declaredNames(body as SyntaxNode)) {
+      if (!scope.names.includes(name)) scope.names.push(name)
+    }
+  }
+
+  isConstant(name: string, scope?: Scope): boolean {
+    for (; scope; scope = scope.parent) {
+      if (scope.names.includes(name)) {
+        return scope.constants!=null && scope.constants.includes(name)
+      }
+    }
+    return false
+  }
+
+  /**
+   * Check if expression can be compiled, or needs to fall back to the interpreter
+   */
+  isParamsSupported(args: Expression[]): boolean {
+    // Parameter name, or pattern
+    const isTarget = (target: Expression) => typeof target==='string' || parsePattern(target)!=null
+    return args.every((arg, i) => typeof arg==='string'
+      || (Array.isArray(arg) && args[i - 1]!=='&' && (
+        isPattern(arg) ? isTarget(arg)
+          : arg[0]==='def' ? isTarget(arg[1])
+            : arg[0]==='...' && typeof arg[1]==='string'
+      ))
+    )
+  }
+
+  /**
+   * Assign value on the stack to variable in nearest scope that has it, or environment
+   */
+  compileAssignment(varName: string, builder: FunctionBuilder, scope?: Scope) {
+    const slot = this.resolve(varName, scope)
+    if (!slot) {
+      this.emit(builder, ['def', varName])
+      return
+    }
+    if (this.isConstant(varName, scope)) {
+      this.emit(builder, ['error', `Cannot assign to constant "${varName}"`])
+      return
+    }
+    this.emit(builder, ['name', varName])
+    this.emit(builder, ['dup'])
+    this.emit(builder, ['store', ...slot])
+  }
+
+  /**
+   * Declare variable in current scope with value on the stack
+   */
+  compileDeclaration(varName: string, builder: FunctionBuilder, scope: Scope | undefined, constant: boolean) {
+
+    // Variable in environment
+    if (!scope) {
+      this.emit(builder, ['declare', varName, constant])
+      return
+    }
+
+    if (scope.constants && scope.constants.includes(varName)) {
+      this.emit(builder, ['error', `Cannot declare constant "${varName}" again`])
+      return
+    }
+    if (constant) (scope.constants || (scope.constants = [])).push(varName)
+
+    let index = scope.names.lastIndexOf(varName)
+    if (index < 0) index = scope.names.push(varName) - 1
+
+    this.emit(builder, ['name', varName])
+    this.emit(builder, ['dup'])
+    this.emit(builder, ['store', 0, index])
+  }
+
+  /**
+   * Destructure value on the stack with pattern, and leave it - given function
+   * binds each name to the item on the stack, and leaves it
+   */
+  compilePattern(
+    pattern: Pattern,
+    builder: FunctionBuilder,
+    scope: Scope | undefined,
+    bindName: (name: string) => void
+  ) {
+
+    const bind = (target: PatternTarget) => {
+      if (typeof target==='string') bindName(target)
+      else this.compilePattern(target, builder, scope, bindName)
+      this.emit(builder, ['pop'])
+    }
+
+    this.emit(builder, ['pattern', pattern.type, pattern.source])
+
+    for (const { key, target, defaultValue } of pattern.elements) {
+      this.emit(builder, ['item', key])
+      if (defaultValue!==undefined) {
+        const label = new Label
+        this.emit(builder, ['dup'])
+        this.emit(builder, ['jumpIfNotNil', label])
+        this.emit(builder, ['pop'])
+        this.compile(defaultValue, builder, scope, false)
+        label.position = builder.code.length
+      }
+      bind(target)
+    }
+
+    if (pattern.rest!=null) {
+      this.emit(builder, ['rest', restKeys(pattern)])
+      bind(pattern.rest)
+    }
+  }
+
+  /**
+   * Replace nil on the stack with nothing, after jump to given label - same
+   * result as the interpreter for optional chain
+   */
+  compileNothing(builder: FunctionBuilder, nilTarget: Label) {
+    const endTarget = new Label
+    this.emit(builder, ['jump', endTarget])
+    nilTarget.position = builder.code.length
+    this.emit(builder, ['pop'])
+    this.emit(builder, ['const'])
+    endTarget.position = builder.code.length
+  }
+
+  /**
+   * Compile target of member or call - in optional chain, a nil target after `?.`
+   * jumps to end of chain. Returns the end label for outermost member or call of
+   * chain, to compile nothing there.
+   */
+  compileChainTarget(ast: Expression[], builder: FunctionBuilder, scope: Scope | undefined): Label | undefined {
+
+    const continued = this.chainEnd
+    const end = continued || new Label
+    const target = chainTarget(ast) as Expression
+
+    this.chainEnd = isOptionalChain(target) ? end : undefined
+    this.compile(target, builder, scope, false)
+    this.chainEnd = undefined
+
+    if (isOptional(ast)) this.emit(builder, ['jumpIfNil', end])
+    return !continued && isOptionalChain(ast) ? end : undefined
+  }
+
+  /**
+   * Fall back to the interpreter
+   */
+  compileEval(ast: Expression, builder: FunctionBuilder, tail: boolean) {
+    this.emit(builder, ['const', ast])
+    this.emit(builder, ['eval'])
+    if (tail) this.emit(builder, ['return'])
+  }
+
+  /**
+   * Loop body in its own scope for each iteration, if it has loop variable on the
+   * stack or declares local variables - it jumps to given target for next iteration
+   */
+  compileLoopBody(
+    body: Expression,
+    builder: FunctionBuilder,
+    scope: Scope | undefined,
+    target: Label,
+    name?: string
+  ) {
+
+    const loopScope: Scope = { names: name!=null ? [name] : [], parent: scope }
+    this.declare(body, loopScope)
+
+    const hasScope = loopScope.names.length > 0
+
+    this.emit(builder, ['tick'])
+    if (hasScope) {
+      this.emit(builder, ['scope', loopScope.names])
+      if (name!=null) this.emit(builder, ['store', 0, 0])
+    }
+
+    builder.loops++
+    this.compile(body, builder, hasScope ? loopScope : scope, false)
+    builder.loops--
+
+    this.emit(builder, ['pop'])
+    if (hasScope) this.emit(builder, ['unscope'])
+    this.emit(builder, ['jump', target])
+  }
+
+  compile(ast: Expression, builder: FunctionBuilder, scope: Scope | undefined, tail: boolean) {
+
+    const { sourceMap } = this.options
+    const span = sourceMap && Array.isArray(ast) && sourceMap.get(ast)
+
+    if (!span) {
+      this.compileExpression(ast, builder, scope, tail)
+      return
+    }
+
+    const parentSpan = builder.span
+    builder.span = span
+    this.compileExpression(ast, builder, scope, tail)
+    builder.span = parentSpan
+  }
+
+  compileExpression(ast: Expression, builder: FunctionBuilder, scope: Scope | undefined, tail: boolean) {
+
+    const emit = (instruction: Instruction) => this.emit(builder, instruction)
+    const compile = (ast: Expression, tail: boolean = false) => this.compile(ast, builder, scope, tail)
+    const done = () => tail && emit(['return'])
+    const position = () => builder.code.length
+
+    if (!Array.isArray(ast)) {
+      if (typeof ast==='string') {
+        const slot = this.resolve(ast, scope)
+        emit(slot ? ['load', ...slot]
+          : ast==='local' ? ['local']
+          : ['global', ast]
+        )
+      } else {
+        emit(ast===undefined ? ['const'] : ['const', ast])
+      }
+      return done()
+    }
+
+    switch (ast[0]) {
+
+    case '~':
+    case 'macro':
+      compile(ast[1])
+      emit(['markMacro'])
+      return done()
+
+    case '`':
+    case 'expr':
+      emit(['const', ast[1]])
+      return done()
+
+    case 'eva':
+      compile(ast[1])
+      emit(['eval'])
+      return done()
+
+    // Type annotation
+    case ':':
+      return compile(ast[1], tail)
+
+    case 'comment':
+      emit(['const'])
+      return done()
+
+    case 'list': {
+      const exprs = ast.slice(1)
+      if (!exprs.some(expr => Array.isArray(expr) && expr[0]==='...')) {
+        exprs.forEach(expr => compile(expr))
+        emit(['list', exprs.length])
+        return done()
+      }
+      emit(['list', 0])
+      for (const expr of exprs) {
+        if (Array.isArray(expr) && expr[0]==='...') {
+          compile(expr.slice(1))
+          emit(['appendAll'])
+        } else {
+          compile(expr)
+          emit(['append'])
+        }
+      }
+      emit(['checkSize'])
+      return done()
+    }
+
+    case 'obj':
+      emit(['obj'])
+      for (let pair of ast.slice(1)) {
+
+        if (pair==null || !Array.isArray(pair)) continue
+
+        if (pair[1]==null) {
+          const left = pair[0]
+          // Spread
+          if (Array.isArray(left) && left[0]==='...') {
+            compile(left.slice(1))
+            emit(['assign'])
+            continue
+          }
+          // { key } becomes { key: key }
+          pair = [left, left]
+        }
+
+        const [left, right] = pair as Expression[]
+
+        if (typeof left==='object') compile(left)
+        else emit(['const', left])
+
+        compile(right)
+        emit(['setKey'])
+      }
+      return done()
+
+    case 'def': {
+      const varName = ast[1]
+
+      // Destructuring pattern - assign each name
+      if (isPattern(varName)) {
+        const pattern = parsePattern(varName)
+        if (!pattern) return this.compileEval(ast, builder, tail)
+        compile(ast[2])
+        this.compilePattern(pattern, builder, scope, name => this.compileAssignment(name, builder, scope))
+        return done()
+      }
+
+      // Set member
+      if (Array.isArray(varName)) {
+        if (varName[0]!=='get' || varName.length < 3) {
+          return this.compileEval(ast, builder, tail)
+        }
+        const members = varName.slice(2)
+        const member = members.pop()
+        const target = new Label
+
+        compile(varName[1])
+        members.forEach((member, i) => {
+          compile(member)
+          emit(['member', i===0])
+          emit(['jumpIfNil', target])
+        })
+
+        compile(member as Expression)
+        compile(ast[2])
+        emit(['setMember', !members.length])
+        target.position = position()
+        return done()
+      }
+
+      compile(ast[2])
+
+      if (typeof varName!=='string') {
+        emit(['pop'])
+        emit(['const'])
+        return done()
+      }
+
+      this.compileAssignment(varName, builder, scope)
+      return done()
+    }
+
+    // Declare variable in current scope
+    case 'var':
+    case 'const': {
+      const varName = ast[1]
+      const constant = ast[0]==='const'
+      const pattern = isPattern(varName) ? parsePattern(varName) : undefined
+      if (typeof varName!=='string' && !pattern) {
+        return this.compileEval(ast, builder, tail)
+      }
+
+      compile(ast[2])
+
+      if (pattern) {
+        this.compilePattern(pattern, builder, scope, name => {
+          this.compileDeclaration(name, builder, scope, constant)
+        })
+      } else {
+        this.compileDeclaration(varName as string, builder, scope, constant)
+      }
+      return done()
+    }
+
+    case 'get?':
+    case 'get': {
+      const members = ast.slice(2)
+      const target = new Label
+      const chainEnd = this.compileChainTarget(ast, builder, scope)
+
+      for (let i = 0; i < members.length; i++) {
+
+        const member = members[i]
+
+        // Member can be an expression to define
+        if (Array.isArray(member) && member[0]==='def') {
+          emit(['const', member[1]])
+          compile(member[2])
+          emit(['setMember', i===0])
+          break
+        }
+
+        compile(member)
+        emit(['member', i===0])
+        if (i < members.length - 1) emit(['jumpIfNil', target])
+      }
+
+      target.position = position()
+      if (chainEnd) this.compileNothing(builder, chainEnd)
+      return done()
+    }
+
+    case 'try': {
+      const handler = ast[2]
+      const argDef = Array.isArray(handler)
+        ? Array.isArray(handler[1]) ? handler[1] : [ handler[1] ]
+        : []
+
+      if (!argDef.every(arg => typeof arg==='string')) {
+        return this.compileEval(ast, builder, tail)
+      }
+
+      const catchTarget = new Label
+      const endTarget = new Label
+
+      emit(['try', catchTarget])
+      compile(ast[1]) // Not in tail position, to catch errors
+      emit(['endTry'])
+      emit(['jump', endTarget])
+
+      // Error is on the stack
+      catchTarget.position = position()
+
+      if (!Array.isArray(handler)) {
+        emit(['pop'])
+        emit(['const'])
+      } else {
+        const catchScope: Scope = { names: [...argDef as string[]], parent: scope }
+        this.declare(handler[2], catchScope)
+        emit(['scope', catchScope.names])
+        emit(['store', 0, 0])
+        this.compile(handler[2], builder, catchScope, false)
+        emit(['unscope'])
+      }
+
+      endTarget.position = position()
+      return done()
+    }
+
+    case 'λ':
+    case 'lambda': {
+      const args = Array.isArray(ast[1]) ? ast[1] : []
+      if (!this.isParamsSupported(args)) {
+        return this.compileEval(ast, builder, tail)
+      }
+      const index = this.compileFunction(args, ast[2], scope, ['λ', args, ast[2]])
+      emit(['lambda', index])
+      return done()
+    }
+
+    // Loops - result is nothing
+
+    case 'while': {
+      const breakTarget = new Label
+      const continueTarget = new Label
+
+      emit(['loop', breakTarget, continueTarget])
+      continueTarget.position = position()
+      compile(ast[1])
+      emit(['jumpIfFalse', breakTarget])
+      this.compileLoopBody(ast[2], builder, scope, continueTarget)
+
+      breakTarget.position = position()
+      emit(['endLoop'])
+      emit(['const'])
+      return done()
+    }
+
+    case 'for':
+    case 'for-in': {
+      const name = ast[1]
+      if (typeof name!=='string') {
+        return this.compileEval(ast, builder, tail)
+      }
+
+      const breakTarget = new Label
+      const continueTarget = new Label
+
+      // Iterator stays on the stack during loop
+      if (ast[0]==='for') {
+        ast.slice(2, 5).forEach(expr => compile(expr))
+        emit(['range'])
+      } else {
+        compile(ast[2])
+        emit(['iterate'])
+      }
+
+      emit(['loop', breakTarget, continueTarget])
+      continueTarget.position = position()
+      emit(['next', breakTarget])
+      this.compileLoopBody(ast[ ast.length-1 ], builder, scope, continueTarget, name)
+
+      breakTarget.position = position()
+      emit(['endLoop'])
+      emit(['pop'])
+      emit(['const'])
+      return done()
+    }
+
+    case 'break':
+    case 'continue':
+      emit(builder.loops ? [ast[0]] : ['exit', ast[0]])
+      return
+
+    case 'return':
+      if (builder.isMain) {
+        emit(['exit', 'return'])
+        return
+      }
+      if (ast[1]==null) {
+        emit(['const'])
+        emit(['return'])
+        return
+      }
+      // Function body in tail position
+      if (tail) return compile(ast[1], true)
+      compile(ast[1])
+      emit(['return'])
+      return
+
+    case 'let': {
+      if (ast[1]==null || !Array.isArray(ast[1])) {
+        emit(['const'])
+        return done()
+      }
+
+      const pairs = ast[1] as Expression[]
+      const keys = pairs.filter((_, i) => i % 2===0)
+
+      if (!keys.every(key => typeof key==='string')) {
+        return this.compileEval(ast, builder, tail)
+      }
+
+      const letScope: Scope = { names: [], parent: scope }
+      this.declare(ast[2], letScope)
+      emit(['scope', letScope.names])
+
+      pairs.forEach((value, i) => {
+        if (!(i % 2)) return
+        const key = pairs[ i - 1 ] as string
+        this.compile(value, builder, letScope, false)
+        let index = letScope.names.indexOf(key)
+        if (index < 0) index = letScope.names.push(key) - 1
+        emit(['store', 0, index])
+      })
+
+      this.compile(ast[2], builder, letScope, tail)
+      if (!tail) emit(['unscope'])
+      return
+    }
+
+    // Value stays on the stack until a branch matches, and each branch has its
+    // own scope with names bound by pattern
+    case 'match': {
+      const branches = parseMatchBranches(ast)
+      if (!branches) return this.compileEval(ast, builder, tail)
+
+      const endTarget = new Label
+
+      compile(ast[1])
+
+      for (const { pattern, guard, result } of branches) {
+
+        const failTarget = new Label
+        const guardTarget = new Label
+        const names = matchNames(pattern)
+        const branchScope: Scope = { names: [...names], parent: scope }
+
+        if (guard!==undefined) this.declare(guard, branchScope)
+        this.declare(result, branchScope)
+
+        emit(['match', pattern, names])
+        emit(['jumpIfNil', failTarget])
+        emit(['scope', branchScope.names])
+        names.forEach((_, i) => {
+          emit(['item', i])
+          emit(['store', 0, i])
+        })
+        emit(['pop'])
+
+        if (guard!==undefined) {
+          this.compile(guard, builder, branchScope, false)
+          emit(['jumpIfFalse', guardTarget])
+        }
+
+        emit(['pop'])
+        this.compile(result, builder, branchScope, tail)
+        if (!tail) {
+          emit(['unscope'])
+          emit(['jump', endTarget])
+        }
+
+        // Guard is false - same stack as no match
+        guardTarget.position = position()
+        emit(['unscope'])
+        emit(['const'])
+
+        failTarget.position = position()
+        emit(['pop'])
+      }
+
+      emit(['noMatch'])
+      endTarget.position = position()
+      return
+    }
+
+    case 'do': {
+      const last = ast.length-1
+      if (last===0) {
+        emit(['const'])
+        return done()
+      }
+      ast.slice(1, last).forEach(expr => {
+        compile(expr)
+        emit(['pop'])
+      })
+      return compile(ast[ last ], tail)
+    }
+
+    case 'if': {
+      if (ast[1]==null) {
+        emit(['error', 'No condition for if'])
+        return
+      }
+      if (ast[2]==null) {
+        emit(['error', 'No true branch for if'])
+        return
+      }
+
+      const elseTarget = new Label
+      const endTarget = new Label
+
+      compile(ast[1])
+      emit(['jumpIfFalse', elseTarget])
+      compile(ast[2], tail)
+      if (!tail) emit(['jump', endTarget])
+
+      elseTarget.position = position()
+      if (ast[3]==null) {
+        emit(['const'])
+        done()
+      } else {
+        compile(ast[3], tail)
+      }
+      endTarget.position = position()
+      return
+    }
+
+    // Logical operators - left value is the result, unless right side is needed
+    case '&&':
+    case '||':
+    case '??': {
+      const rightTarget = new Label
+      const endTarget = new Label
+
+      compile(ast[1])
+      emit(['dup'])
+
+      if (ast[0]==='&&') {
+        emit(['jumpIfFalse', endTarget])
+      } else if (ast[0]==='||') {
+        emit(['jumpIfFalse', rightTarget])
+        emit(['jump', endTarget])
+      } else {
+        emit(['jumpIfNotNil', endTarget])
+      }
+
+      rightTarget.position = position()
+      emit(['pop'])
+      compile(ast[2], tail)
+
+      endTarget.position = position()
+      return done()
+    }
+
+    // Optional call - nothing if function is nil
+    case 'call?': {
+      const args = ast.slice(2)
+      const chainEnd = this.compileChainTarget(ast, builder, scope)
+
+      args.forEach(expr => compile(expr))
+      emit([tail ? 'tailCall' : 'call', args.length])
+
+      if (chainEnd) this.compileNothing(builder, chainEnd)
+      return done()
+    }
+    }
+
+    // Invoke list form
+
+    if (this.options.specialForms && this.options.specialForms.includes(ast[0] as string)) {
+      return this.compileEval(ast, builder, tail)
+    }
+
+    if (!ast.length) {
+      emit(['const'])
+      return done()
+    }
+
+    // Call in optional chain
+    if (isOptionalChain(ast)) {
+      const chainEnd = this.compileChainTarget(ast, builder, scope)
+      ast.slice(1).forEach(expr => compile(expr))
+      emit([tail ? 'tailCall' : 'call', ast.length - 1])
+      if (chainEnd) this.compileNothing(builder, chainEnd)
+      return done()
+    }
+
+    // Macro is expanded at top level, where the interpreter would find it in scope
+    const macroTarget = new Label
+    const isMacroCandidate = !scope && typeof ast[0]==='string'
+
+    if (isMacroCandidate) emit(['macro', ast[0], ast, macroTarget])
+
+    ast.forEach(expr => compile(expr))
+    emit([tail ? 'tailCall' : 'call', ast.length - 1])
+
+    if (isMacroCandidate) {
+      macroTarget.position = position()
+      done()
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export * from './opcodes'
+export { compileBytecode } from './compile'
+export type { CompileOptions } from './compile'
+export { runBytecode, isCompiledFunction } from './machine'
+export type { CompiledFunction } from './machine'
@@ -0,0 +1,602 @@
+/**
+ * Stack machine to run bytecode
+ *
+ * Calls between compiled functions do not use the JavaScript stack, and calls in
+ * tail position reuse the current activation.
+ */
+
+import {
+  ExpressionResult,
+  RuntimeEnvironment,
+  RuntimeError,
+  EvaluationContext,
+  EvaluateOptions,
+  BudgetExceededError,
+  Exit,
+  assignVariable,
+  bindFunctionScope,
+  createEnvironment,
+  createScope,
+  declareVariable,
+  evaluate,
+  evaluateExpression,
+  exitError,
+  expandMacro,
+  getContext,
+  getSandbox,
+  loopItems,
+  loopRange,
+  matchPattern,
+  matchValue,
+  noMatch,
+  patternItem,
+  patternRest,
+  throwError,
+  withContext,
+} from '../evaluate'
+import { syntaxTreeToString } from '../format'
+import type { SourceSpan } from '../parse/sourceMap'
+import { Bytecode, FunctionCode } from './opcodes'
+
+// Scope of local variables at run time
+type Frame = {
+  slots: any[]
+  names: string[]
+  parent?: Frame
+}
+
+type Closure = {
+  program: Bytecode
+  fn: FunctionCode
+  scope?: Frame
+  env: RuntimeEnvironment
+}
+
+export interface CompiledFunction {
+  (...args: any[]): any
+  closure: Closure
+}
+
+type Activation = {
+  closure: Closure
+  pc: number
+  scope?: Frame
+  stackBase: number
+  hasCallFrame: boolean
+}
+
+type Handler = {
+  calls: number // Number of activations
+  loops: number // Number of loops
+  stackHeight: number
+  scope?: Frame
+  pc: number
+}
+
+type Loop = {
+  calls: number // Number of activations
+  handlers: number // Number of error handlers
+  stackHeight: number
+  scope?: Frame
+  breakPc: number
+  continuePc: number
+}
+
+export function runBytecode(
+  program: Bytecode,
+  givenEnv?: RuntimeEnvironment,
+  options?: EvaluateOptions
+): ExpressionResult {
+
+  const env = givenEnv ? givenEnv : createEnvironment()
+  const run = () => execute({ program, fn: program.functions[0], env }, [])
+
+  return options
+    ? withContext(env, new EvaluationContext(options), run)
+    : run()
+}
+
+function createFrame(fn: FunctionCode, args: any[], parent?: Frame): Frame {
+  const slots = fn.params.map((_, i) => i===fn.rest ? args.slice(i) : args[i])
+  return { slots, names: fn.locals ? fn.params.concat(fn.locals) : fn.params, parent }
+}
+
+/**
+ * Create environment from local scopes, to evaluate with the interpreter
+ */
+function materialize(env: RuntimeEnvironment, scope?: Frame): RuntimeEnvironment {
+  if (!scope) return env
+  const props: { [key: string]: any } = {}
+  scope.names.forEach((name, i) => props[name] = scope.slots[i])
+  return createScope(materialize(env, scope.parent), props)
+}
+
+function spanAt(fn: FunctionCode, pc: number): SourceSpan | undefined {
+  if (!fn.spans) return
+  let span
+  for (const [index, s] of fn.spans) {
+    if (index > pc) break
+    span = s
+  }
+  return span || undefined
+}
+
+function createFunction(closure: Closure): CompiledFunction {
+  const f: CompiledFunction = Object.assign(
+    // Called from host
+    (...args: any[]) => execute(closure, args, f.name || 'anonymous'),
+    {
+      toString() {
+        return syntaxTreeToString(closure.fn.source || ['λ', [], []])
+      }
+    }
+  ) as CompiledFunction
+  Object.defineProperty(f, 'closure', {
+    value: closure,
+    enumerable: false,
+    writable: false
+  })
+  return f
+}
+
+/**
+ * Execute function, with name if it's a function call
+ */
+function execute(entry: Closure, args: any[], name?: string): ExpressionResult {
+
+  const context = getContext(entry.env)
+  const sandbox = getSandbox(entry.env)
+  const budget = context && context.budget
+
+  const stack: any[] = []
+  const calls: Activation[] = []
+  const handlers: Handler[] = []
+  const loops: Loop[] = []
+
+  let activation!: Activation
+  let closure: Closure = entry
+  let env: RuntimeEnvironment = entry.env
+  let code: FunctionCode['code'] = entry.fn.code
+  let scope: Frame | undefined
+  let pc = 0
+
+  const enter = (target: Closure, args: any[], name?: string, location?: SourceSpan) => {
+    const hasCallFrame = name!=null
+    if (hasCallFrame && context) {
+      context.enterCall({ name: name!, location })
+    }
+    activation = {
+      closure: target,
+      pc: 0,
+      scope: target.fn.params.length || target.fn.locals || target.scope
+        ? createFrame(target.fn, args, target.scope)
+        : undefined,
+      stackBase: stack.length,
+      hasCallFrame: hasCallFrame && context!=null
+    }
+    calls.push(activation)
+    closure = target
+    env = target.env
+    code = target.fn.code
+    scope = activation.scope
+    pc = 0
+    if (budget) budget.checkDepth()
+  }
+
+  const exit = () => {
+    const exited = calls.pop()!
+    if (exited.hasCallFrame) context!.exitCall()
+    // Handlers and loops of exited activation
+    while (handlers.length && handlers[ handlers.length - 1 ].calls > calls.length) handlers.pop()
+    while (loops.length && loops[ loops.length - 1 ].calls > calls.length) loops.pop()
+    if (!calls.length) return
+    activation = calls[ calls.length - 1 ]
+    closure = activation.closure
+    env = closure.env
+    code = closure.fn.code
+    scope = activation.scope
+    pc = activation.pc
+  }
+
+  const lookup = (depth: number) => {
+    let frame = scope!
+    while (depth--) frame = frame.parent!
+    return frame
+  }
+
+  enter(entry, args, name)
+
+  while (true) {
+    try {
+      while (true) {
+
+        const instruction = code[ pc++ ]
+
+        switch (instruction[0]) {
+
+        case 'const':
+          stack.push(instruction[1])
+          continue
+
+        case 'load':
+          stack.push(lookup(instruction[1]).slots[ instruction[2] ])
+          continue
+
+        case 'store':
+          lookup(instruction[1]).slots[ instruction[2] ] = stack.pop()
+          continue
+
+        case 'global':
+          stack.push(evaluateExpression(instruction[1], env))
+          continue
+
+        case 'local':
+          stack.push(materialize(env, scope))
+          continue
+
+        case 'def': {
+          const value = stack[ stack.length - 1 ]
+          const varName = instruction[1]
+          // If assigning function, it takes the variable name
+          if (value instanceof Function) {
+            Reflect.defineProperty(value, 'name', { value: varName })
+          }
+          // Variable in scope that has it, or global environment
+          assignVariable(env, varName, value)
+          continue
+        }
+
+        case 'declare': {
+          const value = stack[ stack.length - 1 ]
+          const varName = instruction[1]
+          if (value instanceof Function) {
+            Reflect.defineProperty(value, 'name', { value: varName })
+          }
+          declareVariable(env, varName, value, instruction[2])
+          continue
+        }
+
+        case 'name': {
+          const value = stack[ stack.length - 1 ]
+          if (value instanceof Function) {
+            Reflect.defineProperty(value, 'name', { value: instruction[1] })
+          }
+          continue
+        }
+
+        case 'pop':
+          stack.pop()
+          continue
+
+        case 'dup':
+          stack.push(stack[ stack.length - 1 ])
+          continue
+
+        case 'list': {
+          const list = stack.splice(stack.length - instruction[1], instruction[1])
+          stack.push(budget ? budget.checkSize(list) : list)
+          continue
+        }
+
+        case 'append': {
+          const value = stack.pop()
+          stack[ stack.length - 1 ].push(value)
+          continue
+        }
+
+        case 'appendAll': {
+          const values = stack.pop()
+          stack[ stack.length - 1 ].push(...values)
+          continue
+        }
+
+        case 'checkSize':
+          if (budget) budget.checkSize(stack[ stack.length - 1 ])
+          continue
+
+        case 'obj':
+          stack.push({})
+          continue
+
+        case 'setKey': {
+          const value = stack.pop()
+          const key = stack.pop()
+          stack[ stack.length - 1 ][ key ] = value
+          continue
+        }
+
+        case 'assign': {
+          const values = stack.pop()
+          Object.assign(stack[ stack.length - 1 ], values)
+          continue
+        }
+
+        case 'member': {
+          const key = stack.pop()
+          const value = stack.pop()
+
+          if (instruction[1] && typeof value!=='object') {
+            return throwError({
+              message: 'Cannot access member: not an array or object'
+            })
+          }
+          if (key instanceof Function) {
+            stack.push(key(value))
+            continue
+          }
+          if (sandbox) sandbox.checkMember(value, key)
+          if ((typeof key!=='string' && typeof key!=='number')
+            || value[key]==null
+            || key==='__proto__'
+          ) {
+            stack.push(undefined)
+            continue
+          }
+          stack.push(value[key] instanceof Function
+            ? value[key].bind(value)
+            : value[key]
+          )
+          continue
+        }
+
+        case 'setMember': {
+          const member = stack.pop()
+          const key = stack.pop()
+          const value = stack.pop()
+
+          if (instruction[1] && typeof value!=='object') {
+            return throwError({
+              message: 'Cannot access member: not an array or object'
+            })
+          }
+          if (sandbox) sandbox.checkMember(value, key)
+          stack.push(value[ key ] = member)
+          continue
+        }
+
+        case 'pattern':
+          matchPattern(instruction[1], instruction[2], stack[ stack.length - 1 ])
+          continue
+
+        case 'item':
+          stack.push(patternItem(stack[ stack.length - 1 ], instruction[1], env))
+          continue
+
+        case 'rest':
+          stack.push(patternRest(stack[ stack.length - 1 ], instruction[1]))
+          continue
+
+        case 'match': {
+          const names: string[] = instruction[2]
+          const bound: any[] = []
+          const isMatch = matchValue(instruction[1], stack[ stack.length - 1 ], env, (name, item) => {
+            bound[ names.indexOf(name) ] = item
+          })
+          stack.push(isMatch ? bound : undefined)
+          continue
+        }
+
+        case 'noMatch':
+          return noMatch(stack.pop())
+
+        case 'jump':
+          pc = instruction[1]
+          continue
+
+        case 'jumpIfFalse':
+          if (!stack.pop()) pc = instruction[1]
+          continue
+
+        case 'jumpIfNil':
+          if (stack[ stack.length - 1 ]==null) pc = instruction[1]
+          continue
+
+        case 'jumpIfNotNil':
+          if (stack.pop()!=null) pc = instruction[1]
+          continue
+
+        case 'scope':
+          scope = activation.scope = {
+            slots: [],
+            names: instruction[1],
+            parent: scope
+          }
+          continue
+
+        case 'unscope':
+          scope = activation.scope = scope!.parent
+          continue
+
+        case 'lambda':
+          stack.push(createFunction({
+            program: closure.program,
+            fn: closure.program.functions[ instruction[1] ],
+            scope,
+            env
+          }))
+          continue
+
+        case 'markMacro':
+          stack[ stack.length - 1 ].isMacro = true
+          continue
+
+        case 'macro': {
+          const value = env[ instruction[1] ]
+          if (!value || !value.isMacro) continue
+          stack.push(evaluate(expandMacro(instruction[2], env), env))
+          pc = instruction[3]
+          continue
+        }
+
+        case 'eval':
+          stack.push(evaluate(stack.pop(), materialize(env, scope)))
+          continue
+
+        case 'try':
+          handlers.push({
+            calls: calls.length,
+            loops: loops.length,
+            stackHeight: stack.length,
+            scope,
+            pc: instruction[1]
+          })
+          continue
+
+        case 'endTry':
+          handlers.pop()
+          continue
+
+        case 'error':
+          return throwError({ message: instruction[1] })
+
+        case 'iterate':
+          stack.push(loopItems(stack.pop()))
+          continue
+
+        case 'range': {
+          const [start, end, step] = stack.splice(stack.length - 3, 3)
+          stack.push(loopRange(start, end, step, env))
+          continue
+        }
+
+        case 'next': {
+          const item = stack[ stack.length - 1 ].next()
+          if (item.done) pc = instruction[1]
+          else stack.push(item.value)
+          continue
+        }
+
+        case 'loop':
+          loops.push({
+            calls: calls.length,
+            handlers: handlers.length,
+            stackHeight: stack.length,
+            scope,
+            breakPc: instruction[1],
+            continuePc: instruction[2]
+          })
+          continue
+
+        case 'endLoop':
+          loops.pop()
+          continue
+
+        case 'break':
+        case 'continue': {
+          const loop = loops[ loops.length - 1 ]
+          stack.length = loop.stackHeight
+          handlers.length = loop.handlers
+          scope = activation.scope = loop.scope
+          pc = instruction[0]==='break' ? loop.breakPc : loop.continuePc
+          continue
+        }
+
+        case 'tick':
+          if (budget) budget.tick()
+          continue
+
+        case 'exit':
+          throw new Exit(instruction[1])
+
+        case 'return': {
+          const value = stack.pop()
+          stack.length = activation.stackBase
+          exit()
+          if (!calls.length) return value
+          stack.push(value)
+          continue
+        }
+
+        case 'call':
+        case 'tailCall': {
+
+          if (budget) budget.tick()
+
+          const isTail = instruction[0]==='tailCall'
+          const callArgs = stack.splice(stack.length - instruction[1], instruction[1])
+          const f = stack.pop()
+
+          // Compiled function
+          if (isCompiledFunction(f)) {
+            const location = context ? spanAt(closure.fn, pc - 1) : undefined
+            if (isTail) {
+              // Replace current activation
+              const { hasCallFrame } = activation!
+              stack.length = activation.stackBase
+              calls.pop()
+              if (hasCallFrame) context!.exitCall()
+            } else {
+              activation.pc = pc
+            }
+            enter(f.closure, callArgs, f.name || 'anonymous', location)
+            continue
+          }
+
+          let result
+          if (f==null) {
+            result = undefined
+          } else if (Array.isArray(f) && f[0]==='lambda') {
+            // Function in environment defined as list form
+            result = evaluate(
+              f[2],
+              bindFunctionScope(materialize(env, scope), f[1], callArgs)
+            )
+          } else if (f instanceof Function) {
+            // Lambda from interpreter, or function in environment
+            result = f(...callArgs)
+            if (!f.lambda && budget) budget.checkSize(result)
+          } else {
+            result = f
+          }
+
+          if (!isTail) {
+            stack.push(result)
+            continue
+          }
+
+          stack.length = activation.stackBase
+          exit()
+          if (!calls.length) return result
+          stack.push(result)
+          continue
+        }
+
+        default:
+          throw new RuntimeError(`Unknown instruction: ${instruction[0]}`)
+        }
+      }
+    } catch (e) {
+
+      const handler = handlers.pop()
+
+      // Running out of budget, or exit from loop or function, cannot be caught
+      if (!handler || e instanceof BudgetExceededError || e instanceof Exit) {
+        if (e instanceof Exit) e = exitError(e)
+        if (context && e instanceof RuntimeError) {
+          // Location of failed instruction, or the innermost call with known location
+          for (let i = calls.length - 1; i >= 0 && !e.location; i--) {
+            const location = i===calls.length - 1
+              ? spanAt(closure.fn, pc - 1)
+              : spanAt(calls[i].closure.fn, calls[i].pc - 1)
+            if (location) e.location = location
+          }
+          context.annotate(e, undefined)
+        }
+        while (calls.length) exit()
+        throw e
+      }
+
+      // Unwind to handler
+      while (calls.length > handler.calls) exit()
+      loops.length = handler.loops
+      stack.length = handler.stackHeight
+      scope = activation.scope = handler.scope
+      pc = handler.pc
+      stack.push(e)
+    }
+  }
+}
+
+export function isCompiledFunction(value: any): value is CompiledFunction {
+  return value instanceof Function && (value as CompiledFunction).closure!=null
+}
@@ -0,0 +1,83 @@
+import type { Expression } from '../evaluate'
+import type { SourceSpan } from '../parse/sourceMap'
+
+/**
+ * Bytecode is a JSON-serializable program for the stack machine.
+ *
+ * Each instruction is a list with operation name and its operands. Local variables
+ * are resolved at compile time to slots, by number of scopes up and index in scope.
+ *
+ * Stack effect of each operation, with operands in brackets:
+ *
+ * const [value]              -- value
+ * load [depth, index]        -- value of local variable
+ * store [depth, index]       value --
+ * global [name]              -- value of variable in environment
+ * local                      -- local environment, as object
+ * def [name]                 value -- value, set in environment scope that has it, or global
+ * declare [name, constant]   value -- value, declared in environment
+ * name [name]                value -- value, function takes variable name
+ * pop                        value --
+ * dup                        value -- value value
+ *
+ * list [count]               ...values -- list
+ * append                     list value -- list
+ * appendAll                  list values -- list
+ * checkSize                  list -- list, within size budget
+ * obj                        -- object
+ * setKey                     object key value -- object
+ * assign                     object values -- object
+ * member [first]             value key -- member value
+ * setMember [first]          value key member -- member
+ * pattern [type, source]     value -- value, or error if it's not a list or object to destructure
+ * item [key]                 value -- value item, of list or object
+ * rest [keys]                value -- value rest, of list from index or object without keys
+ * match [pattern, names]     value -- value bound, list of values bound to names, or nil if no match
+ * noMatch                    value -- , throw runtime error that no branch matches value
+ *
+ * jump [target]              --
+ * jumpIfFalse [target]       value --
+ * jumpIfNil [target]         value -- value
+ * jumpIfNotNil [target]      value --
+ *
+ * scope [names]              -- , enter new scope
+ * unscope                    -- , exit scope
+ * lambda [function]          -- function
+ * markMacro                  function -- function
+ * call [count]               function ...args -- result
+ * tailCall [count]           function ...args -- , return result
+ * return                     value -- , return value
+ * macro [name, expr, target] -- , if name is macro: -- result, and jump
+ * eval                       expr -- result, evaluated with interpreter
+ *
+ * try [target]               -- , on error: jump to target with error on stack
+ * endTry                     --
+ * error [message]            -- , throw runtime error
+ *
+ * iterate                    collection -- iterator, of items or entries
+ * range                      start end step -- iterator, of numbers
+ * next [target]              iterator -- iterator item, or jump to target when done
+ * loop [break, continue]     -- , enter loop with targets for break and continue
+ * endLoop                    -- , exit loop
+ * break                      -- , restore stack and scope of loop, and jump to its break target
+ * continue                   -- , restore stack and scope of loop, and jump to its continue target
+ * tick                       -- , count loop iteration for budget
+ * exit [type]                -- , throw break, continue or return outside loop or function
+ */
+export type Instruction = [string, ...any[]]
+
+export type FunctionCode = {
+  params: string[]
+  locals?: string[] // Local variables declared with let or const, after parameters
+  rest?: number // Index of rest parameter
+  code: Instruction[]
+  spans?: [number, SourceSpan | null][] // Source location from instruction index
+  source?: Expression // Lambda expression
+}
+
+export type Bytecode = {
+  version: number
+  functions: FunctionCode[] // First one is main
+}
+
+export const bytecodeVersion = 6
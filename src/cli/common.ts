@@ -5,11 +5,8 @@ const cwd = process.cwd()
 const buildPath = path.join(__dirname, '..')
 const libPath = path.resolve(path.join(buildPath, 'index.js'))
 
-// const extensionPaths = ['math', 'lodash']
-//   .map(name => path.resolve(path.join(buildPath, `expreva.${name}.js`)))
-
 const args = []
-const options = process.argv.slice(2).reduce((o, arg) => {
+const options = process.argv.slice(2).reduce((o: { [key: string]: string | boolean }, arg) => {
   if (arg[0]!=='-') {
     args.push(arg)
   } else {
@@ -19,18 +16,30 @@ const options = process.argv.slice(2).reduce((o, arg) => {
   return o
 }, {})
 
+const pluginPaths = (typeof options.plugins==='string' ? options.plugins.split(',') : [])
+  .map(f => path.resolve(cwd, f))
+
 // Reloadable library
 
 let expreva
 
+// Plugins from option -plugins=path,path - loaded in order of dependencies
+const loadPlugins = () => {
+  const plugins: object[] = []
+  pluginPaths.forEach(f => {
+    delete require.cache[f]
+    const exported = require(f)
+    plugins.push(...[].concat(exported.default || exported))
+  })
+  return plugins
+}
+
 const loadExpreva = () => {
   delete require.cache[libPath]
   expreva = require(libPath)
 
-  // extensionPaths.map(f => {
-  //   delete require.cache[f]
-  //   require(f)(expreva)
-  // })
+  const plugins = loadPlugins()
+  if (plugins.length) expreva.use(...plugins)
 
   return expreva
 }
@@ -48,8 +57,23 @@ function renderInstructions(instr = []) {
   return expreva.syntaxTreeToPrettyString(instr) // instr.join('\n')
 }
 
+// Runtime error with source location and call stack
+
+const renderLocation = (location?: { start: { line: number, column: number } }) => location
+  ? ` at line ${location.start.line} column ${location.start.column}`
+  : ''
+
+function renderError(e: any) {
+  if (!e) return e
+  return (e.message || e)
+    + renderLocation(e.location)
+    + (e.callStack || []).map((frame: any) =>
+      `\n  in ${frame.name}${renderLocation(frame.location)}`
+    ).join('')
+}
+
 module.exports = {
-  expreva, loadExpreva,
+  expreva, loadExpreva, loadPlugins,
   cwd, args, options,
-  log, renderInstructions,
+  log, renderInstructions, renderError,
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+import path from 'path'
+import fs from 'fs'
+const common = require('./common')
+
+const {
+  expreva,
+  cwd, args, options,
+  renderError
+} = common
+
+// Format files in place: expr fmt file.expr [-check] [-width=80]
+
+const files = args.slice(1)
+
+if (!files.length) {
+  console.log('Usage: expr fmt [file..] [-check] [-width=80]')
+  process.exit(1)
+}
+
+const formatOptions = options.width ? { width: parseInt(options.width, 10) } : {}
+
+let failed = false
+
+for (const file of files) {
+
+  const filePath = path.resolve(cwd, path.extname(file) ? file : `${file}.expr`)
+
+  let source
+  try {
+    source = fs.readFileSync(filePath, 'utf8')
+  } catch(e) {
+    console.log('Error loading file', file)
+    failed = true
+    continue
+  }
+
+  let formatted
+  try {
+    formatted = expreva.format(source, formatOptions)
+    if (formatted) formatted += '\n'
+  } catch(e) {
+    console.log(file, renderError(e))
+    failed = true
+    continue
+  }
+
+  if (formatted===source) continue
+
+  if (options.check) {
+    console.log('Not formatted', file)
+    failed = true
+    continue
+  }
+
+  fs.writeFileSync(filePath, formatted)
+  console.log('Formatted', file)
+}
+
+process.exit(failed ? 1 : 0)
@@ -5,6 +5,10 @@ const [file] = args
 
 if (!file) {
   require('./repl')
+} else if (file==='fmt') {
+  require('./format')
+} else if (file==='lsp') {
+  require('./lsp')
 } else {
   require('./runFile')
 }
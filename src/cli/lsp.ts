@@ -0,0 +1,14 @@
+import { startServer } from '../lsp'
+const common = require('./common')
+
+const {
+  expreva,
+  loadPlugins
+} = common
+
+// Language server over standard input and output: expr lsp [-plugins=path,path]
+
+startServer({
+  expreva: expreva.createExpreva({ plugins: loadPlugins() }),
+  onExit: code => process.exit(code)
+})
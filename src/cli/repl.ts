@@ -60,7 +60,7 @@ const run = source => {
       if (result!=null && result!=='') log(result)
     }
   } catch(e) {
-    console.log(e.message)
+    console.log(common.renderError(e))
   }
 }
 
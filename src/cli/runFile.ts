@@ -5,7 +5,7 @@ import readline from 'readline'
 import common from './common'
 const {
   cwd, args, options,
-  log, renderInstructions,
+  log, renderInstructions, renderError,
   loadExpreva
 } = common
 let { expreva } = common
@@ -22,7 +22,7 @@ const runSource = source => {
       ? console.log(renderInstructions(expreva.parse(source)))
       : log(expreva.evaluate(source, {}))
   } catch(e) {
-    if (typeof e!=='undefined') console.log(e.message || e)
+    if (typeof e!=='undefined') console.log(renderError(e))
   }
 }
 const runFile = file => {
@@ -0,0 +1,1086 @@
+/**
+ * Compile syntax tree to JavaScript closures
+ *
+ * Each expression becomes a function of the local scope, with variables resolved
+ * at compile time. It does not use `eval` or `new Function`, so it works under a
+ * content security policy.
+ */
+
+import {
+  Expression,
+  ExpressionResult,
+  bindFunctionScope,
+  evaluate,
+  expandMacro,
+  withContext,
+} from '../evaluate'
+// Modules of evaluate, since its re-exports are getters - slow in hot paths
+import {
+  RuntimeEnvironment,
+  RuntimeError,
+  Environment,
+  assignVariable,
+  createEnvironment,
+  createScope,
+  declareVariable,
+  getContext,
+  getSandbox,
+  getSpecialForm,
+  globalScope,
+  hasVariable,
+  parentScope,
+  rootScope,
+  throwError,
+} from '../evaluate/environment'
+import { EvaluationContext, EvaluateOptions } from '../evaluate/context'
+import { BudgetExceededError } from '../evaluate/budget'
+import type { Sandbox } from '../evaluate/sandbox'
+import { Exit, ExitType, exitError, exitFunction, exitLoop, loopItems, loopRange } from '../evaluate/loop'
+import {
+  Pattern,
+  PatternTarget,
+  boundNames,
+  isPattern,
+  matchPattern,
+  parsePattern,
+  patternItem,
+  patternRest,
+  restKeys,
+} from '../evaluate/pattern'
+import { matchNames, matchValue, noMatch, parseMatchBranches } from '../evaluate/match'
+import { chainTarget, isOptional, isOptionalChain, skipped } from '../evaluate/chain'
+import { syntaxTreeToString } from '../format'
+import { SyntaxNode, declaredNames } from '../ast'
+import type { SourceMap, SourceSpan } from '../parse/sourceMap'
+
+export type CompileOptions = {
+  // Source map from parse, to locate runtime errors
+  sourceMap?: SourceMap
+}
+
+export interface CompiledExpression {
+  (env?: RuntimeEnvironment, options?: EvaluateOptions): ExpressionResult
+}
+
+// Scope of local variables at compile time
+type Scope = {
+  names: string[]
+  // Names declared with const
+  constants?: string[]
+  parent?: Scope
+}
+
+// Scope of local variables at run time
+type Frame = {
+  slots: any[]
+  names: string[]
+  parent?: Frame
+}
+
+type State = {
+  env: RuntimeEnvironment
+  // Root scope with built-in functions
+  root: RuntimeEnvironment
+  // Current evaluation context of environment, while running
+  context?: EvaluationContext
+  sandbox?: Sandbox
+}
+
+type Node = (frame: Frame | undefined, state: State) => any
+
+// Bind value to name or pattern, and return it
+type Binder = (frame: Frame | undefined, state: State, value: any) => any
+
+interface CompiledLambda {
+  (...args: any[]): any
+  invoke: (args: any[]) => any
+  state: State
+}
+
+/**
+ * Call in tail position, returned to the caller to run without growing the stack
+ */
+class TailCall {
+  constructor(
+    public f: CompiledLambda,
+    public args: any[],
+    public location?: SourceSpan
+  ) {}
+}
+
+export function compile(
+  ast: Expression,
+  env: RuntimeEnvironment = createEnvironment(),
+  options: CompileOptions = {}
+): CompiledExpression {
+
+  const node = new Compiler(env, options).compile(ast, undefined, true)
+
+  // Root scope and sandbox of last environment - both are set when it's created
+  let lastEnv: RuntimeEnvironment | undefined
+  let root: RuntimeEnvironment
+  let sandbox: Sandbox | undefined
+
+  const run = (runEnv: RuntimeEnvironment) => {
+    if (runEnv!==lastEnv) {
+      root = rootScope(runEnv) || Environment.root
+      sandbox = getSandbox(runEnv)
+      lastEnv = runEnv
+    }
+    const context = getContext(runEnv)
+    try {
+      const result = node(undefined, { env: runEnv, root, context, sandbox })
+      return result instanceof TailCall
+        ? callFunction(result.f, result.args, result.location)
+        : result
+    } catch (e) {
+      if (e instanceof Exit) e = exitError(e)
+      if (context && e instanceof RuntimeError) context.annotate(e, undefined)
+      throw e
+    }
+  }
+
+  return (runEnv: RuntimeEnvironment = env, evaluateOptions?: EvaluateOptions) => evaluateOptions
+    ? withContext(runEnv, new EvaluationContext(evaluateOptions), () => run(runEnv))
+    : run(runEnv)
+}
+
+const isCompiledLambda = (f: any): f is CompiledLambda =>
+  typeof f==='function' && (f as CompiledLambda).invoke!=null
+
+/**
+ * Call compiled function, and any calls it makes in tail position
+ */
+function callFunction(f: CompiledLambda, args: any[], location?: SourceSpan): any {
+
+  const context = getContext(f.state.env)
+
+  if (!context) {
+    let result = invoke(f, args, context)
+    while (result instanceof TailCall) {
+      result = invoke(result.f, result.args, getContext(result.f.state.env))
+    }
+    return result
+  }
+
+  const { budget } = context
+
+  context.enterCall({ name: f.name || 'anonymous', location })
+  try {
+    budget.tick()
+    budget.checkDepth()
+    let result = invoke(f, args, context)
+    while (result instanceof TailCall) {
+      budget.tick()
+      context.replaceCall({ name: result.f.name || 'anonymous', location: result.location })
+      result = invoke(result.f, result.args, getContext(result.f.state.env))
+    }
+    return result
+  } catch (e) {
+    if (e instanceof RuntimeError) context.annotate(e, undefined)
+    throw e
+  } finally {
+    context.exitCall()
+  }
+}
+
+/**
+ * Invoke compiled function with current context of its environment - a function
+ * can be called after the run that created it, or from another evaluation
+ */
+function invoke(f: CompiledLambda, args: any[], context?: EvaluationContext): any {
+  const { state } = f
+  if (state.context===context) return f.invoke(args)
+  const previous = state.context
+  state.context = context
+  try {
+    return f.invoke(args)
+  } finally {
+    state.context = previous
+  }
+}
+
+// Function that can't become a macro or compiled function, like those of root environment
+const isBuiltin = (f: any): f is Function =>
+  f instanceof Function && Object.isFrozen(f) && !f.isMacro && !f.lambda && !isCompiledLambda(f)
+
+/**
+ * Call any function value, as the interpreter does
+ */
+function callValue(f: any, args: any[], frame: Frame | undefined, state: State, location?: SourceSpan) {
+  if (f==null) return
+  if (isCompiledLambda(f)) return callFunction(f, args, location)
+  if (Array.isArray(f) && f[0]==='lambda') {
+    // Function in environment defined as list form
+    return evaluate(f[2], bindFunctionScope(materialize(state.env, frame), f[1], args))
+  }
+  if (!(f instanceof Function)) return f
+  const result = args.length===2 ? f(args[0], args[1])
+    : args.length===1 ? f(args[0])
+    : f(...args)
+  const { context } = state
+  return context && !f.lambda ? context.budget.checkSize(result) : result
+}
+
+/**
+ * Create environment from local scopes, to evaluate with the interpreter
+ */
+function materialize(env: RuntimeEnvironment, frame?: Frame): RuntimeEnvironment {
+  if (!frame) return env
+  const props: { [key: string]: any } = {}
+  frame.names.forEach((name, i) => props[name] = frame.slots[i])
+  return createScope(materialize(env, frame.parent), props)
+}
+
+/**
+ * Compile look up of variable in environment - same as evaluateExpression
+ *
+ * Root environment is immutable, so a value from it is kept for next time.
+ */
+function compileLookup(name: string): Node {
+
+  let cachedRoot: RuntimeEnvironment | undefined
+  let cachedValue: any
+
+  return (_, state) => {
+    const { env, root } = state
+    for (let scope: RuntimeEnvironment | undefined = env; scope; scope = parentScope(scope)) {
+      if (hasVariable(scope, name)) return scope[ name ]
+    }
+    if (root!==cachedRoot) {
+      if (!hasVariable(root, name)) return throwError({ message: `Undefined symbol "${name}"` })
+      cachedValue = root[ name ]
+      cachedRoot = root
+    }
+    return cachedValue
+  }
+}
+
+function tick(state: State) {
+  const { context } = state
+  if (context) context.budget.tick()
+}
+
+function checkSize<T>(value: T, state: State): T {
+  const { context } = state
+  return context ? context.budget.checkSize(value) : value
+}
+
+function checkMember(value: any, key: any, state: State) {
+  const { sandbox } = state
+  if (sandbox) sandbox.checkMember(value, key)
+}
+
+// If assigning function, it takes the variable name
+function nameFunction(value: any, name: string): any {
+  if (value instanceof Function) Reflect.defineProperty(value, 'name', { value: name })
+  return value
+}
+
+const notObjectMessage = 'Cannot access member: not an array or object'
+
+function getMember(value: any, key: any, first: boolean, state: State) {
+  if (first && typeof value!=='object') {
+    return throwError({ message: notObjectMessage })
+  }
+  if (key instanceof Function) return key(value)
+  checkMember(value, key, state)
+  if ((typeof key!=='string' && typeof key!=='number')
+    || value[key]==null
+    || key==='__proto__'
+  ) return
+  return value[key] instanceof Function
+    ? value[key].bind(value)
+    : value[key]
+}
+
+class Compiler {
+
+  // Compiling function body, where return in tail position is its value
+  private inFunction = false
+  // Compiling target of member or call that continues optional chain
+  private inChain = false
+
+  constructor(
+    private env: RuntimeEnvironment,
+    private options: CompileOptions
+  ) {}
+
+  resolve(name: string, scope?: Scope): [number, number] | undefined {
+    for (let depth = 0; scope; depth++, scope = scope.parent) {
+      const index = scope.names.lastIndexOf(name)
+      if (index >= 0) return [depth, index]
+    }
+    return
+  }
+
+  /**
+   * Add local variables declared in given body to scope, before compiling it -
+   * so functions in the same scope can call each other
+   */
+  declare(body: Expression, scope: Scope) {
+    for (const name of declaredNames(body as SyntaxNode)) {
+      if (!scope.names.includes(name)) scope.names.push(name)
+    }
+  }
+
+  /**
+   * Compile loop body - it has its own scope for each iteration, if it has loop
+   * variable or declares local variables
+   */
+  compileLoopBody(
+    body: Expression,
+    scope: Scope | undefined,
+    name?: string
+  ): (frame: Frame | undefined, state: State, item?: any) => any {
+
+    const loopScope: Scope = { names: name!=null ? [name] : [], parent: scope }
+    this.declare(body, loopScope)
+
+    if (!loopScope.names.length) return this.compile(body, scope, false)
+
+    const node = this.compile(body, loopScope, false)
+    return (frame, state, item) => node({ slots: [item], names: loopScope.names, parent: frame }, state)
+  }
+
+  isConstant(name: string, scope?: Scope): boolean {
+    for (; scope; scope = scope.parent) {
+      if (scope.names.includes(name)) {
+        return scope.constants!=null && scope.constants.includes(name)
+      }
+    }
+    return false
+  }
+
+  /**
+   * Fall back to the interpreter
+   */
+  compileEval(ast: Expression): Node {
+    return (frame, state) => evaluate(ast, materialize(state.env, frame))
+  }
+
+  /**
+   * Compile target of member or call, which returns `skipped` in optional chain if
+   * a nil target after `?.` skips the rest - then member or call returns `skip`
+   */
+  compileChainTarget(ast: Expression[], scope: Scope | undefined): { target: Node, skip: any } {
+
+    const skip = this.inChain ? skipped : undefined
+    const targetAst = chainTarget(ast) as Expression
+
+    this.inChain = isOptionalChain(targetAst)
+    const target = this.compile(targetAst, scope, false)
+    this.inChain = false
+
+    if (!isOptional(ast)) return { target, skip }
+    return {
+      target: (frame, state) => {
+        const value = target(frame, state)
+        return value==null ? skipped : value
+      },
+      skip
+    }
+  }
+
+  compile(ast: Expression, scope: Scope | undefined, tail: boolean): Node {
+
+    const { sourceMap } = this.options
+    const span = sourceMap && Array.isArray(ast) ? sourceMap.get(ast) : undefined
+    const node = this.compileExpression(ast, scope, tail, span)
+
+    if (!span) return node
+
+    // Locate runtime error
+    return (frame, state) => {
+      try {
+        return node(frame, state)
+      } catch (e) {
+        if (e instanceof RuntimeError && !e.location) e.location = span
+        throw e
+      }
+    }
+  }
+
+  compileExpression(
+    ast: Expression,
+    scope: Scope | undefined,
+    tail: boolean,
+    span?: SourceSpan
+  ): Node {
+
+    const compile = (ast: Expression, tail: boolean = false) => this.compile(ast, scope, tail)
+
+    if (!Array.isArray(ast)) {
+
+      if (typeof ast!=='string') return () => ast
+
+      const slot = this.resolve(ast, scope)
+      if (slot) {
+        const [depth, index] = slot
+        if (depth===0) return frame => frame!.slots[index]
+        if (depth===1) return frame => frame!.parent!.slots[index]
+        return frame => {
+          let target = frame!
+          for (let i = 0; i < depth; i++) target = target.parent!
+          return target.slots[index]
+        }
+      }
+
+      if (ast==='local') return (frame, state) => materialize(state.env, frame)
+      if (ast==='global') return (_, state) => globalScope(state.env)
+      return compileLookup(ast)
+    }
+
+    // Expand macro at compile time, if it's in the environment and not a local variable
+    if (typeof ast[0]==='string' && !this.resolve(ast[0], scope)
+      && this.env[ ast[0] ] && this.env[ ast[0] ].isMacro
+    ) {
+      return this.compile(expandMacro(ast, this.env), scope, tail)
+    }
+
+    // Special form is evaluated by the interpreter
+    if (getSpecialForm(ast[0], this.env)) return this.compileEval(ast)
+
+    switch (ast[0]) {
+
+    case '~':
+    case 'macro': {
+      const f = compile(ast[1])
+      return (frame, state) => {
+        const value = f(frame, state)
+        value.isMacro = true
+        return value
+      }
+    }
+
+    case '`':
+    case 'expr': {
+      const value = ast[1]
+      return () => value
+    }
+
+    case 'eva': {
+      const expr = compile(ast[1])
+      return (frame, state) => evaluate(expr(frame, state), materialize(state.env, frame))
+    }
+
+    case 'comment':
+      return () => undefined
+
+    // Type annotation
+    case ':':
+      return compile(ast[1], tail)
+
+    case 'list': {
+      const items = ast.slice(1).map(expr =>
+        Array.isArray(expr) && expr[0]==='...'
+          ? { spread: true, node: compile(expr.slice(1)) }
+          : { spread: false, node: compile(expr) }
+      )
+      return (frame, state) => {
+        const list = []
+        for (const { spread, node } of items) {
+          if (spread) list.push(...node(frame, state))
+          else list.push(node(frame, state))
+        }
+        return checkSize(list, state)
+      }
+    }
+
+    case 'obj': {
+      const entries: ({ spread: Node } | { key: Node, value: Node })[] = []
+
+      for (let pair of ast.slice(1)) {
+
+        if (pair==null || !Array.isArray(pair)) continue
+
+        if (pair[1]==null) {
+          const left = pair[0]
+          // Spread
+          if (Array.isArray(left) && left[0]==='...') {
+            entries.push({ spread: compile(left.slice(1)) })
+            continue
+          }
+          // { key } becomes { key: key }
+          pair = [left, left]
+        }
+
+        const [left, right] = pair as Expression[]
+        entries.push({
+          key: typeof left==='object' ? compile(left) : () => left,
+          value: compile(right)
+        })
+      }
+
+      return (frame, state) => {
+        const obj: { [key: string]: any } = {}
+        for (const entry of entries) {
+          if ('spread' in entry) {
+            Object.assign(obj, entry.spread(frame, state))
+          } else {
+            obj[ entry.key(frame, state) ] = entry.value(frame, state)
+          }
+        }
+        return obj
+      }
+    }
+
+    case 'def': {
+      const varName = ast[1]
+
+      // Destructuring pattern - assign each name
+      if (isPattern(varName)) {
+        const pattern = parsePattern(varName)
+        if (!pattern) return this.compileEval(ast)
+        const value = compile(ast[2])
+        const assign = this.compilePattern(pattern, scope, name => this.compileAssignment(name, scope))
+        return (frame, state) => assign(frame, state, value(frame, state))
+      }
+
+      // Set member
+      if (Array.isArray(varName)) {
+        if (varName[0]!=='get' || varName.length < 3) return this.compileEval(ast)
+
+        const root = compile(varName[1])
+        const members = varName.slice(2).map(member => compile(member))
+        const last = members.pop()!
+        const value = compile(ast[2])
+
+        return (frame, state) => {
+          let target = root(frame, state)
+          for (let i = 0; i < members.length; i++) {
+            target = getMember(target, members[i](frame, state), i===0, state)
+            if (target==null) return
+          }
+          const key = last(frame, state)
+          if (!members.length && typeof target!=='object') {
+            return throwError({ message: notObjectMessage })
+          }
+          checkMember(target, key, state)
+          return target[ key ] = value(frame, state)
+        }
+      }
+
+      const value = compile(ast[2])
+
+      if (typeof varName!=='string') {
+        return (frame, state) => {
+          value(frame, state)
+        }
+      }
+
+      const assign = this.compileAssignment(varName, scope)
+      return (frame, state) => assign(frame, state, value(frame, state))
+    }
+
+    // Declare variable in current scope
+    case 'var':
+    case 'const': {
+      const varName = ast[1]
+      const constant = ast[0]==='const'
+      const pattern = isPattern(varName) ? parsePattern(varName) : undefined
+      if (typeof varName!=='string' && !pattern) return this.compileEval(ast)
+
+      const value = compile(ast[2])
+      const declare = pattern
+        ? this.compilePattern(pattern, scope, name => this.compileDeclaration(name, scope, constant))
+        : this.compileDeclaration(varName as string, scope, constant)
+
+      return (frame, state) => declare(frame, state, value(frame, state))
+    }
+
+    case 'get?':
+    case 'get': {
+      const { target: root, skip } = this.compileChainTarget(ast, scope)
+      const members: Node[] = []
+      let define: { key: any, value: Node } | undefined
+
+      for (const member of ast.slice(2)) {
+        // Member can be an expression to define
+        if (Array.isArray(member) && member[0]==='def') {
+          define = { key: member[1], value: compile(member[2]) }
+          break
+        }
+        members.push(compile(member))
+      }
+
+      return (frame, state) => {
+        let value = root(frame, state)
+        // Optional chain with nil target
+        if (value===skipped) return skip
+        for (let i = 0; i < members.length; i++) {
+          value = getMember(value, members[i](frame, state), i===0, state)
+          if (value==null) return value
+        }
+        if (!define) return value
+        if (!members.length && typeof value!=='object') {
+          return throwError({ message: notObjectMessage })
+        }
+        checkMember(value, define.key, state)
+        return value[ define.key ] = define.value(frame, state)
+      }
+    }
+
+    case 'try': {
+      const handler = ast[2]
+      const argDef = Array.isArray(handler)
+        ? Array.isArray(handler[1]) ? handler[1] : [ handler[1] ]
+        : []
+
+      if (!argDef.every(arg => typeof arg==='string')) return this.compileEval(ast)
+
+      const body = compile(ast[1])
+      const catchScope: Scope = { names: [...argDef as string[]], parent: scope }
+      if (Array.isArray(handler)) this.declare(handler[2], catchScope)
+      const catchBody = Array.isArray(handler)
+        ? this.compile(handler[2], catchScope, false)
+        : undefined
+
+      return (frame, state) => {
+        try {
+          // Not in tail position, to catch errors
+          return body(frame, state)
+        } catch (e) {
+          // Running out of budget, or exit from loop or function, cannot be caught
+          if (e instanceof BudgetExceededError || e instanceof Exit) throw e
+          if (!catchBody) return
+          return catchBody({ slots: [e], names: catchScope.names, parent: frame }, state)
+        }
+      }
+    }
+
+    case 'λ':
+    case 'lambda':
+      return this.compileLambda(ast, scope)
+
+    case 'while': {
+      const condition = compile(ast[1])
+      const body = this.compileLoopBody(ast[2], scope)
+
+      return (frame, state) => {
+        while (condition(frame, state)) {
+          tick(state)
+          try {
+            body(frame, state)
+          } catch (e) {
+            if (exitLoop(e)) break
+          }
+        }
+      }
+    }
+
+    case 'for':
+    case 'for-in': {
+      const name = ast[1]
+      if (typeof name!=='string') return this.compileEval(ast)
+
+      const isRange = ast[0]==='for'
+      const [first, end, step] = ast.slice(2, -1).map(expr => compile(expr))
+      const body = this.compileLoopBody(ast[ ast.length-1 ], scope, name)
+
+      return (frame, state) => {
+        const items = isRange
+          ? loopRange(first(frame, state), end(frame, state), step(frame, state), state.env)
+          : loopItems(first(frame, state))
+
+        for (let item = items.next(); !item.done; item = items.next()) {
+          tick(state)
+          try {
+            body(frame, state, item.value)
+          } catch (e) {
+            if (exitLoop(e)) break
+          }
+        }
+      }
+    }
+
+    case 'break':
+    case 'continue': {
+      const type = ast[0] as ExitType
+      return () => {
+        throw new Exit(type)
+      }
+    }
+
+    case 'return': {
+      // Function body in tail position
+      if (tail && this.inFunction) {
+        return ast[1]==null ? () => undefined : compile(ast[1], true)
+      }
+      const value = ast[1]==null ? () => undefined : compile(ast[1])
+      return (frame, state) => {
+        throw new Exit('return', value(frame, state))
+      }
+    }
+
+    case 'let': {
+      if (ast[1]==null || !Array.isArray(ast[1])) return () => undefined
+
+      const pairs = ast[1] as Expression[]
+      if (!pairs.every((key, i) => i % 2 || typeof key==='string')) {
+        return this.compileEval(ast)
+      }
+
+      const letScope: Scope = { names: [], parent: scope }
+      const bindings: [number, Node][] = []
+
+      this.declare(ast[2], letScope)
+
+      pairs.forEach((value, i) => {
+        if (!(i % 2)) return
+        const key = pairs[ i - 1 ] as string
+        const node = this.compile(value, letScope, false)
+        let index = letScope.names.indexOf(key)
+        if (index < 0) index = letScope.names.push(key) - 1
+        bindings.push([index, node])
+      })
+
+      const body = this.compile(ast[2], letScope, tail)
+
+      return (frame, state) => {
+        const letFrame: Frame = { slots: [], names: letScope.names, parent: frame }
+        for (const [index, node] of bindings) {
+          letFrame.slots[index] = node(letFrame, state)
+        }
+        return body(letFrame, state)
+      }
+    }
+
+    case 'match': {
+      const branches = parseMatchBranches(ast)
+      if (!branches) return this.compileEval(ast)
+
+      const value = compile(ast[1])
+      const compiled = branches.map(({ pattern, guard, result }) => {
+        const branchScope: Scope = { names: matchNames(pattern), parent: scope }
+        if (guard!==undefined) this.declare(guard, branchScope)
+        this.declare(result, branchScope)
+        return {
+          pattern,
+          names: branchScope.names,
+          guard: guard===undefined ? undefined : this.compile(guard, branchScope, false),
+          result: this.compile(result, branchScope, tail),
+        }
+      })
+
+      return (frame, state) => {
+        const target = value(frame, state)
+        for (const { pattern, names, guard, result } of compiled) {
+          const branchFrame: Frame = { slots: [], names, parent: frame }
+          const bind = (name: string, item: any) => branchFrame.slots[ names.indexOf(name) ] = item
+          if (!matchValue(pattern, target, state.env, bind)) continue
+          if (guard && !guard(branchFrame, state)) continue
+          return result(branchFrame, state)
+        }
+        return noMatch(target)
+      }
+    }
+
+    case 'do': {
+      const last = ast.length-1
+      if (last===0) return () => undefined
+
+      const exprs = ast.slice(1, last).map(expr => compile(expr))
+      const tailExpr = compile(ast[ last ], tail)
+
+      return (frame, state) => {
+        for (const expr of exprs) expr(frame, state)
+        return tailExpr(frame, state)
+      }
+    }
+
+    case 'if': {
+      if (ast[1]==null) return () => throwError({ message: 'No condition for if' })
+      if (ast[2]==null) return () => throwError({ message: 'No true branch for if' })
+
+      const condition = compile(ast[1])
+      const trueBranch = compile(ast[2], tail)
+      const elseBranch = ast[3]==null ? () => undefined : compile(ast[3], tail)
+
+      return (frame, state) => condition(frame, state)
+        ? trueBranch(frame, state)
+        : elseBranch(frame, state)
+    }
+
+    // Logical operators - right side only if needed
+    case '&&': {
+      const left = compile(ast[1])
+      const right = compile(ast[2], tail)
+      return (frame, state) => {
+        const value = left(frame, state)
+        return value ? right(frame, state) : value
+      }
+    }
+
+    case '||': {
+      const left = compile(ast[1])
+      const right = compile(ast[2], tail)
+      return (frame, state) => {
+        const value = left(frame, state)
+        return value ? value : right(frame, state)
+      }
+    }
+
+    case '??': {
+      const left = compile(ast[1])
+      const right = compile(ast[2], tail)
+      return (frame, state) => {
+        const value = left(frame, state)
+        return value!=null ? value : right(frame, state)
+      }
+    }
+
+    // Optional call - nothing if function is nil
+    case 'call?': {
+      if (ast[1]==null) return () => undefined
+      const { target: head, skip } = this.compileChainTarget(ast, scope)
+      const args = ast.slice(2).map(expr => compile(expr))
+      return (frame, state) => {
+        const f = head(frame, state)
+        if (f===skipped) return skip
+        const values = args.map(arg => arg(frame, state))
+        return tail && isCompiledLambda(f)
+          ? new TailCall(f, values, span)
+          : callValue(f, values, frame, state, span)
+      }
+    }
+    }
+
+    // Invoke list form
+
+    if (!ast.length) return () => undefined
+
+    // Call in optional chain
+    const chain = isOptionalChain(ast) ? this.compileChainTarget(ast, scope) : undefined
+    const head = chain ? chain.target : compile(ast[0])
+    const args = ast.slice(1).map(expr => compile(expr))
+    const argsCount = args.length
+    const name = ast[0]
+    const isMacroCandidate = !scope && typeof name==='string'
+    const callAst = ast
+    const [first, second] = args
+
+    // Built-in function called here before - it's frozen, so it stays a plain function
+    let builtin: Function | undefined
+
+    return (frame, state) => {
+
+      const f = head(frame, state)
+
+      if (f===builtin) {
+        const result = argsCount===2
+          ? f(first(frame, state), second(frame, state))
+          : f(first(frame, state))
+        const { context } = state
+        return context ? context.budget.checkSize(result) : result
+      }
+
+      if (chain && f===skipped) return chain.skip
+
+      // Macro defined at run time
+      if (isMacroCandidate && f && f.isMacro) {
+        return evaluate(expandMacro(callAst, state.env), state.env)
+      }
+
+      const values = new Array(argsCount)
+      for (let i = 0; i < argsCount; i++) values[i] = args[i](frame, state)
+
+      if ((argsCount===1 || argsCount===2) && isBuiltin(f)) builtin = f
+
+      return tail && isCompiledLambda(f)
+        ? new TailCall(f, values, span)
+        : callValue(f, values, frame, state, span)
+    }
+  }
+
+  /**
+   * Assign variable in nearest scope that has it, or environment
+   */
+  compileAssignment(varName: string, scope: Scope | undefined): Binder {
+
+    const slot = this.resolve(varName, scope)
+    if (!slot) {
+      // Variable in environment scope that has it, or global environment
+      return (_, state, value) => assignVariable(state.env, varName, nameFunction(value, varName))
+    }
+
+    if (this.isConstant(varName, scope)) {
+      return () => throwError({ message: `Cannot assign to constant "${varName}"`, name: varName })
+    }
+
+    const [depth, index] = slot
+    return (frame, _, value) => {
+      const result = nameFunction(value, varName)
+      let target = frame!
+      for (let i = 0; i < depth; i++) target = target.parent!
+      return target.slots[index] = result
+    }
+  }
+
+  /**
+   * Declare variable in current scope
+   */
+  compileDeclaration(varName: string, scope: Scope | undefined, constant: boolean): Binder {
+
+    // Variable in environment
+    if (!scope) {
+      return (_, state, value) => declareVariable(state.env, varName, nameFunction(value, varName), constant)
+    }
+
+    if (scope.constants && scope.constants.includes(varName)) {
+      return () => throwError({ message: `Cannot declare constant "${varName}" again`, name: varName })
+    }
+    if (constant) (scope.constants || (scope.constants = [])).push(varName)
+
+    let index = scope.names.lastIndexOf(varName)
+    if (index < 0) index = scope.names.push(varName) - 1
+
+    return (frame, _, value) => frame!.slots[index] = nameFunction(value, varName)
+  }
+
+  /**
+   * Destructuring pattern, which binds each name with given function - default
+   * values are compiled in scope
+   */
+  compilePattern(
+    pattern: Pattern,
+    scope: Scope | undefined,
+    bindName: (name: string) => Binder
+  ): Binder {
+
+    const compileTarget = (target: PatternTarget): Binder => typeof target==='string'
+      ? bindName(target)
+      : this.compilePattern(target, scope, bindName)
+
+    const elements = pattern.elements.map(({ key, target, defaultValue }) => ({
+      key,
+      bind: compileTarget(target),
+      defaultValue: defaultValue===undefined ? undefined : this.compile(defaultValue, scope, false)
+    }))
+    const rest = pattern.rest!=null ? compileTarget(pattern.rest) : undefined
+    const keys = restKeys(pattern)
+    const { type, source } = pattern
+
+    return (frame, state, value) => {
+      matchPattern(type, source, value)
+      for (const { key, bind, defaultValue } of elements) {
+        let item = patternItem(value, key, state.env)
+        if (item==null && defaultValue) item = defaultValue(frame, state)
+        bind(frame, state, item)
+      }
+      if (rest) rest(frame, state, patternRest(value, keys))
+      return value
+    }
+  }
+
+  compileLambda(ast: Expression[], scope?: Scope): Node {
+
+    const args = Array.isArray(ast[1]) ? ast[1] as Expression[] : []
+    const params: string[] = []
+    // Default value and destructuring pattern of parameters, in order
+    const initializers: {
+      index: number
+      defaultValue?: Expression
+      pattern?: Pattern
+      compiled?: [Node | undefined, Binder | undefined]
+    }[] = []
+    let rest: number | undefined
+
+    // Parameter name, or pattern
+    const isTarget = (target: Expression) => typeof target==='string' || parsePattern(target)!=null
+
+    const isSupported = args.every((arg, i) => typeof arg==='string'
+      || (Array.isArray(arg) && args[i - 1]!=='&' && (
+        isPattern(arg) ? isTarget(arg)
+          : arg[0]==='def' ? isTarget(arg[1])
+            : arg[0]==='...' && typeof arg[1]==='string'
+      ))
+    )
+    if (!isSupported) return this.compileEval(ast)
+
+    const functionScope: Scope = { names: params, parent: scope }
+
+    args.forEach((arg, i) => {
+      if (arg==='&') {
+        rest = i
+      } else if (typeof arg==='string') {
+        // Rest parameter after &
+        params[ args[i - 1]==='&' ? i - 1 : i ] = arg
+      } else if (isPattern(arg)) {
+        // Slot without name, for value to destructure
+        params[i] = ''
+        initializers.push({ index: i, pattern: parsePattern(arg) })
+      } else {
+        const [type, target, defaultValue] = arg as Expression[]
+        const pattern = isPattern(target) ? parsePattern(target) : undefined
+        params[i] = pattern ? '' : target as string
+        if (type==='...') rest = i
+        else initializers.push({ index: i, defaultValue, pattern })
+      }
+    })
+
+    // Names in patterns and local variables come after parameters
+    functionScope.names = [...params]
+    for (const { pattern } of initializers) {
+      if (!pattern) continue
+      for (const name of boundNames(pattern)) {
+        if (!functionScope.names.includes(name)) functionScope.names.push(name)
+      }
+    }
+    this.declare(ast[2], functionScope)
+
+    // Compiled in function scope
+    for (const initializer of initializers) {
+      const { defaultValue, pattern } = initializer
+      initializer.compiled = [
+        defaultValue===undefined ? undefined : this.compile(defaultValue, functionScope, false),
+        pattern && this.compilePattern(pattern, functionScope, name => {
+          const index = functionScope.names.indexOf(name)
+          return (frame, _, value) => frame!.slots[index] = value
+        })
+      ]
+    }
+
+    const inFunction = this.inFunction
+    this.inFunction = true
+    const body = this.compile(ast[2], functionScope, true)
+    this.inFunction = inFunction
+    const definition = ['λ', args, ast[2]]
+    const paramsCount = params.length
+
+    return (frame, state) => {
+
+      const f = Object.assign(
+        (...givenArgs: any[]) => callFunction(f, givenArgs),
+        {
+          invoke(givenArgs: any[]) {
+            const slots = new Array(paramsCount)
+            for (let i = 0; i < paramsCount; i++) {
+              slots[i] = i===rest ? givenArgs.slice(i) : givenArgs[i]
+            }
+            const functionFrame: Frame = { slots, names: functionScope.names, parent: frame }
+            for (const { index, compiled: [defaultValue, bind] = [] } of initializers) {
+              if (defaultValue && functionFrame.slots[index]==null) {
+                functionFrame.slots[index] = defaultValue(functionFrame, state)
+              }
+              if (bind) bind(functionFrame, state, functionFrame.slots[index])
+            }
+            try {
+              return body(functionFrame, state)
+            } catch (e) {
+              return exitFunction(e)
+            }
+          },
+          toString() {
+            return syntaxTreeToString(definition)
+          }
+        }
+      ) as CompiledLambda
+      Object.defineProperty(f, 'state', {
+        value: state,
+        enumerable: false
+      })
+      return f
+    }
+  }
+}
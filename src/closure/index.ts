@@ -0,0 +1,2 @@
+export { compile } from './compile'
+export type { CompileOptions, CompiledExpression } from './compile'
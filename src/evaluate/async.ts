@@ -0,0 +1,594 @@
+/**
+ * Asynchronous evaluator, which awaits Promise results wherever a value is used
+ *
+ * It follows the same steps as `evaluate`, so scripts can stay in synchronous style
+ * while host functions return Promises.
+ */
+
+import {
+  Expression,
+  ExpressionResult,
+  createLambda,
+  evaluate as evaluateSync,
+  evaluateExpression,
+  withContext,
+} from './index'
+import {
+  RuntimeEnvironment,
+  RuntimeError,
+  assignVariable,
+  createEnvironment,
+  createScope,
+  declareVariable,
+  getSandbox,
+  getSpecialForm,
+  throwError
+} from './environment'
+import { BudgetExceededError } from './budget'
+import { EvaluationContext, EvaluateOptions } from './context'
+import { Exit, exitError, exitLoop, loopItems, loopRange } from './loop'
+import { chainTarget, isOptional, isOptionalChain, skipped, withChainTarget } from './chain'
+import {
+  Pattern,
+  PatternTarget,
+  getPattern,
+  isPattern,
+  matchPattern,
+  patternItem,
+  patternRest,
+  restKeys
+} from './pattern'
+import { getMatchBranches, matchValue, noMatch } from './match'
+import { syntaxTreeToString } from '../format'
+
+const isPromise = (value: any): value is Promise<any> =>
+  value!=null && typeof value.then==='function'
+
+/**
+ * Await value if it's a Promise, or a list with Promises - such as from `map` with async function
+ */
+export async function awaitValue(value: any): Promise<any> {
+  value = await value
+  return Array.isArray(value) && value.some(isPromise)
+    ? Promise.all(value)
+    : value
+}
+
+export function evaluateAsync(
+  ast: Expression,
+  givenEnv?: RuntimeEnvironment,
+  options: EvaluateOptions = {}
+): Promise<ExpressionResult> {
+  const env = givenEnv ? givenEnv : createEnvironment()
+  return evaluateWithContext(ast, env, new EvaluationContext(options))
+    .catch(e => {
+      throw e instanceof Exit ? exitError(e) : e
+    })
+}
+
+/**
+ * Expand macro, which returns a Promise if defined in asynchronous evaluation
+ */
+async function expandMacroAsync(ast: Expression, env: RuntimeEnvironment): Promise<Expression> {
+  while (ast instanceof Array
+    && typeof ast[0]==='string'
+    && env[ ast[0] ]
+    && env[ ast[0] ].isMacro
+  ) {
+    ast = await env[ ast[0] ](...ast.slice(1))
+  }
+  return ast
+}
+
+/**
+ * Bind variables to function scope, with default values evaluated in order by the
+ * asynchronous evaluator
+ */
+async function bindFunctionScopeAsync(
+  env: RuntimeEnvironment,
+  args: Expression[],
+  givenArgs: any[],
+  evaluate: (ast: Expression, env: RuntimeEnvironment) => Promise<ExpressionResult>
+): Promise<RuntimeEnvironment> {
+
+  const boundEnv = createScope(env)
+
+  // Bind name, or names of destructuring pattern
+  const bind = async (target: Expression, value: any) => isPattern(target)
+    ? destructureAsync(getPattern(target), value, boundEnv,
+      (name, item) => boundEnv[ name ] = item,
+      expr => evaluate(expr, boundEnv)
+    )
+    : (boundEnv[ target as string ] = value)
+
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i]
+    // Spread arguments - (lambda (x & y) ())
+    if (a==='&') await bind(args[i + 1], givenArgs.slice(i))
+    else if (typeof a==='string') await bind(a, givenArgs[i])
+    else if (!Array.isArray(a)) {
+      throwError({ message: `Unknown argument expression: ${syntaxTreeToString(a)}` })
+    }
+    // Destructuring pattern
+    else if (isPattern(a)) await bind(a, givenArgs[i])
+    // Default argument
+    else if (a[0]==='def' && a[1]!=null) {
+      await bind(a[1], givenArgs[i]!=null ? givenArgs[i] : await evaluate(a[2], boundEnv))
+    }
+    // Spread arguments - alternate syntax
+    else if (a[0]==='...' && a[1]!=null) await bind(a[1], givenArgs.slice(i))
+    // Expression as function argument
+    else await evaluate(a, boundEnv)
+  }
+
+  return boundEnv
+}
+
+/**
+ * Bind names of pattern to parts of value, and await default values
+ */
+async function destructureAsync(
+  pattern: Pattern,
+  value: any,
+  env: RuntimeEnvironment,
+  bind: (name: string, value: any) => void,
+  evaluateDefault: (expr: Expression) => Promise<any>
+): Promise<any> {
+
+  matchPattern(pattern.type, pattern.source, value)
+
+  const assign = async (target: PatternTarget, item: any) => typeof target==='string'
+    ? bind(target, item)
+    : destructureAsync(target, item, env, bind, evaluateDefault)
+
+  for (const { key, target, defaultValue } of pattern.elements) {
+    let item = patternItem(value, key, env)
+    if (item==null && defaultValue!==undefined) item = await evaluateDefault(defaultValue)
+    await assign(target, item)
+  }
+
+  if (pattern.rest!=null) await assign(pattern.rest, patternRest(value, restKeys(pattern)))
+
+  return value
+}
+
+// If assigning function, it takes the variable name
+function nameFunction(value: any, name: string): any {
+  if (value instanceof Function) Reflect.defineProperty(value, 'name', { value: name })
+  return value
+}
+
+async function evaluateWithContext(
+  ast: Expression,
+  env: RuntimeEnvironment,
+  context: EvaluationContext
+): Promise<ExpressionResult> {
+
+  const { budget } = context
+  const evaluate = (ast: Expression, env: RuntimeEnvironment) =>
+    evaluateWithContext(ast, env, context)
+
+  // Special forms evaluate their arguments synchronously, with the same context
+  const evaluateSpecialForm = (ast: Expression, env: RuntimeEnvironment) =>
+    withContext(env, context, () => evaluateSync(ast, env))
+
+  // Target of member or call in optional chain, or skipped
+  const evaluateChainTarget = async (ast: Expression[], env: RuntimeEnvironment): Promise<any> => {
+    const target = chainTarget(ast) as Expression
+    let value
+    if (isOptionalChain(target)) {
+      value = await evaluateChainTarget(target as Expression[], env)
+      if (value!==skipped) value = await evaluate(withChainTarget(target as Expression[], value), env)
+    } else {
+      value = await evaluate(target, env)
+    }
+    return value===skipped || (value==null && isOptional(ast)) ? skipped : value
+  }
+
+  let called = false // Entered function call - tail calls reuse its frame
+
+  const enterCall = (f: Function | Expression[], callAst: Expression) => {
+    const frame = {
+      name: (f instanceof Function && f.name) || 'anonymous',
+      location: context.locate(callAst)
+    }
+    if (called) return context.replaceCall(frame)
+    called = true
+    context.enterCall(frame)
+    budget.checkDepth()
+  }
+
+  try {
+    while (true) {
+
+      budget.tick()
+
+      if (!(ast instanceof Array)) return await awaitValue(evaluateExpression(ast, env))
+      ast = await expandMacroAsync(ast, env)
+      if (!(ast instanceof Array)) return await awaitValue(evaluateExpression(ast, env))
+
+      // Member or call in optional chain - nothing if a nil target skips it
+      if (isOptionalChain(ast)) {
+        const target = await evaluateChainTarget(ast, env)
+        if (target===skipped) return
+        ast = withChainTarget(ast, target)
+        continue
+      }
+
+      switch (ast[0]) {
+
+      // Mark as macro
+      case '~':
+      case 'macro':
+        let f = await evaluate(ast[1] as Expression, env) // Evaluates to regular function
+        f.isMacro = true // mark as macro
+        return f
+
+      // Quote expression unevaluated
+      case '`':
+      case 'expr': return ast[1]
+
+      // Type annotation is for type checker
+      case ':':
+        ast = ast[1] as Expression
+        continue
+
+      // Evaluate quoted expression
+      case 'eva':
+        ast = await evaluate(ast[1] as Expression, env)
+        continue
+
+      case 'comment':
+        return
+
+      case 'list': {
+        const list = []
+        for (const expr of ast.slice(1)) {
+          // Spread
+          if (Array.isArray(expr) && expr[0]==='...') {
+            list.push(...await evaluate(expr.slice(1), env))
+          } else {
+            list.push(await evaluate(expr, env))
+          }
+        }
+        return budget.checkSize(list)
+      }
+
+      // Object from key-value pairs
+      case 'obj': {
+        const obj: { [key: string]: any } = {}
+
+        for (let pair of ast.slice(1)) {
+
+          if (pair==null || !Array.isArray(pair)) continue
+
+          if (pair[1]==null) {
+            const left = pair[0]
+            // Spread
+            if (Array.isArray(left) && left[0]==='...') {
+              Object.assign(obj, await evaluate(left.slice(1), env))
+              continue
+            }
+            // { key } becomes { key: key }
+            pair = [left, left]
+          }
+
+          const [left, right] = pair as Expression[]
+          const key: string = typeof left==='object'
+            ? await evaluate(left, env)
+            : left
+
+          obj[ key ] = await evaluate(right, env)
+        }
+        return obj
+      }
+
+      // Set variable
+      case 'def': {
+        const varName = ast[1]
+
+        if (isPattern(varName)) {
+          const pattern = getPattern(varName)
+          return await destructureAsync(pattern, await evaluate(ast[2] as Expression, env), env,
+            (name, item) => assignVariable(env, name, nameFunction(item, name)),
+            expr => evaluate(expr, env)
+          )
+        }
+
+        // If target is an expression, assume get and set member
+        if (Array.isArray(varName)) {
+          const result = [...varName] // Do not mutate original ast!
+          const member = result.pop()
+          result.push([
+            'def',
+            await evaluate(member as Expression, env),
+            ast[2]
+          ])
+          ast = result
+          continue
+        }
+
+        const value = await evaluate(ast[2] as Expression, env)
+
+        // If assigning function, it takes the variable name
+        if (value instanceof Function) {
+          Reflect.defineProperty(value, 'name', {
+            value: typeof varName==='string' ? varName : 'anonymous'
+          })
+        }
+        if (typeof varName==='string') {
+          return assignVariable(env, varName, value)
+        }
+        return
+      }
+
+      // Declare variable in current scope
+      case 'var':
+      case 'const': {
+        const constant = ast[0]==='const'
+        if (isPattern(ast[1])) {
+          const pattern = getPattern(ast[1])
+          return await destructureAsync(pattern, await evaluate(ast[2] as Expression, env), env,
+            (name, item) => declareVariable(env, name, nameFunction(item, name), constant),
+            expr => evaluate(expr, env)
+          )
+        }
+        const varName = ast[1] as string
+        const value = await evaluate(ast[2] as Expression, env)
+        return declareVariable(env, varName, nameFunction(value, varName), constant)
+      }
+
+      // Get variable or its member
+      case 'get': {
+        const members = ast.slice(2)
+        const rootValue = await evaluate(ast[1] as Expression, env)
+
+        if (!members.length) return rootValue
+
+        if (typeof rootValue!=='object') {
+          return throwError({
+            message: 'Cannot access member: not an array or object'
+          })
+        }
+
+        const sandbox = getSandbox(env)
+
+        let value = rootValue
+        for (const member of members) {
+
+          // Member can be an expression to define
+          if (Array.isArray(member) && member[0]==='def') {
+            if (sandbox) sandbox.checkMember(value, member[1])
+            value = (
+              value[ member[1] as string | number ] = await evaluate(member[2], env)
+            )
+            break
+          }
+
+          const key = await evaluate(member as Expression, env)
+          if (key instanceof Function) {
+            value = await awaitValue(key(value))
+            continue
+          }
+          if (sandbox) sandbox.checkMember(value, key)
+          if ((typeof key!=='string' && typeof key!=='number')
+            || value[key]==null
+            || key==='__proto__'
+          ) return
+          value = value[key] instanceof Function
+            ? value[key].bind(value)
+            : await awaitValue(value[key])
+        }
+        return value
+      }
+
+      // Try / Catch
+      case 'try':
+        try {
+          return await evaluate(ast[1] as Expression, env)
+        } catch (e) {
+          // Running out of budget, or exit from loop or function, cannot be caught
+          if (e instanceof BudgetExceededError || e instanceof Exit) throw e
+          if (!Array.isArray(ast[2])) return
+          // Catch function (λ (e) body) or (λ e body)
+          const argDef = Array.isArray(ast[2][1]) ? ast[2][1] : [ ast[2][1] ]
+          const body = ast[2][2]
+          return await evaluate(body, await bindFunctionScopeAsync(env, argDef, [e], evaluate))
+        }
+
+      // Define new function - returns a Promise when called by host
+      case 'λ':
+      case 'lambda':
+        return createLambda(ast, env, evaluate)
+
+      // Loops - body has its own scope for each iteration
+
+      case 'while': {
+        while (await evaluate(ast[1] as Expression, env)) {
+          budget.tick()
+          try {
+            await evaluate(ast[2] as Expression, createScope(env))
+          } catch (e) {
+            if (exitLoop(e)) break
+          }
+        }
+        return
+      }
+
+      case 'for':
+      case 'for-in': {
+        const name = ast[1] as string
+        const body = ast[ ast.length-1 ] as Expression
+        const items = ast[0]==='for'
+          ? loopRange(
+            await evaluate(ast[2] as Expression, env),
+            await evaluate(ast[3] as Expression, env),
+            await evaluate(ast[4] as Expression, env),
+            env
+          )
+          : loopItems(await evaluate(ast[2] as Expression, env))
+
+        for (let item = items.next(); !item.done; item = items.next()) {
+          budget.tick()
+          const scope = createScope(env)
+          scope[ name ] = item.value
+          try {
+            await evaluate(body, scope)
+          } catch (e) {
+            if (exitLoop(e)) break
+          }
+        }
+        return
+      }
+
+      // Exit from loop or function
+
+      case 'break':
+      case 'continue':
+        throw new Exit(ast[0])
+
+      case 'return':
+        // Function body in tail position
+        if (called) {
+          if (ast[1]==null) return
+          ast = ast[1] as Expression
+          continue
+        }
+        throw new Exit('return', ast[1]==null ? undefined : await evaluate(ast[1] as Expression, env))
+
+      // Tail-call optimization cases
+
+      // New environment with bindings
+      case 'let': {
+        if (ast[1]==null || !Array.isArray(ast[1])) return
+        env = createScope(env)
+        const pairs = ast[1] as Expression[] // key, value, ..
+        for (let i = 1; i < pairs.length; i += 2) {
+          env[ pairs[ i - 1 ] as string ] = await evaluate(pairs[i], env)
+        }
+        ast = ast[2] as Expression
+        continue
+      }
+
+      // First branch whose pattern matches and guard is true
+      case 'match': {
+        const value = await evaluate(ast[1] as Expression, env)
+        let matched: { scope: RuntimeEnvironment, result: Expression } | undefined
+
+        for (const { pattern, guard, result } of getMatchBranches(ast)) {
+          const scope = createScope(env)
+          if (!matchValue(pattern, value, scope, (name, item) => scope[ name ] = item)) continue
+          if (guard!==undefined && !await evaluate(guard, scope)) continue
+          matched = { scope, result }
+          break
+        }
+
+        if (!matched) return noMatch(value)
+        env = matched.scope
+        ast = matched.result
+        continue
+      }
+
+      // Multiple forms for side-effects
+      case 'do': {
+        const last = ast.length-1
+        if (last===0) return // No arguments
+
+        for (const expr of ast.slice(1, last)) {
+          await evaluate(expr, env)
+        }
+
+        // Tail
+        ast = ast[ last ] as Expression
+        continue
+      }
+
+      // Conditional branches
+      case 'if':
+        if (ast[1]==null) return throwError({
+          message: 'No condition for if'
+        })
+        if (ast[2]==null) return throwError({
+          message: 'No true branch for if'
+        })
+        if (ast[3]==null) {
+          // No else branch
+          if (!await evaluate(ast[1] as Expression, env)) return
+          ast = ast[2] as Expression
+          continue
+        }
+        ast = (await evaluate(ast[1] as Expression, env) ? ast[2] : ast[3]) as Expression
+        continue
+
+      // Logical operators - right side only if needed
+      case '&&': {
+        const value = await evaluate(ast[1] as Expression, env)
+        if (!value) return value
+        ast = ast[2] as Expression
+        continue
+      }
+
+      case '||': {
+        const value = await evaluate(ast[1] as Expression, env)
+        if (value) return value
+        ast = ast[2] as Expression
+        continue
+      }
+
+      case '??': {
+        const value = await evaluate(ast[1] as Expression, env)
+        if (value!=null) return value
+        ast = ast[2] as Expression
+        continue
+      }
+      }
+
+      // Special form from root environment - its result is awaited
+
+      const specialForm = getSpecialForm(ast[0], env)
+      if (specialForm) return awaitValue(specialForm(ast.slice(1), env, evaluateSpecialForm))
+
+      // Invoke list form - arguments are evaluated in order
+
+      const el: any[] = []
+      for (const expr of ast) {
+        el.push(await evaluate(expr, env))
+      }
+
+      const f = el[0]
+      if (f==null) return
+
+      if (Array.isArray(f) && f[0]==='lambda') {
+        // Function in environment defined as list form
+        enterCall(f, ast)
+        ast = f[2]
+        env = await bindFunctionScopeAsync(env, f[1], el.slice(1), evaluate)
+        continue
+      }
+
+      if (f instanceof Function) {
+        // Lambda
+        if (f.lambda) {
+          enterCall(f, ast)
+          ast = f.lambda.body
+          env = await bindFunctionScopeAsync(f.lambda.scope, f.lambda.args, el.slice(1), evaluate)
+          continue
+        }
+        // Function in environment
+        return budget.checkSize(await awaitValue(f(...el.slice(1))))
+      }
+
+      return f
+    }
+  } catch (e) {
+    // Return from function
+    if (e instanceof Exit && called) {
+      if (e.type==='return') return e.value
+      e = exitError(e)
+    }
+    if (e instanceof RuntimeError) context.annotate(e, ast)
+    throw e
+  } finally {
+    if (called) context.exitCall()
+  }
+}
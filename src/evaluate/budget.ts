@@ -0,0 +1,75 @@
+import { RuntimeError } from './environment'
+
+/**
+ * Limits for a single evaluation - all optional, unlimited by default
+ */
+export type BudgetOptions = {
+  maxTicks?: number // Iterations of the evaluator loop
+  timeout?: number  // Wall-clock time in milliseconds
+  maxDepth?: number // Nested function calls
+  maxSize?: number  // Length of a list or string created by the program
+}
+
+export type BudgetName = 'ticks' | 'timeout' | 'depth' | 'size'
+
+/**
+ * Error thrown when an evaluation runs out of budget
+ */
+export class BudgetExceededError extends RuntimeError {
+  constructor(public budget: BudgetName, public limit: number, public used: number) {
+    super(`Execution budget exceeded: ${budget} ${used} of ${limit}`, {
+      budget, limit, used
+    })
+  }
+}
+
+/**
+ * Counters for an evaluation, checked against its limits
+ */
+export class ExecutionBudget {
+
+  ticks: number = 0
+  depth: number = 0
+
+  readonly startTime: number = Date.now()
+
+  constructor(public readonly options: BudgetOptions = {}) {}
+
+  tick() {
+
+    const { maxTicks, timeout } = this.options
+
+    this.ticks++
+
+    if (maxTicks!=null && this.ticks > maxTicks) {
+      throw new BudgetExceededError('ticks', maxTicks, this.ticks)
+    }
+    if (timeout!=null) {
+      const elapsed = Date.now() - this.startTime
+      if (elapsed > timeout) {
+        throw new BudgetExceededError('timeout', timeout, elapsed)
+      }
+    }
+  }
+
+  checkDepth() {
+    const { maxDepth } = this.options
+    if (maxDepth!=null && this.depth > maxDepth) {
+      throw new BudgetExceededError('depth', maxDepth, this.depth)
+    }
+  }
+
+  /**
+   * Pass through a value, if it's a list or string within size limit
+   */
+  checkSize<T>(value: T): T {
+    const { maxSize } = this.options
+    if (maxSize!=null
+      && (Array.isArray(value) || typeof value==='string')
+      && value.length > maxSize
+    ) {
+      throw new BudgetExceededError('size', maxSize, value.length)
+    }
+    return value
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Optional chain - after `?.`, a nil target skips the rest of the chain, so
+ * `a?.b.c` and `f?.(x).y` are nothing if `a` or `f` is nil
+ *
+ * The chain is a member or call whose target is an optional member or call, or
+ * continues one. Backends evaluate its targets from the inside out, and skip to
+ * the outermost member or call.
+ */
+
+import type { Expression } from './index'
+
+// Result of target that skips the rest of chain
+export const skipped = Object.freeze({})
+
+/**
+ * Target of member or function call, or nothing for other expressions
+ */
+export function chainTarget(ast: Expression): Expression | undefined {
+  if (!Array.isArray(ast)) return
+  if (ast[0]==='get' || ast[0]==='get?' || ast[0]==='call?') return ast[1]
+  return Array.isArray(ast[0]) ? ast[0] : undefined
+}
+
+/**
+ * Check if expression is optional member or call, whose nil target skips the chain
+ */
+export function isOptional(ast: Expression): boolean {
+  return Array.isArray(ast) && (ast[0]==='get?' || ast[0]==='call?')
+}
+
+/**
+ * Check if expression is a member or call in optional chain
+ */
+export function isOptionalChain(ast: Expression): boolean {
+  for (let current: Expression | undefined = ast; current!=null; current = chainTarget(current)) {
+    if (isOptional(current)) return true
+  }
+  return false
+}
+
+/**
+ * Member or call with target replaced by its value - it's no longer optional
+ */
+export function withChainTarget(ast: Expression[], value: any): Expression {
+  return ast[0]==='get' || ast[0]==='get?'
+    ? ['get', ['expr', value], ...ast.slice(2)]
+    : ast[0]==='call?'
+      ? [['expr', value], ...ast.slice(2)]
+      : [['expr', value], ...ast.slice(1)]
+}
@@ -0,0 +1,65 @@
+import type { SourceMap, SourceSpan } from '../parse/sourceMap'
+import { RuntimeError } from './environment'
+import { ExecutionBudget, BudgetOptions } from './budget'
+import { markInternal } from './sandbox'
+
+export type EvaluateOptions = BudgetOptions & {
+  // Source map from parse, to locate runtime errors
+  sourceMap?: SourceMap
+}
+
+export type CallFrame = {
+  name: string
+  location?: SourceSpan // Call site
+}
+
+/**
+ * State of an evaluation: budget, source map, and call stack
+ */
+export class EvaluationContext {
+
+  readonly budget: ExecutionBudget
+  readonly sourceMap?: SourceMap
+  readonly callStack: CallFrame[] = []
+
+  constructor(options: EvaluateOptions = {}) {
+    const { sourceMap, ...budgetOptions } = options
+    this.budget = markInternal(new ExecutionBudget(budgetOptions))
+    this.sourceMap = sourceMap
+    markInternal(this)
+  }
+
+  locate(ast: any): SourceSpan | undefined {
+    return this.sourceMap && Array.isArray(ast)
+      ? this.sourceMap.get(ast)
+      : undefined
+  }
+
+  enterCall(frame: CallFrame) {
+    this.callStack.push(frame)
+    this.budget.depth++
+  }
+
+  // Tail call replaces current frame
+  replaceCall(frame: CallFrame) {
+    this.callStack[ this.callStack.length - 1 ] = frame
+  }
+
+  exitCall() {
+    this.callStack.pop()
+    this.budget.depth--
+  }
+
+  /**
+   * Attach source location and call stack to error, from the innermost expression that has them
+   */
+  annotate(error: RuntimeError, ast: any) {
+    if (!error.location) {
+      const location = this.locate(ast)
+      if (location) error.location = location
+    }
+    if (!error.callStack) {
+      error.callStack = [...this.callStack].reverse()
+    }
+  }
+}
@@ -1,4 +1,14 @@
 import rootEnvironment from './rootEnvironment'
+import type { SourceSpan } from '../parse/sourceMap'
+import type { EvaluationContext, CallFrame } from './context'
+import { Sandbox, SandboxOptions } from './sandbox'
+import {
+  NumberContext,
+  NumberOptions,
+  createNumberBuiltins,
+  createNumberContext,
+  defaultPrecision
+} from './exact'
 
 export type RuntimeEnvironment = Environment & EnvironmentProps
 
@@ -6,75 +16,358 @@ export type EnvironmentProps = {
   [key: string]: any // Any variable value, function, or expression
 }
 
+/**
+ * Special form is called with unevaluated arguments, and evaluates them as needed
+ */
+export type SpecialForm = (
+  args: any[],
+  env: RuntimeEnvironment,
+  evaluate: (ast: any, env: RuntimeEnvironment) => any
+) => any
+
+export type SpecialForms = {
+  [name: string]: SpecialForm
+}
+
+export type EnvironmentOptions = SandboxOptions & NumberOptions & {
+  strict?: boolean // Sandbox mode
+}
+
+// Links between scopes, under symbols so that a variable can have any name
+const globalKey = Symbol('global')
+const parentKey = Symbol('parent')
+const rootKey = Symbol('root')
+
+// Scope as seen through its links
+interface LinkedScope {
+  readonly [globalKey]?: RuntimeEnvironment
+  readonly [parentKey]?: RuntimeEnvironment
+  readonly [rootKey]?: RuntimeEnvironment
+}
+
+// Define property that is not a variable
+const defineHidden = (target: object, key: PropertyKey, value: any) => Object.defineProperty(target, key, {
+  value,
+  enumerable: false,
+  writable: false
+})
+
+// Variable with the same name as a property of environment
+const defineVariable = (target: object, key: string, value: any) => Object.defineProperty(target, key, {
+  value,
+  enumerable: true,
+  writable: true,
+  configurable: true
+})
+
+/**
+ * Properties set on root scope, declared without class fields - they would be
+ * variables on every scope
+ */
+export interface Environment {
+  // Special forms
+  readonly specialForms?: SpecialForms
+  // Numeric mode
+  readonly numbers?: NumberContext
+}
+
 export class Environment {
 
   // Root environment is immutable and provides built-in functions
-  static root: RuntimeEnvironment = new Environment(
-    rootEnvironment as EnvironmentProps,
-    false
-  )
-
-  // Global scope
-  readonly global?: RuntimeEnvironment
-  // Parent scope
-  readonly parent?: RuntimeEnvironment
+  static root: RuntimeEnvironment = createRootEnvironment()
 
-  constructor(props?: EnvironmentProps, global?: RuntimeEnvironment | false) {
+  constructor(
+    props?: EnvironmentProps,
+    global?: RuntimeEnvironment | false,
+    root?: RuntimeEnvironment
+  ) {
     if (global!==false) {
-      Object.defineProperty(this, 'global', {
-        value: global || this,
-        enumerable: false,
-        writable: false
-      })
-      if (!this.global.root) {
-        Object.defineProperty(this.global, 'root', {
-          value: Environment.root,
-          enumerable: false,
-          writable: false
-        })
-      }
+      const scope = global || this
+      defineHidden(this, globalKey, scope)
+      if (!(scope as LinkedScope)[ rootKey ]) defineHidden(scope, rootKey, root || Environment.root)
     }
     if (!props) return
     Object.keys(props).forEach(key => {
-      (this as any)[key] = props[key] instanceof Function
-        ? props[key].bind(this)
-        : props[key]
+      const value = props[key]
+      if (!(value instanceof Function)) {
+        (this as RuntimeEnvironment)[key] = value
+        return
+      }
+      const bound = (this as RuntimeEnvironment)[key] = Function.prototype.bind.call(value, this)
+      // Type for type checker
+      if (value.signature!=null) bound.signature = value.signature
     })
   }
 
-  throw(error: any) {
-    throw new RuntimeError(error.message, error)
+  // Global scope - for the host, since a variable can take its place
+  get global(): RuntimeEnvironment | undefined {
+    return (this as LinkedScope)[ globalKey ]
+  }
+  set global(value) {
+    defineVariable(this, 'global', value)
+  }
+
+  // Root scope with built-in functions
+  get root(): RuntimeEnvironment | undefined {
+    return rootScope(this as RuntimeEnvironment)
+  }
+  set root(value) {
+    defineVariable(this, 'root', value)
+  }
+
+  // Parent scope
+  get parent(): RuntimeEnvironment | undefined {
+    return (this as LinkedScope)[ parentKey ]
+  }
+  set parent(value) {
+    defineVariable(this, 'parent', value)
+  }
+
+  throw(error: any): never {
+    return throwError(error)
   }
 
   /**
-   * Create child scope with parent and global as non-enumerable properties.
-   * Symbols in parent scopes are looked up recursively in evaluateExpression.
+   * Create child scope. Symbols in parent scopes are looked up recursively in
+   * evaluateExpression.
    */
   create(props?: EnvironmentProps): RuntimeEnvironment {
+    return createScope(this as RuntimeEnvironment, props)
+  }
+}
+
+/**
+ * Global scope of environment, or itself for root
+ */
+export function globalScope(env: RuntimeEnvironment): RuntimeEnvironment {
+  return (env as LinkedScope)[ globalKey ] || env
+}
 
-    // Root scope has no parent
-    if (!this.global) return new Environment(props)
+/**
+ * Parent scope, or nothing for global scope
+ */
+export function parentScope(env: RuntimeEnvironment): RuntimeEnvironment | undefined {
+  return (env as LinkedScope)[ parentKey ]
+}
 
-    const env = new Environment(props, this.global)
-    Object.defineProperty(env, 'parent', {
-      value: this,
-      enumerable: false,
-      writable: false
-    })
-    return env
-  }
+/**
+ * Root scope of environment, or nothing for root
+ */
+export function rootScope(env: RuntimeEnvironment): RuntimeEnvironment | undefined {
+  return (globalScope(env) as LinkedScope)[ rootKey ]
+}
+
+/**
+ * Create child scope - same as env.create(), which a variable can replace
+ */
+export function createScope(env: RuntimeEnvironment, props?: EnvironmentProps): RuntimeEnvironment {
+
+  // Root scope has no parent
+  if (!(env as LinkedScope)[ globalKey ]) return new Environment(props, undefined, env) as RuntimeEnvironment
+
+  const scope = new Environment(props, globalScope(env)) as RuntimeEnvironment
+  defineHidden(scope, parentKey, env)
+  return scope
+}
+
+/**
+ * Throw runtime error with message and data - same as env.throw()
+ */
+export function throwError(error: any): never {
+  throw new RuntimeError(error.message, error)
+}
+
+// Current evaluation and strict mode, by global scope - out of reach of scripts
+const contexts = new WeakMap<RuntimeEnvironment, EvaluationContext>()
+const sandboxes = new WeakMap<RuntimeEnvironment, Sandbox>()
+
+/**
+ * Get current evaluation context of environment
+ */
+export function getContext(env: RuntimeEnvironment): EvaluationContext | undefined {
+  return contexts.get(globalScope(env))
+}
+
+/**
+ * Set or remove current evaluation context on global scope of environment
+ */
+export function setContext(env: RuntimeEnvironment, context?: EvaluationContext) {
+  const scope = globalScope(env)
+  if (context) contexts.set(scope, context)
+  else contexts.delete(scope)
 }
 
 /**
- * Error with data property
+ * Get sandbox of environment in strict mode
+ */
+export function getSandbox(env: RuntimeEnvironment): Sandbox | undefined {
+  return sandboxes.get(globalScope(env))
+}
+
+const hasOwnProperty = Object.prototype.hasOwnProperty
+const propertyIsEnumerable = Object.prototype.propertyIsEnumerable
+
+/**
+ * Check if scope has variable - not a property of environment
  *
- * TODO: Stack trace to source location
+ * Own properties are variables, except those hidden on root scope. Checking the
+ * name first is faster than `propertyIsEnumerable`.
+ */
+export function hasVariable(scope: RuntimeEnvironment, name: string): boolean {
+  return hasOwnProperty.call(scope, name)
+    && (name!=='specialForms' && name!=='numbers' || propertyIsEnumerable.call(scope, name))
+}
+
+/**
+ * Error with data property, source location and call stack
  */
 export class RuntimeError extends Error {
+
+  // Expression that failed, if evaluated with source map
+  location?: SourceSpan
+  // Function calls leading to the error, innermost first
+  callStack?: CallFrame[]
+
   constructor(public message: string, public data?: any) {
     super(message)
   }
 }
 
-export const createEnvironment = (props?: EnvironmentProps): RuntimeEnvironment =>
-  Environment.root.create(props)
+/**
+ * Create root environment with built-in functions - it's immutable
+ */
+export function createRootEnvironment(
+  builtins: EnvironmentProps = {},
+  specialForms: SpecialForms = {},
+  numberOptions: NumberOptions = {}
+): RuntimeEnvironment {
+  const { numbers = 'float', precision = defaultPrecision } = numberOptions
+  const root = new Environment({
+    ...rootEnvironment,
+    ...builtins,
+    ...createNumberBuiltins(numbers, precision)
+  }, false) as RuntimeEnvironment
+  Object.keys(root).forEach(key => {
+    if (root[ key ] instanceof Function) Object.freeze(root[ key ])
+  })
+  Object.defineProperty(root, 'specialForms', {
+    value: Object.freeze({ ...specialForms }),
+    enumerable: false,
+    writable: false
+  })
+  Object.defineProperty(root, 'numbers', {
+    value: Object.freeze(createNumberContext(numbers, precision)),
+    enumerable: false,
+    writable: false
+  })
+  return Object.freeze(root)
+}
+
+// Root environments derived with other numeric mode, by mode and precision
+const numberRoots = new WeakMap<RuntimeEnvironment, { [key: string]: RuntimeEnvironment }>()
+
+/**
+ * Get root environment with given numeric mode - it has the same built-ins and
+ * special forms as given root, except arithmetic and rounding
+ */
+function getNumberRoot(
+  root: RuntimeEnvironment,
+  options: NumberOptions
+): RuntimeEnvironment {
+
+  const current = root.numbers || createNumberContext()
+  const {
+    numbers = current.mode,
+    precision = current.precision
+  } = options
+
+  if (numbers===current.mode && precision===current.precision) return root
+
+  let roots = numberRoots.get(root)
+  if (!roots) numberRoots.set(root, roots = {})
+
+  const key = `${numbers}:${precision}`
+  return roots[ key ] || (roots[ key ] = createRootEnvironment(
+    { ...root },
+    root.specialForms,
+    { numbers, precision }
+  ))
+}
+
+const isConstant = (scope: RuntimeEnvironment, name: string) => {
+  const descriptor = Object.getOwnPropertyDescriptor(scope, name)
+  return descriptor!=null && descriptor.enumerable===true && descriptor.writable===false
+}
+
+/**
+ * Declare variable in given scope - a constant cannot be assigned or declared again
+ */
+export function declareVariable(
+  env: RuntimeEnvironment,
+  name: string,
+  value: any,
+  constant: boolean = false
+): any {
+  if (isConstant(env, name)) {
+    return throwError({ message: `Cannot declare constant "${name}" again`, name })
+  }
+  if (!constant) return env[ name ] = value
+  Object.defineProperty(env, name, {
+    value,
+    enumerable: true,
+    writable: false
+  })
+  return value
+}
+
+/**
+ * Assign variable in nearest scope that has it, or global scope by default
+ */
+export function assignVariable(env: RuntimeEnvironment, name: string, value: any): any {
+  let scope: RuntimeEnvironment | undefined = env
+  while (scope && !hasVariable(scope, name)) scope = parentScope(scope)
+  if (!scope) scope = globalScope(env)
+  if (isConstant(scope, name)) {
+    return throwError({ message: `Cannot assign to constant "${name}"`, name })
+  }
+  return scope[ name ] = value
+}
+
+/**
+ * Get special form by name, from root of given environment
+ */
+export function getSpecialForm(name: any, env: RuntimeEnvironment): SpecialForm | undefined {
+  if (typeof name!=='string') return
+  const root: RuntimeEnvironment = rootScope(env) || env
+  const { specialForms } = root
+  return specialForms && Object.prototype.hasOwnProperty.call(specialForms, name)
+    ? specialForms[ name ]
+    : undefined
+}
+
+/**
+ * Create environment - in strict mode, host objects and functions in props are
+ * exposed through read-only proxies, unless allowed. With numeric mode, number
+ * literals and arithmetic are exact decimal or rational.
+ */
+export function createEnvironment(
+  props?: EnvironmentProps,
+  options: EnvironmentOptions = {},
+  root: RuntimeEnvironment = Environment.root
+): RuntimeEnvironment {
+
+  root = getNumberRoot(root, options)
+
+  if (!options.strict) return createScope(root, props)
+
+  const sandbox = new Sandbox(options)
+  const exposedProps: EnvironmentProps = {}
+
+  if (props) Object.keys(props).forEach(key => {
+    exposedProps[ key ] = sandbox.expose(props[ key ])
+  })
+
+  const env = createScope(root, exposedProps)
+  sandboxes.set(env, sandbox)
+  return env
+}
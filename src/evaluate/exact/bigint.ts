@@ -0,0 +1,64 @@
+/**
+ * Utilities for BigInt, without literals which need target ES2020
+ */
+
+export const zero = BigInt(0)
+export const one = BigInt(1)
+export const two = BigInt(2)
+export const five = BigInt(5)
+export const ten = BigInt(10)
+
+export const abs = (n: bigint) => n < zero ? -n : n
+
+export function gcd(a: bigint, b: bigint): bigint {
+  a = abs(a)
+  b = abs(b)
+  while (b) [a, b] = [b, a % b]
+  return a
+}
+
+export function power(base: bigint, exponent: number): bigint {
+  let result = one
+  while (exponent > 0) {
+    if (exponent & 1) result *= base
+    base *= base
+    exponent = Math.floor(exponent / 2)
+  }
+  return result
+}
+
+export const powerOfTen = (exponent: number) => power(ten, exponent)
+
+/**
+ * Divide and round half away from zero, or toward negative or positive infinity
+ */
+export function divideRounded(
+  numerator: bigint,
+  denominator: bigint,
+  rounding: Rounding = 'round'
+): bigint {
+
+  if (denominator < zero) {
+    numerator = -numerator
+    denominator = -denominator
+  }
+
+  const quotient = numerator / denominator // Truncated toward zero
+  const remainder = numerator % denominator
+  if (!remainder) return quotient
+
+  const isNegative = numerator < zero
+  switch (rounding) {
+  case 'floor': return isNegative ? quotient - one : quotient
+  case 'ceil': return isNegative ? quotient : quotient + one
+  }
+  // Half away from zero
+  return abs(remainder) * two >= denominator
+    ? quotient + (isNegative ? -one : one)
+    : quotient
+}
+
+export type Rounding = 'round' | 'floor' | 'ceil'
+
+export const isSafeInteger = (n: bigint) =>
+  n <= BigInt(Number.MAX_SAFE_INTEGER) && n >= BigInt(Number.MIN_SAFE_INTEGER)
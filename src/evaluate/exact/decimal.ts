@@ -0,0 +1,134 @@
+import {
+  zero, one, ten, abs,
+  powerOfTen, power, divideRounded, Rounding
+} from './bigint'
+
+const decimalPattern = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/
+
+/**
+ * Arbitrary-precision decimal number - its value is coefficient / 10^scale
+ */
+export class Decimal {
+
+  private constructor(
+    readonly coefficient: bigint,
+    // Number of digits after decimal point, without trailing zeros
+    readonly scale: number
+  ) {}
+
+  static create(coefficient: bigint, scale: number = 0): Decimal {
+    if (scale < 0) return new Decimal(coefficient * powerOfTen(-scale), 0)
+    while (scale > 0 && coefficient && !(coefficient % ten)) {
+      coefficient /= ten
+      scale--
+    }
+    return new Decimal(coefficient, coefficient ? scale : 0)
+  }
+
+  /**
+   * Parse decimal from source, with optional exponent and separator "_" - or
+   * undefined if invalid
+   */
+  static parse(text: string): Decimal | undefined {
+    const match = decimalPattern.exec(text.replace(/_/g, ''))
+    if (!match) return
+    const [, sign, integer, fraction = '', exponent = '0'] = match
+    if (!integer && !fraction) return
+    const coefficient = BigInt(`${sign}${integer}${fraction}` || '0')
+    return Decimal.create(coefficient, fraction.length - parseInt(exponent, 10))
+  }
+
+  /**
+   * Decimal with the shortest digits that convert back to the same number
+   */
+  static fromNumber(value: number): Decimal {
+    const decimal = isFinite(value) ? Decimal.parse(String(value)) : undefined
+    if (!decimal) throw new Error(`Invalid decimal number: ${value}`)
+    return decimal
+  }
+
+  isInteger() {
+    return this.scale===0
+  }
+
+  sign() {
+    return this.coefficient < zero ? -1 : this.coefficient > zero ? 1 : 0
+  }
+
+  negate() {
+    return new Decimal(-this.coefficient, this.scale)
+  }
+
+  add(other: Decimal) {
+    const scale = Math.max(this.scale, other.scale)
+    return Decimal.create(this.scaledTo(scale) + other.scaledTo(scale), scale)
+  }
+
+  subtract(other: Decimal) {
+    return this.add(other.negate())
+  }
+
+  multiply(other: Decimal) {
+    return Decimal.create(this.coefficient * other.coefficient, this.scale + other.scale)
+  }
+
+  /**
+   * Divide, rounded to given decimal places if not exact
+   */
+  divide(other: Decimal, places: number, rounding: Rounding = 'round') {
+    if (!other.coefficient) throw new Error('Division by zero')
+    const numerator = this.coefficient * powerOfTen(other.scale + places)
+    const denominator = other.coefficient * powerOfTen(this.scale)
+    return Decimal.create(divideRounded(numerator, denominator, rounding), places)
+  }
+
+  /**
+   * Power of integer exponent - negative exponent is rounded to given decimal places
+   */
+  power(exponent: number, places: number) {
+    const result = Decimal.create(power(this.coefficient, Math.abs(exponent)), this.scale * Math.abs(exponent))
+    return exponent < 0 ? Decimal.create(one).divide(result, places) : result
+  }
+
+  compare(other: Decimal) {
+    const scale = Math.max(this.scale, other.scale)
+    const a = this.scaledTo(scale)
+    const b = other.scaledTo(scale)
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+
+  /**
+   * Round to given decimal places - negative places round to tens, hundreds..
+   */
+  round(places: number = 0, rounding: Rounding = 'round') {
+    if (this.scale <= places) return this
+    return Decimal.create(
+      divideRounded(this.coefficient, powerOfTen(this.scale - places), rounding),
+      places
+    )
+  }
+
+  toFixed(places: number = 0) {
+    const { coefficient, scale } = this.round(places)
+    const digits = abs(coefficient).toString().padStart(scale + 1, '0')
+    const integer = digits.slice(0, digits.length - scale)
+    const fraction = digits.slice(digits.length - scale).padEnd(places, '0')
+    return `${coefficient < zero ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`
+  }
+
+  toString() {
+    return this.toFixed(this.scale)
+  }
+
+  valueOf() {
+    return Number(this.toString())
+  }
+
+  toJSON() {
+    return this.valueOf()
+  }
+
+  private scaledTo(scale: number) {
+    return this.coefficient * powerOfTen(scale - this.scale)
+  }
+}
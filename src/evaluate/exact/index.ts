@@ -0,0 +1,244 @@
+import { Decimal } from './decimal'
+import { Rational } from './rational'
+import { Rounding, isSafeInteger } from './bigint'
+
+export { Decimal, Rational }
+export type { Rounding }
+
+/**
+ * Numeric mode of number literals and arithmetic - float by default, or
+ * arbitrary-precision decimal or rational numbers
+ */
+export type NumberMode = 'float' | 'decimal' | 'rational'
+
+export type NumberOptions = {
+  numbers?: NumberMode
+  // Decimal places of results that cannot be exact, like 1 / 3 in decimal mode
+  precision?: number
+}
+
+/**
+ * Numeric mode on root environment
+ */
+export type NumberContext = {
+  mode: NumberMode
+  precision: number
+  // Parse number literal from source, or undefined in float mode
+  parse?: (source: string, value: number) => any
+}
+
+export type ExactNumber = Decimal | Rational
+
+export const defaultPrecision = 20
+
+// Largest integer exponent calculated exactly
+const maxExactExponent = 1000
+
+export const isExactNumber = (value: any): value is ExactNumber =>
+  value instanceof Decimal || value instanceof Rational
+
+const isNumeric = (value: any) => typeof value==='number' || isExactNumber(value)
+
+// Exact numbers print as is, instead of rounded to float
+const toPlain = (value: any) => isExactNumber(value) ? value.toString() : value
+
+const areSafeIntegers = (a: any, b: any) =>
+  Number.isSafeInteger(a) && Number.isSafeInteger(b)
+
+/**
+ * Round number to given decimal places, half away from zero - for float mode
+ */
+export function roundNumber(value: number, places: number = 0, rounding: Rounding = 'round'): number {
+  if (typeof value!=='number' || !isFinite(value)) return value
+  return Decimal.fromNumber(value).round(places, rounding).valueOf()
+}
+
+/**
+ * Format number with given decimal places, without exponent - for float mode
+ */
+export function formatNumber(value: number, places: number = 0): string {
+  if (typeof value!=='number' || !isFinite(value)) return String(value)
+  return Decimal.fromNumber(value).toFixed(places)
+}
+
+/**
+ * Create number context for given mode and precision
+ */
+export function createNumberContext(
+  mode: NumberMode = 'float',
+  precision: number = defaultPrecision
+): NumberContext {
+  if (mode==='float') return { mode, precision }
+  const { toExact, normalize } = createConversion(mode, precision)
+  return {
+    mode,
+    precision,
+    parse: (source, value) => {
+      // Hexadecimal, binary and octal are converted from value
+      const number = (mode==='decimal' ? Decimal.parse(source) : Rational.parse(source))
+        || toExact(value)
+      return number ? normalize(number) : value
+    }
+  }
+}
+
+function createConversion(mode: NumberMode, precision: number) {
+
+  const isDecimal = mode==='decimal'
+
+  /**
+   * Convert number to exact number of current mode, or undefined if not possible
+   */
+  const toExact = (value: any): any =>
+    isDecimal
+      ? value instanceof Decimal ? value
+        : value instanceof Rational ? value.toDecimal(precision)
+          : typeof value==='number' && isFinite(value) ? Decimal.fromNumber(value)
+            : undefined
+      : value instanceof Rational ? value
+        : value instanceof Decimal ? Rational.fromDecimal(value)
+          : typeof value==='number' && isFinite(value) ? Rational.fromNumber(value)
+            : undefined
+
+  /**
+   * Exact integer in safe range is a plain number, so it works as list index
+   * and zero is falsy
+   */
+  const normalize = (value: ExactNumber): ExactNumber | number => {
+    if (value instanceof Decimal) {
+      return value.isInteger() && isSafeInteger(value.coefficient)
+        ? Number(value.coefficient)
+        : value
+    }
+    return value.isInteger() && isSafeInteger(value.numerator)
+      ? Number(value.numerator)
+      : value
+  }
+
+  return { toExact, normalize }
+}
+
+/**
+ * Create arithmetic, comparison and rounding functions for given numeric mode,
+ * to add to root environment
+ */
+export function createNumberBuiltins(
+  mode: NumberMode = 'float',
+  precision: number = defaultPrecision
+): { [key: string]: any } {
+
+  if (mode==='float') return {}
+
+  const isDecimal = mode==='decimal'
+  const { toExact, normalize } = createConversion(mode, precision)
+
+  /**
+   * Operate on exact numbers, or floats if either is not finite
+   */
+  const operate = (
+    a: any,
+    b: any,
+    exact: (x: any, y: any) => ExactNumber | number,
+    float: (a: number, b: number) => number
+  ) => {
+    const x = toExact(a)
+    const y = toExact(b)
+    if (!x || !y) return float(Number(a), Number(b))
+    const result = exact(x, y)
+    return typeof result==='number' ? result : normalize(result)
+  }
+
+  const compare = (a: any, b: any): number | undefined => {
+    if (typeof a==='number' && typeof b==='number') {
+      return a < b ? -1 : a > b ? 1 : a===b ? 0 : undefined
+    }
+    const x = toExact(a)
+    const y = toExact(b)
+    return x && y ? x.compare(y) : undefined
+  }
+
+  const equals = (a: any, b: any): boolean => {
+    if (a==null && b==null) return true
+    if (!isExactNumber(a) && !isExactNumber(b)) return a === b
+    return compare(a, b)===0
+  }
+
+  const round = (rounding: Rounding) => (value: any, places: number = 0) => {
+    const x = toExact(value)
+    if (!x) return value
+    return normalize(x.round(Math.min(places, precision), rounding))
+  }
+
+  return {
+
+    '+': (a: any = 0, b: any = 0) => {
+      if (areSafeIntegers(a, b) && Number.isSafeInteger(a + b)) return a + b
+      // Concatenate string
+      if (!isNumeric(a) || !isNumeric(b)) return toPlain(a) + toPlain(b)
+      return operate(a, b, (x, y) => x.add(y), (a, b) => a + b)
+    },
+
+    '-': (a: any = 0, b: any = 0) =>
+      areSafeIntegers(a, b) && Number.isSafeInteger(a - b)
+        ? a - b
+        : operate(a, b, (x, y) => x.subtract(y), (a, b) => a - b),
+
+    '*': (a: any = 1, b: any = 1) =>
+      areSafeIntegers(a, b) && Number.isSafeInteger(a * b)
+        ? a * b
+        : operate(a, b, (x, y) => x.multiply(y), (a, b) => a * b),
+
+    '/': (a: any = 0, b: any = 1) => {
+      if (areSafeIntegers(a, b) && b && !(a % b)) return a / b
+      const x = toExact(a)
+      const y = toExact(b)
+      // Division by zero is infinity, like float
+      if (!x || !y || !y.sign()) return Number(a) / Number(b)
+      return normalize(isDecimal ? x.divide(y, precision) : x.divide(y))
+    },
+
+    '^': (a: any = 0, b: any = 0) => {
+      const x = toExact(a)
+      const exponent = Number(b)
+      if (x && Number.isInteger(exponent)
+        && Math.abs(exponent) <= maxExactExponent
+        && (exponent >= 0 || x.sign())
+      ) {
+        return normalize(isDecimal ? x.power(exponent, precision) : x.power(exponent))
+      }
+      // Irrational or too large is float
+      const result = Math.pow(Number(a), exponent)
+      return isFinite(result) ? normalize(toExact(result)) : result
+    },
+
+    '==': equals,
+    '!=': (a: any, b: any): boolean => !equals(a, b),
+
+    '<': (a: any, b: any): boolean => {
+      const order = compare(a, b)
+      return order!==undefined ? order < 0 : a < b
+    },
+    '<=': (a: any, b: any): boolean => {
+      const order = compare(a, b)
+      return order!==undefined ? order <= 0 : a <= b
+    },
+    '>': (a: any, b: any): boolean => {
+      const order = compare(a, b)
+      return order!==undefined ? order > 0 : a > b
+    },
+    '>=': (a: any, b: any): boolean => {
+      const order = compare(a, b)
+      return order!==undefined ? order >= 0 : a >= b
+    },
+
+    round: round('round'),
+    floor: round('floor'),
+    ceil: round('ceil'),
+
+    toFixed: (value: any, places: number = 0) => {
+      const x = toExact(value)
+      if (!x) return String(value)
+      return x.toFixed(Math.min(places, precision))
+    },
+  }
+}
@@ -0,0 +1,145 @@
+import {
+  zero, one, two, five, gcd,
+  powerOfTen, power, divideRounded, Rounding
+} from './bigint'
+import { Decimal } from './decimal'
+
+/**
+ * Exact fraction of arbitrary-precision integers, in lowest terms
+ */
+export class Rational {
+
+  private constructor(
+    readonly numerator: bigint,
+    // Always positive
+    readonly denominator: bigint
+  ) {}
+
+  static create(numerator: bigint, denominator: bigint = one): Rational {
+    if (!denominator) throw new Error('Division by zero')
+    if (denominator < zero) {
+      numerator = -numerator
+      denominator = -denominator
+    }
+    const divisor = gcd(numerator, denominator)
+    return divisor > one
+      ? new Rational(numerator / divisor, denominator / divisor)
+      : new Rational(numerator, denominator)
+  }
+
+  static fromDecimal(decimal: Decimal): Rational {
+    return Rational.create(decimal.coefficient, powerOfTen(decimal.scale))
+  }
+
+  static parse(text: string): Rational | undefined {
+    const decimal = Decimal.parse(text)
+    return decimal && Rational.fromDecimal(decimal)
+  }
+
+  static fromNumber(value: number): Rational {
+    return Rational.fromDecimal(Decimal.fromNumber(value))
+  }
+
+  isInteger() {
+    return this.denominator===one
+  }
+
+  sign() {
+    return this.numerator < zero ? -1 : this.numerator > zero ? 1 : 0
+  }
+
+  negate() {
+    return new Rational(-this.numerator, this.denominator)
+  }
+
+  add(other: Rational) {
+    return Rational.create(
+      this.numerator * other.denominator + other.numerator * this.denominator,
+      this.denominator * other.denominator
+    )
+  }
+
+  subtract(other: Rational) {
+    return this.add(other.negate())
+  }
+
+  multiply(other: Rational) {
+    return Rational.create(this.numerator * other.numerator, this.denominator * other.denominator)
+  }
+
+  divide(other: Rational) {
+    return Rational.create(this.numerator * other.denominator, this.denominator * other.numerator)
+  }
+
+  power(exponent: number) {
+    const n = power(this.numerator, Math.abs(exponent))
+    const d = power(this.denominator, Math.abs(exponent))
+    return exponent < 0 ? Rational.create(d, n) : Rational.create(n, d)
+  }
+
+  compare(other: Rational) {
+    const a = this.numerator * other.denominator
+    const b = other.numerator * this.denominator
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+
+  /**
+   * Round to given decimal places
+   */
+  round(places: number = 0, rounding: Rounding = 'round') {
+    return Rational.fromDecimal(this.toDecimal(places, rounding))
+  }
+
+  /**
+   * Decimal rounded to given decimal places
+   */
+  toDecimal(places: number, rounding: Rounding = 'round') {
+    return Decimal.create(
+      divideRounded(this.numerator * powerOfTen(places), this.denominator, rounding),
+      places
+    )
+  }
+
+  /**
+   * Number of decimal places, if it has a finite decimal expansion
+   */
+  decimalPlaces(): number | undefined {
+    let d = this.denominator
+    let twos = 0
+    let fives = 0
+    while (!(d % two)) {
+      d /= two
+      twos++
+    }
+    while (!(d % five)) {
+      d /= five
+      fives++
+    }
+    return d===one ? Math.max(twos, fives) : undefined
+  }
+
+  toFixed(places: number = 0) {
+    return this.toDecimal(places).toFixed(places)
+  }
+
+  /**
+   * Decimal if finite, or fraction
+   */
+  toString() {
+    const places = this.decimalPlaces()
+    return places!==undefined
+      ? this.toDecimal(places).toString()
+      : `${this.numerator}/${this.denominator}`
+  }
+
+  valueOf() {
+    const places = this.decimalPlaces()
+    return places!==undefined
+      ? Number(this.toString())
+      : Number(this.numerator) / Number(this.denominator)
+  }
+
+  toJSON() {
+    return this.valueOf()
+  }
+}
@@ -3,9 +3,41 @@
  */
 
 import { syntaxTreeToString } from '../format'
-import { Environment, RuntimeEnvironment, createEnvironment } from './environment'
+import {
+  Environment,
+  RuntimeEnvironment,
+  RuntimeError,
+  assignVariable,
+  createEnvironment,
+  createScope,
+  declareVariable,
+  getContext,
+  getSandbox,
+  getSpecialForm,
+  globalScope,
+  hasVariable,
+  parentScope,
+  rootScope,
+  setContext,
+  throwError
+} from './environment'
+import { BudgetExceededError } from './budget'
+import { EvaluationContext, EvaluateOptions } from './context'
+import { Exit, exitError, exitLoop, loopItems, loopRange } from './loop'
+import { destructure, getPattern, isPattern } from './pattern'
+import { getMatchBranches, matchValue, noMatch } from './match'
+import { chainTarget, isOptional, isOptionalChain, skipped, withChainTarget } from './chain'
 
 export * from './environment'
+export * from './budget'
+export * from './context'
+export * from './sandbox'
+export * from './async'
+export * from './exact'
+export * from './loop'
+export * from './pattern'
+export * from './match'
+export * from './chain'
 export type Expression = number | string | boolean | { [key: string]: any } | Expression[]
 export type ExpressionResult = any
 
@@ -29,31 +61,94 @@ export const bindFunctionScope = function(
   givenArgs: any[]         // Called with arguments
 ): RuntimeEnvironment {
 
-  const boundEnv = env.create()
+  const context = getContext(env)
+  if (context) context.budget.checkDepth()
+
+  const boundEnv = createScope(env)
+
+  // Bind name, or names of destructuring pattern
+  const bind = (target: Expression, value: any) => isPattern(target)
+    ? destructure(getPattern(target), value, boundEnv,
+      (name, item) => boundEnv[ name ] = item,
+      expr => evaluate(expr, boundEnv)
+    )
+    : (boundEnv[ target as string ] = value)
 
   args.forEach((a, i) =>
     // Spread arguments - (lambda (x & y) ())
-    a === '&' ? (boundEnv[ args[i + 1] as string ] = givenArgs.slice(i)) :
+    a === '&' ? bind(args[i + 1], givenArgs.slice(i)) :
     typeof a==='string'
-      ? (boundEnv[ a as string ] = givenArgs[i])
+      ? bind(a, givenArgs[i])
       : Array.isArray(a)
-        // Default argument - for example: (lambda ((def x 1)) (* x x))
-        ? (a[0]==='def' && a[1]!=null)
-          ? (boundEnv[ a[1] as string ] = (
-            givenArgs[i]!=null ? givenArgs[i]
-              : evaluateExpression(a[2], boundEnv)
-          ))
-          // Spread arguments - alternate syntax (lambda (x (... y)) ())
-          : (a[0]==='...' && a[1]!=null)
-            ? (boundEnv[ a[1] as string ] = givenArgs.slice(i))
-            // Expression as function argument?
-            : evaluateExpression([ a ], boundEnv)
-        : env.throw({ message: `Unknown argument expression: ${syntaxTreeToString(a)}` })
+        // Destructuring pattern - (lambda ((list x y)) (+ x y))
+        ? isPattern(a) ? bind(a, givenArgs[i])
+          // Default argument - for example: (lambda ((def x 1)) (* x x))
+          : (a[0]==='def' && a[1]!=null)
+            ? bind(a[1], givenArgs[i]!=null ? givenArgs[i]
+              : evaluate(a[2], boundEnv)
+            )
+            // Spread arguments - alternate syntax (lambda (x (... y)) ())
+            : (a[0]==='...' && a[1]!=null)
+              ? bind(a[1], givenArgs.slice(i))
+              // Expression as function argument?
+              : evaluateExpression([ a ], boundEnv)
+        : throwError({ message: `Unknown argument expression: ${syntaxTreeToString(a)}` })
   )
 
   return boundEnv
 }
 
+/**
+ * Create function from lambda expression, with given evaluator for its calls
+ */
+export function createLambda(
+  ast: Expression[],
+  env: RuntimeEnvironment,
+  evaluator: (ast: Expression, env: RuntimeEnvironment) => ExpressionResult = evaluate
+): Lambda {
+  const args = Array.isArray(ast[1]) ? ast[1] : []
+  const body = ast[2]
+  const f: Lambda = Object.assign(
+    // The function - called with quoted arguments, to evaluate like any other call
+    (...givenArgs: any[]) => evaluator(
+      [f, ...givenArgs.map(arg => ['expr', arg])],
+      env
+    ),
+    {
+      // Associated arguments, body, environment
+      lambda: { args, body, scope: env } as LambdaProps,
+      // Print definition
+      toString() {
+        const def = ['λ', args, body]
+        return syntaxTreeToString(def) // f.name ? ['def', f.name, def] :
+      }
+    }
+  )
+  return f
+}
+
+// If assigning function, it takes the variable name
+function nameFunction(value: any, name: string): any {
+  if (value instanceof Function) Reflect.defineProperty(value, 'name', { value: name })
+  return value
+}
+
+/**
+ * Evaluate target of member or call in optional chain, or `skipped` if a nil
+ * target after `?.` skips the rest of the chain
+ */
+function evaluateChainTarget(ast: Expression[], env: RuntimeEnvironment): any {
+  const target = chainTarget(ast) as Expression
+  let value
+  if (isOptionalChain(target)) {
+    value = evaluateChainTarget(target as Expression[], env)
+    if (value!==skipped) value = evaluate(withChainTarget(target as Expression[], value), env)
+  } else {
+    value = evaluate(target, env)
+  }
+  return value===skipped || (value==null && isOptional(ast)) ? skipped : value
+}
+
 export function expandMacro(ast: Expression, env: RuntimeEnvironment): Expression {
   while (ast instanceof Array
     && typeof ast[0]==='string'
@@ -70,278 +165,470 @@ export const evaluateExpression = function(ast: Expression, env: RuntimeEnvironm
     ? ast.map((...a) => evaluate(a[0] as Expression, env))  // Evaluate list
     : (typeof ast === 'string')                             // Symbol?
       ? ast==='local' ? env                                 // Local environment
-      : ast==='global' ? env.global                         // Global environment
-      : env.propertyIsEnumerable(ast) ? env[ ast ]          // Symbol in current env (was: ast in env)
-        : env.parent ? evaluateExpression(ast, env.parent)  // Recursively look up parent scope
-          : Environment.root.propertyIsEnumerable(ast)      // Symbol in default env
-            ? Environment.root[ ast ]
+      : ast==='global' ? globalScope(env)                   // Global environment
+      : hasVariable(env, ast) ? env[ ast ]                  // Symbol in current env (was: ast in env)
+        : parentScope(env) ? evaluateExpression(ast, parentScope(env)!) // Recursively look up parent scope
+          : hasVariable(rootScope(env) || Environment.root, ast) // Symbol in root env
+            ? (rootScope(env) || Environment.root)[ ast ]
             //: undefined                                   // Undefined
-            : env.throw({ message: `Undefined symbol "${ast}"` })
+            : throwError({ message: `Undefined symbol "${ast}"` })
       : ast                                                 // Primitive value: number, boolean, function
 }
 
-export function evaluate(ast: Expression, givenEnv?: RuntimeEnvironment): ExpressionResult {
+/**
+ * Run with given evaluation context on global scope, and restore previous context after
+ */
+export function withContext(
+  env: RuntimeEnvironment,
+  context: EvaluationContext,
+  run: () => ExpressionResult
+): ExpressionResult {
+
+  const previousContext = getContext(env)
+
+  setContext(env, context)
+  try {
+    return run()
+  } finally {
+    setContext(env, previousContext)
+  }
+}
+
+export function evaluate(
+  ast: Expression,
+  givenEnv?: RuntimeEnvironment,
+  options?: EvaluateOptions
+): ExpressionResult {
 
   let env = givenEnv ? givenEnv : createEnvironment()
 
-  while (true) {
+  // New evaluation with its own context - nested calls share it through global scope
+  if (options) {
+    return withContext(env, new EvaluationContext(options), () => {
+      try {
+        return evaluate(ast, env)
+      } catch (e) {
+        throw e instanceof Exit ? exitError(e) : e
+      }
+    })
+  }
 
-    // TODO: Add a check on each "tick" with optional limits (max ops, timeout)
+  const context = getContext(env)
+  const budget = context && context.budget
+  let called = false // Entered function call - tail calls reuse its frame
+
+  const enterCall = (f: Function | Expression[], callAst: Expression) => {
+    const tailCall = called
+    called = true
+    if (!context) return
+    const frame = {
+      name: (f instanceof Function && f.name) || 'anonymous',
+      location: context.locate(callAst)
+    }
+    if (tailCall) return context.replaceCall(frame)
+    context.enterCall(frame)
+  }
 
-    if (!(ast instanceof Array)) return evaluateExpression(ast, env)
-    ast = expandMacro(ast, env)
-    if (!(ast instanceof Array)) return evaluateExpression(ast, env)
+  try {
+    while (true) {
 
-    switch (ast[0]) {
+      if (budget) budget.tick()
 
-    // Mark as macro
-    case '~':
-    case 'macro':
-      let f = evaluate(ast[1] as Expression, env) // Evaluates to regular function
-      f.isMacro = true // mark as macro
-      return f
+      if (!(ast instanceof Array)) return evaluateExpression(ast, env)
+      ast = expandMacro(ast, env)
+      if (!(ast instanceof Array)) return evaluateExpression(ast, env)
 
-    // Quote expression unevaluated
-    case '`':
-    case 'expr': return ast[1]
-
-    // Evaluate quoted expression
-    case 'eva':
-      ast = evaluate(ast[1] as Expression, env)
-      continue
-
-    case 'comment':
-      // TODO: DocBlock-style annotations?
-      return
-
-    // List given arguments as array: list(1, 2, x) => [1, 2, 3]
-    case 'list': {
-      const exprs = ast.slice(1)
-      const list = []
-
-      for (const expr of exprs) {
-        // Spread
-        if (Array.isArray(expr) && expr[0]==='...') {
-          list.push(...evaluate(expr.slice(1), env))
-        } else {
-          list.push(evaluate(expr, env))
-        }
+      // Member or call in optional chain - nothing if a nil target skips it
+      if (isOptionalChain(ast)) {
+        const target = evaluateChainTarget(ast, env)
+        if (target===skipped) return
+        ast = withChainTarget(ast, target)
+        continue
       }
-      return list
-    }
 
-      // Object from key-value pairs
-    case 'obj':
-      return ast.slice(1).reduce((obj: { [key: string]: any }, pair) => {
+      switch (ast[0]) {
+
+      // Mark as macro
+      case '~':
+      case 'macro':
+        let f = evaluate(ast[1] as Expression, env) // Evaluates to regular function
+        f.isMacro = true // mark as macro
+        return f
+
+      // Quote expression unevaluated
+      case '`':
+      case 'expr': return ast[1]
+
+      // Type annotation is for type checker
+      case ':':
+        ast = ast[1] as Expression
+        continue
+
+      // Evaluate quoted expression
+      case 'eva':
+        ast = evaluate(ast[1] as Expression, env)
+        continue
+
+      case 'comment':
+        // TODO: DocBlock-style annotations?
+        return
 
-        if (pair==null || !Array.isArray(pair)) return obj
+      // List given arguments as array: list(1, 2, x) => [1, 2, 3]
+      case 'list': {
+        const exprs = ast.slice(1)
+        const list = []
 
-        if (pair[1]==null) {
-          const left = pair[0]
+        for (const expr of exprs) {
           // Spread
-          if (Array.isArray(left) && left[0]==='...') {
-            Object.assign(obj, evaluate(left.slice(1), env))
-            return obj
+          if (Array.isArray(expr) && expr[0]==='...') {
+            list.push(...evaluate(expr.slice(1), env))
+          } else {
+            list.push(evaluate(expr, env))
           }
-          // { key } becomes { key: key }
-          pair = [left, left]
         }
+        return budget ? budget.checkSize(list) : list
+      }
 
-        const [left, right] = pair as Expression[]
+        // Object from key-value pairs
+      case 'obj':
+        return ast.slice(1).reduce((obj: { [key: string]: any }, pair) => {
+
+          if (pair==null || !Array.isArray(pair)) return obj
+
+          if (pair[1]==null) {
+            const left = pair[0]
+            // Spread
+            if (Array.isArray(left) && left[0]==='...') {
+              Object.assign(obj, evaluate(left.slice(1), env))
+              return obj
+            }
+            // { key } becomes { key: key }
+            pair = [left, left]
+          }
 
-        const key: string = typeof left==='object'
-          ? evaluate(left, env)
-          : left
+          const [left, right] = pair as Expression[]
 
-        obj[ key ] = evaluate(right, env)
-        return obj
-      }, {})
+          const key: string = typeof left==='object'
+            ? evaluate(left, env)
+            : left
 
-    // Set variable
-    case 'def': {
-      const varName = ast[1]
-      let value = ast[2]
+          obj[ key ] = evaluate(right, env)
+          return obj
+        }, {})
 
-      // If target is an expression, assume get and set member
-      if (Array.isArray(varName)) {
-        const result = [...varName] // Do not mutate original ast!
-        const member = result.pop()
+      // Set variable
+      case 'def': {
+        const varName = ast[1]
+        let value = ast[2]
 
-        result.push([
-          'def',
-          // Member key is an expression - string must be quoted
-          evaluate(member as Expression, env),
-          value
-        ])
+        // Destructuring pattern - assign each name as a variable
+        if (isPattern(varName)) {
+          const pattern = getPattern(varName)
+          return destructure(pattern, evaluate(value as Expression, env), env,
+            (name, item) => assignVariable(env, name, nameFunction(item, name)),
+            expr => evaluate(expr, env)
+          )
+        }
 
-        ast = result
-        continue
-      }
+        // If target is an expression, assume get and set member
+        if (Array.isArray(varName)) {
+          const result = [...varName] // Do not mutate original ast!
+          const member = result.pop()
 
-      value = evaluate(value as Expression, env)
+          result.push([
+            'def',
+            // Member key is an expression - string must be quoted
+            evaluate(member as Expression, env),
+            value
+          ])
 
-      // If assigning function, it takes the variable name
-      if (value instanceof Function) {
-        Object.defineProperty(value, 'name', {
-          value: typeof varName==='string' ? varName : 'anonymous'
-        })
+          ast = result
+          continue
+        }
+
+        value = evaluate(value as Expression, env)
+
+        // If assigning function, it takes the variable name
+        if (value instanceof Function) {
+          Reflect.defineProperty(value, 'name', {
+            value: typeof varName==='string' ? varName : 'anonymous'
+          })
+        }
+        if (typeof varName==='string') {
+          // Variable in nearest scope that has it, or global environment
+          return assignVariable(env, varName, value)
+        }
+        return
       }
-      if (typeof varName==='string') {
-        // Variable in global environment by default
-        return (env.global || env)[ varName as string ] = value
+
+      // Declare variable in current scope
+      case 'var':
+      case 'const': {
+        const constant = ast[0]==='const'
+        // Destructuring pattern - declare each name
+        if (isPattern(ast[1])) {
+          const pattern = getPattern(ast[1])
+          return destructure(pattern, evaluate(ast[2] as Expression, env), env,
+            (name, item) => declareVariable(env, name, nameFunction(item, name), constant),
+            expr => evaluate(expr, env)
+          )
+        }
+        const varName = ast[1] as string
+        const value = evaluate(ast[2] as Expression, env)
+        return declareVariable(env, varName, nameFunction(value, varName), constant)
       }
-      return
-    }
 
-    // Get variable or its member
-    case 'get': {
-      const varName = ast[1]
-      const members = ast.slice(2)
-      const rootValue = evaluate(varName as Expression, env)
+      // Get variable or its member
+      case 'get': {
+        const varName = ast[1]
+        const members = ast.slice(2)
+        const rootValue = evaluate(varName as Expression, env)
 
-      if (!members.length) return rootValue
+        if (!members.length) return rootValue
 
-      if (typeof rootValue!=='object') {
-        return env.throw({
-          message: 'Cannot access member: not an array or object'
-        })
-      }
+        if (typeof rootValue!=='object') {
+          return throwError({
+            message: 'Cannot access member: not an array or object'
+          })
+        }
 
-      let value = rootValue
-      for (const member of members) {
+        const sandbox = getSandbox(env)
 
-        // Member can be an expression to define
-        if (Array.isArray(member) && member[0]==='def') {
-          value = (
-            value[ member[1] as string | number ] = evaluate(member[2], env)
-          )
-          break
+        let value = rootValue
+        for (const member of members) {
+
+          // Member can be an expression to define
+          if (Array.isArray(member) && member[0]==='def') {
+            if (sandbox) sandbox.checkMember(value, member[1])
+            value = (
+              value[ member[1] as string | number ] = evaluate(member[2], env)
+            )
+            break
+          }
+
+          const key = evaluate(member as Expression, env)
+          if (key instanceof Function) {
+            value = key(value)
+            continue
+          }
+          if (sandbox) sandbox.checkMember(value, key)
+          if ((typeof key!=='string' && typeof key!=='number')
+            || value[key]==null
+            || key==='__proto__'
+          ) return
+          if (value[key] instanceof Function) {
+            value = value[key].bind(value)
+          } else {
+            value = value[key]
+          }
         }
+        return value
+      }
 
-        const key = evaluate(member as Expression, env)
-        if (key instanceof Function) {
-          value = key(value)
-          continue
+      // Try / Catch
+      case 'try':
+        try {
+          return evaluate(ast[1] as Expression, env)
+        } catch (e) {
+          // Running out of budget, or exit from loop or function, cannot be caught
+          if (e instanceof BudgetExceededError || e instanceof Exit) throw e
+          if (!Array.isArray(ast[2])) return
+          // Catch function (λ (e) body) or (λ e body)
+          const argDef = Array.isArray(ast[2][1]) ? ast[2][1] : [ ast[2][1] ]
+          const body = ast[2][2]
+          return evaluate(body, bindFunctionScope(env, argDef, [e]))
         }
-        if ((typeof key!=='string' && typeof key!=='number')
-          || value[key]==null
-          // TODO: Environment option for strict properties
-          || key==='__proto__'
-          // || !value.hasOwnProperty(key)
-        ) return
-        if (value[key] instanceof Function) {
-          value = value[key].bind(value)
-        } else {
-          value = value[key]
+
+      // Define new function
+      case 'λ':
+      case 'lambda':
+        return createLambda(ast, env)
+
+      // Loops - body has its own scope for each iteration
+
+      case 'while': {
+        while (evaluate(ast[1] as Expression, env)) {
+          if (budget) budget.tick()
+          try {
+            evaluate(ast[2] as Expression, createScope(env))
+          } catch (e) {
+            if (exitLoop(e)) break
+          }
         }
+        return
       }
-      return value
-    }
 
-    // Try / Catch
-    case 'try':
-      try {
-        return evaluate(ast[1] as Expression, env)
-      } catch (e) {
-        if (!Array.isArray(ast[2])) return
-        const argDef = ast[2][1]
-        const body = ast[2][2]
-        return evaluate(body, bindFunctionScope(env, [ argDef ], [e]))
+      case 'for':
+      case 'for-in': {
+        const name = ast[1] as string
+        const body = ast[ ast.length-1 ] as Expression
+        const items = ast[0]==='for'
+          ? loopRange(
+            evaluate(ast[2] as Expression, env),
+            evaluate(ast[3] as Expression, env),
+            evaluate(ast[4] as Expression, env),
+            env
+          )
+          : loopItems(evaluate(ast[2] as Expression, env))
+
+        for (let item = items.next(); !item.done; item = items.next()) {
+          if (budget) budget.tick()
+          const scope = createScope(env)
+          scope[ name ] = item.value
+          try {
+            evaluate(body, scope)
+          } catch (e) {
+            if (exitLoop(e)) break
+          }
+        }
+        return
       }
 
-    // Define new function
-    case 'λ':
-    case 'lambda': {
-      const args = Array.isArray(ast[1]) ? ast[1] : []
-      const body = ast[2]
-      const f: Lambda = Object.assign(
-        // The function
-        (...givenArgs: any[]) => evaluate(
-          body as Expression,
-          bindFunctionScope(env, args, givenArgs)
-        ),
-        {
-          // Associated arguments, body, environment
-          lambda: { args, body, scope: env } as LambdaProps,
-          // Print definition
-          toString() {
-            const def = ['λ', args, body]
-            return syntaxTreeToString(def) // f.name ? ['def', f.name, def] :
+      // Exit from loop or function
+
+      case 'break':
+      case 'continue':
+        throw new Exit(ast[0])
+
+      case 'return':
+        // Function body in tail position
+        if (called) {
+          if (ast[1]==null) return
+          ast = ast[1] as Expression
+          continue
+        }
+        throw new Exit('return', ast[1]==null ? undefined : evaluate(ast[1] as Expression, env))
+
+      // Tail-call optimization cases
+
+      // New environment with bindings
+      case 'let': {
+        if (ast[1]==null || !Array.isArray(ast[1])) return
+        env = createScope(env)
+        const pairs = ast[1] as [] // key, value, ..
+        pairs.forEach((value, i) => {
+          if (i % 2) {
+            env[ pairs[ i - 1 ] ] = evaluate(value, env)
           }
+        })
+        ast = ast[2] as Expression
+        continue
+      }
+
+      // First branch whose pattern matches and guard is true - names in pattern
+      // are bound in its own scope
+      case 'match': {
+        const value = evaluate(ast[1] as Expression, env)
+        let matched: { scope: RuntimeEnvironment, result: Expression } | undefined
+
+        for (const { pattern, guard, result } of getMatchBranches(ast)) {
+          const scope = createScope(env)
+          if (!matchValue(pattern, value, scope, (name, item) => scope[ name ] = item)) continue
+          if (guard!==undefined && !evaluate(guard, scope)) continue
+          matched = { scope, result }
+          break
         }
-      )
-      return f
-    }
 
-    // Tail-call optimization cases
+        if (!matched) return noMatch(value)
+        env = matched.scope
+        ast = matched.result
+        continue
+      }
+
+      // Multiple forms for side-effects
+      case 'do':
+        const last = ast.length-1
+        if (last===0) return // No arguments
+
+        evaluateExpression(ast.slice(1, last), env)
+
+        // Tail
+        ast = ast[ last ] as Expression
+        continue
 
-    // New environment with bindings
-    case 'let': {
-      if (ast[1]==null || !Array.isArray(ast[1])) return
-      env = env.create()
-      const pairs = ast[1] as [] // key, value, ..
-      pairs.forEach((value, i) => {
-        if (i % 2) {
-          env[ pairs[ i - 1 ] ] = evaluate(value, env)
+      // Conditional branches
+      case 'if':
+        if (ast[1]==null) return throwError({
+          message: 'No condition for if'
+        })
+        if (ast[2]==null) return throwError({
+          message: 'No true branch for if'
+        })
+        if (ast[3]==null) {
+          // No else branch
+          if (!evaluate(ast[1] as Expression, env)) return
+          ast = ast[2] as Expression
+          continue
         }
-      })
-      ast = ast[2] as Expression
-      continue
-    }
+        ast = (evaluate(ast[1] as Expression, env) ? ast[2] : ast[3]) as Expression
+        continue
 
-    // Multiple forms for side-effects
-    case 'do':
-      const last = ast.length-1
-      if (last===0) return // No arguments
-
-      evaluateExpression(ast.slice(1, last), env)
-
-      // Tail
-      ast = ast[ last ] as Expression
-      continue
-
-    // Conditional branches
-    case 'if':
-      if (ast[1]==null) return env.throw({
-        message: 'No condition for if'
-      })
-      if (ast[2]==null) return env.throw({
-        message: 'No true branch for if'
-      })
-      if (ast[3]==null) {
-        // No else branch
-        if (!evaluate(ast[1] as Expression, env)) return
+      // Logical operators - right side only if needed
+      case '&&': {
+        const value = evaluate(ast[1] as Expression, env)
+        if (!value) return value
+        ast = ast[2] as Expression
+        continue
+      }
+
+      case '||': {
+        const value = evaluate(ast[1] as Expression, env)
+        if (value) return value
         ast = ast[2] as Expression
         continue
       }
-      ast = (evaluate(ast[1] as Expression, env) ? ast[2] : ast[3]) as Expression
-      continue
-    }
 
-    // Invoke list form
+      case '??': {
+        const value = evaluate(ast[1] as Expression, env)
+        if (value!=null) return value
+        ast = ast[2] as Expression
+        continue
+      }
+      }
 
-    const el = evaluateExpression(ast, env)
-    const f = el instanceof Function ? el : el[0]
-    if (f==null) return
+      // Special form from root environment
 
-    if (Array.isArray(f) && f[0]==='lambda') {
-      // Function in environment defined as list form
-      ast = f[2]
-      env = bindFunctionScope(env, f[1], el.slice(1))
-      continue
-    }
+      const specialForm = getSpecialForm(ast[0], env)
+      if (specialForm) return specialForm(ast.slice(1), env, evaluate)
+
+      // Invoke list form
 
-    if (f instanceof Function) {
-      // Lambda
-      if (f.lambda) {
-        ast = f.lambda.body
-        env = bindFunctionScope(f.lambda.scope, f.lambda.args, el.slice(1))
+      const el = evaluateExpression(ast, env)
+      const f = el instanceof Function ? el : el[0]
+      if (f==null) return
+
+      if (Array.isArray(f) && f[0]==='lambda') {
+        // Function in environment defined as list form
+        enterCall(f, ast)
+        ast = f[2]
+        env = bindFunctionScope(env, f[1], el.slice(1))
         continue
       }
-      // Function in environment
-      return f(...el.slice(1))
-    }
 
-    return f
+      if (f instanceof Function) {
+        // Lambda
+        if (f.lambda) {
+          enterCall(f, ast)
+          ast = f.lambda.body
+          env = bindFunctionScope(f.lambda.scope, f.lambda.args, el.slice(1))
+          continue
+        }
+        // Function in environment
+        const result = f(...el.slice(1))
+        return budget ? budget.checkSize(result) : result
+      }
+
+      return f
+    }
+  } catch (e) {
+    // Return from function
+    if (e instanceof Exit && called) {
+      if (e.type==='return') return e.value
+      e = exitError(e)
+    }
+    if (context && e instanceof RuntimeError) context.annotate(e, ast)
+    throw e
+  } finally {
+    if (called && context) context.exitCall()
   }
 }
@@ -0,0 +1,105 @@
+/**
+ * Loops, and exits from loop or function with break, continue and return
+ */
+
+import {
+  Environment,
+  RuntimeEnvironment,
+  RuntimeError,
+  rootScope,
+  throwError
+} from './environment'
+import { isExactNumber } from './exact'
+
+export type ExitType = 'break' | 'continue' | 'return'
+
+/**
+ * Exit from loop or function, thrown to where it's handled - it's not an error,
+ * so try cannot catch it
+ */
+export class Exit {
+  constructor(public type: ExitType, public value?: any) {}
+}
+
+const exitMessages: { [type: string]: string } = {
+  break: 'Cannot break outside loop',
+  continue: 'Cannot continue outside loop',
+  return: 'Cannot return outside function',
+}
+
+/**
+ * Error for exit that reached outside of its loop or function
+ */
+export function exitError(exit: Exit): RuntimeError {
+  return new RuntimeError(exitMessages[ exit.type ], { exit: exit.type })
+}
+
+/**
+ * Iterate items of array or string, or entries [key, value] of object
+ */
+export function loopItems(collection: any): Iterator<any> {
+  if (collection!=null && typeof collection!=='string' && typeof collection!=='object') {
+    throwError({ message: `Cannot loop over ${typeof collection}` })
+  }
+  if (collection==null) return [][Symbol.iterator]()
+  if (typeof collection==='string') return collection[Symbol.iterator]()
+  return Array.isArray(collection)
+    ? arrayItems(collection)
+    : objectEntries(collection)
+}
+
+// By index, which also works with read-only proxy in strict mode
+function* arrayItems(arr: any[]) {
+  for (let i = 0; i < arr.length; i++) yield arr[i]
+}
+
+function* objectEntries(obj: { [key: string]: any }) {
+  for (const key of Object.keys(obj)) yield [key, obj[ key ]]
+}
+
+/**
+ * Iterate numbers from start to end inclusive, by step - with arithmetic and
+ * comparison from root environment, for exact numbers
+ */
+export function loopRange(
+  start: any,
+  end: any,
+  step: any,
+  env: RuntimeEnvironment
+): Iterator<any> {
+
+  const root: RuntimeEnvironment = rootScope(env) || Environment.root
+  const isNumber = (value: any) => typeof value==='number' || isExactNumber(value)
+
+  if (!isNumber(start) || !isNumber(end) || !isNumber(step)) {
+    throwError({ message: 'Loop range must be numbers' })
+  }
+  if (root['=='](step, 0)) {
+    throwError({ message: 'Loop step cannot be zero' })
+  }
+  return rangeItems(start, end, step, root)
+}
+
+function* rangeItems(start: any, end: any, step: any, root: RuntimeEnvironment) {
+  const inRange = root['<'](0, step) ? root['<='] : root['>=']
+  for (let i = start; inRange(i, end); i = root['+'](i, step)) yield i
+}
+
+/**
+ * Handle exception from loop body - returns true to break, false to continue,
+ * or rethrows anything else
+ */
+export function exitLoop(e: any): boolean {
+  if (!(e instanceof Exit) || e.type==='return') throw e
+  return e.type==='break'
+}
+
+/**
+ * Handle exception from function body - returns value of return, or rethrows
+ * anything else, with break or continue as error
+ */
+export function exitFunction(e: any): any {
+  if (!(e instanceof Exit)) throw e
+  if (e.type==='return') return e.value
+  throw exitError(e)
+}
@@ -0,0 +1,259 @@
+/**
+ * Pattern matching - match value { pattern if guard => result, ... } is the special
+ * form (match value (pattern guard result) ..), with branch (pattern result) if
+ * there's no guard. The first branch whose pattern matches, and guard is true, gives
+ * the result.
+ */
+
+import type { Expression } from './index'
+import { Environment, RuntimeEnvironment, rootScope, throwError } from './environment'
+import { isExactNumber } from './exact'
+import { patternItem, patternRest } from './pattern'
+import { syntaxTreeToSource } from '../format'
+
+export type MatchPattern =
+  // Any value, without binding - _
+  | { type: 'any' }
+  // Any value, bound to name
+  | { type: 'name', name: string }
+  // Number, string, boolean or nil - equal to value
+  | { type: 'literal', value: any }
+  // List with items, and the rest if any - otherwise the same length
+  | { type: 'list', items: MatchPattern[], rest?: MatchPattern }
+  // Object with values of keys, and the rest if any
+  | { type: 'obj', keys: (string | number)[], values: MatchPattern[], rest?: MatchPattern }
+
+export type MatchBranch = {
+  pattern: MatchPattern
+  guard?: Expression
+  result: Expression
+}
+
+const wildcard = '_'
+
+// Symbols of constant values
+const constants: { [name: string]: any } = {
+  nil: undefined,
+  true: true,
+  false: false,
+}
+
+const isSpread = (expr: any): expr is Expression[] =>
+  Array.isArray(expr) && expr[0]==='...' && expr.length===2
+
+/**
+ * Pattern from expression - or nothing if it's not a valid pattern
+ */
+export function parseMatchPattern(expr: Expression): MatchPattern | undefined {
+
+  if (expr===wildcard) return { type: 'any' }
+  if (typeof expr==='string') {
+    return constants.hasOwnProperty(expr)
+      ? { type: 'literal', value: constants[ expr ] }
+      : { type: 'name', name: expr }
+  }
+  if (typeof expr==='number' || typeof expr==='boolean' || isExactNumber(expr)) {
+    return { type: 'literal', value: expr }
+  }
+  if (!Array.isArray(expr)) return
+
+  const [type, ...items] = expr
+
+  // Quoted string
+  if (type==='expr') {
+    return items.length===1 && ['string', 'number'].includes(typeof items[0])
+      ? { type: 'literal', value: items[0] }
+      : undefined
+  }
+
+  if (type==='list') {
+    const pattern: MatchPattern = { type: 'list', items: [] }
+    for (let i = 0; i < items.length; i++) {
+      // Rest must be last
+      if (isSpread(items[i])) {
+        const rest = parseMatchPattern(items[i][1])
+        if (!rest || !isRestTarget(rest) || i < items.length - 1) return
+        pattern.rest = rest
+        continue
+      }
+      const item = parseMatchPattern(items[i])
+      if (!item) return
+      pattern.items.push(item)
+    }
+    return pattern
+  }
+
+  if (type==='obj') {
+    const pattern: MatchPattern = { type: 'obj', keys: [], values: [] }
+    for (let i = 0; i < items.length; i++) {
+      const pair = items[i]
+      if (!Array.isArray(pair) || !pair.length || pair.length > 2) return
+      const [key] = pair
+      // Rest { ...others }
+      if (pair.length===1 && isSpread(key)) {
+        const rest = parseMatchPattern(key[1])
+        if (!rest || !isRestTarget(rest) || i < items.length - 1) return
+        pattern.rest = rest
+        continue
+      }
+      // Shorthand { key } binds value of key to its name
+      const name = pair.length===1 ? key : objectKey(key)
+      const value = pair.length===1
+        ? (typeof key==='string' ? parseMatchPattern(key) : undefined)
+        : parseMatchPattern(pair[1])
+      if (name==null || !value) return
+      pattern.keys.push(name as string | number)
+      pattern.values.push(value)
+    }
+    return pattern
+  }
+
+  return
+}
+
+// Rest is bound to name, or ignored
+const isRestTarget = (pattern: MatchPattern) => pattern.type==='name' || pattern.type==='any'
+
+// Object key as is, or quoted string
+function objectKey(expr: Expression): string | number | undefined {
+  if (typeof expr==='string' || typeof expr==='number') return expr
+  if (Array.isArray(expr) && expr[0]==='expr' && typeof expr[1]==='string') return expr[1]
+  return
+}
+
+/**
+ * Names bound by pattern, in order
+ */
+export function matchNames(pattern: MatchPattern): string[] {
+  switch (pattern.type) {
+  case 'name': return [pattern.name]
+  case 'list':
+  case 'obj': {
+    const patterns = pattern.type==='list' ? [...pattern.items] : [...pattern.values]
+    if (pattern.rest) patterns.push(pattern.rest)
+    const names: string[] = []
+    for (const item of patterns) {
+      for (const name of matchNames(item)) {
+        if (!names.includes(name)) names.push(name)
+      }
+    }
+    return names
+  }
+  }
+  return []
+}
+
+/**
+ * Branches of match expression - or nothing if any of them is not valid
+ */
+export function parseMatchBranches(ast: Expression[]): MatchBranch[] | undefined {
+  const branches: MatchBranch[] = []
+  for (const branch of ast.slice(2)) {
+    if (!Array.isArray(branch) || branch.length < 2 || branch.length > 3) return
+    const pattern = parseMatchPattern(branch[0])
+    if (!pattern) return
+    branches.push(branch.length===3
+      ? { pattern, guard: branch[1], result: branch[2] }
+      : { pattern, result: branch[1] }
+    )
+  }
+  return branches
+}
+
+/**
+ * Branches of match expression, or runtime error for the first one that's invalid
+ */
+export function getMatchBranches(ast: Expression[]): MatchBranch[] {
+  const branches = parseMatchBranches(ast)
+  if (branches) return branches
+  for (const branch of ast.slice(2)) {
+    if (!Array.isArray(branch) || branch.length < 2 || branch.length > 3) {
+      throwError({ message: `Invalid match branch: ${syntaxTreeToSource(branch)}` })
+    } else if (!parseMatchPattern(branch[0])) {
+      throwError({ message: `Invalid match pattern: ${syntaxTreeToSource(branch[0])}` })
+    }
+  }
+  return []
+}
+
+/**
+ * Match value with pattern, and bind names to its parts - returns false if it
+ * doesn't match, which can be after some names are bound
+ */
+export function matchValue(
+  pattern: MatchPattern,
+  value: any,
+  env: RuntimeEnvironment,
+  bind: (name: string, value: any) => void
+): boolean {
+
+  switch (pattern.type) {
+  case 'any':
+    return true
+
+  case 'name':
+    bind(pattern.name, value)
+    return true
+
+  case 'literal': {
+    // With arithmetic from root environment, for exact numbers
+    const root: RuntimeEnvironment = rootScope(env) || Environment.root
+    return !!root['=='](value, pattern.value)
+  }
+
+  case 'list': {
+    const { items, rest } = pattern
+    if (!Array.isArray(value)) return false
+    if (rest ? value.length < items.length : value.length!==items.length) return false
+    for (let i = 0; i < items.length; i++) {
+      if (!matchValue(items[i], patternItem(value, i, env), env, bind)) return false
+    }
+    return !rest || matchValue(rest, patternRest(value, items.length), env, bind)
+  }
+
+  case 'obj': {
+    const { keys, values, rest } = pattern
+    if (value==null || typeof value!=='object' || Array.isArray(value) || isExactNumber(value)) {
+      return false
+    }
+    for (let i = 0; i < keys.length; i++) {
+      if (!matchValue(values[i], patternItem(value, keys[i], env), env, bind)) return false
+    }
+    return !rest || matchValue(rest, patternRest(value, keys.map(String)), env, bind)
+  }
+  }
+}
+
+/**
+ * Runtime error for value that no branch matches
+ */
+export function noMatch(value: any): any {
+  return throwError({ message: `No match for ${describeValue(value)}`, value })
+}
+
+// Items shown in error message
+const maxItems = 10
+
+// Value as source code, shortened
+function describeValue(value: any, depth = 0): string {
+  if (value==null) return 'nil'
+  if (typeof value==='string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`
+  if (value instanceof Function) return value.name ? `function ${value.name}` : 'function'
+  if (typeof value!=='object' || isExactNumber(value)) return String(value)
+
+  const isList = Array.isArray(value)
+  const keys = isList ? [] : Object.keys(value)
+  const size = isList ? value.length : keys.length
+
+  if (!size) return isList ? '[]' : '{}'
+  if (depth > 1) return isList ? '[..]' : '{..}'
+
+  const items = (isList ? value.slice(0, maxItems) : keys.slice(0, maxItems))
+    .map((item: any) => isList
+      ? describeValue(item, depth + 1)
+      : `${item}: ${describeValue(value[ item ], depth + 1)}`
+    )
+  if (size > maxItems) items.push('..')
+
+  return isList ? `[${items.join(', ')}]` : `{ ${items.join(', ')} }`
+}
@@ -0,0 +1,210 @@
+/**
+ * Destructuring patterns - [a, b = 1, ...rest] and { x, y: alias, ...others } -
+ * in assignment, declaration and function parameters
+ */
+
+import type { Expression } from './index'
+import { RuntimeEnvironment, getSandbox, throwError } from './environment'
+import { syntaxTreeToSource } from '../format'
+
+export type PatternType = 'list' | 'obj'
+
+// Name, or nested pattern
+export type PatternTarget = string | Pattern
+
+export type PatternElement = {
+  // Index of list item, or object key
+  key: string | number
+  target: PatternTarget
+  // Value if item is nil
+  defaultValue?: Expression
+}
+
+export type Pattern = {
+  type: PatternType
+  elements: PatternElement[]
+  // Rest of list items, or object without keys of elements
+  rest?: PatternTarget
+  // Pattern as source code, for error message
+  source: string
+}
+
+const patternTypes = ['list', 'obj']
+
+/**
+ * List or object expression, which can be a pattern as target of assignment
+ */
+export const isPattern = (expr: any): expr is Expression[] =>
+  Array.isArray(expr) && patternTypes.includes(expr[0])
+
+const isName = (expr: any): expr is string => typeof expr==='string' && expr!=='&'
+
+const isSpread = (expr: any): expr is Expression[] =>
+  Array.isArray(expr) && expr[0]==='...' && expr.length===2
+
+// Target with default value - (def target value)
+const isDefault = (expr: any): expr is Expression[] =>
+  Array.isArray(expr) && expr[0]==='def' && expr.length===3
+
+/**
+ * Pattern from list or object expression - or nothing if it's not a valid pattern
+ */
+export function parsePattern(expr: Expression): Pattern | undefined {
+
+  if (!isPattern(expr)) return
+
+  const [type, ...items] = expr as [PatternType, ...any[]]
+  const pattern: Pattern = { type, elements: [], source: syntaxTreeToSource(expr) }
+
+  for (let i = 0; i < items.length; i++) {
+
+    // Object has pairs of key and value
+    if (type==='obj' && (!Array.isArray(items[i]) || items[i].length > 2)) return
+
+    const item = type==='list' ? items[i] : items[i][0]
+
+    // Rest must be last
+    if (isSpread(item) && (type==='list' || items[i].length===1)) {
+      const rest = parseTarget(item[1])
+      if (i < items.length - 1 || rest==null) return
+      pattern.rest = rest
+      continue
+    }
+
+    const element = type==='list' ? parseElement(i, item)
+      : items[i].length===2 ? parseElement(objectKey(item), items[i][1])
+        // Shorthand { key } or { key = value }
+        : isName(item) ? { key: item, target: item }
+          : isDefault(item) && isName(item[1])
+            ? { key: item[1], target: item[1], defaultValue: item[2] }
+            : undefined
+
+    if (!element) return
+    pattern.elements.push(element)
+  }
+
+  return pattern
+}
+
+function parseTarget(expr: Expression): PatternTarget | undefined {
+  return isName(expr) ? expr : parsePattern(expr)
+}
+
+function parseElement(key: string | number | undefined, expr: Expression): PatternElement | undefined {
+  if (key==null) return
+  const [targetExpr, defaultValue] = isDefault(expr) ? [expr[1], expr[2]] : [expr]
+  const target = parseTarget(targetExpr)
+  if (target==null) return
+  return defaultValue===undefined ? { key, target } : { key, target, defaultValue }
+}
+
+// Object key as is, or quoted string
+function objectKey(expr: Expression): string | number | undefined {
+  if (typeof expr==='string' || typeof expr==='number') return expr
+  if (Array.isArray(expr) && expr[0]==='expr' && typeof expr[1]==='string') return expr[1]
+  return
+}
+
+/**
+ * Names bound by pattern, in order
+ */
+export function boundNames(pattern: Pattern): string[] {
+  const targets = pattern.elements.map(element => element.target)
+  if (pattern.rest!=null) targets.push(pattern.rest)
+  const names: string[] = []
+  for (const target of targets) {
+    names.push(...(typeof target==='string' ? [target] : boundNames(target)))
+  }
+  return names
+}
+
+/**
+ * Pattern from expression, or runtime error if it's not a valid pattern
+ */
+export function getPattern(expr: Expression): Pattern {
+  const pattern = parsePattern(expr)
+  if (!pattern) {
+    throwError({ message: `Invalid destructuring pattern: ${syntaxTreeToSource(expr)}` })
+  }
+  return pattern as Pattern
+}
+
+// Type of value for error message
+const typeName = (value: any) => value==null ? 'nil'
+  : Array.isArray(value) ? 'list'
+    : typeof value
+
+/**
+ * Check that value has the shape of pattern
+ */
+export function matchPattern(
+  type: PatternType,
+  source: string,
+  value: any
+): any {
+  const valueType = typeName(value)
+  if (valueType===(type==='list' ? 'list' : 'object')) return value
+  return throwError({
+    message: `Cannot destructure ${valueType} with ${source}: expected ${type==='list' ? 'list' : 'object'}`,
+    pattern: source
+  })
+}
+
+/**
+ * Item of list, or value of object key
+ */
+export function patternItem(value: any, key: string | number, env: RuntimeEnvironment): any {
+  const sandbox = getSandbox(env)
+  if (sandbox) sandbox.checkMember(value, key)
+  return key==='__proto__' ? undefined : value[ key ]
+}
+
+/**
+ * Keys of pattern elements, or index of rest in list
+ */
+export function restKeys(pattern: Pattern): number | string[] {
+  return pattern.type==='list'
+    ? pattern.elements.length
+    : pattern.elements.map(element => String(element.key))
+}
+
+/**
+ * Rest of list from index, or copy of object without given keys
+ */
+export function patternRest(value: any, keys: number | string[]): any {
+  if (typeof keys==='number') return value.slice(keys)
+  const rest: { [key: string]: any } = {}
+  for (const key of Object.keys(value)) {
+    if (!keys.includes(key)) rest[ key ] = value[ key ]
+  }
+  return rest
+}
+
+/**
+ * Bind names of pattern to parts of value - default values are evaluated when an
+ * item is nil. Returns the value.
+ */
+export function destructure(
+  pattern: Pattern,
+  value: any,
+  env: RuntimeEnvironment,
+  bind: (name: string, value: any) => void,
+  evaluateDefault: (expr: Expression) => any
+): any {
+
+  matchPattern(pattern.type, pattern.source, value)
+
+  const assign = (target: PatternTarget, item: any) => typeof target==='string'
+    ? bind(target, item)
+    : destructure(target, item, env, bind, evaluateDefault)
+
+  for (const { key, target, defaultValue } of pattern.elements) {
+    let item = patternItem(value, key, env)
+    if (item==null && defaultValue!==undefined) item = evaluateDefault(defaultValue)
+    assign(target, item)
+  }
+
+  if (pattern.rest!=null) assign(pattern.rest, patternRest(value, restKeys(pattern)))
+
+  return value
+}
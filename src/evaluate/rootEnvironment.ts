@@ -1,3 +1,6 @@
+import { roundNumber, formatNumber } from './exact'
+import { toPrettyString } from '../format/value'
+
 export default {
   true: true,
   false: false,
@@ -9,9 +12,14 @@ export default {
   '/': (a: number = 0, b: number = 1): number => a / b,
   '^': (a: number = 0, b: number = 0): number => Math.pow(a, b),
 
+  // Round half away from zero, to given decimal places
+  round: (value: number, places: number = 0): number => roundNumber(value, places),
+  floor: (value: number, places: number = 0): number => roundNumber(value, places, 'floor'),
+  ceil: (value: number, places: number = 0): number => roundNumber(value, places, 'ceil'),
+  toFixed: (value: number, places: number = 0): string => formatNumber(value, places),
+
   '!': (a: any): boolean => !a,
-  '||': (a: any, b: any): boolean => a || b,
-  '&&': (a: any, b: any): boolean => a && b,
+  // Logical operators &&, || and ?? are special forms of evaluate
 
   '==': (a: any, b: any): boolean =>
     // undefined == nil
@@ -90,7 +98,11 @@ export default {
       return obj
     }
   ,
+  // Lists, objects and exact numbers print the same as results
   print: (...args: any) => {
-    console.log(...args.map(a => a instanceof Function ? a.toString() : a))
+    console.log(...args.map(a => a instanceof Function ? a.toString()
+      : a!=null && typeof a==='object' ? toPrettyString(a)
+      : a
+    ))
   }
 }
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { Environment, RuntimeError } from './environment'
+
+export type SandboxOptions = {
+  // Host objects and functions to expose as they are, without read-only proxy
+  allow?: any[]
+}
+
+// Keys that lead to prototypes or function internals
+const deniedKeys = [
+  'constructor',
+  'prototype',
+  '__proto__',
+  '__defineGetter__',
+  '__defineSetter__',
+  '__lookupGetter__',
+  '__lookupSetter__',
+  'caller',
+  'callee',
+  'arguments',
+]
+
+const hasOwnProperty = Object.prototype.hasOwnProperty
+const propertyIsEnumerable = Object.prototype.propertyIsEnumerable
+
+// Objects of the evaluator itself, whose members are all denied
+const internals = new WeakSet<object>()
+
+/**
+ * Mark object of the evaluator, like evaluation context and budget, so its
+ * members are denied in strict mode
+ */
+export function markInternal<T extends object>(value: T): T {
+  internals.add(value)
+  return value
+}
+
+/**
+ * Methods of standard prototypes, exposed as they are - they only read through the
+ * proxy they're called on, or are denied as members
+ */
+const intrinsics = new Set<Function>()
+
+for (const proto of [
+  Object.prototype,
+  Function.prototype,
+  Array.prototype,
+  String.prototype,
+  Number.prototype,
+  Boolean.prototype,
+]) {
+  for (const name of Object.getOwnPropertyNames(proto)) {
+    const { value } = Object.getOwnPropertyDescriptor(proto, name) || {}
+    if (value instanceof Function && name!=='constructor') intrinsics.add(value)
+  }
+}
+
+const deny = (message: string) => {
+  throw new RuntimeError(message)
+}
+
+/**
+ * Strict mode for an environment: members that reach prototypes, function or
+ * evaluator internals are denied, and host objects are exposed through read-only
+ * proxies.
+ */
+export class Sandbox {
+
+  allowed: Set<any>
+  proxies = new WeakMap<object, any>()
+  exposed = new WeakSet<object>()
+
+  constructor(options: SandboxOptions = {}) {
+    this.allowed = new Set(options.allow || [])
+    markInternal(this)
+  }
+
+  /**
+   * Throw if member is denied
+   */
+  checkMember(target: any, key: any) {
+    if (typeof key!=='string' && typeof key!=='number') return
+    if (deniedKeys.includes(key as string) || internals.has(target)) {
+      deny(`Access denied to member "${key}"`)
+    }
+    // Members of environment other than variables, like its root and parent scope
+    if (target instanceof Environment && key in target && !propertyIsEnumerable.call(target, key)) {
+      deny(`Access denied to member "${key}"`)
+    }
+    if (target==null || hasOwnProperty.call(target, key)) return
+    // Never return members of Object or Function prototype
+    const value = target[ key ]
+    if (value!=null && (
+      value===Reflect.get(Object.prototype, key)
+      || value===Reflect.get(Function.prototype, key)
+    )) {
+      deny(`Access denied to member "${key}"`)
+    }
+  }
+
+  /**
+   * Expose host value to the program
+   */
+  expose(value: any): any {
+
+    if (value==null
+      || (typeof value!=='object' && typeof value!=='function')
+      || this.allowed.has(value)
+      || this.exposed.has(value)
+      || intrinsics.has(value)
+      || internals.has(value) // Members are denied
+    ) return value
+
+    let proxy = this.proxies.get(value)
+    if (proxy) return proxy
+
+    const sandbox = this
+
+    proxy = new Proxy(value, {
+      get(target, key, receiver) {
+        const member = Reflect.get(target, key, receiver)
+        // Denied keys are checked on member access, and still used by methods like map
+        if (typeof key==='symbol' || deniedKeys.includes(key)) return member
+        const descriptor = Reflect.getOwnPropertyDescriptor(target, key)
+        // Proxy must return the same value for read-only property
+        if (descriptor && !descriptor.configurable && !descriptor.writable) return member
+        return sandbox.expose(member)
+      },
+      apply(target, thisArg, args) {
+        return sandbox.expose(Reflect.apply(target, thisArg, args))
+      },
+      construct() {
+        return deny('Cannot construct host object')
+      },
+      set() {
+        return deny('Cannot modify host object')
+      },
+      deleteProperty() {
+        return deny('Cannot modify host object')
+      },
+      setPrototypeOf() {
+        return deny('Cannot modify host object')
+      },
+      defineProperty() {
+        // Fail without error for Reflect.defineProperty
+        return false
+      },
+    })
+
+    this.proxies.set(value, proxy)
+    this.exposed.add(proxy)
+    return proxy
+  }
+}
@@ -176,7 +176,9 @@ function createMode(expreva, _config: EditorConfiguration, _modeOptions?: any):
         case '!=':
         case '||':
         case '&&':
+        case '??':
         case '?':
+        case '?.':
         case ':':
 
         case 'def':
@@ -193,10 +195,16 @@ function createMode(expreva, _config: EditorConfiguration, _modeOptions?: any):
               case 'or':
               case 'and':
               case 'not':
+              case 'let':
+              case 'const':
               case 'macro':
               case 'return':
               case 'continue':
               case 'break':
+              case 'while':
+              case 'for':
+              case 'in':
+              case 'match':
                 return 'keyword'
 
             case 'then':
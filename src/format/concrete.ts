@@ -0,0 +1,99 @@
+import type { ConcreteNode, ConcreteToken, Trivia } from '../parse'
+import { continuesLine } from './source'
+
+type Part = {
+  text: string
+  statement?: boolean
+}
+
+/**
+ * Format source by top-level statement, keeping comments from its concrete syntax tree
+ *
+ * Comments before and after a statement are kept on their own lines or at the end of
+ * line, with up to one blank line between. A statement with comments inside is kept
+ * as it is.
+ */
+export function formatConcrete(
+  source: string,
+  tree: ConcreteNode,
+  formatStatement: (source: string) => string
+): string {
+
+  const lines: Part[][] = []
+  // Line breaks since last part
+  let breaks = 0
+
+  const add = (part: Part) => {
+    const line = lines[ lines.length - 1 ]
+    // Comment stays on the same line, and statement starts its own
+    if (line && !breaks && !(part.statement && line.some(p => p.statement))) {
+      line.push(part)
+    } else {
+      if (line && breaks > 1) lines.push([])
+      lines.push([ part ])
+    }
+    breaks = 0
+  }
+
+  const addTrivia = (trivia: Trivia[]) => {
+    for (const item of trivia) {
+      if (item.kind==='comment') add({ text: item.text.trimEnd() })
+      breaks += item.text.split('\n').length - 1
+    }
+  }
+
+  const addStatement = (node: ConcreteNode | ConcreteToken) => {
+
+    const tokens = tokensOf(node)
+    const first = tokens[0]
+    const last = tokens[ tokens.length - 1 ]
+
+    const hasInnerComments = tokens.some(token =>
+      (token!==first && token.leading.some(isComment))
+      || (token!==last && token.trailing.some(isComment))
+    )
+    const text = source.slice(node.start, node.end)
+
+    addTrivia(first.leading)
+    add({
+      text: hasInnerComments || node.kind==='token' ? text : formatStatement(text),
+      statement: true,
+    })
+    addTrivia(last.trailing)
+  }
+
+  const addChildren = (children: (ConcreteNode | ConcreteToken)[]) => {
+    for (const child of children) {
+      if (isStatements(child)) {
+        addChildren((child as ConcreteNode).children)
+      } else if (child.kind==='token' && (child.type===';' || child.type==='EOF')) {
+        addTrivia(child.leading)
+        addTrivia(child.trailing)
+      } else {
+        addStatement(child)
+      }
+    }
+  }
+
+  addChildren(tree.children)
+
+  // Separate with semicolons, if any statement would continue the line before
+  const statements = lines.flat().filter(part => part.statement)
+  if (statements.slice(1).some(part => continuesLine.test(part.text))) {
+    statements.slice(0, -1).forEach(part => part.text += ';')
+  }
+
+  return lines.map(line => line.map(part => part.text).join(' ')).join('\n')
+}
+
+const isComment = (item: Trivia) => item.kind==='comment'
+
+// Statements separated by semicolons, without parentheses
+const isStatements = (node: ConcreteNode | ConcreteToken) =>
+  node.kind==='node' && node.type==='group'
+  && node.children.some(child => child.kind==='token' && child.type===';')
+  && !node.children.some(child => child.kind==='token' && child.type==='(')
+
+function tokensOf(node: ConcreteNode | ConcreteToken): ConcreteToken[] {
+  return node.kind==='token' ? [ node ] : node.children.flatMap(tokensOf)
+}
@@ -6,3 +6,11 @@ export {
 export {
   toPrettyString as valueToPrettyString
 } from './value'
+
+export {
+  toSource as syntaxTreeToSource
+} from './source'
+
+export { formatConcrete } from './concrete'
+
+export type { SourceFormatOptions } from './source'
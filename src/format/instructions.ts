@@ -1,4 +1,5 @@
 import { Expression, Lambda } from '../evaluate'
+import { isExactNumber } from '../evaluate/exact'
 
 /**
  * Format symbolic expression to compact string
@@ -9,7 +10,7 @@ export const toString = (
 ): string =>
   !Array.isArray(expr)
     ? expr==null ? 'nil'
-      : typeof expr==='object'
+      : typeof expr==='object' && !isExactNumber(expr)
         ? toString(['obj', Object.keys(expr).map(key => [key, expr[key]])])
         : (inner ? expr : expr)+''
     : `(${
@@ -41,7 +42,7 @@ export const toPrettyString = (
   if (!Array.isArray(expr)) {
     // Primitive value
     return expr==null ? 'nil'
-      : typeof expr==='object'
+      : typeof expr==='object' && !isExactNumber(expr)
         // Object
         ? toPrettyString(['obj', ...Object.keys(expr).map(key => [key, expr[key]])], {
           indent,
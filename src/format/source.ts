@@ -0,0 +1,556 @@
+import { Expression } from '../evaluate'
+import { precedence } from '../parse/grammar/constants'
+
+/**
+ * Format syntax tree to source code in infix notation, which parses back to the same tree
+ */
+
+export type SourceFormatOptions = {
+  // Maximum line width, before wrapping lists, objects, function calls and blocks
+  width?: number
+  // Spaces to indent
+  indent?: number
+}
+
+type Operator = {
+  precedence: number
+  rightAssociative?: boolean
+}
+
+const ATOM = 10
+
+// Column to format on one line
+const FLAT = -Infinity
+
+const binaryOperators: { [operator: string]: Operator } = {
+  '&&': { precedence: precedence.ASSIGNMENT },
+  '||': { precedence: precedence.ASSIGNMENT },
+  '??': { precedence: precedence.ASSIGNMENT },
+  '>': { precedence: precedence.CONDITIONAL },
+  '>=': { precedence: precedence.CONDITIONAL },
+  '<': { precedence: precedence.CONDITIONAL },
+  '<=': { precedence: precedence.CONDITIONAL },
+  '==': { precedence: precedence.CONDITIONAL },
+  '!=': { precedence: precedence.CONDITIONAL },
+  '+': { precedence: precedence.SUM },
+  '-': { precedence: precedence.SUM },
+  '*': { precedence: precedence.PRODUCT },
+  '/': { precedence: precedence.PRODUCT },
+  '^': { precedence: precedence.EXPONENT, rightAssociative: true },
+}
+
+const identifierPattern = /^([a-zA-Z_]|[^\u0000-\u007F])([a-zA-Z0-9_]|[^\u0000-\u007F])*$/
+
+const isIdentifier = (expr: any): expr is string =>
+  typeof expr==='string' && identifierPattern.test(expr)
+
+const isQuotedString = (expr: any) =>
+  Array.isArray(expr) && expr[0]==='expr' && expr.length===2 && typeof expr[1]==='string'
+
+const isNumber = (expr: any) => typeof expr==='number'
+
+// Statement that would continue previous line
+export const continuesLine = /^[-+!(]/
+
+/**
+ * Syntax of list form
+ */
+function syntaxOf(expr: Expression[]): string {
+
+  const [head, ...args] = expr
+
+  if (typeof head!=='string') return 'call'
+
+  switch (head) {
+  case 'do': return 'do'
+  case 'def':
+    return args.length===2 && (isIdentifier(args[0])
+      || (Array.isArray(args[0]) && ['get', 'optionalGet', 'list', 'obj'].includes(syntaxOf(args[0])))
+    ) ? 'def' : 'call'
+  case 'var':
+  case 'const':
+    // Constant must have a value, and destructuring pattern too
+    return isIdentifier(args[0]) && (args.length===2 || (head==='var' && args.length===1))
+      || (Array.isArray(args[0]) && ['list', 'obj'].includes(syntaxOf(args[0])) && args.length===2)
+      ? 'declare'
+      : 'call'
+  case 'λ':
+  case 'lambda':
+    return args.length===2 && Array.isArray(args[0]) ? 'lambda' : 'call'
+  case 'if': return args.length===3 ? 'if' : 'call'
+  case 'get': return args.length > 1 ? 'get' : 'call'
+  case 'get?': return args.length===2 ? 'optionalGet' : 'call'
+  case 'call?': return args.length > 0 ? 'optionalCall' : 'call'
+  case 'list': return 'list'
+  case 'obj': return 'obj'
+  case '...': return args.length===1 ? 'spread' : 'call'
+  case '!': return args.length===1 ? 'not' : 'call'
+  case ':':
+    if (args.length!==2) return 'call'
+    return isAnnotatedLambda(args[0], args[1]) ? 'lambda' : 'annotation'
+  case 'while': return args.length===2 ? 'while' : 'call'
+  case 'for': return args.length===5 && isIdentifier(args[0]) ? 'for' : 'call'
+  case 'for-in': return args.length===3 && isIdentifier(args[0]) ? 'forIn' : 'call'
+  case 'break':
+  case 'continue':
+    return args.length===0 ? 'exit' : 'call'
+  case 'return': return args.length <= 1 ? 'exit' : 'call'
+  case 'match':
+    return args.length > 1 && args.slice(1).every(branch =>
+      Array.isArray(branch) && (branch.length===2 || branch.length===3)
+    ) ? 'match' : 'call'
+  }
+
+  if (binaryOperators[ head ] && args.length===2) return 'binary'
+
+  return 'call'
+}
+
+/**
+ * Lambda with type of each parameter, which can be written on parameters
+ */
+function isAnnotatedLambda(expr: Expression, type: Expression): boolean {
+  if (!Array.isArray(expr) || syntaxOf(expr)!=='lambda' || expr[0]===':') return false
+  if (!Array.isArray(type) || (type[0]!=='λ' && type[0]!=='lambda')) return false
+  const params = expr[1] as Expression[]
+  const types = type[1]
+  return Array.isArray(types) && types.length===params.length
+    && params.every((param, i) => types[i]==='_' || (Array.isArray(param)
+      ? param[0]==='...' && Array.isArray(types[i]) && (types[i] as Expression[])[0]==='...'
+      : isIdentifier(param)
+    ))
+}
+
+// Value with type annotation
+const isAnnotated = (expr: Expression): expr is Expression[] =>
+  Array.isArray(expr) && expr[0]===':' && expr.length===3
+
+/**
+ * Precedence and associativity of expression
+ */
+function operatorOf(expr: Expression): Operator & { leftAssociative?: boolean } {
+
+  if (!Array.isArray(expr) || !expr.length) return { precedence: ATOM }
+
+  switch (syntaxOf(expr)) {
+  case 'do': return { precedence: precedence.STATEMENT }
+  case 'def':
+  case 'declare':
+  case 'lambda':
+  case 'while':
+  case 'for':
+  case 'forIn':
+    return { precedence: precedence.ASSIGNMENT, rightAssociative: true }
+  case 'exit':
+    // Return takes value after it
+    return expr[0]==='return'
+      ? { precedence: precedence.ASSIGNMENT, rightAssociative: true }
+      : { precedence: ATOM }
+  case 'if': return { precedence: precedence.CONDITIONAL }
+  case 'not': return { precedence: precedence.PREFIX }
+  case 'annotation': return { precedence: precedence.STATEMENT, leftAssociative: true }
+  case 'get':
+  case 'optionalGet':
+  case 'optionalCall':
+  case 'call':
+    return { precedence: precedence.CALL, leftAssociative: true }
+  case 'binary': {
+    const operator = binaryOperators[ expr[0] as string ]
+    return { ...operator, leftAssociative: !operator.rightAssociative }
+  }
+  }
+
+  return { precedence: ATOM }
+}
+
+/**
+ * Format syntax tree to source code
+ */
+export function toSource(expr: Expression, options: SourceFormatOptions = {}): string {
+
+  const { width = 80, indent: indentSize = 2 } = options
+
+  const indentation = (level: number) => ' '.repeat(level * indentSize)
+
+  // Column after text, which starts at given column
+  const columnAfter = (text: string, column: number) => text.includes('\n')
+    ? text.length - text.lastIndexOf('\n') - 1
+    : column + text.length
+
+  const fits = (text: string, column: number) =>
+    !text.includes('\n') && column + text.length <= width
+
+  /**
+   * Expression with parentheses, if it would not parse back as operand
+   */
+  const operand = (expr: Expression, isValid: boolean, level: number, column: number): string =>
+    isValid ? format(expr, level, column)
+      : Array.isArray(expr) && syntaxOf(expr)==='do'
+        ? formatBlock(expr.slice(1), level, column)
+        : `(${format(expr, level, column + 1)})`
+
+  // Argument, list item, object value, or branch
+  const argument = (expr: Expression, level: number, column: number) =>
+    operand(expr, operatorOf(expr).precedence > precedence.STATEMENT, level, column)
+
+  /**
+   * Items separated by comma, on one line or each on its own line
+   */
+  const formatItems = (
+    open: string,
+    items: ((level: number, column: number) => string)[],
+    close: string,
+    level: number,
+    column: number,
+    // Space inside brackets, on one line
+    space = ''
+  ): string => {
+
+    if (!items.length) return open + close
+
+    const flat = `${open}${space}${
+      items.map(item => item(level, FLAT)).join(', ')
+    }${space}${close}`
+
+    if (fits(flat, column)) return flat
+
+    const inner = indentation(level + 1)
+    return `${open}\n${
+      items.map(item => inner + item(level + 1, inner.length)).join(',\n')
+    }\n${indentation(level)}${close}`
+  }
+
+  /**
+   * Statements in parentheses, on one line or each on its own line
+   */
+  const formatBlock = (statements: Expression[], level: number, column: number): string => {
+
+    const flat = `(${
+      statements.map(statement => argument(statement, level, FLAT)).join('; ')
+    })`
+
+    if (fits(flat, column)) return flat
+
+    return `(\n${formatStatements(statements, level + 1)}\n${indentation(level)})`
+  }
+
+  /**
+   * Statements on their own lines
+   */
+  const formatStatements = (statements: Expression[], level: number): string => {
+    const inner = indentation(level)
+    const lines = statements.map(statement => argument(statement, level, inner.length))
+    // Separate with semicolons, if any line would continue the one before
+    const separator = lines.slice(1).some(line => continuesLine.test(line)) ? ';' : ''
+    return lines.map(line => inner + line).join(`${separator}\n`)
+  }
+
+  const formatString = (str: string) => `'${
+    JSON.stringify(str).slice(1, -1).replace(/'/g, "\\'")
+  }'`
+
+  // Member of get expression
+  const formatMember = (member: Expression, level: number, column: number) =>
+    isQuotedString(member) && isIdentifier((member as Expression[])[1])
+      ? `.${(member as Expression[])[1]}`
+      : typeof member==='number' && Number.isInteger(member) && member >= 0
+        ? `.${member}`
+        : `.(${format(member, level, column + 2)})`
+
+  // Type after colon
+  const formatType = (type: Expression, level: number, column: number) =>
+    operand(type, operatorOf(type).precedence > precedence.ASSIGNMENT, level, column)
+
+  const formatParameter = (
+    param: Expression,
+    level: number,
+    column: number,
+    type: Expression = '_'
+  ): string => {
+    if (Array.isArray(param)) {
+      if (param[0]==='def' && isIdentifier(param[1])) {
+        return formatAssignment(param[1], param[2], level, column)
+      }
+      if (param[0]==='...' && isIdentifier(param[1])) {
+        const name = `...${param[1]}`
+        return type==='_' ? name
+          : `${name}: ${formatType((type as Expression[])[1], level, column + name.length + 2)}`
+      }
+    }
+    const name = format(param, level, column)
+    return type==='_' ? name
+      : `${name}: ${formatType(type, level, columnAfter(name, column) + 2)}`
+  }
+
+  /**
+   * Assignment, with type annotation of value on the left - x: number = 1
+   */
+  const formatAssignment = (target: Expression, value: Expression, level: number, column: number) => {
+    let left = typeof target==='string' ? target : format(target, level, column)
+    // Annotated lambda keeps types on its parameters
+    if (isAnnotated(value) && syntaxOf(value)!=='lambda') {
+      left += `: ${formatType(value[2], level, columnAfter(left, column) + 2)}`
+      value = value[1]
+    }
+    const right = operand(value, operatorOf(value).precedence >= precedence.ASSIGNMENT,
+      level, columnAfter(left, column) + 3)
+    return `${left} = ${right}`
+  }
+
+  const formatObjectPair = (pair: Expression, level: number, column: number): string => {
+
+    if (!Array.isArray(pair)) return format(pair, level, column)
+
+    const [key, value] = pair
+
+    // Spread
+    if (pair.length===1 && Array.isArray(key) && key[0]==='...') {
+      return format(key, level, column)
+    }
+
+    const keyString = typeof key==='string' ? key : argument(key, level, column)
+    if (pair.length===1) return keyString
+
+    return `${keyString}: ${argument(value, level, column + keyString.length + 2)}`
+  }
+
+  /**
+   * Loop with header in parentheses, and body as expression or block
+   */
+  const formatLoop = (header: string, body: Expression, level: number, column: number) => {
+    const left = `${header} `
+    return left + operand(body, operatorOf(body).precedence > precedence.STATEMENT,
+      level, columnAfter(left, column))
+  }
+
+  /**
+   * Guard of match branch - logical operators can be without parentheses
+   */
+  const formatGuard = (guard: Expression, level: number, column: number): string => {
+    if (!Array.isArray(guard) || !['&&', '||', '??'].includes(guard[0] as string)
+      || syntaxOf(guard)!=='binary'
+    ) {
+      return operand(guard, operatorOf(guard).precedence > precedence.ASSIGNMENT, level, column)
+    }
+    const [leftExpr, rightExpr] = guard.slice(1)
+    const left = formatGuard(leftExpr, level, column)
+    const right = operand(rightExpr, operatorOf(rightExpr).precedence > precedence.ASSIGNMENT,
+      level, columnAfter(left, column) + guard[0].length + 2)
+    return `${left} ${guard[0]} ${right}`
+  }
+
+  const formatMatchBranch = (branch: Expression[], level: number, column: number): string => {
+    const pattern = format(branch[0], level, column)
+    const guard = branch.length > 2
+      ? ` if ${formatGuard(branch[1], level, columnAfter(pattern, column) + 4)}`
+      : ''
+    const left = `${pattern}${guard} => `
+    return left + argument(branch[ branch.length-1 ], level, columnAfter(left, column))
+  }
+
+  const formatCall = (expr: Expression[], level: number, column: number, isOptional = false) => {
+    const [head, ...args] = expr
+    const { precedence: headPrecedence } = operatorOf(head)
+    const name = (typeof head==='string' && !isIdentifier(head)
+      ? head
+      : operand(head, headPrecedence >= precedence.CALL && !isNumber(head), level, column)
+    ) + (isOptional ? '?.' : '')
+    return name + formatItems(
+      '(',
+      args.map(arg => (level: number, column: number) => argument(arg, level, column)),
+      ')',
+      level,
+      columnAfter(name, column)
+    )
+  }
+
+  function format(expr: Expression, level: number, column: number): string {
+
+    if (!Array.isArray(expr)) return `${expr}`
+    if (!expr.length) return '()'
+    if (isQuotedString(expr)) return formatString(expr[1] as string)
+
+    const args = expr.slice(1)
+
+    switch (syntaxOf(expr)) {
+
+    case 'do':
+      return formatBlock(args, level, column)
+
+    case 'def':
+      return formatAssignment(args[0], args[1], level, column)
+
+    case 'declare': {
+      const keyword = expr[0]==='const' ? 'const' : 'let'
+      return args.length===1
+        ? `${keyword} ${args[0]}`
+        : `${keyword} ${formatAssignment(args[0], args[1], level, column + keyword.length + 1)}`
+    }
+
+    case 'lambda': {
+      // Types of parameters and return value
+      const [lambda, type] = expr[0]===':'
+        ? args as [Expression[], Expression[]]
+        : [expr, ['λ', [], '_']]
+      const [params, body] = lambda.slice(1) as [Expression[], Expression]
+      const [types, returnType] = type.slice(1) as [Expression[], Expression]
+      let left = params.length===1 && isIdentifier(params[0]) && types[0]==null && returnType==='_'
+        ? params[0]
+        : formatItems(
+          '(',
+          params.map((param, i) => (level: number, column: number) =>
+            formatParameter(param, level, column, types[i])),
+          ')',
+          level,
+          column
+        )
+      if (returnType!=='_') {
+        left += `: ${formatType(returnType, level, columnAfter(left, column) + 2)}`
+      }
+      const right = operand(body, operatorOf(body).precedence >= precedence.ASSIGNMENT,
+        level, columnAfter(left, column) + 4)
+      return `${left} => ${right}`
+    }
+
+    case 'annotation': {
+      const [value, type] = args
+      const left = operand(value, operatorOf(value).precedence > precedence.STATEMENT, level, column)
+      return `${left}: ${formatType(type, level, columnAfter(left, column) + 2)}`
+    }
+
+    case 'if': {
+      const [condition, trueBranch, falseBranch] = args
+      const conditionOperator = operatorOf(condition)
+      const left = operand(condition,
+        conditionOperator.precedence > precedence.CONDITIONAL
+        || (conditionOperator.precedence===precedence.CONDITIONAL
+          && !!conditionOperator.leftAssociative),
+        level, column)
+      const middle = argument(trueBranch, level, columnAfter(left, column) + 3)
+      const right = operand(falseBranch, operatorOf(falseBranch).precedence >= precedence.CONDITIONAL,
+        level, columnAfter(middle, columnAfter(left, column) + 3) + 3)
+      return `${left} ? ${middle} : ${right}`
+    }
+
+    case 'binary': {
+      const operator = expr[0] as string
+      const { precedence: operatorPrecedence, rightAssociative } = binaryOperators[ operator ]
+      const [leftExpr, rightExpr] = args
+      const leftOperator = operatorOf(leftExpr)
+      const rightOperator = operatorOf(rightExpr)
+      const left = operand(leftExpr,
+        leftOperator.precedence > operatorPrecedence
+        || (leftOperator.precedence===operatorPrecedence && !rightAssociative && !!leftOperator.leftAssociative),
+        level, column)
+      const right = operand(rightExpr,
+        rightOperator.precedence > operatorPrecedence
+        || (rightOperator.precedence===operatorPrecedence && !!rightAssociative),
+        level, columnAfter(left, column) + operator.length + 2)
+      return `${left} ${operator} ${right}`
+    }
+
+    case 'not': {
+      const right = operand(args[0], operatorOf(args[0]).precedence >= precedence.PREFIX,
+        level, column + 1)
+      return `!${right}`
+    }
+
+    case 'get': {
+      const [target, ...members] = args
+      const left = operand(target, operatorOf(target).precedence >= precedence.CALL && !isNumber(target),
+        level, column)
+      return members.reduce((result: string, member) =>
+        result + formatMember(member, level, columnAfter(result, column)),
+      left) as string
+    }
+
+    case 'optionalGet': {
+      const [target, member] = args
+      const left = operand(target, operatorOf(target).precedence >= precedence.CALL && !isNumber(target),
+        level, column)
+      const right = isQuotedString(member) && isIdentifier((member as Expression[])[1])
+        ? `?.${(member as Expression[])[1]}`
+        : `?.[${format(member, level, columnAfter(left, column) + 3)}]`
+      return left + right
+    }
+
+    case 'optionalCall':
+      return formatCall(args, level, column, true)
+
+    case 'while': {
+      const [condition, body] = args
+      const header = `while (${format(condition, level, column + 7)})`
+      return formatLoop(header, body, level, column)
+    }
+
+    case 'for': {
+      const [name, start, end, step, body] = args
+      // Default step
+      const range = (step===1 ? [start, end] : [start, end, step])
+        .map(arg => argument(arg, level, FLAT))
+        .join(', ')
+      return formatLoop(`for (${name} = ${range})`, body, level, column)
+    }
+
+    case 'forIn': {
+      const [name, collection, body] = args
+      const header = `for (${name} in ${format(collection, level, FLAT)})`
+      return formatLoop(header, body, level, column)
+    }
+
+    case 'exit': {
+      if (!args.length) return expr[0] as string
+      return `return ${argument(args[0], level, column + 7)}`
+    }
+
+    case 'spread':
+      return `...${argument(args[0], level, column + 3)}`
+
+    case 'match': {
+      const [value, ...branches] = args
+      // Value must be followed by branches
+      const isValid = isIdentifier(value) || isQuotedString(value)
+        || (isNumber(value) && (value as number) >= 0)
+        || (Array.isArray(value) && ['list', 'obj'].includes(syntaxOf(value)))
+      const left = `match ${operand(value, isValid, level, column + 6)} `
+      return left + formatItems(
+        '{',
+        branches.map(branch => (level: number, column: number) =>
+          formatMatchBranch(branch as Expression[], level, column)),
+        '}',
+        level,
+        columnAfter(left, column),
+        ' '
+      )
+    }
+
+    case 'list':
+      return formatItems(
+        '[',
+        args.map(arg => (level: number, column: number) => argument(arg, level, column)),
+        ']',
+        level,
+        column
+      )
+
+    case 'obj':
+      return formatItems(
+        '{',
+        args.map(pair => (level: number, column: number) => formatObjectPair(pair, level, column)),
+        '}',
+        level,
+        column,
+        ' '
+      )
+    }
+
+    return formatCall(expr, level, column)
+  }
+
+  // Statements of program on their own lines
+  if (Array.isArray(expr) && expr.length > 1 && syntaxOf(expr)==='do') {
+    return formatStatements(expr.slice(1), 0)
+  }
+
+  return expr==null ? '' : argument(expr, 0, 0)
+}
@@ -1,3 +1,5 @@
+import { isExactNumber } from '../evaluate/exact'
+
 
 const valuesSeen = new Map
 
@@ -29,6 +31,11 @@ export function toPrettyString(data, indent = 0) {
     return JSON.stringify(data)
   }
 
+  // Decimal or rational number, without rounding
+  if (isExactNumber(data)) {
+    return data.toString()
+  }
+
   if (typeof data === "string" || data instanceof String) {
 
     if (!indent) return data // String unquoted if root
@@ -1,28 +1,119 @@
-import {
-  parse as defaultParse,
-  defaultParser,
-  defaultLexer
+import { defaultParser, defaultLexer } from './parse'
+import { Environment } from './evaluate'
+import { createInstance } from './instance'
+import type { Plugin } from './plugin'
+
+export { parse, parseConcrete, printConcrete, Lexer, Parser, ParseError } from './parse'
+export type {
+  ParseOptions,
+  SourceMap,
+  SourceSpan,
+  FoundToken,
+  ConcreteNode,
+  ConcreteToken,
+  ConcreteParseOptions,
+  Trivia,
+  TriviaKind
 } from './parse'
-import {
-  Expression,
-  RuntimeEnvironment,
-  evaluate as evaluateSyntaxTree
+export {
+  RuntimeError,
+  BudgetExceededError,
+  Decimal,
+  Rational,
+  isExactNumber
 } from './evaluate'
-
-export { parse, Lexer, Parser } from './parse'
-export { createEnvironment } from './evaluate'
+export type {
+  EvaluateOptions,
+  CallFrame,
+  EnvironmentOptions,
+  SpecialForm,
+  NumberMode,
+  NumberOptions
+} from './evaluate'
+export { createExpreva } from './instance'
+export type { Expreva, ExprevaOptions, EvaluateSourceOptions } from './instance'
+export type { Plugin, PluginToken, PluginParselet } from './plugin'
+export { compileBytecode, runBytecode } from './bytecode'
+export type { Bytecode } from './bytecode'
+export { compile } from './closure'
+export type { CompiledExpression } from './closure'
+export { compileWasm, runWasm, instantiateWasm, WasmCompileError } from './wasm'
+export type { WasmProgram, UnsupportedExpression } from './wasm'
+export {
+  walk,
+  transform,
+  fold,
+  children,
+  mapChildren,
+  nodeType,
+  isNode
+} from './ast'
+export type {
+  SyntaxNode,
+  NodeType,
+  NodeTypes,
+  SymbolNode,
+  LiteralNode,
+  ParameterNode,
+  DefNode,
+  DeclareNode,
+  GetNode,
+  OptionalGetNode,
+  OptionalCallNode,
+  LambdaNode,
+  IfNode,
+  LogicalNode,
+  LetNode,
+  DoNode,
+  ListNode,
+  ObjNode,
+  ObjectPair,
+  PatternNode,
+  TryNode,
+  ExprNode,
+  AnnotationNode,
+  CallNode,
+  Visitor
+} from './ast'
+export { analyze as analyzeSyntaxTree } from './analyze'
+export type { AnalyzeOptions, Diagnostic, DiagnosticCode } from './analyze'
+export {
+  typecheck as typecheckSyntaxTree,
+  inferType as inferSyntaxTreeType,
+  parseType,
+  printType,
+  TypeCheckError
+} from './typecheck'
+export type { TypeEnvironment, TypeCheckOptions, Type } from './typecheck'
+export { partialEvaluate as partialEvaluateSyntaxTree, pureFunctions } from './optimize'
+export type { PartialEvaluateOptions } from './optimize'
 export {
   syntaxTreeToString,
   syntaxTreeToPrettyString,
+  syntaxTreeToSource,
   valueToPrettyString
 } from './format'
+export type { SourceFormatOptions } from './format'
 
 export { defaultParser as parser }
 export { defaultLexer as lexer }
 
-export function evaluate(source: string | Expression[], env: RuntimeEnvironment, parse = defaultParse) {
-  return evaluateSyntaxTree(
-    typeof source === 'string' ? parse(source) : source,
-    env
-  )
+const defaultInstance = createInstance(defaultLexer, defaultParser, Environment.root)
+
+export const {
+  evaluate,
+  evaluateAsync,
+  createEnvironment,
+  format,
+  analyze,
+  typecheck,
+  inferType,
+  partialEvaluate
+} = defaultInstance
+
+/**
+ * Use plugins in default instance
+ */
+export function use(...plugins: Plugin[]) {
+  defaultInstance.use(...plugins)
 }
@@ -0,0 +1,295 @@
+import {
+  parse as parseSource,
+  parseConcrete as parseConcreteSource,
+  ConcreteNode,
+  ConcreteParseOptions,
+  Lexer,
+  Parser,
+  ParseOptions,
+  SourceMap,
+} from './parse'
+import { registerTokens, registerRules } from './parse/grammar'
+import {
+  Expression,
+  EnvironmentProps,
+  EnvironmentOptions,
+  RuntimeEnvironment,
+  EvaluateOptions,
+  SpecialForms,
+  createEnvironment,
+  createRootEnvironment,
+  evaluate as evaluateSyntaxTree,
+  evaluateAsync as evaluateSyntaxTreeAsync,
+  rootScope,
+} from './evaluate'
+import { syntaxTreeToSource, formatConcrete, SourceFormatOptions } from './format'
+import { compileBytecode, runBytecode } from './bytecode'
+import { compile } from './closure'
+import { analyze as analyzeSyntaxTree, AnalyzeOptions, Diagnostic } from './analyze'
+import {
+  typecheck as typecheckSyntaxTree,
+  inferType as inferSyntaxTreeType,
+  TypeCheckOptions,
+  TypeCheckError,
+  TypeEnvironment
+} from './typecheck'
+import { partialEvaluate as partialEvaluateSyntaxTree, PartialEvaluateOptions } from './optimize'
+import { Plugin, sortPlugins, registerPluginGrammar } from './plugin'
+
+export type EvaluateSourceOptions = EvaluateOptions & {
+  parse?: typeof parseSource
+  // Interpreter by default, compile to bytecode and run on virtual machine,
+  // or compile to JavaScript closures
+  backend?: 'interpreter' | 'vm' | 'closure'
+}
+
+export type ExprevaOptions = {
+  // Built-in functions and values, added to root environment
+  builtins?: EnvironmentProps
+  // Default options for new environments
+  environment?: EnvironmentOptions
+  // Default options for evaluate
+  evaluate?: EvaluateSourceOptions
+  plugins?: Plugin[]
+}
+
+/**
+ * Language instance with its own lexer, parser, root environment and options
+ */
+export interface Expreva {
+  lexer: Lexer<any>
+  parser: Parser<any, any>
+  root: RuntimeEnvironment
+  options: ExprevaOptions
+  // Names of plugins used
+  plugins: string[]
+  use: (...plugins: Plugin[]) => Expreva
+  parse: (source: string, options?: ParseOptions) => any
+  parseConcrete: (source: string, options?: ConcreteParseOptions) => ConcreteNode
+  // Format source code, keeping comments
+  format: (source: string, options?: SourceFormatOptions) => string
+  // Static analysis with built-ins of instance
+  analyze: (source: string | Expression, options?: AnalyzeOptions) => Diagnostic[]
+  // Type check with types of host environment, or environment with its values
+  typecheck: (
+    source: string | Expression,
+    envTypes?: TypeEnvironment | RuntimeEnvironment,
+    options?: TypeCheckOptions
+  ) => TypeCheckError[]
+  inferType: (
+    source: string | Expression,
+    envTypes?: TypeEnvironment | RuntimeEnvironment,
+    options?: TypeCheckOptions
+  ) => string
+  // Smaller syntax tree with constant expressions evaluated
+  partialEvaluate: (
+    source: string | Expression,
+    knownBindings?: { [name: string]: any },
+    options?: PartialEvaluateOptions
+  ) => Expression
+  evaluate: (
+    source: string | Expression[],
+    env?: RuntimeEnvironment,
+    options?: EvaluateSourceOptions | typeof parseSource
+  ) => any
+  evaluateAsync: (
+    source: string | Expression[],
+    env?: RuntimeEnvironment,
+    options?: EvaluateSourceOptions | typeof parseSource
+  ) => Promise<any>
+  createEnvironment: (props?: EnvironmentProps, options?: EnvironmentOptions) => RuntimeEnvironment
+}
+
+/**
+ * Create independent language instance - changes to its grammar or built-ins
+ * do not affect other instances
+ */
+export function createExpreva(options: ExprevaOptions = {}): Expreva {
+
+  const lexer = new Lexer()
+  const parser = new Parser()
+
+  registerTokens(lexer)
+  registerRules(parser)
+
+  const instance = createInstance(lexer, parser, createRootEnvironment(options.builtins), options)
+  if (options.plugins) instance.use(...options.plugins)
+
+  return instance
+}
+
+/**
+ * Create language instance from given lexer, parser and root environment
+ */
+export function createInstance(
+  lexer: Lexer<any>,
+  parser: Parser<any, any>,
+  root: RuntimeEnvironment,
+  options: ExprevaOptions = {}
+): Expreva {
+
+  // Built-ins and special forms from plugins
+  const builtins: EnvironmentProps = { ...options.builtins }
+  const specialForms: SpecialForms = {}
+
+  const instance: Expreva = {
+    lexer,
+    parser,
+    root,
+    options,
+    plugins: [],
+    use,
+    parse,
+    parseConcrete: (source, parseOptions) => parseConcreteSource(source, lexer, parser, parseOptions),
+    format: (source, formatOptions) => formatConcrete(
+      source,
+      parseConcreteSource(source, lexer, parser),
+      statement => syntaxTreeToSource(parse(statement), formatOptions)
+    ),
+    analyze,
+    typecheck: (source, envTypes, typecheckOptions) =>
+      typecheckSyntaxTree(...prepareTypecheck(source, envTypes, typecheckOptions)),
+    inferType: (source, envTypes, typecheckOptions) =>
+      inferSyntaxTreeType(...prepareTypecheck(source, envTypes, typecheckOptions)),
+    partialEvaluate: (source, knownBindings, optimizeOptions) => partialEvaluateSyntaxTree(
+      typeof source==='string' ? parse(source) : source,
+      knownBindings,
+      { root: instance.root, ...optimizeOptions }
+    ),
+    evaluate,
+    evaluateAsync,
+    createEnvironment: (props, environmentOptions) => createEnvironment(
+      props,
+      { ...options.environment, ...environmentOptions },
+      instance.root
+    )
+  }
+
+  /**
+   * Use plugins, sorted by their dependencies - root environment is recreated,
+   * so environments created before do not have new built-ins
+   */
+  function use(...plugins: Plugin[]) {
+
+    const newPlugins = sortPlugins(
+      plugins.filter(plugin => !instance.plugins.includes(plugin.name)),
+      instance.plugins
+    )
+    if (!newPlugins.length) return instance
+
+    for (const plugin of newPlugins) {
+      registerPluginGrammar(plugin, lexer, parser)
+      Object.assign(builtins, plugin.builtins)
+      Object.assign(specialForms, plugin.specialForms)
+      instance.plugins.push(plugin.name)
+    }
+
+    instance.root = createRootEnvironment(builtins, specialForms)
+    return instance
+  }
+
+  function parse(source: string, parseOptions?: ParseOptions) {
+    return parseSource(source, lexer, parser, parseOptions)
+  }
+
+  /**
+   * Analyze source, with source map to locate diagnostics
+   */
+  function analyze(source: string | Expression, analyzeOptions: AnalyzeOptions = {}) {
+    if (typeof source !== 'string') {
+      return analyzeSyntaxTree(source, { root: instance.root, ...analyzeOptions })
+    }
+    const sourceMap: SourceMap = analyzeOptions.sourceMap || new Map
+    return analyzeSyntaxTree(parse(source, { sourceMap }), {
+      root: instance.root,
+      ...analyzeOptions,
+      sourceMap
+    })
+  }
+
+  /**
+   * Parse source, if needed, with source map to locate type errors
+   */
+  function prepareTypecheck(
+    source: string | Expression,
+    envTypes?: TypeEnvironment | RuntimeEnvironment,
+    typecheckOptions: TypeCheckOptions = {}
+  ): [Expression, TypeEnvironment | RuntimeEnvironment | undefined, TypeCheckOptions] {
+    const checkOptions = { root: instance.root, ...typecheckOptions }
+    if (typeof source !== 'string') return [source, envTypes, checkOptions]
+    const sourceMap: SourceMap = checkOptions.sourceMap || new Map
+    return [parse(source, { sourceMap }), envTypes, { ...checkOptions, sourceMap }]
+  }
+
+  /**
+   * Parse source, if needed, with source map to locate runtime errors, and
+   * number literals in numeric mode of environment
+   */
+  function prepareEvaluate(
+    source: string | Expression[],
+    env: RuntimeEnvironment,
+    // Previously the third argument was parse function
+    givenOptions: EvaluateSourceOptions | typeof parseSource = {}
+  ): [Expression, EvaluateSourceOptions] {
+
+    const {
+      parse: parseWith = (source: string, _?: any, __?: any, parseOptions?: ParseOptions) =>
+        parse(source, parseOptions),
+      ...evaluateOptions
+    } = givenOptions instanceof Function
+      ? { ...options.evaluate, parse: givenOptions }
+      : { ...options.evaluate, ...givenOptions }
+
+    if (typeof source !== 'string') return [source, evaluateOptions]
+
+    const sourceMap: SourceMap = evaluateOptions.sourceMap || new Map
+    const { numbers } = rootScope(env) || instance.root
+    const ast = parseWith(source, undefined, undefined, {
+      sourceMap,
+      parseNumber: numbers && numbers.parse
+    })
+
+    return [ast, { ...evaluateOptions, sourceMap }]
+  }
+
+  function evaluate(
+    source: string | Expression[],
+    env: RuntimeEnvironment = instance.createEnvironment(),
+    givenOptions?: EvaluateSourceOptions | typeof parseSource
+  ) {
+    const [ast, { backend, ...evaluateOptions }] = prepareEvaluate(source, env, givenOptions)
+
+    if (backend==='vm') {
+      const { specialForms } = rootScope(env) || instance.root
+      const program = compileBytecode(ast, {
+        sourceMap: evaluateOptions.sourceMap,
+        specialForms: Object.keys(specialForms || {})
+      })
+      return runBytecode(program, env, evaluateOptions)
+    }
+
+    if (backend==='closure') {
+      return compile(ast, env, { sourceMap: evaluateOptions.sourceMap })(env, evaluateOptions)
+    }
+
+    return evaluateSyntaxTree(ast, env, evaluateOptions)
+  }
+
+  /**
+   * Evaluate with host functions that return Promises - only the interpreter awaits them,
+   * so other backends are rejected
+   */
+  async function evaluateAsync(
+    source: string | Expression[],
+    env: RuntimeEnvironment = instance.createEnvironment(),
+    givenOptions?: EvaluateSourceOptions | typeof parseSource
+  ) {
+    const [ast, { backend, ...evaluateOptions }] = prepareEvaluate(source, env, givenOptions)
+    if (backend && backend!=='interpreter') {
+      throw new Error(`Backend "${backend}" does not support async evaluation`)
+    }
+    return evaluateSyntaxTreeAsync(ast, env, evaluateOptions)
+  }
+
+  return instance
+}
@@ -0,0 +1,44 @@
+/**
+ * Documentation of built-in functions and values, shown on hover and completion
+ */
+export const builtinDocumentation: { [name: string]: string } = {
+
+  true: 'Boolean true',
+  false: 'Boolean false',
+  nil: 'No value',
+
+  '+': 'Add numbers, or join strings',
+  '-': 'Subtract numbers',
+  '*': 'Multiply numbers',
+  '/': 'Divide numbers',
+  '^': 'Raise number to the power of another',
+
+  round: 'Round number to decimal places if given, half away from zero: `round(2.345, 2)`',
+  floor: 'Round number down, to decimal places if given',
+  ceil: 'Round number up, to decimal places if given',
+  toFixed: 'Format number as string with given decimal places: `toFixed(1.5, 2)`',
+
+  '!': 'Logical not',
+
+  '==': 'Equal - nil is equal to an undefined value',
+  '!=': 'Not equal',
+  '<': 'Less than',
+  '<=': 'Less than or equal',
+  '>': 'Greater than',
+  '>=': 'Greater than or equal',
+
+  map: 'Create list with each item of list passed through function: `[1, 2]->map(x => x * 2)`. For object, the function is called with key and value.',
+  filter: 'Create list with items that pass test function: `[1, 2]->filter(x => x > 1)`',
+  reduce: 'Reduce list to a value, with function of accumulator and item, and initial value: `[1, 2]->reduce((sum, x) => sum + x, 0)`',
+  join: 'Join list items to string with separator, concatenate lists, or merge objects: `[1, 2]->join(",")`',
+  size: 'Number of items in list, characters in string, or keys of object',
+  search: 'Index of item in list or string, or key of value in object - or nothing if not found',
+  push: 'Add item to end of list, and return the list',
+  pop: 'Remove item from end of list, and return it',
+  insert: 'Insert item at index of list: `list->insert(0, item)`',
+  slice: 'Part of list from start index, until end index if given',
+  keys: 'List of keys of object',
+  set: 'Set key of object to value, or merge keys from another object, and return the object',
+  unset: 'Remove key from object, and return the object',
+  print: 'Print values to console',
+}
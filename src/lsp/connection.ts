@@ -0,0 +1,208 @@
+/**
+ * JSON-RPC connection over streams, with messages framed by Content-Length header
+ * as in the Language Server Protocol
+ */
+
+export type Message = {
+  jsonrpc: '2.0'
+  id?: number | string | null
+  method?: string
+  params?: any
+  result?: any
+  error?: { code: number, message: string, data?: any }
+}
+
+export type RequestHandler = (params: any) => any
+export type NotificationHandler = (params: any) => void
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+}
+
+// Type of message to log on the client
+const MessageType = { Error: 1 }
+
+/**
+ * Error to send as response to request
+ */
+export class ResponseError extends Error {
+  constructor(public code: number, message: string, public data?: any) {
+    super(message)
+  }
+}
+
+// Subset of Node.js streams
+export interface InputStream {
+  on(event: 'data', listener: (chunk: any) => void): any
+  removeListener(event: 'data', listener: (chunk: any) => void): any
+}
+
+export interface OutputStream {
+  write(chunk: string): any
+}
+
+export interface Connection {
+  onRequest: (method: string, handler: RequestHandler) => void
+  onNotification: (method: string, handler: NotificationHandler) => void
+  sendRequest: (method: string, params?: any) => Promise<any>
+  sendNotification: (method: string, params?: any) => void
+  listen: () => void
+  dispose: () => void
+}
+
+const headerSeparator = '\r\n\r\n'
+
+// Object with jsonrpc or method - not a batch or other value
+const isMessage = (value: any): value is Message =>
+  value!=null && typeof value==='object' && !Array.isArray(value)
+  && (value.jsonrpc!==undefined || value.method!==undefined)
+
+export function createConnection(input: InputStream, output: OutputStream): Connection {
+
+  const requestHandlers: { [method: string]: RequestHandler } = {}
+  const notificationHandlers: { [method: string]: NotificationHandler } = {}
+  const pending = new Map<number | string, { resolve: (result: any) => void, reject: (e: Error) => void }>()
+
+  let lastId = 0
+  let buffer = Buffer.alloc(0)
+
+  const send = (message: Message) => {
+    const body = JSON.stringify(message)
+    output.write(`Content-Length: ${Buffer.byteLength(body, 'utf8')}${headerSeparator}${body}`)
+  }
+
+  const respond = (id: Message['id'], result: any) => send({ jsonrpc: '2.0', id, result: result===undefined ? null : result })
+
+  const respondError = (id: Message['id'], e: any) => send({
+    jsonrpc: '2.0',
+    id,
+    error: e instanceof ResponseError
+      ? { code: e.code, message: e.message, ...(e.data!==undefined ? { data: e.data } : {}) }
+      : { code: ErrorCodes.InternalError, message: e instanceof Error ? e.message : String(e) }
+  })
+
+  const handleRequest = (message: Message) => {
+    const handler = requestHandlers[ message.method as string ]
+    if (!handler) {
+      return respondError(message.id, new ResponseError(ErrorCodes.MethodNotFound, `Unhandled method ${message.method}`))
+    }
+    let result
+    try {
+      result = handler(message.params)
+    } catch (e) {
+      return respondError(message.id, e)
+    }
+    // Respond in order of requests, unless handler is async
+    if (result && result.then instanceof Function) {
+      result.then(
+        (value: any) => respond(message.id, value),
+        (e: any) => respondError(message.id, e)
+      )
+      return
+    }
+    respond(message.id, result)
+  }
+
+  const handleMessage = (message: Message) => {
+
+    // Response to request sent
+    if (!message.method) {
+      const request = message.id!=null && pending.get(message.id)
+      if (!request) return
+      pending.delete(message.id as number | string)
+      if (message.error) request.reject(new ResponseError(message.error.code, message.error.message, message.error.data))
+      else request.resolve(message.result)
+      return
+    }
+
+    if (message.id!=null) return handleRequest(message)
+
+    const handler = notificationHandlers[ message.method ]
+    if (!handler) return
+    // Notification has no response, so log the error on client and keep running
+    try {
+      handler(message.params)
+    } catch (e) {
+      send({
+        jsonrpc: '2.0',
+        method: 'window/logMessage',
+        params: {
+          type: MessageType.Error,
+          message: `Error in ${message.method}: ${e instanceof Error ? e.message : String(e)}`
+        }
+      })
+    }
+  }
+
+  const receive = (chunk: any) => {
+
+    buffer = Buffer.concat([buffer, typeof chunk==='string' ? Buffer.from(chunk, 'utf8') : chunk])
+
+    while (true) {
+
+      const headerEnd = buffer.indexOf(headerSeparator)
+      if (headerEnd < 0) return
+
+      const headers = buffer.slice(0, headerEnd).toString('ascii')
+      const match = headers.match(/Content-Length:\s*(\d+)/i)
+      if (!match) {
+        // Skip invalid header
+        buffer = buffer.slice(headerEnd + headerSeparator.length)
+        continue
+      }
+
+      const start = headerEnd + headerSeparator.length
+      const end = start + parseInt(match[1], 10)
+      if (buffer.length < end) return
+
+      const body = buffer.slice(start, end).toString('utf8')
+      buffer = buffer.slice(end)
+
+      let message: any
+      try {
+        message = JSON.parse(body)
+      } catch (e) {
+        respondError(null, new ResponseError(ErrorCodes.ParseError, 'Invalid JSON'))
+        continue
+      }
+      if (!isMessage(message)) {
+        respondError(null, new ResponseError(ErrorCodes.InvalidRequest, 'Invalid request'))
+        continue
+      }
+      handleMessage(message)
+    }
+  }
+
+  return {
+    onRequest(method, handler) {
+      requestHandlers[ method ] = handler
+    },
+    onNotification(method, handler) {
+      notificationHandlers[ method ] = handler
+    },
+    sendRequest(method, params) {
+      const id = ++lastId
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject })
+        send({ jsonrpc: '2.0', id, method, params })
+      })
+    },
+    sendNotification(method, params) {
+      send({ jsonrpc: '2.0', method, params })
+    },
+    listen() {
+      input.on('data', receive)
+    },
+    dispose() {
+      input.removeListener('data', receive)
+      for (const request of pending.values()) {
+        request.reject(new Error('Connection disposed'))
+      }
+      pending.clear()
+    },
+  }
+}
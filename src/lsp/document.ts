@@ -0,0 +1,649 @@
+/**
+ * Text document with its syntax tree, and symbols resolved to their bindings -
+ * each occurrence of a symbol is located by the identifier token it came from
+ */
+
+import type { Expression } from '../evaluate'
+import type { Expreva } from '../instance'
+import type { ParseError, SourceMap, SourceSpan, ConcreteNode, ConcreteToken } from '../parse'
+import type { Diagnostic as AnalyzerDiagnostic } from '../analyze'
+import {
+  SyntaxNode,
+  PatternNode,
+  nodeType,
+  declarations,
+  declaredNames as declaredNodeNames,
+  parameterNames,
+  patternNames,
+  patternDefaults,
+  matchPatternNames,
+  isPatternNode
+} from '../ast'
+
+/**
+ * Position in document as in the protocol - line and character from 0
+ */
+export type Position = {
+  line: number
+  character: number
+}
+
+export type Range = {
+  start: Position
+  end: Position
+}
+
+export type BindingKind = 'variable' | 'function' | 'parameter'
+
+export type Binding = {
+  name: string
+  kind: BindingKind
+  // Global from def, or local parameter, let binding and declared variable
+  isGlobal: boolean
+  // Declared with const
+  isConstant?: boolean
+  // First definition
+  definition?: Occurrence
+  occurrences: Occurrence[]
+  // Value of def or let binding, or default value of parameter
+  value?: Expression
+  // Comments before definition
+  documentation?: string
+  // Offsets of scope where local binding is visible
+  scope?: OffsetRange
+  // Range of first definition of global
+  range?: Range
+}
+
+export type Occurrence = {
+  name: string
+  range: Range
+  start: number
+  end: number
+  isDefinition: boolean
+  // Resolved binding, or none for built-in and undefined symbol
+  binding?: Binding
+}
+
+type OffsetRange = {
+  start: number
+  end: number
+}
+
+type Scope = {
+  bindings: { [name: string]: Binding }
+  parent?: Scope
+}
+
+// Symbol in syntax tree, to locate by its token
+type Leaf = {
+  name: string
+  isDefinition: boolean
+  // Member key has no binding
+  isKey?: boolean
+  binding?: Binding
+}
+
+// Nearest list node with source location, and symbols located in it
+type Owner = {
+  range: OffsetRange
+  leaves: Leaf[]
+}
+
+export class TextDocument {
+
+  ast: Expression
+  sourceMap: SourceMap = new Map
+  errors: ParseError[] = []
+  diagnostics: AnalyzerDiagnostic[] = []
+  tokens: ConcreteToken[] = []
+  occurrences: Occurrence[] = []
+  bindings: Binding[] = []
+  globals: { [name: string]: Binding } = {}
+
+  private lineStarts: number[] = [0]
+  private owners: Owner[] = []
+
+  constructor(
+    public uri: string,
+    public text: string,
+    public version: number,
+    public expreva: Expreva,
+    // Host environment - its keys are defined symbols
+    public environment: { [name: string]: any } = {}
+  ) {
+
+    for (let i = 0; i < text.length; i++) {
+      if (text[i]==='\n') this.lineStarts.push(i + 1)
+    }
+
+    this.ast = expreva.parse(text, { sourceMap: this.sourceMap, errors: this.errors })
+    this.tokens = flattenTokens(expreva.parseConcrete(text, { errors: [] }))
+
+    this.diagnostics = expreva.analyze(this.ast, {
+      environment,
+      sourceMap: this.sourceMap
+    })
+
+    this.resolve()
+  }
+
+  offsetAt(position: Position): number {
+    const line = Math.max(0, Math.min(position.line, this.lineStarts.length - 1))
+    const lineEnd = line + 1 < this.lineStarts.length ? this.lineStarts[ line + 1 ] : this.text.length
+    return Math.min(this.lineStarts[ line ] + position.character, lineEnd)
+  }
+
+  positionAt(offset: number): Position {
+    let line = 0
+    while (line + 1 < this.lineStarts.length && this.lineStarts[ line + 1 ] <= offset) line++
+    return { line, character: offset - this.lineStarts[ line ] }
+  }
+
+  rangeOf(start: number, end: number): Range {
+    return { start: this.positionAt(start), end: this.positionAt(end) }
+  }
+
+  /**
+   * Source span from parser or analyzer, with line and column from 1
+   */
+  spanToRange(span: SourceSpan): Range {
+    return {
+      start: { line: span.start.line - 1, character: span.start.column - 1 },
+      end: { line: span.end.line - 1, character: span.end.column - 1 },
+    }
+  }
+
+  spanToOffsets(span: SourceSpan): OffsetRange {
+    return {
+      start: this.offsetAt(this.spanToRange(span).start),
+      end: this.offsetAt(this.spanToRange(span).end),
+    }
+  }
+
+  /**
+   * Symbol at position, including its end
+   */
+  occurrenceAt(position: Position): Occurrence | undefined {
+    const offset = this.offsetAt(position)
+    return this.occurrences.find(o => o.start <= offset && offset <= o.end)
+  }
+
+  /**
+   * Local bindings visible at position, from the innermost scope
+   */
+  localsAt(position: Position): Binding[] {
+    const offset = this.offsetAt(position)
+    return this.bindings
+      .filter(b => !b.isGlobal && b.scope && b.scope.start <= offset && offset <= b.scope.end)
+      .sort((a, b) => (b.scope as OffsetRange).start - (a.scope as OffsetRange).start)
+  }
+
+  /**
+   * Token of given occurrence, with its trivia
+   */
+  tokenAt(occurrence: Occurrence): ConcreteToken | undefined {
+    return this.tokens.find(token => token.start===occurrence.start)
+  }
+
+  private resolve() {
+
+    this.collectGlobals(this.ast)
+
+    const root: Owner = { range: { start: 0, end: this.text.length }, leaves: [] }
+    this.visit(this.ast, undefined, root)
+    this.owners.push(root)
+
+    this.locate()
+
+    for (const binding of this.bindings) {
+      if (!binding.definition) continue
+      const token = this.tokenAt(binding.definition)
+      if (token) binding.documentation = commentText(token.leading.filter(t => t.kind==='comment'))
+    }
+  }
+
+  private createBinding(name: string, kind: BindingKind, value?: Expression, scope?: OffsetRange): Binding {
+    const binding: Binding = { name, kind, isGlobal: scope==null, occurrences: [], value }
+    if (scope) binding.scope = scope
+    this.bindings.push(binding)
+    return binding
+  }
+
+  /**
+   * Collect global variables from every def and declaration that is not local
+   */
+  private collectGlobals(ast: Expression, locals: string[] = []): void {
+    if (!Array.isArray(ast)) return
+    const type = nodeType(ast)
+    if (type==='expr' || type==='comment') return
+    if (type==='lambda') {
+      locals = [...locals, ...parameterNames(ast[1] as SyntaxNode), ...declaredNames(ast[2])]
+    } else if (type==='let' && Array.isArray(ast[1])) {
+      locals = [
+        ...locals,
+        ...ast[1].filter((name, i) => i % 2===0 && typeof name==='string') as string[],
+        ...declaredNames(ast[2])
+      ]
+    } else if (type==='while' || type==='for' || type==='forIn') {
+      locals = [
+        ...locals,
+        ...(type==='while' ? [] : [ast[1] as string]),
+        ...declaredNames(ast[ ast.length-1 ])
+      ]
+    } else if (type==='match') {
+      // Each branch has its own scope
+      this.collectGlobals(ast[1], locals)
+      for (const branch of ast.slice(2)) {
+        if (!Array.isArray(branch)) continue
+        const branchLocals = [
+          ...locals,
+          ...matchPatternNames(branch[0] as SyntaxNode),
+          ...branch.slice(1).flatMap(expr => declaredNames(expr))
+        ]
+        for (const expr of branch.slice(1)) this.collectGlobals(expr, branchLocals)
+      }
+      return
+    } else if ((type==='def' || type==='declare') && isPatternNode(ast[1])) {
+      // Each name in destructuring pattern
+      for (const name of patternNames(ast[1])) {
+        if (locals.includes(name) || this.globals[ name ]) continue
+        const binding = this.createBinding(name, 'variable')
+        if (ast[0]==='const') binding.isConstant = true
+        const span = this.sourceMap.get(ast)
+        if (span) binding.range = this.spanToRange(span)
+        this.globals[ name ] = binding
+      }
+      for (const child of [...patternDefaults(ast[1]), ast[2]]) {
+        this.collectGlobals(child as Expression, locals)
+      }
+      return
+    } else if ((type==='def' || type==='declare') && typeof ast[1]==='string'
+      && !locals.includes(ast[1]) && !this.globals[ ast[1] ]
+    ) {
+      const value = withoutAnnotation(ast[2])
+      const binding = this.createBinding(ast[1], isLambda(value) ? 'function' : 'variable', ast[2])
+      if (ast[0]==='const') binding.isConstant = true
+      const span = this.sourceMap.get(ast)
+      if (span) binding.range = this.spanToRange(span)
+      this.globals[ ast[1] ] = binding
+    }
+    for (const child of ast) this.collectGlobals(child, locals)
+  }
+
+  /**
+   * Bind variables declared in body of scope, before visiting it - so functions
+   * in the same scope can refer to each other
+   */
+  private declare(scope: Scope, body: Expression, owner: Owner) {
+    for (const [kind, target, node] of declarations(body as SyntaxNode)) {
+      for (const name of patternNames(target)) {
+        if (scope.bindings.hasOwnProperty(name)) continue
+        // Value of destructuring is not the variable's
+        const value = typeof target==='string' ? node as Expression : undefined
+        const binding = this.createBinding(name,
+          value!==undefined && isLambda(withoutAnnotation(value)) ? 'function' : 'variable',
+          value, owner.range)
+        if (kind==='const') binding.isConstant = true
+        scope.bindings[ name ] = binding
+      }
+    }
+  }
+
+  private lookup(name: string, scope?: Scope): Binding | undefined {
+    for (let current = scope; current; current = current.parent) {
+      if (current.bindings.hasOwnProperty(name)) return current.bindings[ name ]
+    }
+    return this.globals.hasOwnProperty(name) ? this.globals[ name ] : undefined
+  }
+
+  private visit(ast: Expression, scope: Scope | undefined, owner: Owner): void {
+
+    if (typeof ast==='string') {
+      owner.leaves.push({ name: ast, isDefinition: false, binding: this.lookup(ast, scope) })
+      return
+    }
+    if (!Array.isArray(ast) || !ast.length) return
+
+    const span = this.sourceMap.get(ast)
+    const nodeOwner: Owner = span ? { range: this.spanToOffsets(span), leaves: [] } : owner
+    const args = ast.slice(1)
+
+    switch (nodeType(ast)) {
+
+    case 'expr':
+    case 'comment':
+      break
+
+    case 'def':
+      if (typeof args[0]==='string') {
+        nodeOwner.leaves.push({ name: args[0], isDefinition: true, binding: this.lookup(args[0], scope) })
+      } else if (isPatternNode(args[0])) {
+        this.visitPattern(args[0], scope, nodeOwner, name => this.lookup(name, scope))
+      } else {
+        this.visit(args[0], scope, nodeOwner)
+      }
+      this.visit(args[1], scope, nodeOwner)
+      break
+
+    case 'declare': {
+      const name = args[0]
+      if (typeof name==='string') {
+        // Declared in value of let binding
+        if (scope && !scope.bindings.hasOwnProperty(name)) this.declare(scope, ast, owner)
+        const binding = scope ? scope.bindings[ name ] : this.globals[ name ]
+        nodeOwner.leaves.push({ name, isDefinition: true, binding })
+      } else if (isPatternNode(name)) {
+        if (scope && patternNames(name).some(n => !scope.bindings.hasOwnProperty(n))) {
+          this.declare(scope, ast, owner)
+        }
+        this.visitPattern(name, scope, nodeOwner, n => scope ? scope.bindings[ n ] : this.globals[ n ])
+      }
+      this.visit(args[1], scope, nodeOwner)
+      break
+    }
+
+    case 'lambda':
+      this.visitLambda(ast, scope, nodeOwner)
+      break
+
+    case 'try':
+      this.visit(args[0], scope, nodeOwner)
+      if (Array.isArray(args[1])) {
+        // Catch function takes a single parameter without list
+        const handler = args[1] as Expression[]
+        this.visitLambda(handler, scope, nodeOwner, Array.isArray(handler[1]) ? handler[1] : [handler[1]])
+      }
+      break
+
+    case 'let': {
+      if (!Array.isArray(args[0])) {
+        args.forEach(arg => this.visit(arg, scope, nodeOwner))
+        break
+      }
+      const pairs = args[0]
+      const letScope: Scope = { bindings: {}, parent: scope }
+      for (let i = 0; i < pairs.length; i += 2) {
+        const name = pairs[i]
+        this.visit(pairs[i + 1], letScope, nodeOwner)
+        if (typeof name!=='string') continue
+        const binding = this.createBinding(name, isLambda(withoutAnnotation(pairs[i + 1])) ? 'function' : 'variable',
+          pairs[i + 1], nodeOwner.range)
+        letScope.bindings[ name ] = binding
+        nodeOwner.leaves.push({ name, isDefinition: true, binding })
+      }
+      this.declare(letScope, args[1], nodeOwner)
+      this.visit(args[1], letScope, nodeOwner)
+      break
+    }
+
+    // Loop body has its own scope, with loop variable if any
+    case 'while':
+    case 'for':
+    case 'forIn': {
+      const last = args.length - 1
+      const loopScope: Scope = { bindings: {}, parent: scope }
+      args.slice(0, last).forEach((arg, i) => {
+        if (i > 0 || ast[0]==='while') return this.visit(arg, scope, nodeOwner)
+        if (typeof arg!=='string') return
+        const binding = this.createBinding(arg, 'variable', undefined, nodeOwner.range)
+        loopScope.bindings[ arg ] = binding
+        nodeOwner.leaves.push({ name: arg, isDefinition: true, binding })
+      })
+      this.declare(loopScope, args[ last ], nodeOwner)
+      this.visit(args[ last ], loopScope, nodeOwner)
+      break
+    }
+
+    case 'match':
+      this.visit(args[0], scope, nodeOwner)
+      for (const branch of args.slice(1)) {
+        if (Array.isArray(branch)) this.visitMatchBranch(branch, scope, nodeOwner)
+      }
+      break
+
+    case 'obj':
+      for (const pair of args) {
+        if (!Array.isArray(pair)) continue
+        const [key, ...values] = pair
+        if (typeof key==='string') {
+          // { key } is the same as { key: key }
+          if (!values.length) this.visit(key, scope, nodeOwner)
+          else nodeOwner.leaves.push({ name: key, isDefinition: false, isKey: true })
+        } else {
+          this.visit(key, scope, nodeOwner)
+        }
+        values.forEach(value => this.visit(value, scope, nodeOwner))
+      }
+      break
+
+    case 'get':
+    case 'optionalGet':
+      this.visit(args[0], scope, nodeOwner)
+      for (const member of args.slice(1)) {
+        const key = Array.isArray(member) && (member[0]==='expr' || member[0]==='def') ? member[1] : undefined
+        if (typeof key==='string') nodeOwner.leaves.push({ name: key, isDefinition: false, isKey: true })
+        if (Array.isArray(member) && member[0]==='def') this.visit(member[2], scope, nodeOwner)
+        else if (typeof key!=='string') this.visit(member, scope, nodeOwner)
+      }
+      break
+
+    case 'annotation':
+      this.visit(args[0], scope, nodeOwner)
+      break
+
+    case 'call':
+      ast.forEach(item => this.visit(item, scope, nodeOwner))
+      break
+
+    default:
+      args.forEach(arg => this.visit(arg, scope, nodeOwner))
+    }
+
+    // Inner nodes claim their tokens first
+    if (nodeOwner!==owner) this.owners.push(nodeOwner)
+  }
+
+  private visitLambda(
+    ast: Expression[],
+    scope: Scope | undefined,
+    owner: Owner,
+    params: Expression[] = Array.isArray(ast[1]) ? ast[1] : []
+  ) {
+
+    const functionScope: Scope = { bindings: {}, parent: scope }
+
+    const bindName = (name: string, value?: Expression) => {
+      const binding = this.createBinding(name, 'parameter', value, owner.range)
+      functionScope.bindings[ name ] = binding
+      return binding
+    }
+    const bind = (name: Expression, value?: Expression) => {
+      if (isPatternNode(name)) return this.visitPattern(name, functionScope, owner, n => bindName(n))
+      if (typeof name!=='string' || name==='&') return
+      owner.leaves.push({ name, isDefinition: true, binding: bindName(name, value) })
+    }
+
+    for (const param of params) {
+      if (!Array.isArray(param) || isPatternNode(param)) {
+        bind(param)
+        continue
+      }
+      // Default value sees previous parameters
+      if (param[0]==='def') this.visit(param[2], functionScope, owner)
+      bind(param[1], param[0]==='def' ? param[2] : undefined)
+    }
+
+    this.declare(functionScope, ast[2], owner)
+    this.visit(ast[2], functionScope, owner)
+  }
+
+  /**
+   * Names in destructuring pattern as definitions, in order of source - with object
+   * keys, and default values
+   */
+  private visitPattern(
+    pattern: PatternNode,
+    scope: Scope | undefined,
+    owner: Owner,
+    define: (name: string) => Binding | undefined
+  ) {
+    const visitTarget = (target: Expression) => {
+      if (typeof target==='string') {
+        owner.leaves.push({ name: target, isDefinition: true, binding: define(target) })
+      } else if (isPatternNode(target)) {
+        this.visitPattern(target, scope, owner, define)
+      } else if (Array.isArray(target) && target[0]==='def') {
+        visitTarget(target[1])
+        this.visit(target[2], scope, owner)
+      } else if (Array.isArray(target) && target[0]==='...') {
+        visitTarget(target[1])
+      }
+    }
+    for (const item of pattern.slice(1) as Expression[]) {
+      if (pattern[0]==='list') {
+        visitTarget(item)
+        continue
+      }
+      if (!Array.isArray(item)) continue
+      // Key only, or key and target
+      if (item.length===1) {
+        visitTarget(item[0])
+        continue
+      }
+      if (typeof item[0]==='string') owner.leaves.push({ name: item[0], isDefinition: false, isKey: true })
+      visitTarget(item[1])
+    }
+  }
+
+  /**
+   * Branch of match has its own scope, with names in pattern
+   */
+  private visitMatchBranch(branch: Expression[], scope: Scope | undefined, owner: Owner) {
+
+    const span = this.sourceMap.get(branch)
+    const branchOwner: Owner = span ? { range: this.spanToOffsets(span), leaves: [] } : owner
+    const branchScope: Scope = { bindings: {}, parent: scope }
+
+    const define = (name: string) => branchScope.bindings[ name ]
+      || (branchScope.bindings[ name ] = this.createBinding(name, 'variable', undefined, branchOwner.range))
+
+    this.visitMatchPattern(branch[0], branchOwner, define)
+
+    for (const expr of branch.slice(1)) this.declare(branchScope, expr, branchOwner)
+    for (const expr of branch.slice(1)) this.visit(expr, branchScope, branchOwner)
+
+    if (branchOwner!==owner) this.owners.push(branchOwner)
+  }
+
+  /**
+   * Names in match pattern as definitions, with object keys - literals and
+   * wildcard have no binding
+   */
+  private visitMatchPattern(pattern: Expression, owner: Owner, define: (name: string) => Binding) {
+    if (typeof pattern==='string') {
+      if (matchPatternNames(pattern).length) {
+        owner.leaves.push({ name: pattern, isDefinition: true, binding: define(pattern) })
+      }
+      return
+    }
+    if (!isPatternNode(pattern)) return
+    // Rest is bound to name
+    const withoutSpread = (item: Expression) => Array.isArray(item) && item[0]==='...' ? item[1] : item
+    for (const item of pattern.slice(1) as Expression[]) {
+      if (pattern[0]==='list') {
+        this.visitMatchPattern(withoutSpread(item), owner, define)
+        continue
+      }
+      if (!Array.isArray(item)) continue
+      // Key only, or key and pattern
+      if (item.length===1) {
+        this.visitMatchPattern(withoutSpread(item[0]), owner, define)
+        continue
+      }
+      if (typeof item[0]==='string') owner.leaves.push({ name: item[0], isDefinition: false, isKey: true })
+      this.visitMatchPattern(item[1], owner, define)
+    }
+  }
+
+  /**
+   * Match symbols to identifier tokens, in order within the span of their node
+   */
+  private locate() {
+
+    const identifiers = this.tokens.filter(token => token.type==='IDENTIFIER')
+    const claimed = new Set<ConcreteToken>()
+
+    // Smaller spans first, and inner nodes before outer ones of the same size
+    const owners = this.owners
+      .map((owner, index) => ({ owner, index }))
+      .sort((a, b) => (a.owner.range.end - a.owner.range.start) - (b.owner.range.end - b.owner.range.start)
+        || a.index - b.index
+      )
+      .map(({ owner }) => owner)
+
+    for (const { range, leaves } of owners) {
+      for (const leaf of leaves) {
+
+        const token = identifiers.find(token => !claimed.has(token) && token.text===leaf.name
+          && token.start >= range.start && token.end <= range.end
+        )
+        if (!token) continue
+        claimed.add(token)
+        if (leaf.isKey) continue
+
+        const occurrence: Occurrence = {
+          name: leaf.name,
+          range: this.rangeOf(token.start, token.end),
+          start: token.start,
+          end: token.end,
+          isDefinition: leaf.isDefinition,
+        }
+        if (leaf.binding) {
+          occurrence.binding = leaf.binding
+          leaf.binding.occurrences.push(occurrence)
+          if (leaf.isDefinition && (!leaf.binding.definition
+            || leaf.binding.definition.start > occurrence.start
+          )) leaf.binding.definition = occurrence
+        }
+        this.occurrences.push(occurrence)
+      }
+    }
+
+    this.occurrences.sort((a, b) => a.start - b.start)
+    for (const binding of this.bindings) binding.occurrences.sort((a, b) => a.start - b.start)
+  }
+}
+
+// Expression without type annotation
+const withoutAnnotation = (ast: Expression): Expression =>
+  Array.isArray(ast) && ast[0]===':' ? withoutAnnotation(ast[1]) : ast
+
+const isLambda = (ast: Expression): boolean =>
+  Array.isArray(ast) && nodeType(ast)==='lambda'
+
+// Names of variables declared in scope of given body
+const declaredNames = (body: Expression): string[] => declaredNodeNames(body as SyntaxNode)
+
+function flattenTokens(node: ConcreteNode | ConcreteToken): ConcreteToken[] {
+  if (node.kind==='token') return [node]
+  return node.children.reduce((tokens: ConcreteToken[], child) => tokens.concat(flattenTokens(child)), [])
+}
+
+/**
+ * Text of comments without comment markers
+ */
+function commentText(comments: { text: string }[]): string | undefined {
+  const lines = comments
+    .map(comment => comment.text.trim()
+      .replace(/^\/\/\s?/, '')
+      .replace(/^\/\*+\s?/, '')
+      .replace(/\s*\*+\/$/, '')
+      .split('\n')
+      .map(line => line.replace(/^\s*\*\s?/, ''))
+      .join('\n')
+    )
+    .join('\n')
+    .trim()
+  return lines || undefined
+}
@@ -0,0 +1,25 @@
+/**
+ * Language Server Protocol server over standard input and output
+ */
+
+import { createConnection, InputStream, OutputStream } from './connection'
+import { createServer, ServerOptions } from './server'
+
+export * from './connection'
+export * from './server'
+export { TextDocument } from './document'
+export type { Binding, BindingKind, Occurrence, Position, Range } from './document'
+
+/**
+ * Start server on given streams, by default standard input and output
+ */
+export function startServer(
+  options: ServerOptions = {},
+  input: InputStream = process.stdin,
+  output: OutputStream = process.stdout
+) {
+  const connection = createConnection(input, output)
+  const server = createServer(connection, options)
+  connection.listen()
+  return server
+}
@@ -0,0 +1,342 @@
+/**
+ * Language server for Expreva documents - diagnostics, hover, go to definition,
+ * completion, rename and document symbols
+ */
+
+import type { Expreva } from '../instance'
+import { createExpreva } from '../instance'
+import { syntaxTreeToSource } from '../format'
+import { typeOfValue, printType } from '../typecheck'
+import { builtinTypes } from '../typecheck/builtins'
+import { builtinDocumentation } from './builtins'
+import { Connection, ResponseError, ErrorCodes } from './connection'
+import { TextDocument, Binding, Occurrence, Position, Range } from './document'
+import type { SourceSpan } from '../parse'
+
+export type ServerOptions = {
+  // Language instance, with its grammar and built-ins
+  expreva?: Expreva
+  // Host environment - its keys are defined symbols
+  environment?: { [name: string]: any }
+  // Called on exit notification, with exit code
+  onExit?: (code: number) => void
+}
+
+// Constants of the protocol
+const DiagnosticSeverity = { Error: 1, Warning: 2 }
+const CompletionItemKind = { Function: 3, Variable: 6, Constant: 21 }
+const SymbolKind = { Function: 12, Variable: 13, Constant: 14 }
+const TextDocumentSyncKind = { Full: 1 }
+
+const identifierPattern = /^([a-zA-Z_]|[^\u0000-\u007F])([a-zA-Z0-9_]|[^\u0000-\u007F])*$/
+
+// Maximum lines of value shown on hover
+const maxHoverLines = 10
+
+/**
+ * Handle requests and notifications of the protocol on given connection
+ */
+export function createServer(connection: Connection, options: ServerOptions = {}) {
+
+  const expreva = options.expreva || createExpreva()
+  const documents = new Map<string, TextDocument>()
+  let environment = options.environment || {}
+  let isShutdown = false
+
+  const getDocument = (params: { textDocument: { uri: string } }): TextDocument => {
+    const document = documents.get(textDocumentOf(params).uri)
+    if (!document) throw new ResponseError(ErrorCodes.InvalidParams, `Unknown document ${params.textDocument.uri}`)
+    return document
+  }
+
+  const update = (uri: string, text: string, version: number) => {
+    const document = new TextDocument(uri, text, version, expreva, environment)
+    documents.set(uri, document)
+    connection.sendNotification('textDocument/publishDiagnostics', {
+      uri,
+      version,
+      diagnostics: diagnosticsOf(document)
+    })
+  }
+
+  // Lifecycle
+
+  connection.onRequest('initialize', params => {
+    const initializationOptions = (params && params.initializationOptions) || {}
+    if (initializationOptions.environment) {
+      environment = { ...environment, ...initializationOptions.environment }
+    }
+    return {
+      capabilities: {
+        textDocumentSync: { openClose: true, change: TextDocumentSyncKind.Full },
+        hoverProvider: true,
+        definitionProvider: true,
+        completionProvider: {},
+        renameProvider: { prepareProvider: true },
+        documentSymbolProvider: true,
+      },
+      serverInfo: { name: 'expreva' }
+    }
+  })
+
+  connection.onNotification('initialized', () => {})
+
+  connection.onRequest('shutdown', () => {
+    isShutdown = true
+    return null
+  })
+
+  connection.onNotification('exit', () => {
+    connection.dispose()
+    if (options.onExit) options.onExit(isShutdown ? 0 : 1)
+  })
+
+  // Document sync
+
+  connection.onNotification('textDocument/didOpen', params => {
+    const textDocument = textDocumentOf(params)
+    update(textDocument.uri, textOf(textDocument), textDocument.version)
+  })
+
+  connection.onNotification('textDocument/didChange', params => {
+    const textDocument = textDocumentOf(params)
+    const { contentChanges } = params
+    if (!Array.isArray(contentChanges)) {
+      throw new ResponseError(ErrorCodes.InvalidParams, 'Expected content changes')
+    }
+    // Full text in last change
+    const change = contentChanges[ contentChanges.length - 1 ]
+    if (change) update(textDocument.uri, textOf(change), textDocument.version)
+  })
+
+  connection.onNotification('textDocument/didClose', params => {
+    const textDocument = textDocumentOf(params)
+    documents.delete(textDocument.uri)
+    connection.sendNotification('textDocument/publishDiagnostics', { uri: textDocument.uri, diagnostics: [] })
+  })
+
+  // Language features
+
+  connection.onRequest('textDocument/hover', params => {
+    const document = getDocument(params)
+    const occurrence = document.occurrenceAt(params.position)
+    if (!occurrence) return null
+    const value = hoverText(occurrence, expreva, environment)
+    if (!value) return null
+    return {
+      contents: { kind: 'markdown', value },
+      range: occurrence.range
+    }
+  })
+
+  connection.onRequest('textDocument/definition', params => {
+    const document = getDocument(params)
+    const occurrence = document.occurrenceAt(params.position)
+    const definition = occurrence && occurrence.binding && occurrence.binding.definition
+    if (!definition) return null
+    return { uri: document.uri, range: definition.range }
+  })
+
+  connection.onRequest('textDocument/completion', params => {
+    const document = getDocument(params)
+    return completionItems(document, params.position, expreva, environment)
+  })
+
+  connection.onRequest('textDocument/prepareRename', params => {
+    const document = getDocument(params)
+    const occurrence = document.occurrenceAt(params.position)
+    if (!occurrence || !occurrence.binding) return null
+    return { range: occurrence.range, placeholder: occurrence.name }
+  })
+
+  connection.onRequest('textDocument/rename', params => {
+
+    const document = getDocument(params)
+    const occurrence = document.occurrenceAt(params.position)
+    const { newName } = params
+
+    if (!occurrence || !occurrence.binding) {
+      throw new ResponseError(ErrorCodes.InvalidParams, 'Only variables and parameters defined in document can be renamed')
+    }
+    if (typeof newName!=='string' || !identifierPattern.test(newName)) {
+      throw new ResponseError(ErrorCodes.InvalidParams, `Invalid name "${newName}"`)
+    }
+
+    return {
+      changes: {
+        [ document.uri ]: occurrence.binding.occurrences.map(o => ({ range: o.range, newText: newName }))
+      }
+    }
+  })
+
+  connection.onRequest('textDocument/documentSymbol', params => {
+    const document = getDocument(params)
+    return Object.keys(document.globals)
+      .map(name => document.globals[ name ])
+      .filter(binding => binding.definition)
+      .map(binding => {
+        const definition = binding.definition as Occurrence
+        return {
+          name: binding.name,
+          kind: binding.kind==='function' ? SymbolKind.Function
+            : binding.isConstant ? SymbolKind.Constant
+              : SymbolKind.Variable,
+          range: binding.range || definition.range,
+          selectionRange: definition.range,
+        }
+      })
+      .sort((a, b) => a.selectionRange.start.line - b.selectionRange.start.line
+        || a.selectionRange.start.character - b.selectionRange.start.character
+      )
+  })
+
+  return { connection, documents }
+}
+
+/**
+ * Text document identifier of params, or error if it's missing
+ */
+function textDocumentOf(params: any): { uri: string, version: number } {
+  const textDocument = params && params.textDocument
+  if (!textDocument || typeof textDocument.uri!=='string') {
+    throw new ResponseError(ErrorCodes.InvalidParams, 'Expected text document')
+  }
+  return textDocument
+}
+
+/**
+ * Text of document or content change, or error if it's missing
+ */
+function textOf(item: any): string {
+  if (!item || typeof item.text!=='string') {
+    throw new ResponseError(ErrorCodes.InvalidParams, 'Expected text')
+  }
+  return item.text
+}
+
+function diagnosticsOf(document: TextDocument) {
+
+  const start: Range = { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }
+
+  return [
+    ...document.errors.map(e => ({
+      range: document.spanToRange(e.span),
+      severity: DiagnosticSeverity.Error,
+      source: 'expreva',
+      message: e.reason,
+    })),
+    ...document.diagnostics.map(d => ({
+      range: d.location ? diagnosticRange(document, d.location, d.name) : start,
+      severity: d.severity==='error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+      code: d.code,
+      source: 'expreva',
+      message: d.message,
+    })),
+  ]
+}
+
+/**
+ * Range of symbol in location of diagnostic, if any
+ */
+function diagnosticRange(document: TextDocument, location: SourceSpan, name?: string): Range {
+  const { start, end } = document.spanToOffsets(location)
+  const occurrence = name!=null
+    ? document.occurrences.find(o => o.name===name && o.start >= start && o.end <= end)
+    : undefined
+  return occurrence ? occurrence.range : document.spanToRange(location)
+}
+
+/**
+ * Type of built-in or host value
+ */
+function signatureOf(name: string, value: any): string | undefined {
+  if (value===undefined) return
+  if (value instanceof Function && typeof value.signature!=='string'
+    && builtinTypes.hasOwnProperty(name)
+  ) return builtinTypes[ name ]
+  return printType(typeOfValue(value))
+}
+
+const codeBlock = (code: string) => '```expreva\n' + code + '\n```'
+
+function sourceOf(value: any): string {
+  const lines = syntaxTreeToSource(value).split('\n')
+  return lines.length > maxHoverLines
+    ? [...lines.slice(0, maxHoverLines), '...'].join('\n')
+    : lines.join('\n')
+}
+
+function hoverText(occurrence: Occurrence, expreva: Expreva, environment: { [name: string]: any }): string | undefined {
+
+  const { binding, name } = occurrence
+
+  if (binding) {
+    const definition = binding.value===undefined ? name : `${name} = ${sourceOf(binding.value)}`
+    const code = binding.kind==='parameter' ? `(parameter) ${definition}`
+      : binding.isConstant ? `const ${definition}`
+        : definition
+    return [codeBlock(code), binding.documentation].filter(Boolean).join('\n\n')
+  }
+
+  // Host environment
+  if (environment.hasOwnProperty(name)) {
+    const signature = signatureOf(name, environment[ name ])
+    return codeBlock(signature ? `${name}: ${signature}` : name)
+  }
+
+  // Built-in
+  if (expreva.root.propertyIsEnumerable(name)) {
+    const signature = signatureOf(name, expreva.root[ name ])
+    return [
+      codeBlock(signature ? `${name}: ${signature}` : name),
+      builtinDocumentation[ name ]
+    ].filter(Boolean).join('\n\n')
+  }
+
+  return undefined
+}
+
+function completionItems(
+  document: TextDocument,
+  position: Position,
+  expreva: Expreva,
+  environment: { [name: string]: any }
+) {
+
+  const items: any[] = []
+  const seen = new Set<string>()
+
+  const add = (name: string, kind: number, detail?: string, documentation?: string) => {
+    if (seen.has(name) || !identifierPattern.test(name)) return
+    seen.add(name)
+    const item: any = { label: name, kind }
+    if (detail) item.detail = detail
+    if (documentation) item.documentation = documentation
+    items.push(item)
+  }
+
+  const addBinding = (binding: Binding) => add(
+    binding.name,
+    binding.kind==='function' ? CompletionItemKind.Function : CompletionItemKind.Variable,
+    binding.kind==='parameter' ? 'parameter' : undefined,
+    binding.documentation
+  )
+
+  // Inner scope first
+  document.localsAt(position).forEach(addBinding)
+  Object.keys(document.globals).forEach(name => addBinding(document.globals[ name ]))
+
+  for (const values of [environment, expreva.root]) {
+    for (const name of Object.keys(values)) {
+      const value = values[ name ]
+      add(
+        name,
+        value instanceof Function ? CompletionItemKind.Function : CompletionItemKind.Constant,
+        signatureOf(name, value),
+        values===expreva.root ? builtinDocumentation[ name ] : undefined
+      )
+    }
+  }
+
+  return items
+}
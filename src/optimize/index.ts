@@ -0,0 +1,510 @@
+/**
+ * Partial evaluation of syntax tree, with some of its inputs known - folds constant
+ * expressions, and returns a smaller tree that evaluates to the same result.
+ *
+ * Only what can be decided without running the program is evaluated: calls to
+ * pure built-ins with constant arguments, conditions, and local bindings.
+ */
+
+import type { Expression, RuntimeEnvironment } from '../evaluate'
+import { Environment } from '../evaluate/environment'
+import {
+  SyntaxNode,
+  nodeType,
+  mapChildren,
+  declarations,
+  declaredNames,
+  patternNames,
+  matchPatternNames,
+  isPatternNode,
+  walk
+} from '../ast'
+
+export type PartialEvaluateOptions = {
+  // Root environment with built-ins
+  root?: RuntimeEnvironment
+  // Names of built-in functions without side effects, to call with constant arguments
+  pure?: string[]
+}
+
+export const pureFunctions = [
+  '+', '-', '*', '/', '^',
+  '!',
+  '==', '!=', '<', '<=', '>', '>=',
+]
+
+// Local names in scope, with constant value - or undefined if not known
+type Scope = {
+  values: { [name: string]: Expression | undefined }
+  parent?: Scope
+}
+
+// Symbols of evaluate
+const environmentSymbols = ['local', 'global']
+
+// Nil is quoted, since forms like if and obj treat missing arguments as nil
+const quote = (value: any): Expression =>
+  typeof value==='string' || value==null ? ['expr', value] : value
+
+/**
+ * Expression with known value: number, boolean, nil, or quoted string
+ */
+export function isConstant(ast: Expression): boolean {
+  if (Array.isArray(ast)) {
+    return nodeType(ast)==='expr' && ast.length===2 && isPrimitive(ast[1])
+  }
+  return typeof ast==='number' || typeof ast==='boolean' || ast==null
+}
+
+const isPrimitive = (value: any): boolean =>
+  value==null || typeof value==='boolean' || typeof value==='string'
+    || (typeof value==='number' && isFinite(value))
+
+const constantValue = (ast: Expression): any => Array.isArray(ast) ? ast[1] : ast
+
+// Expression that can be removed, if its value is not used
+const isPure = (ast: Expression): boolean => isConstant(ast)
+  || (Array.isArray(ast) && ['lambda', 'expr'].includes(nodeType(ast)))
+
+/**
+ * Return smaller syntax tree that evaluates to the same result, with given
+ * values of variables
+ */
+export function partialEvaluate(
+  ast: Expression,
+  knownBindings: { [name: string]: any } = {},
+  options: PartialEvaluateOptions = {}
+): Expression {
+  return new PartialEvaluator(ast, knownBindings, options).run(ast)
+}
+
+class PartialEvaluator {
+
+  root: RuntimeEnvironment
+  pure: string[]
+  globals: Scope = { values: {} }
+  // Names defined or assigned by program, which can change
+  defined: { [name: string]: boolean } = {}
+  // Program can look up local variables by name at run time
+  isDynamic = false
+
+  constructor(
+    ast: Expression,
+    knownBindings: { [name: string]: any },
+    public options: PartialEvaluateOptions
+  ) {
+
+    this.root = options.root || Environment.root
+    this.pure = options.pure || pureFunctions
+
+    this.scan(ast)
+
+    // Constants from root environment: true, false, nil
+    for (const name of Object.keys(this.root)) {
+      if (isPrimitive(this.root[ name ])) this.globals.values[ name ] = quote(this.root[ name ])
+    }
+    for (const name of Object.keys(knownBindings)) {
+      const value = knownBindings[ name ]
+      this.globals.values[ name ] = isPrimitive(value) && value!==undefined ? quote(value) : undefined
+    }
+    for (const name of Object.keys(this.defined)) {
+      this.globals.values[ name ] = undefined
+    }
+  }
+
+  run(ast: Expression): Expression {
+    return this.visit(ast, this.globals)
+  }
+
+  /**
+   * Find global definitions, and forms that use scope at run time
+   */
+  scan(ast: Expression): void {
+    if (typeof ast==='string' && environmentSymbols.includes(ast)) this.isDynamic = true
+    if (!Array.isArray(ast)) return
+    const type = nodeType(ast)
+    if (type==='expr') return
+    if (type==='eva' || type==='macro') this.isDynamic = true
+    if ((type==='def' || type==='declare') && typeof ast[1]==='string') this.defined[ ast[1] ] = true
+    if ((type==='def' || type==='declare') && isPatternNode(ast[1])) {
+      for (const name of patternNames(ast[1])) this.defined[ name ] = true
+    }
+    if (type==='lambda' && Array.isArray(ast[1])) {
+      // Parameter is not a definition, only its default value
+      for (const param of ast[1]) {
+        if (Array.isArray(param)) this.scan(param[0]==='def' ? param[2] : param)
+      }
+      this.scan(ast[2])
+      return
+    }
+    for (const child of ast) this.scan(child)
+  }
+
+  lookup(name: string, scope: Scope): Expression | undefined {
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      if (current.values.hasOwnProperty(name)) return current.values[ name ]
+    }
+    return undefined
+  }
+
+  /**
+   * Variables declared in body of scope shadow outer names, with unknown value
+   */
+  declare(scope: Scope, body: Expression) {
+    for (const name of declaredNames(body as SyntaxNode)) scope.values[ name ] = undefined
+  }
+
+  isBuiltin(name: string, scope: Scope): boolean {
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      if (current.values.hasOwnProperty(name)) return false
+    }
+    return this.root[ name ] instanceof Function
+  }
+
+  visit(ast: Expression, scope: Scope): Expression {
+
+    if (typeof ast==='string') {
+      const value = this.lookup(ast, scope)
+      return value===undefined ? ast : value
+    }
+    if (!Array.isArray(ast) || !ast.length) return ast
+
+    switch (nodeType(ast)) {
+    case 'expr':
+    case 'comment':
+      return ast
+    case 'lambda':
+      return this.visitLambda(ast, scope)
+    case 'try':
+      return this.visitTry(ast, scope)
+    case 'let':
+      return this.visitLet(ast, scope)
+    case 'while':
+    case 'for':
+    case 'forIn':
+      return this.visitLoop(ast, scope)
+    case 'match':
+      return this.visitMatch(ast, scope)
+    case 'if':
+      return this.visitIf(ast, scope)
+    case 'logical':
+      return this.visitLogical(ast, scope)
+    case 'do':
+      return this.visitDo(ast, scope)
+    case 'call':
+      return this.visitCall(ast, scope)
+    }
+
+    return mapChildren(ast as SyntaxNode, child => this.visit(child as Expression, scope) as SyntaxNode) as Expression
+  }
+
+  visitLambda(
+    ast: Expression[],
+    scope: Scope,
+    params: Expression[] = Array.isArray(ast[1]) ? ast[1] : []
+  ): Expression {
+
+    const functionScope: Scope = { values: {}, parent: scope }
+
+    // Parameters shadow outer names, and default values see previous parameters
+    const visitedParams = params.map(param => {
+      if (typeof param==='string') {
+        functionScope.values[ param ] = undefined
+        return param
+      }
+      if (!Array.isArray(param)) return param
+      // Names in destructuring pattern, after default value
+      if (isPatternNode(param) || isPatternNode(param[1])) {
+        const value = param[0]==='def' ? this.visit(param[2], functionScope) : undefined
+        for (const name of patternNames(isPatternNode(param) ? param : param[1])) {
+          functionScope.values[ name ] = undefined
+        }
+        return value===undefined || value===param[2] ? param : [param[0], param[1], value]
+      }
+      const name = param[1]
+      if (param[0]==='def' && typeof name==='string') {
+        const value = this.visit(param[2], functionScope)
+        functionScope.values[ name ] = undefined
+        return value===param[2] ? param : [param[0], name, value]
+      }
+      if (typeof name==='string') functionScope.values[ name ] = undefined
+      return param
+    })
+
+    this.declare(functionScope, ast[2])
+    const body = this.visit(ast[2], functionScope)
+
+    return [ast[0], Array.isArray(ast[1]) ? visitedParams : ast[1], body]
+  }
+
+  visitTry(ast: Expression[], scope: Scope): Expression {
+    const body = this.visit(ast[1], scope)
+    if (!isLambdaNode(ast[2])) return [ast[0], body, ...ast.slice(2)]
+    // Catch function takes a single parameter without list
+    const handler = ast[2] as Expression[]
+    return [ast[0], body, this.visitLambda(handler, scope,
+      Array.isArray(handler[1]) ? handler[1] : [handler[1]]
+    )]
+  }
+
+  /**
+   * Inline bindings with constant value, and remove unused ones
+   */
+  visitLet(ast: Expression[], scope: Scope): Expression {
+
+    if (!Array.isArray(ast[1])) {
+      return mapChildren(ast as SyntaxNode, child => this.visit(child as Expression, scope) as SyntaxNode) as Expression
+    }
+
+    const pairs = ast[1]
+    const letScope: Scope = { values: {}, parent: scope }
+    const bindings: Expression[] = []
+
+    for (let i = 0; i < pairs.length; i += 2) {
+      const name = pairs[i]
+      const value = this.visit(pairs[i + 1], letScope)
+      if (typeof name!=='string') {
+        bindings.push(name, value)
+        continue
+      }
+      // Inline constant, unless it's assigned
+      if (isConstant(value) && !this.defined[ name ]) {
+        letScope.values[ name ] = quote(constantValue(value))
+        if (this.isDynamic) bindings.push(name, value)
+        continue
+      }
+      letScope.values[ name ] = undefined
+      bindings.push(name, value)
+    }
+
+    this.declare(letScope, ast[2])
+    const body = this.visit(ast[2], letScope)
+
+    // Remove unused bindings without side effects, from the last
+    if (!this.isDynamic) {
+      for (let i = bindings.length - 2; i >= 0; i -= 2) {
+        const name = bindings[i]
+        if (typeof name!=='string' || !isPure(bindings[i + 1])) continue
+        const rest = [...bindings.slice(i + 2), body]
+        if (rest.some(expression => mentions(expression, name))) continue
+        bindings.splice(i, 2)
+      }
+    }
+
+    // Keep scope of declared variables
+    return bindings.length || hasDeclarations(body) ? [ast[0], bindings, body] : body
+  }
+
+  /**
+   * Loop body has its own scope, where loop variable and declared variables
+   * shadow outer names
+   */
+  visitLoop(ast: Expression[], scope: Scope): Expression {
+
+    const last = ast.length - 1
+    const loopScope: Scope = { values: {}, parent: scope }
+
+    if (ast[0]!=='while' && typeof ast[1]==='string') loopScope.values[ ast[1] ] = undefined
+    this.declare(loopScope, ast[ last ])
+
+    return [
+      ast[0],
+      ...ast.slice(1, last).map((arg, i) =>
+        // Loop variable
+        i===0 && ast[0]!=='while' ? arg : this.visit(arg, scope)
+      ),
+      this.visit(ast[ last ], loopScope)
+    ]
+  }
+
+  /**
+   * Each branch of match has its own scope, where names in pattern and declared
+   * variables shadow outer names
+   */
+  visitMatch(ast: Expression[], scope: Scope): Expression {
+    return [
+      ast[0],
+      this.visit(ast[1], scope),
+      ...ast.slice(2).map(branch => {
+        if (!Array.isArray(branch)) return branch
+        const branchScope: Scope = { values: {}, parent: scope }
+        for (const name of matchPatternNames(branch[0] as SyntaxNode)) {
+          branchScope.values[ name ] = undefined
+        }
+        for (const expr of branch.slice(1)) this.declare(branchScope, expr)
+        return [branch[0], ...branch.slice(1).map(expr => this.visit(expr, branchScope))]
+      })
+    ]
+  }
+
+  /**
+   * Take branch of constant condition
+   */
+  visitIf(ast: Expression[], scope: Scope): Expression {
+
+    if (ast.length < 3) return ast
+
+    const condition = this.visit(ast[1], scope)
+    const trueBranch = this.visit(ast[2], scope)
+    const falseBranch = ast.length > 3 ? this.visit(ast[3], scope) : undefined
+
+    if (!isConstant(condition) && !isLambdaNode(condition)) {
+      return ast.length > 3
+        ? [ast[0], condition, trueBranch, falseBranch as Expression]
+        : [ast[0], condition, trueBranch]
+    }
+
+    if (isLambdaNode(condition) || constantValue(condition)) return trueBranch
+    // No else branch evaluates to undefined
+    return ast.length > 3 ? falseBranch as Expression : ['do']
+  }
+
+  /**
+   * Take left side of logical operator, if it decides the result
+   */
+  visitLogical(ast: Expression[], scope: Scope): Expression {
+
+    const left = this.visit(ast[1], scope)
+    const right = this.visit(ast[2], scope)
+
+    if (!isConstant(left) && !isLambdaNode(left)) return [ast[0], left, right]
+
+    const value = isLambdaNode(left) || constantValue(left)
+    const isLeft = ast[0]==='&&' ? !value
+      : ast[0]==='||' ? !!value
+        : value!=null
+
+    return isLeft ? left : right
+  }
+
+  /**
+   * Remove statements without side effects, except the last one
+   */
+  visitDo(ast: Expression[], scope: Scope): Expression {
+
+    const statements = ast.slice(1).map(statement => this.visit(statement, scope))
+    const last = statements.pop()
+
+    if (last===undefined) return ast
+
+    const kept = statements.filter(statement => !isPure(statement))
+    return kept.length ? [ast[0], ...kept, last] : last
+  }
+
+  visitCall(ast: Expression[], scope: Scope): Expression {
+
+    const [head, ...args] = ast
+
+    // Special form from root environment receives arguments unevaluated
+    if (typeof head==='string' && this.root.specialForms
+      && this.root.specialForms.hasOwnProperty(head)
+    ) return ast
+
+    const visitedArgs = args.map(arg => this.visit(arg, scope))
+
+    if (typeof head==='string') {
+      const folded = this.fold(head, visitedArgs, scope)
+      if (folded!==undefined) return folded
+      return [head, ...visitedArgs]
+    }
+
+    // Immediately applied lambda becomes let
+    if (isLambdaNode(head)) {
+      const reduced = this.betaReduce(head as Expression[], visitedArgs)
+      if (reduced) return this.visit(reduced, scope)
+    }
+
+    return [this.visit(head, scope), ...visitedArgs]
+  }
+
+  /**
+   * Call pure built-in with constant arguments
+   */
+  fold(name: string, args: Expression[], scope: Scope): Expression | undefined {
+
+    if (!this.pure.includes(name) || !this.isBuiltin(name, scope)
+      || !args.every(isConstant)
+    ) return
+
+    let value
+    try {
+      value = this.root[ name ](...args.map(constantValue))
+    } catch (e) {
+      // Leave the error for run time
+      return
+    }
+
+    return isPrimitive(value) && value!==undefined ? quote(value) : undefined
+  }
+
+  /**
+   * Lambda called with arguments, as let with parameters bound to them - if
+   * arguments do not refer to the parameters
+   */
+  betaReduce(lambda: Expression[], args: Expression[]): Expression | undefined {
+
+    if (this.isDynamic || !Array.isArray(lambda[1]) || hasExit(lambda[2])) return
+
+    const params = lambda[1]
+    if (args.length > params.length) return
+
+    const bindings: Expression[] = []
+
+    for (let i = 0; i < params.length; i++) {
+
+      const param = params[i]
+      const arg = args[i]
+      let name: Expression
+      let value: Expression
+
+      if (typeof param==='string') {
+        // Missing argument is undefined
+        if (arg===undefined || param==='&') return
+        name = param
+        value = arg
+      } else if (Array.isArray(param) && param[0]==='def' && typeof param[1]==='string') {
+        // Default value is used when argument is nil
+        if (arg!==undefined && !isConstant(arg)) return
+        name = param[1]
+        value = arg===undefined || constantValue(arg)==null ? param[2] : arg
+      } else return
+
+      // Argument is evaluated in outer scope, before parameters are bound
+      if (arg!==undefined && params.slice(0, i).some(previous =>
+        mentions(arg, typeof previous==='string' ? previous : previous[1])
+      )) return
+
+      bindings.push(name, value)
+    }
+
+    return bindings.length || hasDeclarations(lambda[2]) ? ['let', bindings, lambda[2]] : lambda[2]
+  }
+}
+
+const hasDeclarations = (ast: Expression): boolean =>
+  declarations(ast as SyntaxNode).length > 0
+
+const isLambdaNode = (ast: Expression): boolean =>
+  Array.isArray(ast) && nodeType(ast)==='lambda'
+
+/**
+ * Check if function body has break, continue or return - outside of inner functions
+ */
+function hasExit(ast: Expression): boolean {
+  let found = false
+  walk(ast as SyntaxNode, node => {
+    const type = nodeType(node)
+    if (type==='exit') found = true
+    return !found && type!=='lambda'
+  })
+  return found
+}
+
+/**
+ * Check if expression has given symbol anywhere, including inner scopes
+ */
+function mentions(ast: Expression, name: any): boolean {
+  if (ast===name) return true
+  if (!Array.isArray(ast) || nodeType(ast)==='expr') return false
+  return ast.some(child => mentions(child, name))
+}
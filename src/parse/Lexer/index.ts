@@ -4,7 +4,7 @@
 
 import LexerState from './lexer-state'
 import Token, {EOF} from './token'
-import TokenTypes from './token-types'
+import TokenTypes, {TokenPosition} from './token-types'
 
 /**
  * @typedef {{
@@ -171,24 +171,26 @@ class Lexer<T> implements Iterable<Token<T>> {
 	 * @return {Token<T>}
 	 */
 	peek(position: number = this._state.position): Token<T> {
-		const read = (i: number = position) => {
-			if (i >= this._state.source.length) return EOF(this)
-			const n = this._tokenTypes.peek(this._state.source, i)
-			return n
-				? n.item.skip
-					? read(i + n.result[0].length)
-					: new Token(
-							n.item.type,
-							n.result[0],
-							n.result.map(x => x),
-							i,
-							i + n.result[0].length,
-							this
-						)
-				: null
+		const { source } = this._state
+		let i = position
+		while (i < source.length) {
+			const n = this._tokenTypes.peek(source, i)
+			if (!n) break
+			if (!n.item.skip) {
+				return new Token(
+					n.item.type,
+					n.result[0],
+					n.result,
+					i,
+					i + n.result[0].length,
+					this
+				)
+			}
+			// Skipped token without input would never end
+			if (!n.result[0].length) break
+			i += n.result[0].length
 		}
-		const t = read()
-		if (t) return t
+		if (i >= source.length) return EOF(this)
 
 		// we did not find a match
 		let unexpected = this._state.source.substring(position, position + 1)
@@ -217,12 +219,7 @@ class Lexer<T> implements Iterable<Token<T>> {
 		line: number
 		column: number
 	} {
-		let lines = this._state.source.substring(0, i).split(/\r?\n/)
-		if (!Array.isArray(lines)) lines = [lines]
-
-		const line = lines.length
-		const column = lines[lines.length - 1].length + 1
-		return {line, column}
+		return this._state.lineColumn(i)
 	}
 
 	/**
@@ -256,10 +253,23 @@ class Lexer<T> implements Iterable<Token<T>> {
 	 * @param {T} type The token type
 	 * @param {string|RegExp} pattern The pattern to match
 	 * @param {?boolean} skip Whether this type of token should be skipped
+	 * @param {?TokenPosition<T>} position Before or after an existing token type
+	 * @return {Lexer<T>}
+	 */
+	token(type: T, pattern: string | RegExp, skip?: boolean, position?: TokenPosition<T>) {
+		this._tokenTypes.token(type, pattern, skip, position)
+		return this
+	}
+
+	/**
+	 * Sets ASCII characters that a token type can start with, so it's tried only
+	 * at those characters
+	 * @param {T} type The token type
+	 * @param {string} chars Characters it can start with
 	 * @return {Lexer<T>}
 	 */
-	token(type: T, pattern: string | RegExp, skip?: boolean) {
-		this._tokenTypes.token(type, pattern, skip)
+	firstChars(type: T, chars: string) {
+		this._tokenTypes.firstChars(type, chars)
 		return this
 	}
 
@@ -286,3 +296,4 @@ class Lexer<T> implements Iterable<Token<T>> {
 }
 
 export { Lexer, EOF, Token, TokenTypes, LexerState }
+export type { TokenPosition }
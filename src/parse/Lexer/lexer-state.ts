@@ -8,12 +8,47 @@ export default class LexerState<T> {
 	public position: number
 	public tokenTypes: TokenTypes<T>
 
-	constructor(source: string, position: number = 0) {
+	// Index of the start of each line, created on demand
+	private lineStarts?: number[]
+
+	constructor(source: string, position: number = 0, lineStarts?: number[]) {
 		this.source = source
 		this.position = position
+		this.lineStarts = lineStarts
 	}
 
 	copy() {
-		return new LexerState<T>(this.source, this.position)
+		return new LexerState<T>(this.source, this.position, this.lineStarts)
+	}
+
+	/**
+	 * Line and column of index, both starting from 1 - lines end with `\n` or `\r\n`
+	 */
+	lineColumn(i: number): { line: number; column: number } {
+
+		const lineStarts = this.lineStarts || (this.lineStarts = getLineStarts(this.source))
+
+		i = Math.max(0, Math.min(i, this.source.length))
+
+		// Last line that starts at or before index
+		let low = 0
+		let high = lineStarts.length - 1
+		while (low < high) {
+			const middle = (low + high + 1) >> 1
+			if (lineStarts[middle] <= i) low = middle
+			else high = middle - 1
+		}
+
+		return { line: low + 1, column: i - lineStarts[low] + 1 }
+	}
+}
+
+function getLineStarts(source: string): number[] {
+	const lineStarts = [0]
+	let i = source.indexOf('\n')
+	while (i >= 0) {
+		lineStarts.push(i + 1)
+		i = source.indexOf('\n', i + 1)
 	}
+	return lineStarts
 }
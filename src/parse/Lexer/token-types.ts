@@ -1,3 +1,6 @@
+// Characters with their own scanner, and last one for others
+const asciiSize = 128
+
 // Thank you, http://stackoverflow.com/a/6969486
 function toRegExp(str: string): RegExp {
 	return new RegExp(str.replace(/[\-\[\]\/\{\}\(\)\*\+\?\.\\\^\$\|]/g, '\\$&'))
@@ -10,27 +13,93 @@ function normalize(regex: RegExp | string): RegExp {
 	else return regex
 }
 
-function first<T, U>(
-	arr: T[],
-	predicate: (item: T, i: number) => U
-): {item: T; result: U} {
-	let i = 0
-	for (const item of arr) {
-		const result = predicate(item, i++)
-		if (result) return {item, result}
+/**
+ * Whether pattern depends on where the string starts - an anchor other than
+ * the leading one, or a back-reference which would be renumbered in combined
+ * pattern
+ */
+function dependsOnStart(source: string): boolean {
+	let inClass = false
+	for (let i = 0; i < source.length; i++) {
+		const c = source[i]
+		if (c === '\\') {
+			if (/[1-9k]/.test(source[i + 1])) return true
+			i++
+		} else if (inClass) {
+			if (c === ']') inClass = false
+		} else if (c === '[') {
+			inClass = true
+		} else if (c === '^') {
+			return true
+		}
 	}
+	return false
+}
+
+/**
+ * Create sticky regex that matches at `lastIndex` of the whole source, instead of
+ * at the start of a substring - or undefined if the pattern can't be converted
+ *
+ * A lookbehind sees the source before the token.
+ */
+function toSticky(regex: RegExp): RegExp | undefined {
+	const source = regex.source.replace(/^\^/, '')
+	if (dependsOnStart(source)) return
+	return new RegExp(source, flagsOf(regex) + 'y')
+}
+
+// Flags other than global and sticky
+const flagsOf = (regex: RegExp) => regex.flags.replace(/[gy]/g, '')
+
+const countGroups = (regex: RegExp) =>
+	(new RegExp(`${regex.source}|`, flagsOf(regex)).exec('') as RegExpExecArray).length - 1
+
+/**
+ * Position of new token type, relative to an existing one - tokens are matched in order
+ */
+export type TokenPosition<T> = {
+	before?: T
+	after?: T
+}
+
+export type TokenType<T> = {
+	type: T
+	// Pattern anchored at the start of string
+	regex: RegExp
+	// Pattern that matches at a given index, if possible
+	sticky?: RegExp
+	// Number of capture groups
+	groups: number
+	// ASCII characters it can start with, or any
+	firstChars?: boolean[]
+	enabled: boolean
+	skip: boolean
+}
+
+/**
+ * Token types to try for a first character
+ *
+ * When every pattern can be made sticky with the same flags, they're combined into
+ * a single alternation, each wrapped in a group - the first alternative that matches
+ * is the first token type in order. Otherwise the patterns are tried one by one.
+ */
+type Scanner<T> = {
+	tokenTypes: TokenType<T>[]
+	combined?: RegExp
+	// Index of outer group of each token type in combined pattern
+	offsets: number[]
 }
 
 /**
  * @private
  */
 export default class TokenTypes<T> {
-	public tokenTypes: {
-		type: T
-		regex: RegExp
-		enabled: boolean
-		skip: boolean
-	}[]
+	public tokenTypes: TokenType<T>[]
+
+	// Scanners by first character code, and last one for other characters - for
+	// currently enabled token types, and cached ones for others
+	private scanners?: Scanner<T>[]
+	private scannersByEnabled = new Map<string, Scanner<T>[]>()
 
 	constructor() {
 		this.tokenTypes = []
@@ -42,37 +111,171 @@ export default class TokenTypes<T> {
 
 	enable(type: T, enabled: boolean = true): TokenTypes<T> {
 		this.tokenTypes
-			.filter(t => t.type == type)
-			.forEach(t => (t.enabled = enabled))
+			.filter(t => t.type == type && t.enabled != enabled)
+			.forEach(t => {
+				t.enabled = enabled
+				this.scanners = undefined
+			})
 		return this
 	}
 
 	isEnabled(type: T) {
 		const ttypes = this.tokenTypes.filter(tt => tt.type == type)
 		if (ttypes.length == 0)
-			throw new Error(`Token of type ${type} does not exists`)
+			throw new Error(`Token of type ${type} does not exist`)
 		return ttypes[0].enabled
 	}
 
-	peek(source: string, position: number) {
-		const s = source.substr(position)
-		return first(this.tokenTypes.filter(tt => tt.enabled), tt => {
-			tt.regex.lastIndex = 0
-			return tt.regex.exec(s)
-		})
+	peek(
+		source: string,
+		position: number
+	): { item: TokenType<T>; result: string[] } | undefined {
+
+		const scanners = this.scanners || this.createScanners()
+		const code = source.charCodeAt(position)
+		const scanner = scanners[ code < asciiSize ? code : asciiSize ]
+		const { combined, offsets } = scanner
+
+		if (combined) {
+			combined.lastIndex = position
+			const match = combined.exec(source)
+			if (!match) return
+			for (let i = 0; i < offsets.length; i++) {
+				const offset = offsets[i]
+				if (match[offset] === undefined) continue
+				const item = scanner.tokenTypes[i]
+				return {
+					item,
+					result: match.slice(offset, offset + item.groups + 1)
+				}
+			}
+			return
+		}
+
+		let rest: string | undefined
+		for (const item of scanner.tokenTypes) {
+			let result: RegExpExecArray | null
+			if (item.sticky) {
+				item.sticky.lastIndex = position
+				result = item.sticky.exec(source)
+			} else {
+				if (rest === undefined) rest = source.slice(position)
+				item.regex.lastIndex = 0
+				result = item.regex.exec(rest)
+			}
+			if (result) return { item, result: [...result] }
+		}
+		return undefined
 	}
 
 	token(
 		type: T,
 		pattern: RegExp | string,
-		skip: boolean = false
+		skip: boolean = false,
+		position: TokenPosition<T> = {}
 	): TokenTypes<T> {
-		this.tokenTypes.push({
+		const regex = normalize(pattern)
+		const tokenType = {
 			type,
-			regex: normalize(pattern),
+			regex,
+			sticky: toSticky(regex),
+			groups: countGroups(regex),
+			// String pattern starts with its first character
+			firstChars: typeof pattern === 'string' && pattern
+				? toFirstChars(pattern[0])
+				: undefined,
 			enabled: true,
 			skip,
-		})
+		}
+		this.scanners = undefined
+		this.scannersByEnabled.clear()
+		const target = position.before != null ? position.before : position.after
+		if (target == null) {
+			this.tokenTypes.push(tokenType)
+			return this
+		}
+		const types = this.tokenTypes.map(tt => tt.type)
+		const index = position.before != null
+			? types.indexOf(target)
+			: types.lastIndexOf(target)
+		if (index < 0) throw new Error(`Token of type ${target} does not exist`)
+		this.tokenTypes.splice(position.before != null ? index : index + 1, 0, tokenType)
+		return this
+	}
+
+	/**
+	 * Set ASCII characters that a token type can start with - it's tried only at those
+	 * characters, and at any other than ASCII
+	 */
+	firstChars(type: T, chars: string): TokenTypes<T> {
+		this.tokenTypes
+			.filter(t => t.type == type)
+			.forEach(t => t.firstChars = toFirstChars(chars))
+		this.scanners = undefined
+		this.scannersByEnabled.clear()
 		return this
 	}
+
+	private createScanners(): Scanner<T>[] {
+
+		const key = this.tokenTypes.map(tt => (tt.enabled ? 1 : 0)).join('')
+		const cached = this.scannersByEnabled.get(key)
+		if (cached) return (this.scanners = cached)
+
+		const enabled = this.tokenTypes.filter(tt => tt.enabled)
+		const scanners: Scanner<T>[] = []
+		const byTypes = new Map<string, Scanner<T>>()
+
+		for (let code = 0; code <= asciiSize; code++) {
+			const tokenTypes = enabled.filter(({ firstChars }) => !firstChars
+				|| code === asciiSize || firstChars[code]
+			)
+			const types = tokenTypes.map(tt => enabled.indexOf(tt)).join(',')
+			let scanner = byTypes.get(types)
+			if (!scanner) {
+				scanner = createScanner(tokenTypes)
+				byTypes.set(types, scanner)
+			}
+			scanners.push(scanner)
+		}
+
+		this.scannersByEnabled.set(key, scanners)
+		return (this.scanners = scanners)
+	}
+}
+
+function toFirstChars(chars: string): boolean[] {
+	const firstChars = new Array(asciiSize).fill(false)
+	for (let i = 0; i < chars.length; i++) {
+		const code = chars.charCodeAt(i)
+		if (code < asciiSize) firstChars[code] = true
+	}
+	return firstChars
+}
+
+function createScanner<T>(tokenTypes: TokenType<T>[]): Scanner<T> {
+
+	const offsets: number[] = []
+	const scanner: Scanner<T> = { tokenTypes, offsets }
+
+	if (!tokenTypes.length) return scanner
+
+	const flags = flagsOf(tokenTypes[0].regex)
+	if (tokenTypes.some(tt => !tt.sticky || flagsOf(tt.regex) !== flags)) return scanner
+
+	let offset = 1
+	for (const tt of tokenTypes) {
+		offsets.push(offset)
+		offset += tt.groups + 1
+	}
+	try {
+		scanner.combined = new RegExp(
+			tokenTypes.map(tt => `(${(tt.sticky as RegExp).source})`).join('|'),
+			flags + 'y'
+		)
+	} catch (e) {
+		// Such as duplicate group names - match one by one
+		offsets.length = 0
+	}
+	return scanner
 }
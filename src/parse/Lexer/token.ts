@@ -8,15 +8,22 @@ import Lexer from './lexer'
  */
 
 /**
- * Represents a token instance
+ * Fields of token, declared without class fields - compiled, they would define each
+ * property before the constructor sets it, for every token
  */
-class Token<T> {
+interface Token<T> {
 	type: T
 	match: string
 	groups: string[]
 	start: number
 	end: number
 	lexer: Lexer<T>
+}
+
+/**
+ * Represents a token instance
+ */
+class Token<T> {
 
 	/* tslint:disable:indent */
 	/**
@@ -107,4 +114,4 @@ export class EOFToken<T> extends Token<T> {
 /**
  * @private
  */
-export const EOF = (lexer: Lexer<any>) => new EOFToken(lexer)
+export const EOF = <T>(lexer: Lexer<T>): Token<T> => new EOFToken<T>(lexer)
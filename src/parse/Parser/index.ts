@@ -13,6 +13,7 @@ import {
   BinaryParselet,
   ExpressionParserInterface,
 } from './parselets'
+import { setSourceRange } from '../sourceMap'
 
 export {
   PrefixParselet,
@@ -29,6 +30,13 @@ export type {
   ExpressionParserInterface,
 }
 
+/**
+ * Error with expected token types, and the token found instead - none at end of input
+ */
+function unexpected(message: string, expected: string[] = [], token?: Token) {
+  return Object.assign(new Error(message), { expected, token })
+}
+
 class ExpressionParser<N, T extends Token> implements ExpressionParserInterface<N, T> {
 
   private g: Iterator<T>
@@ -36,6 +44,8 @@ class ExpressionParser<N, T extends Token> implements ExpressionParserInterface<
 
   public stack: T[] = []
   public lastKnownToken
+  // Precedence of expression whose prefix is being parsed
+  public prefixPrecedence = 0
 
   constructor(
     private prefixParselets: Map<string, PrefixParselet<N, T>>,
@@ -57,10 +67,11 @@ class ExpressionParser<N, T extends Token> implements ExpressionParserInterface<
     const t = this.q.length ? this.q.shift() : this.g.next().value
 
     if (expect) {
-      if (!t) throw new Error(`Unexpected end of input expected ${ expect }`)
-      if (t.type !== expect) throw new Error(`Unexpected ${ t.type } token - expected ${ expect }`)
+      if (!t) throw unexpected(`Unexpected end of input, expected \`${ expect }\``, [expect])
+      if (t.type !== expect) throw unexpected(`Unexpected \`${ t.match }\`, expected \`${ expect }\``, [expect], t)
     } else {
-      if (!t) throw new Error(`Unexpected end of input`)
+      // Expected expression
+      if (!t) throw unexpected(`Unexpected end of input, expected expression`, Array.from(this.prefixParselets.keys()))
     }
 
     if (t) this.lastKnownToken = t
@@ -74,6 +85,7 @@ class ExpressionParser<N, T extends Token> implements ExpressionParserInterface<
     if (!t || t.type !== expect) return false
 
     this.q.shift()
+    this.lastKnownToken = t
 
     return true
   }
@@ -87,6 +99,10 @@ class ExpressionParser<N, T extends Token> implements ExpressionParserInterface<
     return parser.precedence
   }
 
+  private startOf(node: any): number | undefined {
+    return node && node.range ? node.range.start : undefined
+  }
+
   parse(precedence: number) {
 
     let left
@@ -98,7 +114,9 @@ class ExpressionParser<N, T extends Token> implements ExpressionParserInterface<
       const prefix = this.prefixParselets.get(token.type)
       if (!prefix) throw token
 
+      this.prefixPrecedence = precedence
       left = prefix.parse(this, token)
+      setSourceRange(left, token.start, this.lastKnownToken.end)
 
       if (this.stack[0]) return left
     }
@@ -107,10 +125,12 @@ class ExpressionParser<N, T extends Token> implements ExpressionParserInterface<
     if (interp == null) {
       while(precedence < this.precedence) {
 
+        const start = this.startOf(left)
         const token = this.consume()
         const xfix = this.xfixParselets.get(token.type)
         if (!xfix) throw token
         left = xfix.parse(this, token, left)
+        setSourceRange(left, start, this.lastKnownToken.end)
 
         if (this.stack[0]) break
       }
@@ -122,10 +142,13 @@ class ExpressionParser<N, T extends Token> implements ExpressionParserInterface<
     left = interp(left)
 
     while(precedence < this.precedence) {
+      const start = this.startOf(left)
       const token = this.consume()
       const xfix = this.xfixParselets.get(token.type)
       if (!xfix) throw token
-      left = interp(xfix.parse(this, token, left))
+      left = xfix.parse(this, token, left)
+      setSourceRange(left, start, this.lastKnownToken.end)
+      left = interp(left)
       if (this.stack[0]) break
     }
 
@@ -184,6 +207,13 @@ export class Parser<N, T extends Token> {
     return this.register(tokenType, new BinaryParselet(cons, precedence, associativity))
   }
 
+  /**
+   * Token types that can start an expression
+   */
+  public prefixTypes(): string[] {
+    return Array.from(this.prefixParselets.keys())
+  }
+
   public peek(num?: number) {
     return this.parser && (this.parser.peek(num) || this.parser.lastKnownToken)
   }
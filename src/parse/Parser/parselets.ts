@@ -1,5 +1,7 @@
 export interface Token {
   type: string
+  start?: number
+  end?: number
 }
 
 export interface ExpressionParserInterface<N, T extends Token> {
@@ -7,6 +9,8 @@ export interface ExpressionParserInterface<N, T extends Token> {
   consume(expect?: string): T
   match(expect: string): boolean
   parse(precedence: number): N
+  // Precedence of expression whose prefix is being parsed
+  prefixPrecedence?: number
 }
 
 export interface Parselet<N, T extends Token> {
@@ -0,0 +1,253 @@
+/**
+ * Concrete syntax tree keeps every token, with white space, new lines and comments
+ * attached as trivia - it prints back to the exact source
+ */
+
+import { Lexer, Token } from './Lexer'
+import { Parser } from './Parser'
+import { ParseError, createParseError } from './recover'
+
+export type TriviaKind = 'whitespace' | 'newline' | 'comment' | 'unknown'
+
+export type Trivia = {
+  kind: TriviaKind
+  text: string
+  start: number
+  end: number
+}
+
+export type ConcreteToken = {
+  kind: 'token'
+  // Token type from lexer, or EOF for the last token with remaining trivia
+  type: string
+  text: string
+  start: number
+  end: number
+  // Trivia before token, from the line after previous token
+  leading: Trivia[]
+  // Trivia after token, until end of line
+  trailing: Trivia[]
+}
+
+export type ConcreteNode = {
+  kind: 'node'
+  // Operator or special form, call, group, symbol, number, string, or program
+  type: string
+  start: number
+  end: number
+  children: (ConcreteNode | ConcreteToken)[]
+}
+
+export type ConcreteParseOptions = {
+  // Recover from errors and collect them here - tree has tokens of all source
+  errors?: ParseError[]
+}
+
+const triviaTypes: { [type: string]: TriviaKind } = {
+  NEWLINE: 'newline',
+  COMMENT: 'comment',
+  COMMENT_BLOCK: 'comment',
+}
+
+/**
+ * Parse source into concrete syntax tree
+ */
+export function parseConcrete(
+  source: string,
+  lexer: Lexer<any>,
+  parser: Parser<any, any>,
+  options: ConcreteParseOptions = {}
+): ConcreteNode {
+
+  const { errors } = options
+
+  lexer.source = source
+
+  const tokens = readConcreteTokens(source, lexer, parser, errors)
+
+  let exprs: any[] = []
+  try {
+    exprs = parser.parse( lexer ) || []
+  } catch (e) {
+    if (!errors) throw createParseError(e, lexer, parser)
+    // Tokens without structure
+    if (!errors.length) errors.push(createParseError(e, lexer, parser))
+  }
+
+  return assemble('program', childNodes({ args: exprs }), tokens)
+}
+
+/**
+ * Print concrete syntax tree back to source
+ */
+export function printConcrete(node: ConcreteNode | ConcreteToken): string {
+  if (node.kind==='token') {
+    return [...node.leading, { text: node.text }, ...node.trailing]
+      .map(item => item.text)
+      .join('')
+  }
+  return node.children.map(printConcrete).join('')
+}
+
+/**
+ * Read tokens with trivia, and end of file token with remaining trivia
+ */
+function readConcreteTokens(
+  source: string,
+  lexer: Lexer<any>,
+  parser: Parser<any, any>,
+  errors?: ParseError[]
+): ConcreteToken[] {
+
+  const tokens: ConcreteToken[] = []
+  let trivia: Trivia[] = []
+  let position = 0
+  let last: ConcreteToken | undefined
+
+  const addTrivia = (kind: TriviaKind, start: number, end: number) => {
+    if (end <= start) return
+    const item = { kind, text: source.slice(start, end), start, end }
+    // Trailing trivia until end of line
+    if (last && !trivia.length && kind!=='newline'
+      && !last.trailing.some(t => t.text.endsWith('\n'))
+    ) {
+      last.trailing.push(item)
+      return
+    }
+    last = undefined
+    trivia.push(item)
+  }
+
+  lexer.position = 0
+
+  while (true) {
+
+    let token: Token<any>
+    try {
+      token = lexer.next()
+    } catch (e: any) {
+      if (!errors) throw createParseError(e, lexer, parser)
+      errors.push(createParseError(e, lexer, parser))
+      // Skipped white space and unexpected input
+      const start = e.end - e.unexpected.trim().length
+      addTrivia('whitespace', position, start)
+      addTrivia('unknown', start, e.end)
+      position = e.end
+      continue
+    }
+
+    // Skipped white space
+    addTrivia('whitespace', position, token.start)
+    position = token.end
+
+    if (token.isEof()) break
+
+    if (triviaTypes[ token.type ]) {
+      addTrivia(triviaTypes[ token.type ], token.start, token.end)
+      continue
+    }
+
+    last = {
+      kind: 'token',
+      type: token.type,
+      text: token.match,
+      start: token.start,
+      end: token.end,
+      leading: trivia,
+      trailing: [],
+    }
+    trivia = []
+    tokens.push(last)
+  }
+
+  addTrivia('whitespace', position, source.length)
+  lexer.position = 0
+
+  tokens.push({
+    kind: 'token',
+    type: 'EOF',
+    text: '',
+    start: source.length,
+    end: source.length,
+    leading: trivia,
+    trailing: [],
+  })
+
+  return tokens
+}
+
+/**
+ * Child nodes of parsed node with source range - nodes without range are passed through
+ */
+function childNodes(node: any): any[] {
+
+  const children: any[] = []
+  const add = (child: any) => {
+    if (Array.isArray(child)) return child.forEach(add)
+    if (child==null || typeof child!=='object' || child.comment!=null) return
+    if (child.range) children.push(child)
+    else childNodes(child).forEach(add)
+  }
+
+  add(node.left)
+  add(node.right)
+  add(node.args)
+  add(node.expressions)
+
+  return children
+}
+
+function nodeType(node: any): string {
+  const { value } = node
+  if (node.args!=null) return typeof value==='string' ? value : 'call'
+  if (node.expressions!=null) return 'group'
+  if (node.left!=null || node.right!=null) return value
+  return Array.isArray(value) ? 'string'
+    : typeof value==='number' ? 'number'
+      : 'symbol'
+}
+
+/**
+ * Create node with given tokens, placed in child nodes by their source range
+ */
+function assemble(type: string, nodes: any[], tokens: ConcreteToken[]): ConcreteNode {
+
+  const children: (ConcreteNode | ConcreteToken)[] = []
+  let index = 0
+  let end = -1
+
+  const sorted = [...nodes].sort((a, b) => a.range.start - b.range.start)
+
+  for (const node of sorted) {
+
+    const { start: nodeStart, end: nodeEnd } = node.range
+
+    // Overlapping node keeps its tokens in parent
+    if (nodeStart < end) continue
+    end = nodeEnd
+
+    while (index < tokens.length && tokens[ index ].start < nodeStart) {
+      children.push(tokens[ index++ ])
+    }
+
+    const inner: ConcreteToken[] = []
+    while (index < tokens.length && tokens[ index ].end <= nodeEnd
+      && tokens[ index ].type!=='EOF'
+    ) {
+      inner.push(tokens[ index++ ])
+    }
+    if (!inner.length) continue
+
+    children.push(assemble(nodeType(node), childNodes(node), inner))
+  }
+
+  while (index < tokens.length) children.push(tokens[ index++ ])
+
+  return {
+    kind: 'node',
+    type,
+    start: tokens[0].start,
+    end: tokens[ tokens.length - 1 ].end,
+    children,
+  }
+}
@@ -0,0 +1,75 @@
+import { precedence } from './constants'
+
+/**
+ * Type annotation - for example, x: number
+ *
+ * It becomes (: expression type), which evaluates the expression and leaves the
+ * type for the type checker. The type is parsed as an expression that stops before
+ * assignment and function arrow, so function types need parentheses.
+ */
+
+export function isAnnotation(node: any) {
+  return node!=null && node.value===':' && node.left!=null
+}
+
+/**
+ * Annotate value with type
+ */
+export function createAnnotation(left: any, right: any): any {
+  return {
+    value: ':',
+    left,
+    right,
+    toString() { return `${left}: ${right}` },
+  }
+}
+
+/**
+ * Move annotations from parameters of function to its type - for example,
+ * (x: number, y) => x becomes (: (λ (x y) x) (λ (number _) _))
+ */
+export function annotateFunction(params: any[], returnType: any, lambda: any): any {
+
+  let annotated = returnType!=null
+
+  const types = params.map((param, i) => {
+
+    if (isAnnotation(param)) {
+      annotated = true
+      params[i] = param.left
+      return param.right
+    }
+
+    // Rest parameter
+    if (param && param.value==='...' && isAnnotation(param.right)) {
+      annotated = true
+      params[i] = { ...param, right: param.right.left }
+      return { value: '...', right: param.right.right }
+    }
+
+    return { value: '_' }
+  })
+
+  if (!annotated) return lambda
+
+  return createAnnotation(lambda, {
+    value: 'λ',
+    args: [{ args: types }, returnType || { value: '_' }],
+    toString() { return `(${types.join(', ')}) => ${returnType || '_'}` },
+  })
+}
+
+export default function(parser: any) {
+
+  parser
+
+  .register(':', {
+    precedence: precedence.STATEMENT,
+    parse(parser: any, _token: any, left: any) {
+      const right = parser.parse(precedence.ASSIGNMENT)
+      return createAnnotation(left, right)
+    }
+  }, parser.XFIX)
+
+  return parser
+}
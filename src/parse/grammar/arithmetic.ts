@@ -10,6 +10,9 @@ export default function(parser) {
       if (right.value!=null && typeof right.value==='number') {
         return {
           value: token.match==='-' ? (0 - right.value) : (0 + right.value),
+          number: right.number!=null && token.match==='-'
+            ? right.number[0]==='-' ? right.number.slice(1) : `-${right.number}`
+            : right.number,
           toString() { return `${operator}${right.value}` },
         }
       }
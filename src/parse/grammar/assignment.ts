@@ -1,4 +1,5 @@
 import { precedence } from './constants'
+import { isAnnotation, createAnnotation } from './annotation'
 
 export default function(parser) {
 
@@ -6,12 +7,21 @@ export default function(parser) {
 
   // Assignment
 
-  .infix('=', precedence.ASSIGNMENT, parser.RIGHT_ASSOCIATIVE, (token, left, right) => ({
-    value: 'def',
-    left,
-    right,
-    toString(){ return `(${left}=${right})` },
-  }))
+  .infix('=', precedence.ASSIGNMENT, parser.RIGHT_ASSOCIATIVE, (token, left, right) => {
+
+    // Annotated variable x: number = 1 becomes x = (1: number)
+    if (isAnnotation(left)) {
+      right = createAnnotation(right, left.right)
+      left = left.left
+    }
+
+    return {
+      value: 'def',
+      left,
+      right,
+      toString(){ return `(${left}=${right})` },
+    }
+  })
 
   // Compound assignment
 
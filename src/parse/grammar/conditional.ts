@@ -10,7 +10,11 @@ export default function(parser) {
     precedence: precedence.CONDITIONAL,
     parse(parser, token, left) {
 
-      const trueBranch = parser.parse(0)
+      // Stop before colon, which is also type annotation
+      const trueBranch = parser.parse(precedence.STATEMENT)
+
+      // Colon can be on next line
+      while (parser.match('NEWLINE')) continue
 
       parser.consume(':')
 
@@ -28,5 +32,14 @@ export default function(parser) {
     }
   }, parser.XFIX)
 
+  // Nullish coalescing - right side only if left side is nil
+
+  .infix('??', precedence.ASSIGNMENT, parser.LEFT_ASSOCIATIVE, (_token: any, left: any, right: any) => ({
+    value: '??',
+    left,
+    right,
+    toString() { return `(${left} ?? ${right})` },
+  }))
+
   return parser
 }
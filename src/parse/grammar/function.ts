@@ -1,4 +1,5 @@
 import { precedence } from './constants'
+import { isAnnotation, createAnnotation, annotateFunction } from './annotation'
 
 export default function(parser) {
 
@@ -6,26 +7,9 @@ export default function(parser) {
 
   // Function
 
-  .infix('=>', precedence.ASSIGNMENT, parser.RIGHT_ASSOCIATIVE, (token, left, right) => {
-
-    // Single argument x =>
-    if (left.hasOwnProperty('value')) {
-      if (left==null) left = []
-      else left = [left]
-    }
-
-    if (left.expressions) {
-      // Convert to arguments to ensure array
-      left.args = left.expressions
-      delete left.expressions
-    }
-
-    return {
-      value: 'λ',
-      args: [left, right],
-      toString() { return `${left} => ${right}` },
-    }
-  })
+  .infix('=>', precedence.ASSIGNMENT, parser.RIGHT_ASSOCIATIVE, (token, left, right) =>
+    createFunction(left, right)
+  )
 
   // Apply to function
 
@@ -61,4 +45,48 @@ export default function(parser) {
   }, parser.XFIX)
 
   return parser
-}
\ No newline at end of file
+}
+
+function createFunction(left: any, right: any): any {
+
+  let returnType
+
+  if (isAnnotation(left)) {
+
+    // Assignment with annotation before arrow: f = (x): number => x
+    if (left.left.value==='def' && left.left.right!=null) {
+      const { left: target, right: params } = left.left
+      const value = createFunction(createAnnotation(params, left.right), right)
+      return {
+        value: 'def',
+        left: target,
+        right: value,
+        toString() { return `(${target}=${value})` },
+      }
+    }
+
+    // Return type (x): number =>
+    if (left.left.expressions) {
+      returnType = left.right
+      left = left.left
+    }
+  }
+
+  // Single argument x =>
+  if (left.hasOwnProperty('value')) {
+    if (left==null) left = []
+    else left = [left]
+  }
+
+  if (left.expressions) {
+    // Convert to arguments to ensure array
+    left.args = left.expressions
+    delete left.expressions
+  }
+
+  return annotateFunction(Array.isArray(left) ? left : left.args, returnType, {
+    value: 'λ',
+    args: [left, right],
+    toString() { return `${left} => ${right}` },
+  })
+}
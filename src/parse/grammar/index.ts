@@ -1,3 +1,4 @@
+import annotationRules from './annotation'
 import arithmeticRules from './arithmetic'
 import assignmentRules from './assignment'
 import comparisonRules from './comparison'
@@ -13,6 +14,7 @@ import symbolRules from './symbol'
 export { registerTokens } from './tokens'
 
 export const rules = [
+  annotationRules,
   arithmeticRules,
   assignmentRules,
   comparisonRules,
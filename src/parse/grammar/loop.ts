@@ -0,0 +1,104 @@
+import { precedence } from './constants'
+
+// Tokens after return without value
+const endOfStatement = [';', ')', ']', '}', ',', ':', 'NEWLINE']
+
+/**
+ * Loop and exit keywords - while (condition) body, for (x in collection) body,
+ * for (i = start, end, step) body, break, continue, return value
+ *
+ * Returns nothing if identifier is not a keyword here.
+ */
+export function parseKeyword(parser: any, token: any) {
+
+  // Member name after "." is not a keyword
+  if (parser.prefixPrecedence >= precedence.CALL) return
+
+  const next = parser.peek(0)
+
+  switch (token.match) {
+  case 'while':
+  case 'for':
+    // Otherwise function call or variable
+    if (!next || next.type!=='(') return
+    parser.consume('(')
+    return token.match==='while'
+      ? parseWhile(parser)
+      : parseFor(parser)
+
+  case 'break':
+  case 'continue':
+    return {
+      value: token.match,
+      args: [],
+      toString() { return token.match },
+    }
+
+  case 'return': {
+    const value = !next || endOfStatement.includes(next.type)
+      ? undefined
+      : parser.parse(precedence.STATEMENT)
+    return {
+      value: 'return',
+      args: value ? [value] : [],
+      toString() { return value ? `return ${value}` : 'return' },
+    }
+  }
+  }
+  return
+}
+
+// Body is a single expression, or statements in parentheses
+const parseBody = (parser: any) => parser.parse(precedence.STATEMENT)
+
+function parseWhile(parser: any) {
+
+  const condition = parser.parse(0)
+  parser.consume(')')
+  const body = parseBody(parser)
+
+  return {
+    value: 'while',
+    args: [condition, body],
+    toString() { return `while (${condition}) ${body}` },
+  }
+}
+
+function parseFor(parser: any) {
+
+  const name = parser.consume('IDENTIFIER').match
+  const variable = { value: name }
+  const next = parser.peek(0)
+
+  // Items of collection
+  if (next && next.type==='IDENTIFIER' && next.match==='in') {
+
+    parser.consume('IDENTIFIER')
+    const collection = parser.parse(0)
+    parser.consume(')')
+    const body = parseBody(parser)
+
+    return {
+      value: 'for-in',
+      args: [variable, collection, body],
+      toString() { return `for (${name} in ${collection}) ${body}` },
+    }
+  }
+
+  // Numeric range from start to end inclusive, with optional step
+  parser.consume('=')
+  const start = parser.parse(0)
+  parser.consume(',')
+  const end = parser.parse(0)
+  const step = parser.match(',')
+    ? parser.parse(0)
+    : { value: 1, toString() { return '1' } }
+  parser.consume(')')
+  const body = parseBody(parser)
+
+  return {
+    value: 'for',
+    args: [variable, start, end, step, body],
+    toString() { return `for (${name} = ${start}, ${end}, ${step}) ${body}` },
+  }
+}
@@ -0,0 +1,121 @@
+import { precedence } from './constants'
+import { setSourceRange } from '../sourceMap'
+
+// Same precedence as arrow after guard
+const logicalOperators = ['&&', '||', '??']
+
+const openBrackets = ['(', '[', '{']
+const closeBrackets = [')', ']', '}']
+
+/**
+ * Pattern matching - match value { pattern if guard => result, ... } with branches
+ * separated by comma or new line
+ *
+ * Returns nothing if identifier is not a keyword here.
+ */
+export function parseMatch(parser: any, token: any) {
+
+  // Member name after "." is not a keyword
+  if (token.match!=='match' || parser.prefixPrecedence >= precedence.CALL) return
+  if (!isMatchValue(parser)) return
+
+  const value = parser.parse(precedence.STATEMENT)
+  skipNewLines(parser)
+  parser.consume('{')
+
+  const branches: any[] = []
+
+  while (true) {
+    skipNewLines(parser)
+    const next = parser.peek(0)
+    if (!next || next.type==='}') break
+    branches.push(parseBranch(parser))
+    // Optional after new line
+    parser.match(',')
+  }
+
+  parser.consume('}')
+
+  return {
+    value: 'match',
+    args: [value, ...branches],
+    toString() { return `match ${value} { ${branches.join(', ')} }` },
+  }
+}
+
+/**
+ * Otherwise variable named "match" - value in brackets must be followed by branches,
+ * to tell it apart from call or member
+ */
+function isMatchValue(parser: any) {
+
+  const next = parser.peek(0)
+  if (!next) return false
+  if (['IDENTIFIER', 'NUMBER', 'STRING_SINGLE', 'STRING_DOUBLE'].includes(next.type)) return true
+  if (!openBrackets.includes(next.type)) return false
+
+  let depth = 0
+  for (let i = 0; ; i++) {
+    const token = parser.peek(i)
+    if (!token) return false
+    if (openBrackets.includes(token.type)) depth++
+    else if (closeBrackets.includes(token.type)) depth--
+    if (depth > 0) continue
+    // Branches can start on next line
+    let end = i + 1
+    while (parser.peek(end) && parser.peek(end).type==='NEWLINE') end++
+    return !!parser.peek(end) && parser.peek(end).type==='{'
+  }
+}
+
+function skipNewLines(parser: any) {
+  while (parser.match('NEWLINE')) continue
+}
+
+function parseBranch(parser: any) {
+
+  // Stop before arrow, so pattern is not function parameters
+  const pattern = parser.parse(precedence.ASSIGNMENT)
+  const start = pattern && pattern.range ? pattern.range.start : undefined
+
+  let guard: any
+  const next = parser.peek(0)
+  if (next && next.type==='IDENTIFIER' && next.match==='if') {
+    parser.consume('IDENTIFIER')
+    guard = parseGuard(parser)
+  }
+
+  parser.consume('=>')
+  const result = parser.parse(0)
+
+  const branch = {
+    args: guard ? [pattern, guard, result] : [pattern, result],
+    toString() { return guard ? `${pattern} if ${guard} => ${result}` : `${pattern} => ${result}` },
+  }
+  setSourceRange(branch, start, parser.lastKnownToken.end)
+  return branch
+}
+
+/**
+ * Guard before arrow, with logical operators which would otherwise take the arrow
+ * as function
+ */
+function parseGuard(parser: any) {
+
+  let guard = parser.parse(precedence.ASSIGNMENT)
+
+  for (let next = parser.peek(0); next && logicalOperators.includes(next.type); next = parser.peek(0)) {
+    const operator = parser.consume(next.type).type
+    const left = guard
+    const right = parser.parse(precedence.ASSIGNMENT)
+    guard = {
+      value: operator,
+      left,
+      right,
+      toString() { return `(${left} ${operator} ${right})` },
+    }
+    setSourceRange(guard, left && left.range ? left.range.start : undefined, parser.lastKnownToken.end)
+  }
+
+  return guard
+}
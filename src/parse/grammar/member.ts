@@ -32,19 +32,16 @@ export default function(parser) {
 
       let right = parser.parse(this.precedence)
 
-      if (typeof left.value!=='number') {
-
-        // Nested get members - For example, obj.x.y.z becomes (get (get (get obj x) y) z)
-
-        while (right!=null && right.value==='get') {
-          left = {
-            value: 'get',
-            left,
-            right: literalStringOrExpression(right.left),
-            toString() { return `(get ${left} ${right.left})` },
-          }
-          right = right.right
+      // Nested get members - For example, obj.x.y.z becomes (get (get (get obj x) y) z)
+
+      while (right!=null && right.value==='get') {
+        left = {
+          value: 'get',
+          left,
+          right: literalStringOrExpression(right.left),
+          toString() { return `(get ${left} ${right.left})` },
         }
+        right = right.right
       }
 
       return {
@@ -56,5 +53,49 @@ export default function(parser) {
     }
   }, parser.XFIX)
 
+  // Optional member a?.b, a?.[key], or call f?.(x) - nothing if target is nil
+  .register('?.', {
+    precedence: precedence.CALL,
+    parse(parser: any, _token: any, left: any) {
+
+      if (parser.match('(')) {
+        const args: any[] = []
+        // Can be empty
+        if (!parser.match(')')) {
+          do {
+            args.push(parser.parse(0))
+          } while (parser.match(','))
+          parser.consume(')')
+        }
+        return {
+          value: 'call?',
+          args: [left, ...args],
+          toString() { return `${left}?.(${args.join(',')})` },
+        }
+      }
+
+      // Key is an expression
+      if (parser.match('[')) {
+        const right = parser.parse(0)
+        parser.consume(']')
+        return {
+          value: 'get?',
+          left,
+          right,
+          toString() { return `(get? ${left} ${right})` },
+        }
+      }
+
+      const right = parser.parse(this.precedence)
+
+      return {
+        value: 'get?',
+        left,
+        right: literalStringOrExpression(right),
+        toString() { return `(get? ${left} ${right})` },
+      }
+    }
+  }, parser.XFIX)
+
   return parser
 }
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { precedence } from './constants'
 import { parseExpressionsUntil } from './utils'
 
 export default function(parser) {
@@ -20,7 +21,8 @@ export default function(parser) {
           const next =  parser.peek(0)
           if (!next || next.type==='}') break
 
-          let key = parseExpressionsUntil(parser, [':', ',', '}'])
+          // Stop before colon, which is also type annotation
+          let key = parseExpressionsUntil(parser, [':', ',', '}'], precedence.STATEMENT)
 
           if (key.expressions) {
             // Preserve key as expression, for example (b): value
@@ -1,4 +1,37 @@
 import { precedence } from './constants'
+import { createAnnotation } from './annotation'
+import { parseKeyword } from './loop'
+import { parseMatch } from './match'
+
+/**
+ * Declaration of variable in current scope - let x = 1, or const x: number = 1,
+ * or destructuring pattern let [a, b] = list
+ */
+function parseDeclaration(parser: any, token: any) {
+
+  // List or object as pattern, without members or calls after it
+  const name = parser.peek(0).type==='IDENTIFIER'
+    ? parser.consume('IDENTIFIER').match
+    : parser.parse(precedence.CALL)
+  const type = parser.match(':') ? parser.parse(precedence.ASSIGNMENT) : undefined
+
+  let right: any
+  if (parser.match('=')) {
+    right = parser.parse(precedence.ASSIGNMENT - 1)
+    if (type) right = createAnnotation(right, type)
+  } else if (token.match==='const') {
+    // Constant must have a value
+    parser.consume('=')
+  }
+
+  const keyword = token.match
+  return {
+    value: keyword==='const' ? 'const' : 'var',
+    left: typeof name==='string' ? { value: name } : name,
+    right,
+    toString() { return right ? `${keyword} ${name} = ${right}` : `${keyword} ${name}` },
+  }
+}
 
 export default function(parser) {
 
@@ -6,15 +39,34 @@ export default function(parser) {
 
   // Symbols
 
-  .nullary('NUMBER', (token) => ({
-    value: Number(token.match),
-    toString() { return this.value },
-  }))
+  .nullary('NUMBER', (token) => {
+    // Invalid rest of token
+    if (token.groups[2]) {
+      throw Object.assign(new Error('Invalid numeric literal'), { token })
+    }
+    return {
+      value: Number(token.match.replace(/_/g, '')),
+      number: token.match, // Source for exact number
+      toString() { return this.value },
+    }
+  })
 
-  .nullary('IDENTIFIER', (token) => ({
-    value: token.match,
-    toString() { return this.value },
-  }))
+  .register('IDENTIFIER', {
+    parse(parser: any, token: any) {
+      const next = parser.peek(0)
+      if ((token.match==='let' || token.match==='const') && next
+        && ['IDENTIFIER', '[', '{'].includes(next.type)
+      ) {
+        return parseDeclaration(parser, token)
+      }
+      const keyword = parseKeyword(parser, token) || parseMatch(parser, token)
+      if (keyword) return keyword
+      return {
+        value: token.match,
+        toString() { return this.value },
+      }
+    }
+  }, parser.PREFIX)
 
   // String
 
@@ -50,7 +102,8 @@ export default function(parser) {
 
   .register('NEWLINE', {
     parse(parser, token) {
-      const left = parser.parse(0)
+      // Expression after new line, with the same precedence
+      const left = parser.parse(parser.prefixPrecedence)
       return {
         ...left,
         afterNewLine: true,
@@ -1,7 +1,67 @@
 
+// Digits with optional separator between them
+const separated = (digit: string) => `${digit}(?:_?${digit})*`
+const digits = separated('\\d')
+
+const digitChars = '0123456789'
+const letterChars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'
+
+/**
+ * ASCII characters that each token type can start with - the lexer tries only the
+ * token types for the character at a position
+ */
+const firstChars: { [type: string]: string } = {
+  WHITESPACE: ' \t',
+  NEWLINE: '\r\n',
+  COMMENT: '/',
+  COMMENT_BLOCK: '/',
+  '(': '(',
+  ')': ')',
+  '[': '[',
+  ']': ']',
+  '{': '{',
+  '}': '}',
+  ';': ';',
+  '??': '?',
+  '?.': '?',
+  '?': '?',
+  ':': ':',
+  ',': ',',
+  NUMBER: `${digitChars}.`,
+  '...': '.',
+  '.': '.',
+  '=>': '=',
+  '->': '-',
+  '==': '=',
+  '!=': '!',
+  '||': '|',
+  '&&': '&',
+  '<=': '<',
+  '<': '<',
+  '>=': '>',
+  '>': '>',
+  '+=': '+',
+  '-=': '-',
+  '*=': '*',
+  '/=': '/',
+  '++': '+',
+  '--': '-',
+  '!': '!',
+  '=': '=',
+  '+': '+',
+  '-': '-',
+  '*': '*',
+  '/': '/',
+  '^': '^',
+  STRING_SINGLE: `'`,
+  STRING_DOUBLE: '"',
+  // And any other than ASCII
+  IDENTIFIER: `${letterChars}${digitChars}_`,
+}
+
 export function registerTokens(lexer) {
 
-  return lexer
+  lexer
 
     // Previously - Ignore white space, tabs, newlines
     // .token('WHITESPACE', /^\s+/, true)
@@ -23,10 +83,29 @@ export function registerTokens(lexer) {
     .token('}', /^(\})/)
 
     .token(';', /^(;+)/)
+    .token('??', /^(\?\?)/)
+    // Optional chaining, except before digit - a?.5:0 is a condition
+    .token('?.', /^(\?\.)(?!\d)/)
     .token('?', /^(\?)/)
     .token(':', /^(:)/)
     .token(',', /^(\,)/)
 
+    /**
+     * Number - integer, decimal, exponent, hexadecimal, binary or octal, with optional
+     * separator "_" between digits. After member operator, only integer - so `list.1.0`
+     * is two members. A decimal point after a name or closing bracket is a member.
+     *
+     * Letters, digits or separators right after a number are part of the token, which
+     * is invalid - like `0x`, `1e`, `0b2` or `1__0`.
+     */
+    .token('NUMBER', new RegExp(`^((?:${[
+      `0[xX]${separated('[0-9a-fA-F]')}`,
+      `0[bB]${separated('[01]')}`,
+      `0[oO]${separated('[0-7]')}`,
+      '(?<![.]\\.)(?<=\\.)\\d+',
+      `(?:${digits}(?:\\.${digits})?|(?<![\\w)\\]}'"\\u0080-\\uffff])\\.${digits})(?:[eE][+-]?${digits})?`,
+    ].join('|')})([\\w\\u0080-\\uffff]*))`))
+
     .token('...', /^(\.\.\.)/)
     .token('.', /^(\.)/)
 
@@ -59,11 +138,15 @@ export function registerTokens(lexer) {
     .token('/', /^(\/)/)
     .token('^', /^(\^)/)
 
-    .token('NUMBER', /^(\d+)/)
-
     .token('STRING_SINGLE', /^\'([^\'\\]*(\\.[^\'\\]*)*)\'/)
     .token('STRING_DOUBLE', /^"([^"\\]*(\\.[^"\\]*)*)"/)
 
     // Should be last
     .token('IDENTIFIER', /^(([a-zA-Z0-9_]|[^\u0000-\u007F])+)/)
+
+  for (const type of Object.keys(firstChars)) {
+    lexer.firstChars(type, firstChars[type])
   }
+
+  return lexer
+}
@@ -6,12 +6,12 @@ export function createDoExpression(expressions) {
   }
 }
 
-export function parseExpressionsUntil(parser, endTokenTypes = [',']) {
+export function parseExpressionsUntil(parser, endTokenTypes = [','], precedence = 0) {
 
   let token, expressions = []
 
   do {
-    expressions.push(parser.parse(0))
+    expressions.push(parser.parse(precedence))
   } while (
     (token = parser.peek(0))
     && endTokenTypes.indexOf(token.type) < 0
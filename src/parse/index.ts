@@ -2,8 +2,40 @@ import { Lexer } from './Lexer'
 import { Parser } from './Parser'
 import { registerTokens, registerRules } from './grammar'
 import { createDoExpression } from './grammar/utils'
+import { SourceMap, SourceRange } from './sourceMap'
+import { ParseError, createParseError, parseWithRecovery } from './recover'
+import {
+  ConcreteParseOptions,
+  parseConcrete as parseConcreteSource
+} from './concrete'
+
+export { Lexer, Parser, ParseError }
+export type { FoundToken } from './recover'
+export { printConcrete } from './concrete'
+export type {
+  ConcreteNode,
+  ConcreteToken,
+  ConcreteParseOptions,
+  Trivia,
+  TriviaKind
+} from './concrete'
+export * from './sourceMap'
+
+export type ParseOptions = {
+  // Side table to fill with source location of each list node
+  sourceMap?: SourceMap
+  // Recover from errors and collect them here, to return partial syntax tree
+  errors?: ParseError[]
+  // Create value of number literal from its source, like exact decimal
+  parseNumber?: (source: string, value: number) => any
+}
+
+type MapSource = (node: any[], range: SourceRange) => void
 
-export { Lexer, Parser }
+type SyntaxOptions = {
+  mapSource?: MapSource
+  parseNumber?: ParseOptions['parseNumber']
+}
 
 export const defaultLexer = new Lexer()
 export const defaultParser = new Parser()
@@ -11,79 +43,103 @@ export const defaultParser = new Parser()
 registerTokens( defaultLexer )
 registerRules( defaultParser )
 
-export function parse( source: string, lexer: Lexer<any> = defaultLexer, parser = defaultParser ) {
+export function parse(
+  source: string,
+  lexer: Lexer<any> = defaultLexer,
+  parser = defaultParser,
+  options: ParseOptions = {}
+) {
 
   lexer.source = source
 
-  let exprs
-  try {
+  const { sourceMap, errors, parseNumber } = options
+  const mapSource: MapSource | undefined = sourceMap && ((node, range) => {
+    if (sourceMap.has(node)) return
+    sourceMap.set(node, {
+      start: lexer.strpos(range.start),
+      end: lexer.strpos(range.end)
+    })
+  })
+
+  const parseTokens = (tokens: Iterable<any>) => {
 
-    exprs = parser.parse( lexer )
+    const exprs = parser.parse( tokens )
 
     if (!exprs) return exprs
 
-    const ast = parseSyntax(
+    return parseSyntax(
       exprs[1]==null
         ? exprs[0] // Unwrap single expression
-        : createDoExpression(exprs) // Wrap multiple expressions
+        : createDoExpression(exprs), // Wrap multiple expressions
+      { mapSource, parseNumber }
     )
+  }
 
-    return ast
-
+  try {
+    return parseTokens( lexer )
   } catch(e) {
-    let token
-    if (!e.lexer) {
-      token = parser.peek(0) // Last known token
-    } else {
-      // Parser can throw a token
-      token = e
-    }
 
-    if (!token) {
-      const { line, column } = lexer.strpos(lexer.position)
-      throw new Error(`Parse error: ${e.message} at line ${line} column ${column}`)
-    }
+    if (!errors) throw createParseError(e, lexer, parser)
+
+    const statements = parseWithRecovery(lexer, parser, errors, parseTokens)
+
+    return statements[1]==null ? statements[0] : ['do', ...statements]
+  }
+}
+
+/**
+ * Parse source into concrete syntax tree, which prints back to the same source
+ */
+export function parseConcrete(
+  source: string,
+  lexer: Lexer<any> = defaultLexer,
+  parser = defaultParser,
+  options: ConcreteParseOptions = {}
+) {
+  return parseConcreteSource(source, lexer, parser, options)
+}
+
+function parseSyntax(ast: any, options: SyntaxOptions): any | any[] | void {
+
+  const node = parseSyntaxNode(ast, options)
+  const { mapSource } = options
 
-    const { start: { line, column } } = token.strpos()
-    throw new Error(`Parse error: ${e.message || `Token ${token.type}`} at line ${line} column ${column}`)
+  // Source location of list node - inner node keeps its own, if any
+  if (mapSource && Array.isArray(node) && ast && ast.range) {
+    mapSource(node, ast.range)
   }
+
+  return node
 }
 
-function parseSyntax(ast: any): any | any[] | void {
+function parseSyntaxNode(ast: any, options: SyntaxOptions): any | any[] | void {
 
   // Create compact Lisp-style syntax tree for the evaluator
 
   if (ast==null) return
-  if (Array.isArray(ast)) return parseSyntaxArray(ast)
+  if (Array.isArray(ast)) return parseSyntaxArray(ast, options)
 
   // Expressions can be reduced to a single expression
   if (ast.expressions != null) {
     if (!ast.expressions[1]) {
-      return parseSyntax(ast.expressions[0])
+      return parseSyntax(ast.expressions[0], options)
     }
-    return parseSyntaxArray(ast.expressions)
+    return parseSyntaxArray(ast.expressions, options)
   }
 
   // Arguments are always an array
   if (ast.args != null) {
     if (ast.value == null) {
-      return parseSyntaxArray(ast.args)
+      return parseSyntaxArray(ast.args, options)
     }
-    const arr = parseSyntaxArray(ast.args)
+    const arr = parseSyntaxArray(ast.args, options)
     arr.unshift( ast.value )
     return arr
   }
 
-  // Restore number with decimal separator from member expression
-  if (ast.value==='get' && ast.left && typeof ast.left.value==='number') {
-
-    if (ast.right==null || typeof ast.right.value!=='number') {
-      throw new Error('Invalid number after decimal separator "."')
-    }
-
-    const numberString = `${ast.left.value}.${ast.right.value}`
-
-    return parseFloat(numberString)
+  // Number literal with its source
+  if (options.parseNumber && ast.number!=null && typeof ast.value==='number') {
+    return options.parseNumber(ast.number, ast.value)
   }
 
   const node = ast.value != null
@@ -91,11 +147,11 @@ function parseSyntax(ast: any): any | any[] | void {
     : []
 
   if (ast.left != null) {
-    node.push(parseSyntax(ast.left))
+    node.push(parseSyntax(ast.left, options))
   }
 
   if (ast.right != null) {
-    node.push(parseSyntax(ast.right))
+    node.push(parseSyntax(ast.right, options))
   }
 
   if (node[0] == null) return
@@ -104,6 +160,6 @@ function parseSyntax(ast: any): any | any[] | void {
   return node
 }
 
-function parseSyntaxArray(nodes: any[]) {
-  return nodes.map(parseSyntax).filter(n => n!=null)
+function parseSyntaxArray(nodes: any[], options: SyntaxOptions) {
+  return nodes.map(n => parseSyntax(n, options)).filter(n => n!=null)
 }
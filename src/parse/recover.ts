@@ -0,0 +1,240 @@
+/**
+ * Error recovery - after a parse error, parse again statement by statement,
+ * to collect every error and keep the statements that parse
+ */
+
+import { Lexer, Token, EOF } from './Lexer'
+import { Parser } from './Parser'
+import { SourceSpan } from './sourceMap'
+
+export type FoundToken = {
+  type: string
+  match: string
+}
+
+export class ParseError extends Error {
+  constructor(
+    public reason: string,
+    public span: SourceSpan,
+    // Token types that would have been valid
+    public expected: string[] = [],
+    // None at end of input
+    public found?: FoundToken
+  ) {
+    super(`Parse error: ${reason} at line ${span.start.line} column ${span.start.column}`)
+  }
+}
+
+const openBrackets: { [type: string]: string } = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+}
+const closeBrackets = [')', ']', '}']
+
+/**
+ * Describe found token, or end of input
+ */
+function describeFound(token?: Token<any>): string {
+  if (!token) return 'end of input'
+  if (token.type==='NEWLINE') return 'new line'
+  return `\`${token.match}\``
+}
+
+/**
+ * Describe expected token types - many of them can only start an expression
+ */
+function describeExpected(expected: string[]): string {
+  return expected.length > 1 ? 'expression' : `\`${expected[0]}\``
+}
+
+/**
+ * Create parse error from anything thrown by lexer or parser - given the token
+ * that ends the part of source, when the parser ran out of tokens
+ */
+export function createParseError(
+  e: any,
+  lexer: Lexer<any>,
+  parser: Parser<any, any>,
+  next?: Token<any>
+): ParseError {
+
+  if (e instanceof ParseError) return e
+
+  // Lexer error with unexpected input
+  if (e && e.unexpected!=null) {
+    const match = e.unexpected.trim()
+    const start = lexer.strpos(e.end - match.length)
+    return new ParseError(`Unexpected \`${match}\``, { start, end: lexer.strpos(e.end) }, [], {
+      type: 'UNKNOWN',
+      match
+    })
+  }
+
+  let token: Token<any> | undefined
+  let expected: string[] | undefined
+
+  if (e && e.lexer) {
+    // Parser can throw a token without rule
+    token = e
+    expected = parser.prefixTypes()
+  } else if (e && e.expected) {
+    token = e.token || next
+    expected = e.expected
+  } else {
+    token = e && e.token
+  }
+
+  const reason = expected
+    ? `Unexpected ${describeFound(token)}${
+      expected.length ? `, expected ${describeExpected(expected)}` : ''
+    }`
+    : e && e.message
+
+  if (token) {
+    return new ParseError(reason, token.strpos(), expected, {
+      type: token.type,
+      match: token.match
+    })
+  }
+
+  // Missing after last known token
+  const last = parser.peek(0)
+  const position = lexer.strpos(last ? last.end : lexer.position)
+  return new ParseError(reason, { start: position, end: position }, expected)
+}
+
+/**
+ * Token list to parse part of source
+ */
+function tokenList(tokens: Token<any>[], lexer: Lexer<any>) {
+  return {
+    [Symbol.iterator]: () => tokens[Symbol.iterator](),
+    peek: () => tokens[0] || EOF(lexer),
+  }
+}
+
+/**
+ * Read all tokens, skipping unexpected input
+ */
+function readTokens(lexer: Lexer<any>, parser: Parser<any, any>, errors: ParseError[]) {
+
+  const tokens: Token<any>[] = []
+
+  lexer.position = 0
+
+  while (true) {
+    let token
+    try {
+      token = lexer.next()
+    } catch (e) {
+      // Lexer moves past unexpected input
+      errors.push(createParseError(e, lexer, parser))
+      continue
+    }
+    if (token.isEof()) break
+    tokens.push(token)
+  }
+
+  lexer.position = 0
+  return tokens
+}
+
+/**
+ * Split at given token types outside brackets
+ */
+function splitTokens(tokens: Token<any>[], types: string[]): Token<any>[][] {
+
+  const parts: Token<any>[][] = [[]]
+  const open: string[] = []
+
+  for (const token of tokens) {
+    if (!open.length && types.includes(token.type)) {
+      parts.push([])
+      continue
+    }
+    if (openBrackets[ token.type ]) open.push(openBrackets[ token.type ])
+    else if (token.type===open[ open.length - 1 ]) open.pop()
+    parts[ parts.length - 1 ].push(token)
+  }
+
+  // Without new lines before and after
+  return parts
+    .map(part => {
+      let start = 0
+      let end = part.length
+      while (start < end && part[start].type==='NEWLINE') start++
+      while (end > start && part[end - 1].type==='NEWLINE') end--
+      return part.slice(start, end)
+    })
+    .filter(part => part.length)
+}
+
+/**
+ * Parse tokens into statements, and collect errors - resync at unmatched closing
+ * brackets, semicolons, and new lines of a statement with error
+ */
+export function parseWithRecovery(
+  lexer: Lexer<any>,
+  parser: Parser<any, any>,
+  errors: ParseError[],
+  parseTokens: (tokens: Iterable<Token<any>>) => any
+): any[] {
+
+  const statements: any[] = []
+  const tokens = readTokens(lexer, parser, errors)
+
+  // Parse part of source, and report error if any
+  const parsePart = (part: Token<any>[], report = true): boolean => {
+    try {
+      const result = parseTokens(tokenList(part, lexer))
+      if (result!=null) statements.push(result)
+      return true
+    } catch (e) {
+      if (!report) return false
+      // Semicolon, new line or bracket that ends the part - unmatched closing
+      // bracket is reported already
+      const next = tokens[ tokens.indexOf(part[ part.length - 1 ]) + 1 ]
+      const error = createParseError(e, lexer, parser, unmatched.includes(next) ? undefined : next)
+      if (error.found || !unmatched.includes(next)) errors.push(error)
+      return false
+    }
+  }
+
+  // Unmatched closing brackets
+
+  const parts: Token<any>[][] = [[]]
+  const open: string[] = []
+  const unmatched: Token<any>[] = []
+
+  for (const token of tokens) {
+    if (openBrackets[ token.type ]) {
+      open.push(openBrackets[ token.type ])
+    } else if (closeBrackets.includes(token.type)) {
+      if (!open.length) {
+        errors.push(new ParseError(`Unexpected \`${token.match}\``, token.strpos(), [], {
+          type: token.type,
+          match: token.match
+        }))
+        unmatched.push(token)
+        parts.push([])
+        continue
+      }
+      if (token.type===open[ open.length - 1 ]) open.pop()
+    }
+    parts[ parts.length - 1 ].push(token)
+  }
+
+  for (const part of parts) {
+    for (const statement of splitTokens(part, [';'])) {
+
+      if (parsePart(statement, false)) continue
+
+      const lines = splitTokens(statement, ['NEWLINE'])
+      if (lines.length===1) parsePart(statement)
+      else lines.forEach(line => parsePart(line))
+    }
+  }
+
+  return statements
+}
@@ -0,0 +1,30 @@
+/**
+ * Source map is a side table from list nodes of the syntax tree to their location in source
+ */
+
+export type SourcePosition = {
+  line: number
+  column: number
+}
+
+export type SourceSpan = {
+  start: SourcePosition
+  end: SourcePosition
+}
+
+export type SourceRange = {
+  start: number
+  end: number
+}
+
+export type SourceMap = Map<any[], SourceSpan>
+
+/**
+ * Set source range of node by string index, unless it already has one
+ */
+export function setSourceRange(node: any, start?: number, end?: number) {
+  if (node==null || typeof node!=='object' || node.range
+    || start==null || end==null
+  ) return
+  node.range = { start, end } as SourceRange
+}
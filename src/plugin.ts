@@ -0,0 +1,132 @@
+/**
+ * Plugin bundles token definitions, grammar rules, built-in functions and
+ * special forms, to extend a language instance
+ */
+
+import type { Lexer, Parser } from './parse'
+import type { TokenPosition } from './parse/Lexer'
+import type { Parselet } from './parse/Parser'
+import { precedence } from './parse/grammar/constants'
+import type { EnvironmentProps, SpecialForms } from './evaluate'
+
+export type PrecedenceName = keyof typeof precedence
+
+export type PluginToken = TokenPosition<string> & {
+  type: string
+  pattern: RegExp | string
+  skip?: boolean
+  // ASCII characters it can start with - by default, first character of string pattern
+  firstChars?: string
+}
+
+type PluginParseletBase = {
+  token: string
+  // Named precedence level from grammar constants, or number
+  precedence?: PrecedenceName | number
+}
+
+export type PluginParselet = PluginParseletBase & ({
+  type: 'nullary'
+  parse: (token: any) => any
+} | {
+  type: 'prefix'
+  parse: (token: any, right: any) => any
+} | {
+  type: 'postfix'
+  parse: (token: any, left: any) => any
+} | {
+  type: 'infix'
+  associativity?: 'left' | 'right'
+  parse: (token: any, left: any, right: any) => any
+} | {
+  type: 'parselet'
+  parselet: Parselet<any, any>
+  prefix?: boolean
+})
+
+export type Plugin = {
+  name: string
+  // Names of plugins to use before this one
+  dependencies?: string[]
+  tokens?: PluginToken[]
+  parselets?: PluginParselet[]
+  builtins?: EnvironmentProps
+  specialForms?: SpecialForms
+}
+
+export function getPrecedence(level: PrecedenceName | number = 'STATEMENT'): number {
+  if (typeof level==='number') return level
+  if (precedence[ level ]==null) throw new Error(`Unknown precedence: ${level}`)
+  return precedence[ level ]
+}
+
+/**
+ * Sort plugins so that dependencies come first - given plugins can depend on
+ * those already used
+ */
+export function sortPlugins(plugins: Plugin[], used: string[] = []): Plugin[] {
+
+  const sorted: Plugin[] = []
+  const visiting: string[] = []
+  const byName: { [name: string]: Plugin } = {}
+
+  for (const plugin of plugins) byName[ plugin.name ] = plugin
+
+  const visit = (plugin: Plugin) => {
+    if (sorted.includes(plugin)) return
+    if (visiting.includes(plugin.name)) {
+      throw new Error(`Circular plugin dependency: ${[...visiting, plugin.name].join(' -> ')}`)
+    }
+    visiting.push(plugin.name)
+    for (const name of plugin.dependencies || []) {
+      if (byName[ name ]) visit(byName[ name ])
+      else if (!used.includes(name)) {
+        throw new Error(`Plugin "${plugin.name}" requires "${name}"`)
+      }
+    }
+    visiting.pop()
+    sorted.push(plugin)
+  }
+
+  plugins.forEach(visit)
+  return sorted
+}
+
+/**
+ * Register plugin tokens and grammar rules
+ */
+export function registerPluginGrammar(plugin: Plugin, lexer: Lexer<any>, parser: Parser<any, any>) {
+
+  for (const { type, pattern, skip, before, after, firstChars } of plugin.tokens || []) {
+    lexer.token(type, pattern, skip, { before, after })
+    if (firstChars!=null) lexer.firstChars(type, firstChars)
+  }
+
+  for (const rule of plugin.parselets || []) {
+
+    const level = getPrecedence(rule.precedence)
+
+    switch (rule.type) {
+    case 'nullary':
+      parser.nullary(rule.token, rule.parse)
+      break
+    case 'prefix':
+      parser.prefix(rule.token, level, rule.parse)
+      break
+    case 'postfix':
+      parser.postfix(rule.token, level, rule.parse)
+      break
+    case 'infix':
+      parser.infix(
+        rule.token,
+        level,
+        rule.associativity==='right' ? parser.RIGHT_ASSOCIATIVE : parser.LEFT_ASSOCIATIVE,
+        rule.parse
+      )
+      break
+    case 'parselet':
+      parser.register(rule.token, rule.parselet, rule.prefix)
+      break
+    }
+  }
+}
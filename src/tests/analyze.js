@@ -0,0 +1,133 @@
+const expreva = require('../index')
+const { parse, analyze, analyzeSyntaxTree, createExpreva } = expreva
+
+const codes = (source, options) => analyze(source, options).map(d => [d.code, d.name])
+
+test('analyze undefined symbols', it => {
+
+  it('reports undefined symbol', it.is(codes('x + 1'), [['undefined-symbol', 'x']]))
+  it('is error', analyze('x')[0].severity==='error')
+  it('has message', it.is(analyze('x')[0].message, 'Undefined symbol "x"'))
+
+  it('built-ins are defined', it.is(codes('print(size([1, 2]), true, nil)'), []))
+  it('host environment is defined', it.is(codes('config.key', { environment: { config: {} } }), []))
+  it('local and global are defined', it.is(codes('local; global'), []))
+
+  it('global is defined after def', it.is(codes('x = 1; x'), []))
+  it('global is not defined before def', it.is(codes('x; x = 1'), [['undefined-symbol', 'x']]))
+  it('value is evaluated before def', it.is(codes('x = x + 1'), [['undefined-symbol', 'x']]))
+  it('function body sees later defs', it.is(codes('f = () => g(); g = () => 1; f()'), []))
+  it('def in function body is global', it.is(codes('f = () => (y = 1); f(); y'), []))
+  it('declaration in function body is local', it.is(codes('f = () => (let y = 1; y); f(); y'), [['undefined-symbol', 'y']]))
+  it('top-level declaration is global', it.is(codes('const x = 1; f = () => x'), []))
+
+  it('let binding', it.is(analyzeSyntaxTree(['let', ['x', 1, 'y', 'x'], 'y']), []))
+  it('let is local', it.is(analyzeSyntaxTree(['do', ['let', ['x', 1], 'x'], 'x']).map(d => d.name), ['x']))
+
+  it('parameters are local', it.is(codes('f = a => a; a'), [['undefined-symbol', 'a']]))
+  it('default and rest parameters', it.is(codes('(a, b = a, ...c) => [a, b, c]'), []))
+
+  it('member keys are not symbols', it.is(codes('o = {}; o.a = 1; o.a; { b: o }'), []))
+  it('object shorthand is symbol', it.is(codes('{ b }'), [['undefined-symbol', 'b']]))
+  it('quoted expression is not analyzed', it.is(analyzeSyntaxTree(['expr', ['f', 'x']]), []))
+
+  it('catch parameter', it.is(analyzeSyntaxTree(['try', ['f'], ['λ', ['e'], 'e']], {
+    environment: { f: true }
+  }), []))
+
+  it('location from source map', it.is(
+    analyze('a = 1\nb = c')[0].location.start,
+    { line: 2, column: 1 }
+  ))
+})
+
+test('analyze constant assignment', it => {
+
+  it('reports assignment', it.is(codes('const x = 1; x = 2'), [['constant-assignment', 'x']]))
+  it('is error', analyze('const x = 1; x = 2')[0].severity==='error')
+  it('has message', it.is(analyze('const x = 1; x = 2')[0].message, 'Cannot assign to constant "x"'))
+  it('in function', it.is(codes('f = () => (const x = 1; () => (x = 2); x)'), [['constant-assignment', 'x']]))
+  it('local variable shadows constant', it.is(codes('const x = 1; f = () => (let x = 1; x = 2; x)'), [['shadowed-name', 'x']]))
+})
+
+test('analyze unused bindings', it => {
+
+  it('unused parameter', it.is(codes('(a, b) => a'), [['unused-parameter', 'b']]))
+  it('is warning', analyze('a => 1')[0].severity==='warning')
+  it('unused let variable', it.is(analyzeSyntaxTree(['let', ['x', 1, 'y', 2], 'y']).map(d => [d.code, d.name]), [['unused-variable', 'x']]))
+  it('ignores names with underscore', it.is(codes('(_a, b) => b'), []))
+  it('ignores global variables', it.is(codes('x = 1'), []))
+  it('used in nested function', it.is(codes('a => () => a'), []))
+  it('unused loop variable', it.is(codes('for (i = 1, 3) nil'), [['unused-variable', 'i']]))
+  it('used loop variable', it.is(codes('s = 0; for (x in [1, 2]) s = s + x'), []))
+  it('unused name in pattern', it.is(codes('([a, b]) => a'), [['unused-parameter', 'b']]))
+  it('declared names in pattern', it.is(codes('f = () => (let { x, y: z } = o; z)'), [
+    ['undefined-symbol', 'o'], ['unused-variable', 'x']
+  ]))
+  it('global names in pattern', it.is(codes('[a, b = a] = [1]; a + b'), []))
+  it('names in match pattern', it.is(codes('f = xs => match xs { [a, b] => a, { c } if c => d, _ => nil }'), [
+    ['unused-variable', 'b'], ['undefined-symbol', 'd']
+  ]))
+})
+
+test('analyze shadowing', it => {
+
+  it('parameter shadows parameter', it.is(
+    codes('a => a => a'),
+    [['shadowed-name', 'a'], ['unused-parameter', 'a']]
+  ))
+  it('parameter shadows global', it.is(codes('x = 1; f = x => x'), [['shadowed-name', 'x']]))
+  it('parameter shadows built-in', it.is(codes('size => size'), [['shadowed-name', 'size']]))
+  it('let shadows host variable', it.is(
+    analyzeSyntaxTree(['let', ['config', 1], 'config'], { environment: { config: {} } })
+      .map(d => [d.code, d.name]),
+    [['shadowed-name', 'config']]
+  ))
+  it('has message', it.is(analyze('size => size')[0].message, 'Parameter "size" shadows built-in'))
+})
+
+test('analyze argument count', it => {
+
+  it('too few arguments', it.is(codes('f = (a, b) => a + b; f(1)'), [['wrong-argument-count', 'f']]))
+  it('too many arguments', it.is(codes('f = a => a; f(1, 2)'), [['wrong-argument-count', 'f']]))
+  it('has message', it.is(
+    analyze('f = (a, b = 1) => a + b; f()')[0].message,
+    'Function "f" expects 1 to 2 arguments, but got 0'
+  ))
+  it('default parameter is optional', it.is(codes('f = (a, b = 1) => a + b; f(1)'), []))
+  it('rest parameter takes any number', it.is(codes('f = (a, ...b) => [a, b]; f(1, 2, 3)'), []))
+  it('spread argument is not checked', it.is(codes('f = a => a; f(...[1, 2])'), []))
+  it('let binding', it.is(analyzeSyntaxTree(['let', ['f', ['λ', ['a'], 'a']], ['f']]).map(d => d.name), ['f']))
+  it('function literal', it.is(codes('(a => a)()'), [['wrong-argument-count', 'anonymous']]))
+  it('redefined function is not checked', it.is(codes('f = a => a; f = () => 1; f()'), []))
+})
+
+test('analyze unreachable branch', it => {
+
+  it('constant condition', it.is(codes('true ? 1 : 2'), [['unreachable-branch', undefined]]))
+  it('has message', it.is(
+    analyze('0 ? 1 : 2')[0].message,
+    'Unreachable true branch: condition is always false'
+  ))
+  it('object is truthy', it.is(codes('{} ? 1 : 2'), [['unreachable-branch', undefined]]))
+  it('variable condition', it.is(codes('x = 1; x ? 1 : 2'), []))
+  it('redefined constant', it.is(codes('true = 0; true ? 1 : 2'), []))
+  it('no else branch', it.is(codes('if(true, 1)'), []))
+})
+
+test('analyze with instance', it => {
+
+  const instance = createExpreva({ builtins: { max: Math.max } })
+
+  it('uses built-ins of instance', it.is(instance.analyze('max(1, 2)'), []))
+  it('default instance does not have them', it.is(codes('max(1, 2)'), [['undefined-symbol', 'max']]))
+
+  instance.use({
+    name: 'unless',
+    specialForms: {
+      unless: ([condition, body], env, evaluate) => evaluate(condition, env) ? undefined : evaluate(body, env)
+    }
+  })
+  it('special form is not a symbol', it.is(instance.analyze(['unless', 1, 2]), []))
+  it('analyzes syntax tree', it.is(instance.analyze(parse('y')).length, 1))
+})
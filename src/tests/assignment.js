@@ -1,4 +1,6 @@
 const { eva, evaluate } = require('./common')
+const expreva = require('../index')
+const { RuntimeError } = expreva
 
 test('assignment', it => {
 
@@ -21,6 +23,56 @@ test('assignment', it => {
   // is(`a={k:[]};a.k.0='v';a`, { k: ['v'] })
 })
 
+test('declaration', it => {
+
+  const is = eva(it)
+
+  is('let x = 1; x', 1)
+  is('let x; x', undefined)
+  is('const x = 1; x + 1', 2)
+  is('let x: number = 2; x', 2)
+
+  is('x = 1; f = () => (let x = 2; x); [f(), x]', [2, 1])
+  is('f = () => (let y = 1; y); f(); y', 'Undefined symbol "y"')
+  is('x = 1; f = () => (x = 2); f(); x', 2)
+  is('f = a => (a = a + 1; a); f(1)', 2)
+  is('f = () => (let x = 1; g = () => (x = x + 1); g(); x); f()', 2)
+  is('counter = () => (let n = 0; () => (n = n + 1)); c = counter(); c(); c()', 2)
+  is('f = n => (const odd = n => n == 0 ? false : even(n - 1); const even = n => n == 0 ? true : odd(n - 1); even(n)); f(4)', true)
+
+  is('const x = 1; x = 2', 'Cannot assign to constant "x"')
+  is('const x = 1; const x = 2', 'Cannot declare constant "x" again')
+  is('f = () => (const x = 1; x = 2); f()', 'Cannot assign to constant "x"')
+  is('f = () => (const x = 1; () => (x = 2))(); f()', 'Cannot assign to constant "x"')
+
+  it('constant error is runtime error', it.throws(() => evaluate('const x = 1; x = 2'), RuntimeError))
+  it('let is still a function name', it.is(evaluate('let = 3; let'), 3))
+})
+
+test('variable with name of environment property', it => {
+
+  const is = eva(it)
+
+  is('numbers = [1, 2]; f = () => numbers; f()', [1, 2])
+  is('f = () => (numbers = 3); f(); numbers', 3)
+  is('sandbox = 1; f = () => sandbox; f()', 1)
+  is('specialForms = 1; f = () => specialForms; f()', 1)
+  is('context = 1; context', 1)
+  is('root = 5; f = () => root + 1; f()', 6)
+  is('const root = 2; root', 2)
+  is('f = parent => parent; f(1)', 1)
+  is('f = () => (let parent = 1; parent); f()', 1)
+  is('create = 5; f = x => x + 1; f(1)', 2)
+  is('throw = 1; f = () => throw; f()', 1)
+  is('numbers', 'Undefined symbol "numbers"')
+
+  const strict = expreva.createEnvironment({}, { strict: true })
+  for (const backend of ['interpreter', 'vm', 'closure']) {
+    const result = expreva.evaluate('sandbox = 1; f = () => sandbox; f()', strict, { backend })
+    it(`sandbox variable in strict mode (${backend})`, it.is(result, 1))
+  }
+})
+
 // test('compound assignment', it => {
 
 //   const is = eva(it)
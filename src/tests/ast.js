@@ -0,0 +1,74 @@
+const expreva = require('../index')
+const { walk, transform, fold, children, nodeType, isNode } = expreva
+
+test('syntax tree', it => {
+
+  const ast = expreva.parse('f = (x, y = 2) => if (x > y, x + 1, "y"); f(3)')
+
+  it('node type', it.is(
+    ast.slice(1).map(nodeType),
+    ['def', 'call']
+  ))
+  it('node type for alias', nodeType(['lambda', [], 1])==='lambda' && isNode(['`', 'x'], 'expr'))
+  it('node type for symbol and literal', nodeType('x')==='symbol' && nodeType(1)==='literal')
+
+  it('children are evaluated sub-expressions', it.is(
+    children(['λ', ['x', ['def', 'y', 2]], ['+', 'x', 'y']]),
+    [2, ['+', 'x', 'y']]
+  ))
+  it('children of let and obj', it.is(
+    [
+      children(['let', ['x', 1, 'y', 'z'], 'x']),
+      children(['obj', ['a', 'b'], [['list', 'k'], 1], ['c']]),
+      children(['expr', ['f', 'x']]),
+    ],
+    [
+      [1, 'z', 'x'],
+      ['b', ['list', 'k'], 1],
+      []
+    ]
+  ))
+
+  const entered = []
+  const exited = []
+  walk(ast, {
+    enter(node) {
+      entered.push(nodeType(node))
+      // Skip function body
+      if (isNode(node, 'lambda')) return false
+    },
+    exit(node) {
+      exited.push(nodeType(node))
+    }
+  })
+
+  it('walk enters depth first', it.is(
+    entered,
+    ['do', 'def', 'lambda', 'call', 'symbol', 'literal']
+  ))
+  it('walk exits children first', it.is(
+    exited,
+    ['def', 'symbol', 'literal', 'call', 'do']
+  ))
+
+  const symbols = []
+  walk(ast, node => { if (isNode(node, 'symbol')) symbols.push(node) })
+  it('walk with function', it.is(symbols, ['>', 'x', 'y', '+', 'x', 'f']))
+
+  it('transform', it.is(
+    transform(['+', ['*', 2, 3], 'x'], node =>
+      isNode(node, 'call') && node[0]==='*' ? node[1] * node[2] : undefined
+    ),
+    ['+', 6, 'x']
+  ))
+
+  const original = ['do', ['list', 1, 2], ['f', 'x']]
+  const renamed = transform(original, node => node==='x' ? 'y' : undefined)
+  it('transform shares unchanged nodes', renamed[1]===original[1] && renamed!==original)
+  it('transform does not mutate', it.is(original, ['do', ['list', 1, 2], ['f', 'x']]))
+
+  it('fold', it.is(
+    fold(ast, (node, depths) => 1 + Math.max(0, ...depths)),
+    6
+  ))
+})
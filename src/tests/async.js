@@ -0,0 +1,91 @@
+const expreva = require('../index')
+
+const delay = value => new Promise(resolve => setTimeout(() => resolve(value), 1))
+
+const createAsyncEnvironment = () => expreva.createEnvironment({
+  fetch: key => delay({ key, value: key + '!' }),
+  double: x => delay(x * 2),
+  isEven: x => delay(x % 2 === 0),
+  fail: () => Promise.reject(new Error('Failed'))
+})
+
+test('evaluate async', async it => {
+
+  const env = createAsyncEnvironment()
+  const is = async (source, expected) => {
+    let result
+    try {
+      result = await expreva.evaluateAsync(source, env)
+    } catch(e) {
+      result = e.message
+    }
+    it(source, it.is(result, expected), 'actual', result)
+  }
+
+  await is('double(2)', 4)
+  await is('double(2) + double(3)', 10)
+  await is('double(double(1))', 4)
+  await is('isEven(double(1)) ? 1 : 0', 1)
+  await is('[ double(1), ...[ double(2) ] ]', [2, 4])
+  await is(`{ a: double(1), (fetch('k').value): 2 }`, { a: 2, 'k!': 2 })
+  await is(`fetch('k').value`, 'k!')
+  await is('x = double(3); x + 1', 7)
+  await is('f = x => double(x) + 1; f(2)', 5)
+  await is('[1, 2, 3]->map(x => double(x))', [2, 4, 6])
+  await is('try(fail(), e => e.message)', 'Failed')
+  await is('try(fail(), (e, m = double(1)) => m)', 2)
+  await is(`a = nil; a?.b(double(1)).c`, undefined)
+  await is(`fetch('k')?.value`, 'k!')
+})
+
+test('evaluate async default arguments', async it => {
+
+  const env = createAsyncEnvironment()
+  const is = async (source, expected) => {
+    const result = await expreva.evaluateAsync(source, env)
+    it(source, it.is(result, expected), 'actual', result)
+  }
+
+  await is('f = (x = double(2)) => x; f()', 4)
+  await is('f = (a = double(1), b = a + double(a)) => b; f()', 6)
+  await is('f = ([a = double(1)], { b = double(2) }) => [a, b]; f([], {})', [2, 4])
+  await is('f = ({ p: [q = double(3)] }) => q; f({ p: [] })', 6)
+  await is('[[1], [2]]->map(([a, b = double(a)]) => b)', [2, 4])
+})
+
+test('evaluate async with tail calls', async it => {
+
+  const env = createAsyncEnvironment()
+
+  const result = await expreva.evaluateAsync(
+    'f = (x, acc) => x == 0 ? acc : f(x - 1, acc + double(1)); f(100, 0)',
+    env,
+    { maxDepth: 3 }
+  )
+  it('recursion in tail position', result===200)
+
+  let error
+  try {
+    await expreva.evaluateAsync('f = () => f(); f()', env, { maxTicks: 100 })
+  } catch(e) {
+    error = e
+  }
+  it('has budget', error && error.budget==='ticks')
+})
+
+test('evaluate async backend', async it => {
+
+  const env = createAsyncEnvironment()
+
+  it('interpreter', await expreva.evaluateAsync('double(2)', env, { backend: 'interpreter' })===4)
+
+  for (const backend of ['vm', 'closure']) {
+    let error
+    try {
+      await expreva.evaluateAsync('double(2)', env, { backend })
+    } catch(e) {
+      error = e
+    }
+    it(`rejects ${backend}`, error && error.message===`Backend "${backend}" does not support async evaluation`)
+  }
+})
@@ -0,0 +1,64 @@
+const { evaluate } = require('./common')
+const { createEnvironment } = require('../index')
+
+const budgetError = (source, options, env) => {
+  try {
+    evaluate(source, env, options)
+  } catch(e) {
+    return e
+  }
+}
+
+test('execution budget', it => {
+
+  let e = budgetError('f = x => f(x + 1); f(0)', { maxTicks: 1000 })
+  it('limits ticks', e && e.budget==='ticks' && e.limit===1000 && e.used===1001, e && e.message)
+
+  e = budgetError('f = x => f(x + 1); f(0)', { timeout: 20 })
+  it('limits time', e && e.budget==='timeout' && e.used > 20)
+
+  e = budgetError('f = x => 1 + f(x + 1); f(0)', { maxDepth: 50 })
+  it('limits call depth', e && e.budget==='depth' && e.used===51)
+
+  it('tail calls do not count for depth', evaluate(
+    'f = x => x > 100 ? x : f(x + 1); f(0)', undefined, { maxDepth: 5 }
+  )===101)
+
+  e = budgetError('[1, 2, 3, 4]', { maxSize: 3 })
+  it('limits list size', e && e.budget==='size' && e.used===4)
+
+  e = budgetError(`'abc' + 'def'`, { maxSize: 5 })
+  it('limits string size', e && e.budget==='size' && e.used===6)
+
+  e = budgetError('[1, 2]->map(x => [x, x, x])', { maxSize: 2 })
+  it('limits in function called by host', e && e.budget==='size' && e.used===3)
+
+  e = budgetError('f = x => f(x + 1); try(f(0), e => 1)', { maxTicks: 100 })
+  it('cannot be caught by try', e && e.budget==='ticks')
+
+  it('is error message', e && e.message==='Execution budget exceeded: ticks 101 of 100', e && e.message)
+
+  it('within budget', evaluate('1 + 2', undefined, { maxTicks: 10, timeout: 1000 })===3)
+})
+
+test('execution budget out of reach of script', it => {
+
+  const tamper = 'try(global.context.budget.ticks = 0, e => 0); '
+    + 'try(global.context.budget.options.maxTicks = 1000000000, e => 0); '
+    + 'f = x => f(x + 1); f(0)'
+
+  for (const backend of ['interpreter', 'vm', 'closure']) {
+
+    const options = { backend, maxTicks: 100 }
+
+    it(`context is not a member of global scope (${backend})`,
+      evaluate('global.context', undefined, options)===undefined
+    )
+
+    const e = budgetError(tamper, options)
+    it(`cannot be disabled by script (${backend})`, e && e.budget==='ticks' && e.limit===100, e && e.message)
+
+    const strict = budgetError(tamper, options, createEnvironment({}, { strict: true }))
+    it(`cannot be disabled in strict mode (${backend})`, strict && strict.budget==='ticks', strict && strict.message)
+  }
+})
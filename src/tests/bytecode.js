@@ -0,0 +1,52 @@
+const expreva = require('../index')
+const { parse } = require('./common')
+
+const compile = source => expreva.compileBytecode(parse(source))
+
+test('bytecode', it => {
+
+  const program = compile('f = (x, y = 2) => x > 0 ? f(x - 1, y + 1) : y; f(3)')
+
+  it('is JSON-serializable', it.is(JSON.parse(JSON.stringify(program)), program))
+  it('runs from JSON', expreva.runBytecode(JSON.parse(JSON.stringify(program)))===5)
+
+  it('resolves local variables to slots', program.functions[1].code.some(
+    ([op, depth, index]) => op==='load' && depth===0 && index===0
+  ))
+
+  const formula = compile('price * quantity')
+  it('runs in different environments', it.is([
+    expreva.runBytecode(formula, expreva.createEnvironment({ price: 2, quantity: 3 })),
+    expreva.runBytecode(formula, expreva.createEnvironment({ price: 5, quantity: 4 })),
+  ], [6, 20]))
+})
+
+test('bytecode virtual machine', it => {
+
+  const vm = (source, env) => expreva.evaluate(source, env, { backend: 'vm' })
+
+  it('tail calls', vm('f = x => x == 0 ? 0 : f(x - 1); f(100000)')===0)
+  it('closures', vm('add = x => y => x + y; add(1)(2)')===3)
+  it('let', it.is(vm('let((a, 1, b, a + 1), [a, b])'), [1, 2]))
+  it('try', vm('try(x.y, e => e.message)')==='Undefined symbol "x"')
+  it('function called by host', it.is(vm('[1, 2]->map(x => x * 10)'), [10, 20]))
+  it('function from interpreter', vm('f(2)', expreva.createEnvironment({
+    f: expreva.evaluate('x => x * x')
+  }))===4)
+
+  let e
+  try {
+    vm('g = () => z; h = () => 1 + g(); h()')
+  } catch(error) {
+    e = error
+  }
+  it('error location', e && it.is(e.location.start, { line: 1, column: 28 }), e && e.location)
+  it('call stack', e && it.is(e.callStack.map(frame => frame.name), ['g', 'h']))
+
+  try {
+    expreva.evaluate('f = x => f(x + 1); f(0)', undefined, { backend: 'vm', maxTicks: 100 })
+  } catch(error) {
+    e = error
+  }
+  it('execution budget', e && e.budget==='ticks')
+})
@@ -0,0 +1,79 @@
+const expreva = require('../index')
+const { parse } = require('./common')
+
+test('closure compiler', it => {
+
+  const formula = expreva.compile(parse('price * quantity'))
+  it('runs in different environments', it.is([
+    formula(expreva.createEnvironment({ price: 2, quantity: 3 })),
+    formula(expreva.createEnvironment({ price: 5, quantity: 4 })),
+  ], [6, 20]))
+
+  // Built-in function of the first run is still looked up in later runs
+  const product = expreva.compile(parse('a * b'))
+  it('built-in function can be replaced', it.is([
+    product(expreva.createEnvironment({ a: 2, b: 3 })),
+    product(expreva.createEnvironment({ a: 2, b: 3, '*': (x, y) => x + y })),
+  ], [6, 5]))
+
+  const env = expreva.createEnvironment({ total: 10 })
+  it('runs in given environment', expreva.compile(parse('total + 1'), env)()===11)
+
+  const run = source => expreva.compile(parse(source))()
+
+  it('tail calls', run('f = x => x == 0 ? 0 : f(x - 1); f(100000)')===0)
+  it('closures', run('add = x => y => x + y; add(1)(2)')===3)
+  it('default and rest arguments', it.is(
+    run('f = (a, b = a + 1, ...c) => [a, b, c]; [f(1), f(1, 5, 6, 7)]'),
+    [[1, 2, []], [1, 5, [6, 7]]]
+  ))
+  it('let', it.is(run('let((a, 1, b, a + 1), [a, b])'), [1, 2]))
+  it('try', run('try(x.y, e => e.message)')==='Undefined symbol "x"')
+  it('function called by host', it.is(run('[1, 2]->map(x => x * 10)'), [10, 20]))
+  it('function name', run('f = x => x; f').name==='f')
+
+  const macroEnv = expreva.createEnvironment({ twice: x => ['list', x, x] })
+  macroEnv.twice.isMacro = true
+
+  const expanded = expreva.compile(parse('twice(1 + 2)'), macroEnv)
+  it('expands macro at compile time', it.is(expanded(), [3, 3]))
+  delete macroEnv.twice
+  it('does not need macro at run time', it.is(expanded(), [3, 3]))
+
+  let e
+  try {
+    expreva.evaluate('g = () => z; h = () => 1 + g(); h()', undefined, { backend: 'closure' })
+  } catch(error) {
+    e = error
+  }
+  it('error location', e && it.is(e.location.start, { line: 1, column: 28 }), e && e.location)
+  it('call stack', e && it.is(e.callStack.map(frame => frame.name), ['g', 'h']))
+
+  try {
+    expreva.evaluate('f = x => f(x + 1); f(0)', undefined, { backend: 'closure', maxTicks: 100 })
+  } catch(error) {
+    e = error
+  }
+  it('execution budget', e instanceof expreva.BudgetExceededError && e.budget==='ticks')
+
+  // Function compiled without budget, called in evaluation with budget
+  const budgetEnv = expreva.createEnvironment({ items: n => Array.from({ length: n }) })
+  expreva.compile(parse('f = n => n > 0 ? f(n - 1) : 0; g = n => items(n)'), budgetEnv)()
+
+  e = undefined
+  try {
+    expreva.evaluate('f(1000)', budgetEnv, { maxTicks: 100 })
+  } catch(error) {
+    e = error
+  }
+  it('execution budget of later evaluation', e instanceof expreva.BudgetExceededError && e.budget==='ticks')
+
+  e = undefined
+  try {
+    expreva.evaluate('g(100)', budgetEnv, { maxSize: 10 })
+  } catch(error) {
+    e = error
+  }
+  it('size budget of later evaluation', e instanceof expreva.BudgetExceededError && e.budget==='size')
+  it('no budget after evaluation', budgetEnv.g(100).length===100)
+})
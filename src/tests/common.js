@@ -1,19 +1,24 @@
 import util from 'util'
 import * as expreva from '../index'
 
+// Each assertion runs on every backend
+const backends = ['interpreter', 'vm', 'closure']
+
 // Assertion helper
 const eva = it => (k, v) => {
-  let r
-  try {
-    r = expreva.evaluate(k)
-  } catch(e) {
-    r = e.message
-  }
-  const pass = v instanceof Function ? v(r) : it.is(r, v)
-  it(k, pass)
-  if (!pass && !(v instanceof Function)) {
-    console.log('expected', v)
-    console.log('actual', r)
+  for (const backend of backends) {
+    let r
+    try {
+      r = expreva.evaluate(k, undefined, { backend })
+    } catch(e) {
+      r = e.message
+    }
+    const pass = v instanceof Function ? v(r) : it.is(r, v)
+    it(backend==='interpreter' ? k : `${k} (${backend})`, pass)
+    if (!pass && !(v instanceof Function)) {
+      console.log('expected', v)
+      console.log('actual', r)
+    }
   }
 }
 
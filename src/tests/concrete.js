@@ -0,0 +1,53 @@
+const expreva = require('../index')
+const { parseConcrete, printConcrete } = expreva
+
+// Tokens in order
+const tokensOf = node => node.kind==='token' ? [node] : [].concat(...node.children.map(tokensOf))
+
+test('concrete syntax tree', it => {
+
+  const sources = [
+    '1 + 2',
+    '  x  =  1 ;  y = x * 2  ',
+    '/* Comment */\nf = (a, b) => a + b // Add\n\nf(1,\n  2)\n',
+    '[1, 2, ...xs].length',
+    "{ a: 1, 'b': \"c\" }",
+    'x > 0 ? (y = 1; z) : 2\r\n',
+    '// Only comment',
+    '',
+  ]
+
+  for (const source of sources) {
+    it(`round trip ${JSON.stringify(source)}`, printConcrete(parseConcrete(source))===source)
+  }
+
+  const tree = parseConcrete('f = x => x // Identity\n\n  f(1)')
+
+  it('has program node', tree.kind==='node' && tree.type==='program')
+  it('has node for each expression', it.is(
+    tree.children.filter(child => child.kind==='node').map(child => child.type),
+    ['def', 'call']
+  ))
+
+  const tokens = tokensOf(tree)
+
+  it('trailing trivia until end of line', it.is(
+    tokens[4].trailing.map(trivia => [trivia.kind, trivia.text]),
+    [['whitespace', ' '], ['comment', '// Identity\n']]
+  ))
+  it('leading trivia', it.is(
+    tokens[5].leading.map(trivia => trivia.kind),
+    ['newline', 'whitespace']
+  ))
+  it('ends with EOF token', tokens[ tokens.length - 1 ].type==='EOF')
+
+  it('throws parse error', it.throws(() => parseConcrete('x = @'), expreva.ParseError))
+
+  const errors = []
+  const invalid = 'x = @ 1 +'
+  it('round trip with errors', printConcrete(parseConcrete(invalid, undefined, undefined, { errors }))===invalid)
+  it('collects errors', errors.length > 0)
+
+  const dialect = expreva.createExpreva()
+  it('language instance', printConcrete(dialect.parseConcrete('a  +  b'))==='a  +  b')
+})
@@ -10,6 +10,37 @@ test('conditional operators', it => {
   is('x = 0; true ? (x = 1) : (x = 2); x', 1)
 })
 
+test('logical operators', it => {
+  const is = eva(it)
+
+  is('1 && 2', 2)
+  is('0 && 2', 0)
+  is('nil || 2', 2)
+  is("'a' || 2", 'a')
+
+  // Right side only if needed
+  is('x = 0; false && (x = 1); x', 0)
+  is('x = 0; true || (x = 1); x', 0)
+  is('user = nil; user && user.name', null)
+  is("user = { name: 'a' }; user && user.name", 'a')
+
+  // Tail call
+  is('f = n => n == 0 || f(n - 1); f(10000)', true)
+  is('f = n => n > 0 && f(n - 1); f(10000)', false)
+})
+
+test('nullish coalescing', it => {
+  const is = eva(it)
+
+  is('nil ?? 1', 1)
+  is('0 ?? 1', 0)
+  is('false ?? 1', false)
+  is("'' ?? 1", '')
+  is('nil ?? nil ?? 2', 2)
+  is('x = 0; 1 ?? (x = 1); x', 0)
+  is('{ a: 1 }.b ?? 2', 2)
+})
+
 
 // test('if', it => {
 //   const is = eva(it)
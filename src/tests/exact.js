@@ -0,0 +1,116 @@
+const { eva } = require('./common')
+const expreva = require('../index')
+
+test('exact number', it => {
+
+  const backends = ['interpreter', 'vm', 'closure']
+
+  const run = (source, options, backend) => {
+    const env = expreva.createEnvironment({}, options)
+    try {
+      // Printed exactly
+      return expreva.valueToPrettyString(expreva.evaluate(source, env, { backend }))
+    } catch(e) {
+      return e.message
+    }
+  }
+
+  for (const backend of backends) {
+
+    const suffix = backend==='interpreter' ? '' : ` (${backend})`
+    const each = options => (source, expected) => {
+      const result = run(source, options, backend)
+      it(`${source} in ${options.numbers}${suffix}`, it.is(result, expected), result)
+    }
+
+    const decimal = each({ numbers: 'decimal' })
+
+    decimal('0.1 + 0.2', '0.3')
+    decimal('0.1 + 0.2 == 0.3', 'true')
+    decimal('0.3 - 0.1 != 0.2', 'false')
+    decimal('1.10 * 3', '3.3')
+    decimal('-0.5 * 2', '-1')
+    decimal('1 / 3', '0.33333333333333333333')
+    decimal('10 / 4', '2.5')
+    decimal('1 / 0 > 10 ^ 100', 'true')
+    decimal('1.1 ^ 2', '1.21')
+    decimal('2 ^ -2', '0.25')
+    decimal('0.1 < 0.2', 'true')
+    decimal('0.2 >= 0.20', 'true')
+    decimal('12345678901234567890.5 + 1', '12345678901234567891.5')
+    decimal('1e-3 * 3', '0.003')
+    decimal('0xff + 0.5', '255.5')
+    decimal('"total: " + 0.1', 'total: 0.1')
+    decimal('[1, 2, 3]->slice(0.5 + 0.5)->size', '2')
+    decimal('(0.5 - 0.5) ? 1 : 2', '2')
+
+    const rounding = each({ numbers: 'decimal', precision: 4 })
+
+    rounding('1 / 3', '0.3333')
+    rounding('round(2.675, 2)', '2.68')
+    rounding('round(-2.5)', '-3')
+    rounding('floor(-2.55, 1)', '-2.6')
+    rounding('ceil(2.01)', '3')
+    rounding('round(1.23456789, 6)', '1.2346')
+    rounding('toFixed(1.5, 2)', '1.50')
+    rounding('toFixed(1 / 3, 10)', '0.3333')
+
+    const rational = each({ numbers: 'rational' })
+
+    rational('1 / 3', '1/3')
+    rational('1 / 3 * 3', '1')
+    rational('1 / 3 + 1 / 6 == 0.5', 'true')
+    rational('0.1 + 0.2', '0.3')
+    rational('(2 / 3) ^ -2', '2.25')
+    rational('round(2 / 3, 3)', '0.667')
+    rational('toFixed(1 / 7, 5)', '0.14286')
+  }
+})
+
+test('round in float mode', it => {
+  const is = eva(it)
+
+  is('round(1.005, 2)', 1.01)
+  is('round(2.5)', 3)
+  is('round(-2.5)', -3)
+  is('round(1234, -2)', 1200)
+  is('floor(1.99)', 1)
+  is('ceil(-1.99, 1)', -1.9)
+  is('toFixed(0.1, 3)', '0.100')
+  is('toFixed(1e21, 1)', '1000000000000000000000.0')
+  is('0.1 + 0.2 == 0.3', false)
+})
+
+test('exact number value', it => {
+
+  const { Decimal, Rational, isExactNumber } = expreva
+
+  const a = Decimal.parse('1_000.50')
+  it('parse decimal', it.is(a.toString(), '1000.5'))
+  it('invalid decimal', it.is(Decimal.parse('1.2.3'), undefined))
+  it('is exact', isExactNumber(a) && !isExactNumber(1000.5))
+  it('number value', it.is(a.valueOf(), 1000.5))
+  it('JSON', it.is(JSON.stringify({ a }), '{"a":1000.5}'))
+
+  const third = Rational.create(BigInt(2), BigInt(6))
+  it('lowest terms', it.is(third.toString(), '1/3'))
+  it('decimal places', it.is(third.toFixed(3), '0.333'))
+
+  const env = expreva.createEnvironment({ price: a }, { numbers: 'decimal' })
+  it('host value', it.is(expreva.evaluate('price * 2', env).toString(), '2001'))
+  it('type', it.is(expreva.inferType('price', env), 'number'))
+
+  const printed = []
+  const log = console.log
+  console.log = (...args) => printed.push(args)
+  try {
+    expreva.evaluate('print(0.1 + 0.2, [price, 1 / 3])', env)
+    expreva.evaluate('print(1 / 3)', expreva.createEnvironment({}, { numbers: 'rational' }))
+  } finally {
+    console.log = log
+  }
+  it('print', it.is(printed, [
+    ['0.3', '[\n 1000.5,\n 0.33333333333333333333\n]'],
+    ['1/3']
+  ]), printed)
+})
@@ -0,0 +1,161 @@
+const fs = require('fs')
+const os = require('os')
+const path = require('path')
+const { spawnSync } = require('child_process')
+const expreva = require('../index')
+const { parse, syntaxTreeToSource } = expreva
+
+test('format source', it => {
+
+  const sources = {
+    'x=1+2*3': 'x = 1 + 2 * 3',
+    '(1+2)*3': '(1 + 2) * 3',
+    'a-(b-c)': 'a - (b - c)',
+    '(a-b)-c': 'a - b - c',
+    '(2^3)^4': '(2 ^ 3) ^ 4',
+    '2^3^4': '2 ^ 3 ^ 4',
+    '!(a&&b)': '!(a && b)',
+    'x=>x*x': 'x => x * x',
+    '(a,b=1,...c)=>a': '(a, b = 1, ...c) => a',
+    '()=>(a;b)': '() => (a; b)',
+    '(x=>x)(1)': '(x => x)(1)',
+    'obj.a.b': 'obj.a.b',
+    'obj.(key)': 'obj.(key)',
+    'list.0': 'list.0',
+    'a.b=f(1)(2)': 'a.b = f(1)(2)',
+    '{a:1,b,"c d":2,...rest}': "{ a: 1, b, 'c d': 2, ...rest }",
+    '[1,...xs]': '[1, ...xs]',
+    'c?a:b': 'c ? a : b',
+    '(a?b:c)?d:e': '(a ? b : c) ? d : e',
+    'a?b:c?d:e': 'a ? b : c ? d : e',
+    '(x=1)&&y': '(x = 1) && y',
+    'a??b||c': 'a ?? b || c',
+    'a?.b?.(1)?.[k]': 'a?.b?.(1)?.[k]',
+    'a?.b=1': 'a?.b = 1',
+    'let x=1': 'let x = 1',
+    'let x': 'let x',
+    'const x:number=1': 'const x: number = 1',
+    "'it\\'s'": "'it\\'s'",
+    'if(x,y)': 'if(x, y)',
+    'x=1;y=2': 'x = 1\ny = 2',
+    'x=1;-1;!y': 'x = 1;\n-1;\n!y',
+    'x:number=1': 'x: number = 1',
+    '(a:number,b=1,...c:[string]):string=>a': '(a: number, b = 1, ...c: [string]): string => a',
+    'f:((number)=>number)=g': 'f: (number => number) = g',
+    '(1+2):number': '(1 + 2: number)',
+    'while(x<3)x=x+1': 'while (x < 3) x = x + 1',
+    'for(i=1,n)(f(i);g(i))': 'for (i = 1, n) (f(i); g(i))',
+    'for(i=n,1,-1)f(i)': 'for (i = n, 1, -1) f(i)',
+    'for(x in xs)f(x)': 'for (x in xs) f(x)',
+    'for(x in xs)(x?break:continue)': 'for (x in xs) x ? break : continue',
+    'f=x=>return x+1': 'f = x => return x + 1',
+    '(return)+1': '(return) + 1',
+    '[a,b=1,...r]=xs': '[a, b = 1, ...r] = xs',
+    'let {x,y:z,...o}=obj': 'let { x, y: z, ...o } = obj',
+    'f=([a,b]=[1,2],{c})=>a+c': 'f = ([a, b] = [1, 2], { c }) => a + c',
+    'match x{[a,...r] if a>0&&r=>a,_=>0}': 'match x { [a, ...r] if a > 0 && r => a, _ => 0 }',
+    'match(x+1){1=>"a"}': "match (x + 1) { 1 => 'a' }",
+  }
+
+  for (const source of Object.keys(sources)) {
+    const formatted = syntaxTreeToSource(parse(source))
+    it(source, it.is(formatted, sources[ source ]), formatted)
+    it(`${source} round trip`, it.is(parse(formatted), parse(source)))
+  }
+
+  const long = 'config = { name: "value", items: [1, 2, 3], handler: (event, context) => respond(event, context) }'
+  const formatted = syntaxTreeToSource(parse(long), { width: 40 })
+
+  it('wraps to line width', it.is(formatted, `config = {
+  name: 'value',
+  items: [1, 2, 3],
+  handler: (event, context) => respond(
+    event,
+    context
+  )
+}`), formatted)
+  it('wrapped round trip', it.is(parse(formatted), parse(long)))
+
+  const block = 'f = x => (first = x * 2; second = first + 1; !second)'
+  const formattedBlock = syntaxTreeToSource(parse(block), { width: 30, indent: 4 })
+
+  it('wraps block', it.is(formattedBlock, `f = x => (
+    first = x * 2;
+    second = first + 1;
+    !second
+)`), formattedBlock)
+  it('wrapped block round trip', it.is(parse(formattedBlock), parse(block)))
+
+  it('formats source', it.is(expreva.format('f=x=>x'), 'f = x => x'))
+})
+
+test('format with comments', it => {
+
+  const source = `// Identity
+
+f=x=>x // Returns argument
+
+
+g(1); h ( 2 ) /* Call */
+// End
+`
+  const formatted = expreva.format(source)
+
+  it('keeps comments', it.is(formatted, `// Identity
+
+f = x => x // Returns argument
+
+g(1)
+h(2) /* Call */
+// End`), formatted)
+  it('same statements', it.is(parse(formatted), parse('f=x=>x\ng(1)\nh(2)')))
+
+  it('keeps statement with comments inside', it.is(
+    expreva.format('x = { a:1, /* Inner */ b:2 }\ny=1'),
+    'x = { a:1, /* Inner */ b:2 }\ny = 1'
+  ))
+  it('keeps comment before statement', it.is(expreva.format('/* Sum */ a+b'), '/* Sum */ a + b'))
+  it('only comments', it.is(expreva.format('// Comment\n'), '// Comment'))
+
+  it('separates statement before comment', it.is(
+    expreva.format('a // First\n;(x=>x)(1)'),
+    'a; // First\n(x => x)(1)'
+  ))
+})
+
+test('format command', it => {
+
+  const cli = path.join(__dirname, '..', 'cli')
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'expreva-fmt-'))
+  const file = path.join(dir, 'test.expr')
+
+  const fmt = (...args) => spawnSync(process.execPath, [ cli, 'fmt', file, ...args ], {
+    cwd: dir,
+    encoding: 'utf8',
+    timeout: 10000
+  })
+
+  const source = '// Double\ndouble=x=>x*2 // Argument times two\n'
+  const formatted = '// Double\ndouble = x => x * 2 // Argument times two\n'
+
+  fs.writeFileSync(file, source)
+
+  let result = fmt('-check')
+  it('check fails if not formatted', it.is(result.status, 1), result.stdout)
+  it('check lists file', result.stdout.includes('Not formatted'), result.stdout)
+  it('check does not write file', it.is(fs.readFileSync(file, 'utf8'), source))
+
+  result = fmt()
+  it('formats file', it.is(result.status, 0), result.stdout)
+  it('keeps comments in file', it.is(fs.readFileSync(file, 'utf8'), formatted))
+
+  result = fmt('-check')
+  it('check passes if formatted', it.is(result.status, 0), result.stdout)
+
+  fs.writeFileSync(file, 'x = @')
+  result = fmt()
+  it('fails on parse error', it.is(result.status, 1), result.stdout)
+  it('does not write file with parse error', it.is(fs.readFileSync(file, 'utf8'), 'x = @'))
+
+  fs.rmSync(dir, { recursive: true, force: true })
+})
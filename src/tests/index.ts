@@ -4,8 +4,13 @@ import { parse, evaluate, toString } from '../index'
 global.test = test
 
 require('./parse')
+require('./lexer')
+require('./concrete')
+require('./format')
 
 require('./arithmetic')
+require('./number')
+require('./exact')
 require('./assignment')
 //require('./compoundAssignment')
 require('./comparison')
@@ -16,8 +21,26 @@ require('./nil')
 
 require('./object')
 require('./statement')
+require('./loop')
+require('./pattern')
+require('./match')
 
 require('./member')
 require('./spread')
 
+require('./budget')
+require('./location')
+require('./async')
+require('./bytecode')
+require('./closure')
+require('./wasm')
+require('./sandbox')
+require('./instance')
+require('./plugin')
+require('./ast')
+require('./analyze')
+require('./typecheck')
+require('./optimize')
+require('./lsp')
+
 export default runTests()
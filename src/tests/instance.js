@@ -0,0 +1,40 @@
+const expreva = require('../index')
+
+test('language instance', it => {
+
+  const modulo = expreva.createExpreva({
+    builtins: {
+      '%': (a, b) => a % b
+    }
+  })
+
+  modulo.lexer.token('%', /^(%)/)
+  modulo.parser.infix('%', 60, modulo.parser.LEFT_ASSOCIATIVE, (token, left, right) => ({
+    value: token.match,
+    left,
+    right,
+  }))
+
+  const strict = expreva.createExpreva({
+    environment: { strict: true },
+    evaluate: { maxTicks: 100 }
+  })
+
+  it('has own grammar', modulo.evaluate('7 % 4')===3)
+  it('has own builtins', modulo.root['%'](7, 4)===3)
+  it('does not change other instances', it.throws(() => strict.evaluate('7 % 4')))
+  it('does not change default instance', it.throws(() => expreva.evaluate('7 % 4')))
+  it('does not change default root', expreva.createEnvironment().root['%']===undefined)
+
+  it('has own environment options', it.throws(() => strict.evaluate('x = {}; x.constructor')))
+  it('has own evaluate options', it.throws(() => strict.evaluate('f = () => f(); f()')))
+  it('creates environment with own root', modulo.createEnvironment().root===modulo.root)
+
+  const env = modulo.createEnvironment({ x: 10 })
+  it('evaluates in given environment', modulo.evaluate('x % 3', env)===1)
+  it('runs on every backend', it.is(
+    ['vm', 'closure'].map(backend => modulo.evaluate('f = x => x % 3; f(5)', undefined, { backend })),
+    [2, 2]
+  ))
+  it('parses', it.is(modulo.parse('1 % 2'), ['%', 1, 2]))
+})
@@ -0,0 +1,97 @@
+const { Lexer } = require('../parse')
+const { registerTokens } = require('../parse/grammar')
+
+const createLexer = source => {
+  const lexer = new Lexer(source)
+  registerTokens(lexer)
+  return lexer
+}
+
+const tokens = lexer => lexer.toArray().map(t => [t.type, t.match])
+
+test('lexer', it => {
+
+  const lexer = createLexer('x => x >= 1.5 // Compare')
+
+  it('tokens', it.is(tokens(lexer), [
+    ['IDENTIFIER', 'x'], ['=>', '=>'], ['IDENTIFIER', 'x'], ['>=', '>='],
+    ['NUMBER', '1.5'], ['COMMENT_BLOCK', '// Compare']
+  ]))
+
+  const [, , string] = createLexer('f("a\\"b")').toArray()
+  it('groups', it.is(string.groups, ['"a\\"b"', 'a\\"b', '\\"b']))
+  it('start and end', string.start===2 && string.end===8)
+
+  it('skips white space', it.is(tokens(createLexer(' \t1')), [['NUMBER', '1']]))
+  it('peek does not consume', lexer.peek().match==='x' && lexer.next().match==='x')
+  it('end of input', createLexer('  ').next().isEof())
+
+  it('unexpected input', it.throws(() => createLexer('x = 1 @@ 2').toArray(), e =>
+    e.message==='Unexpected input: @@ at (1:7)' && e.end===8
+  ))
+})
+
+test('lexer line and column', it => {
+
+  const lexer = createLexer('a\nbc\r\n\nd')
+
+  it('first line', it.is(lexer.strpos(0), { line: 1, column: 1 }))
+  it('after new line', it.is(lexer.strpos(3), { line: 2, column: 2 }))
+  it('before carriage return', it.is(lexer.strpos(4), { line: 2, column: 3 }))
+  it('after carriage return and new line', it.is(lexer.strpos(6), { line: 3, column: 1 }))
+  it('last line', it.is(lexer.strpos(7), { line: 4, column: 1 }))
+  it('end of input', it.is(lexer.strpos(100), { line: 4, column: 2 }))
+
+  lexer.source = 'x\ny'
+  it('new source', it.is(lexer.strpos(2), { line: 2, column: 1 }))
+
+  const [x, y] = lexer.toArray().filter(t => t.type==='IDENTIFIER')
+  it('token position', it.is([x.strpos(), y.strpos()], [
+    { start: { line: 1, column: 1 }, end: { line: 1, column: 2 } },
+    { start: { line: 2, column: 1 }, end: { line: 2, column: 2 } }
+  ]))
+})
+
+test('lexer token types', it => {
+
+  const lexer = createLexer('a %% b')
+    .token('%%', /^(%%)/, false, { before: 'IDENTIFIER' })
+
+  it('add token type', it.is(tokens(lexer), [['IDENTIFIER', 'a'], ['%%', '%%'], ['IDENTIFIER', 'b']]))
+
+  lexer.token('KEYWORD', /^(a)(?=\W|$)/, false, { before: 'IDENTIFIER' })
+  it('in order', it.is(tokens(lexer)[0], ['KEYWORD', 'a']))
+
+  lexer.disable('KEYWORD')
+  it('disable', it.is(tokens(lexer)[0], ['IDENTIFIER', 'a']) && !lexer.isEnabled('KEYWORD'))
+
+  lexer.enable('KEYWORD')
+  it('enable', it.is(tokens(lexer)[0], ['KEYWORD', 'a']))
+
+  lexer.operator('@')
+  lexer.source = 'a@b'
+  it('operator', it.is(tokens(lexer)[1], ['@', '@']))
+
+  lexer.token('AFTER', /^(?<=@)b/, false, { before: 'IDENTIFIER' })
+  lexer.source = 'b a@b'
+  it('lookbehind sees source before token', it.is(tokens(lexer), [
+    ['IDENTIFIER', 'b'], ['KEYWORD', 'a'], ['@', '@'], ['AFTER', 'b']
+  ]))
+
+  // Back-reference can't be combined with other patterns
+  lexer.token('QUOTE', /^(['`])(.*?)\1/, false, { before: 'STRING_SINGLE' })
+  lexer.source = "`x` 'y'"
+  it('token types matched one by one', it.is(tokens(lexer), [['QUOTE', '`x`'], ['QUOTE', "'y'"]]))
+
+  lexer.token('TAG', /^(#?\w+)/, false, { before: 'IDENTIFIER' }).firstChars('TAG', '#')
+  lexer.source = '#x x'
+  it('first characters', it.is(tokens(lexer), [['TAG', '#x'], ['IDENTIFIER', 'x']]))
+
+  it('unknown token type', it.throws(() => lexer.isEnabled('NONE'), e => e.message==='Token of type NONE does not exist'))
+
+  const keywords = new Lexer('if iffy')
+    .keyword('if')
+    .token('IDENTIFIER', /^\w+/)
+    .token('WHITESPACE', /^\s+/, true)
+  it('keyword', it.is(tokens(keywords), [['if', 'if'], ['IDENTIFIER', 'iffy']]))
+})
@@ -0,0 +1,58 @@
+const { parse, evaluate } = require('./common')
+
+const runtimeError = source => {
+  try {
+    evaluate(source)
+  } catch(e) {
+    return e
+  }
+}
+
+test('source map', it => {
+
+  const sourceMap = new Map
+  const ast = parse('x = 1\nf(x + 2)', undefined, undefined, { sourceMap })
+
+  const [, def, call] = ast
+
+  it('maps list node', it.is(sourceMap.get(def), {
+    start: { line: 1, column: 1 },
+    end: { line: 1, column: 6 }
+  }), sourceMap.get(def))
+
+  it('maps node on next line', it.is(sourceMap.get(call), {
+    start: { line: 2, column: 1 },
+    end: { line: 2, column: 9 }
+  }), sourceMap.get(call))
+
+  it('maps inner node', it.is(sourceMap.get(call[1]), {
+    start: { line: 2, column: 3 },
+    end: { line: 2, column: 8 }
+  }), sourceMap.get(call[1]))
+
+  it('is optional', it.is(parse('f(x + 2)'), ['f', ['+', 'x', 2]]))
+})
+
+test('runtime error location', it => {
+
+  let e = runtimeError('x = 1\ny = x + z')
+  it('undefined symbol', e && e.message==='Undefined symbol "z"')
+  it('has location of failed expression', e && it.is(e.location, {
+    start: { line: 2, column: 5 },
+    end: { line: 2, column: 10 }
+  }), e && e.location)
+
+  e = runtimeError(`
+inner = x => x + y
+outer = x => 1 + inner(x)
+outer(1)
+`)
+  it('has call stack', e && it.is(e.callStack.map(frame => frame.name), ['inner', 'outer']),
+    e && e.callStack)
+  it('has call site location', e && it.is(e.callStack[0].location.start, { line: 3, column: 18 }),
+    e && e.callStack[0])
+
+  e = runtimeError('f = () => z; g = () => f(); g()')
+  it('tail call replaces frame', e && it.is(e.callStack.map(frame => frame.name), ['f']),
+    e && e.callStack)
+})
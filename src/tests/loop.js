@@ -0,0 +1,67 @@
+const { eva, evaluate } = require('./common')
+
+test('while', it => {
+  const is = eva(it)
+
+  is('x = 0; while (x < 5) x = x + 1; x', 5)
+  is('while (false) 1', undefined)
+  is('x = 0; while (x < 3) (let y = x; x = y + 1); y', 'Undefined symbol "y"')
+  is('x = 0; while (true) (x = x + 1; x > 3 ? break : nil); x', 4)
+})
+
+test('for', it => {
+  const is = eva(it)
+
+  is('s = 0; for (i = 1, 10) s = s + i; s', 55)
+  is('s = 0; for (i = 10, 1, -2) s = s + i; s', 30)
+  is('s = 0; for (i = 1, 0) s = s + i; s', 0)
+  is('for (i = 1, 3) nil; i', 'Undefined symbol "i"')
+  is('for (i = 1, 3, 0) nil', 'Loop step cannot be zero')
+  is(`for (i = 1, 'a') nil`, 'Loop range must be numbers')
+
+  is('r = []; for (x in [1, 2, 3]) r = [...r, x * 2]; r', [2, 4, 6])
+  is(`r = ''; for (c in 'abc') r = c + r; r`, 'cba')
+  is('r = []; for (e in { a: 1, b: 2 }) r = [...r, e.0]; r', ['a', 'b'])
+  is('r = 0; for (x in nil) r = 1; r', 0)
+  is('for (x in 5) nil', 'Cannot loop over number')
+
+  // Each iteration has its own scope
+  is('fs = []; for (i = 1, 3) fs = [...fs, () => i]; fs->map(f => f())', [1, 2, 3])
+})
+
+test('break and continue', it => {
+  const is = eva(it)
+
+  is('s = 0; for (i = 1, 100) (i > 3 ? break : (s = s + i)); s', 6)
+  is('s = 0; for (i = 1, 6) (i < 4 ? continue : nil; s = s + i); s', 15)
+  is(`r = []; for (i = 1, 3) (for (j = 1, 3) (j == 2 ? break : (r = [...r, [i, j]]))); r`,
+    [[1, 1], [2, 1], [3, 1]])
+
+  is('break', 'Cannot break outside loop')
+  is('continue', 'Cannot continue outside loop')
+  is('f = () => break; for (i = 1, 2) f()', 'Cannot break outside loop')
+  is('r = 0; for (i = 1, 2) try(break, e => (r = 1)); r', 0)
+})
+
+test('return', it => {
+  const is = eva(it)
+
+  is('f = x => return x + 1; f(1)', 2)
+  is('f = n => (for (i = 1, n) (i * i > 20 ? return i : nil); 0); f(10)', 5)
+  is('f = n => (for (i = 1, n) (i * i > 20 ? return i : nil); 0); f(3)', 0)
+  is('f = () => (while (true) try(return 5); 1); f()', 5)
+  is('f = () => (return; 1); f()', undefined)
+
+  is('return 1', 'Cannot return outside function')
+})
+
+test('loop budget', it => {
+
+  let e
+  try {
+    evaluate('while (true) nil', undefined, { maxTicks: 100 })
+  } catch(error) {
+    e = error
+  }
+  it('limits infinite loop', e && e.budget==='ticks', e && e.message)
+})
@@ -0,0 +1,229 @@
+const { PassThrough } = require('stream')
+const { createConnection, startServer, ErrorCodes } = require('../lsp')
+
+const uri = 'file:///test.expr'
+const text = `// Double the value
+double = x => x * 2
+y = double(3)
+f = (a, b = y) => a + b + c
+g = x => x + y
+o = { a: 1, y }; o.a`
+
+// Client connected to server through streams
+const createClient = (options = {}) => {
+
+  const toServer = new PassThrough()
+  const toClient = new PassThrough()
+  const diagnostics = []
+  let exitCode
+
+  startServer({ ...options, onExit: code => exitCode = code }, toServer, toClient)
+
+  const client = createConnection(toClient, toServer)
+  client.onNotification('textDocument/publishDiagnostics', params => diagnostics.push(params))
+  client.listen()
+
+  return {
+    client,
+    diagnostics,
+    exitCode: () => exitCode,
+    open: (source = text, version = 1) => client.sendNotification('textDocument/didOpen', {
+      textDocument: { uri, text: source, version }
+    }),
+    request: (method, line, character, params = {}) => client.sendRequest(method, {
+      textDocument: { uri },
+      position: { line, character },
+      ...params
+    })
+  }
+}
+
+const range = (line, start, end) => ({
+  start: { line, character: start },
+  end: { line, character: end }
+})
+
+test('language server', async it => {
+
+  const { client, diagnostics, exitCode, open, request } = createClient()
+
+  const { capabilities } = await client.sendRequest('initialize', { capabilities: {} })
+  it('initialize', capabilities.hoverProvider && capabilities.renameProvider.prepareProvider
+    && capabilities.textDocumentSync.change===1)
+
+  client.sendNotification('initialized', {})
+  open()
+
+  // Hover
+
+  let hover = await request('textDocument/hover', 2, 5)
+  it('hover global', it.is(hover.contents.value, '```expreva\ndouble = x => x * 2\n```\n\nDouble the value'))
+  it('hover range', it.is(hover.range, range(2, 4, 10)))
+
+  hover = await request('textDocument/hover', 3, 8)
+  it('hover parameter', it.is(hover.contents.value, '```expreva\n(parameter) b = y\n```'))
+
+  it('hover nothing', it.is(await request('textDocument/hover', 0, 3), null))
+
+  // Diagnostics
+
+  it('publishes diagnostics', it.is(diagnostics.length, 1))
+  it('undefined symbol', it.is(diagnostics[0].diagnostics.map(d => [d.code, d.range]), [
+    ['undefined-symbol', range(3, 26, 27)]
+  ]))
+
+  // Definition
+
+  it('definition of global', it.is(
+    await request('textDocument/definition', 4, 13),
+    { uri, range: range(2, 0, 1) }
+  ))
+  it('definition of parameter', it.is(
+    await request('textDocument/definition', 4, 9),
+    { uri, range: range(4, 4, 5) }
+  ))
+  it('definition of object shorthand', it.is(
+    await request('textDocument/definition', 5, 12),
+    { uri, range: range(2, 0, 1) }
+  ))
+  it('no definition of built-in', it.is(await request('textDocument/definition', 1, 16), null))
+
+  // Completion
+
+  const labels = (await request('textDocument/completion', 3, 20)).map(item => item.label)
+  it('completes parameters first', it.is(labels.slice(0, 2), ['a', 'b']))
+  it('completes globals', ['double', 'y', 'f', 'g'].every(name => labels.includes(name)))
+  it('completes built-ins', ['map', 'filter', 'true'].every(name => labels.includes(name)))
+  it('completes only visible parameters', !(await request('textDocument/completion', 5, 0))
+    .some(item => item.label==='a'))
+  it('does not complete environment internals', !['global', 'root', 'parent', 'context', 'sandbox', 'specialForms', 'numbers']
+    .some(name => labels.includes(name)))
+
+  // Rename
+
+  const { changes } = await request('textDocument/rename', 2, 0, { newName: 'z' })
+  it('renames every occurrence', it.is(changes[uri].map(edit => edit.range), [
+    range(2, 0, 1), range(3, 12, 13), range(4, 13, 14), range(5, 12, 13)
+  ]))
+
+  const renamed = (await request('textDocument/rename', 1, 9, { newName: 'n' })).changes[uri]
+  it('renames parameter in its scope', it.is(renamed.map(edit => edit.range), [
+    range(1, 9, 10), range(1, 14, 15)
+  ]))
+
+  it('prepare rename', it.is(
+    await request('textDocument/prepareRename', 4, 0),
+    { range: range(4, 0, 1), placeholder: 'g' }
+  ))
+
+  let error
+  try {
+    await request('textDocument/rename', 2, 0, { newName: '1z' })
+  } catch (e) {
+    error = e
+  }
+  it('invalid name', error && error.code===ErrorCodes.InvalidParams)
+
+  // Document symbols
+
+  const symbols = await request('textDocument/documentSymbol', 0, 0)
+  it('document symbols', it.is(symbols.map(s => [s.name, s.kind]), [
+    ['double', 12], ['y', 13], ['f', 12], ['g', 12], ['o', 13]
+  ]))
+  it('symbol range', it.is(symbols[1].range, range(2, 0, 13)))
+
+  // Changes
+
+  client.sendNotification('textDocument/didChange', {
+    textDocument: { uri, version: 2 },
+    contentChanges: [{ text: 'x = )' }]
+  })
+  await request('textDocument/hover', 0, 0)
+  const [parseError] = diagnostics[1].diagnostics
+  it('parse error', it.is([parseError.severity, parseError.message, parseError.range], [1, 'Unexpected `)`', range(0, 4, 5)]))
+
+  // Malformed notifications are logged, and server keeps running
+
+  const logs = []
+  client.onNotification('window/logMessage', params => logs.push(params))
+
+  client.sendNotification('textDocument/didChange', { textDocument: { uri, version: 3 } })
+  client.sendNotification('textDocument/didChange', { textDocument: { uri, version: 3 }, contentChanges: [{}] })
+  client.sendNotification('textDocument/didChange')
+  client.sendNotification('textDocument/didOpen', { textDocument: {} })
+
+  hover = await request('textDocument/hover', 0, 0)
+  it('server runs after malformed notification', it.is(hover, null))
+  it('logs error of malformed notification', it.is(logs.map(log => [log.type, log.message]), [
+    [1, 'Error in textDocument/didChange: Expected content changes'],
+    [1, 'Error in textDocument/didChange: Expected text'],
+    [1, 'Error in textDocument/didChange: Expected text document'],
+    [1, 'Error in textDocument/didOpen: Expected text document'],
+  ]))
+  it('keeps document after malformed notification', it.is(diagnostics.length, 2))
+
+  error = undefined
+  try {
+    await client.sendRequest('textDocument/hover', {})
+  } catch (e) {
+    error = e
+  }
+  it('request without document is invalid', error && error.code===ErrorCodes.InvalidParams)
+
+  error = undefined
+  try {
+    await client.sendRequest('unknown', {})
+  } catch (e) {
+    error = e
+  }
+  it('method not found', error && error.code===ErrorCodes.MethodNotFound)
+
+  await client.sendRequest('shutdown')
+  client.sendNotification('exit')
+  await new Promise(resolve => setTimeout(resolve, 10))
+  it('exit', it.is(exitCode(), 0))
+})
+
+test('connection with invalid messages', async it => {
+
+  const input = new PassThrough()
+  const output = []
+  const connection = createConnection(input, { write: chunk => output.push(chunk) })
+  connection.onRequest('ping', () => 'pong')
+  connection.listen()
+
+  const write = body => input.write(`Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n\r\n${body}`)
+
+  write('null')
+  write('42')
+  write('[{ "jsonrpc": "2.0", "id": 1, "method": "ping" }]')
+  write('{ "id": 1 }')
+  write('{ "jsonrpc": "2.0", "id": 2, "method": "ping" }')
+  await new Promise(resolve => setTimeout(resolve, 10))
+
+  const responses = output.map(chunk => JSON.parse(chunk.slice(chunk.indexOf('\r\n\r\n') + 4)))
+  const invalid = { jsonrpc: '2.0', id: null, error: { code: ErrorCodes.InvalidRequest, message: 'Invalid request' } }
+
+  it('responds with invalid request', it.is(responses.slice(0, 4), [invalid, invalid, invalid, invalid]))
+  it('keeps running after invalid request', it.is(responses[4], { jsonrpc: '2.0', id: 2, result: 'pong' }))
+
+  connection.dispose()
+})
+
+test('language server with host environment', async it => {
+
+  const { client, diagnostics, open, request } = createClient({ environment: { config: { width: 10 } } })
+
+  await client.sendRequest('initialize', { initializationOptions: { environment: { user: {} } } })
+  open('size([config.width, user.name])')
+
+  let hover = await request('textDocument/hover', 0, 8)
+  it('hover host value', it.is(hover.contents.value, '```expreva\nconfig: { width: number }\n```'))
+
+  hover = await request('textDocument/hover', 0, 1)
+  it('hover built-in', it.is(
+    hover.contents.value,
+    '```expreva\nsize: (any) => number\n```\n\nNumber of items in list, characters in string, or keys of object'
+  ))
+  it('host values are defined', it.is(diagnostics[0].diagnostics, []))
+})
@@ -0,0 +1,57 @@
+const { eva } = require('./common')
+
+test('match literal', it => {
+  const is = eva(it)
+
+  is(`match 2 { 1 => 'one', 2 => 'two', _ => 'many' }`, 'two')
+  is(`match 'b' { 'a' => 1, 'b' => 2 }`, 2)
+  is(`match nil { nil => 'nothing', _ => 'something' }`, 'nothing')
+  is(`match false { true => 1, false => 0 }`, 0)
+  is('match 3 { n => n * 2 }', 6)
+})
+
+test('match list and object', it => {
+  const is = eva(it)
+
+  is('match [1, 2, 3] { [a] => a, [a, ...r] => r, _ => 0 }', [2, 3])
+  is('match [1, 2] { [a, b, c] => 3, [a, b] => a + b }', 3)
+  is('match [1, [2, 3]] { [_, [b, c]] => b * c }', 6)
+  is(`match { type: 'add', x: 1, y: 2 } {
+    { type: 'sub', x, y } => x - y
+    { type: 'add', x, y } => x + y
+  }`, 3)
+  is('match { a: 1, b: 2 } { { a, ...rest } => rest }', { b: 2 })
+  is('match { a: { b: [1, 2] } } { { a: { b: [_, c] } } => c }', 2)
+  is(`match [1, 'x'] { [1, 'x'] => true, _ => false }`, true)
+  is('match [1] { { a } => 1, _ => 2 }', 2)
+  is('match {} { [] => 1, {} => 2 }', 2)
+})
+
+test('match guard', it => {
+  const is = eva(it)
+
+  is('match 1 + 1 { n if n > 1 => n * 10, n => n }', 20)
+  is('match 1 { n if n > 1 => n * 10, n => n }', 1)
+  is('match [3, 4] { [a, b] if a > 0 && b > a => a + b, _ => 0 }', 7)
+  is('match [3, 1] { [a, b] if a > 0 && b > a => a + b, _ => 0 }', 0)
+})
+
+test('match scope', it => {
+  const is = eva(it)
+
+  is('x = 1; match 2 { x => x }; x', 1)
+  is('match 2 { x => (let y = x; y) }; y', 'Undefined symbol "y"')
+  is('f = n => match n { 0 => 0, n => f(n - 1) }; f(10000)', 0)
+  is(`f = xs => match xs { [] => 0, [x, ...r] => x + f(r) }; f([1, 2, 3])`, 6)
+  is('[match 1 { 1 => 2 }, 3]', [2, 3])
+  is('r = 0; for (i = 1, 5) match i { 3 => break, _ => (r = i) }; r', 2)
+})
+
+test('match error', it => {
+  const is = eva(it)
+
+  is('match 5 { 1 => 1 }', 'No match for 5')
+  is(`match 'abc' { [a] => a }`, `No match for 'abc'`)
+  is('match [1, { a: [2] }] { [] => 0 }', 'No match for [1, { a: [..] }]')
+  is('match 1 { f(1) => 1 }', 'Invalid match pattern: f(1)')
+})
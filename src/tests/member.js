@@ -15,3 +15,47 @@ test('member assignment', it => {
   is(`a = [1, []]; a.1.0 = 2; a`, [ 1, [ 2 ] ])
   is(`a = [1, []]; a.1.0 = 2`, 2)
 })
+
+test('optional member', it => {
+  const is = eva(it)
+
+  is("a = { b: { c: 1 } }; a?.b?.c", 1)
+  is('a = nil; a?.b', undefined)
+  is('a = nil; a?.b?.c', undefined)
+  is('a = {}; a.b?.c', undefined)
+  is("a = { b: 1 }; k = 'b'; a?.[k]", 1)
+  is('a = [1, 2]; a?.[1]', 2)
+  is("a = nil; a?.b ?? 'none'", 'none')
+})
+
+test('optional call', it => {
+  const is = eva(it)
+
+  is('f = x => x * 2; f?.(2)', 4)
+  is('f = nil; f?.(2)', undefined)
+  is('x = 0; f = nil; f?.(x = 1); x', 0)
+  is('a = { f: () => 3 }; a.f?.()', 3)
+  is('a = {}; a.f?.()', undefined)
+  is('f = n => n > 0 ? f?.(n - 1) : 0; f(10000)', 0)
+})
+
+test('optional chain', it => {
+  const is = eva(it)
+
+  // Nil target after ?. skips the rest of the chain
+  is('a = nil; a?.b.c', undefined)
+  is('f = nil; f?.(1).y', undefined)
+  is('a = nil; a?.b(1).c', undefined)
+  is('a = nil; a?.b?.c.d', undefined)
+  is('a = { b: nil }; a.b?.c.d', undefined)
+  is('f = x => nil; f?.(1)?.y.z', undefined)
+  is('x = 0; a = nil; a?.b(x = 1).c; x', 0)
+  is('a = nil; [a?.b.c, 1]', [undefined, 1])
+  is('a = nil; f = () => a?.b.c; f()', undefined)
+
+  // Rest of the chain runs if target is not nil
+  is('a = { b: { c: 1 } }; a?.b.c', 1)
+  is('a = { b: x => ({ c: x }) }; a?.b(2).c', 2)
+  is('f = x => ({ y: x }); f?.(3).y', 3)
+  is('a = {}; a?.b.c', 'Cannot access member: not an array or object')
+})
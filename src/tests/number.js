@@ -0,0 +1,91 @@
+const { eva, parse } = require('./common')
+const expreva = require('../index')
+
+test('number', it => {
+  const is = eva(it)
+
+  is('1.5', 1.5)
+  is('1.05', 1.05)
+  is('0.001', 0.001)
+  is('.5', 0.5)
+  is('1 + .5', 1.5)
+  is('-.5', -0.5)
+  is('[.5, 1.25]', [0.5, 1.25])
+
+  is('1e3', 1000)
+  is('1e-3', 0.001)
+  is('2.5E+2', 250)
+  is('.5e1', 5)
+
+  is('0xff', 255)
+  is('0XFF', 255)
+  is('0b101', 5)
+  is('0o17', 15)
+
+  is('1_000_000', 1000000)
+  is('1_000.000_5', 1000.0005)
+  is('0xff_ff', 65535)
+})
+
+test('number with member', it => {
+  const is = eva(it)
+
+  is('a = [1, [2, 3]]; a.1.0', 2)
+  is('a = [1, 2]; a.1 + .5', 2.5)
+  is('a = [[1, 2]]; a.0.1', 2)
+  is('o = { x: [5] }; o.x.0', 5)
+  is('[...[1.5, 2]]', [1.5, 2])
+
+  it('list member is not decimal', it.is(parse('list.1.0'), ['get', ['get', 'list', 1], 0]))
+  it('member of number', it.is(parse('1.5.x'), ['get', 1.5, ['expr', 'x']]))
+})
+
+test('number source', it => {
+
+  const tree = expreva.parseConcrete('x = 1_000.5e-1')
+  const [, , number] = tree.children[0].children
+
+  it('single token', it.is([number.type, number.children.length, number.children[0].text], ['number', 1, '1_000.5e-1']))
+  it('span', it.is([number.start, number.end], [4, 14]))
+
+  const sourceMap = new Map
+  const ast = parse('f(0xff, .5)', undefined, undefined, { sourceMap })
+  it('value', it.is(ast, ['f', 255, 0.5]))
+  it('source map', it.is(sourceMap.get(ast), {
+    start: { line: 1, column: 1 },
+    end: { line: 1, column: 12 }
+  }))
+
+  it('format', it.is(expreva.format('x=.5+1e-7'), 'x = 0.5 + 1e-7'))
+})
+
+test('invalid number', it => {
+
+  const invalid = {
+    '0x': [1, 3],
+    '1e': [1, 3],
+    '0b2': [1, 4],
+    '1_': [1, 3],
+    '1__0': [1, 5],
+    '1.5x': [1, 5],
+    'x = 1 + 0xffg': [9, 14],
+  }
+
+  for (const source of Object.keys(invalid)) {
+    let error
+    try {
+      parse(source)
+    } catch (e) {
+      error = e
+    }
+    const [start, end] = invalid[ source ]
+    it(source, error instanceof expreva.ParseError
+      && error.reason==='Invalid numeric literal'
+      && it.is(error.span, {
+        start: { line: 1, column: start },
+        end: { line: 1, column: end }
+      }), error && error.message)
+  }
+
+  it('valid number before name', it.is(parse('2 x'), ['do', 2, 'x']))
+})
@@ -0,0 +1,88 @@
+const expreva = require('../index')
+const { evaluate, partialEvaluate, partialEvaluateSyntaxTree, createExpreva } = expreva
+
+// Optimized tree evaluates to the same result
+const same = (source, env = {}, known = env) => {
+  const optimized = partialEvaluate(source, known)
+  const expected = evaluate(source, expreva.createEnvironment(env))
+  const actual = evaluate(optimized, expreva.createEnvironment(env))
+  return JSON.stringify(actual)===JSON.stringify(expected)
+}
+
+test('partial evaluate constants', it => {
+
+  it('folds arithmetic', it.is(partialEvaluate('1 + 2 * 3'), 7))
+  it('folds comparison', it.is(partialEvaluate('2 * 3 > 5'), true))
+  it('folds strings', it.is(partialEvaluate('"a" + "b"'), ['expr', 'ab']))
+  it('folds built-in constants', it.is(partialEvaluate('!true'), false))
+  it('folds nil', it.is(partialEvaluate('nil == nil'), true))
+  it('keeps unknown', it.is(partialEvaluate('x + 2 * 3'), ['+', 'x', 6]))
+  it('keeps division by zero', it.is(partialEvaluate('1 / 0'), ['/', 1, 0]))
+  it('keeps other functions', it.is(partialEvaluate('size([1, 2])'), ['size', ['list', 1, 2]]))
+  it('quoted expression is not evaluated', it.is(partialEvaluateSyntaxTree(['expr', ['+', 1, 2]]), ['expr', ['+', 1, 2]]))
+
+  it('known bindings', it.is(partialEvaluate('rate * 100 + x', { rate: 0.5 }), ['+', 50, 'x']))
+  it('known function is not called', it.is(partialEvaluate('f(1)', { f: x => x }), ['f', 1]))
+  it('redefined built-in is not called', it.is(
+    partialEvaluateSyntaxTree(['do', ['def', '+', 'f'], ['+', 1, 2]]),
+    ['do', ['def', '+', 'f'], ['+', 1, 2]]
+  ))
+  it('redefined variable is not known', it.is(partialEvaluate('x = x + 1; x', { x: 1 }), ['do', ['def', 'x', ['+', 'x', 1]], 'x']))
+  it('parameter shadows known binding', it.is(partialEvaluate('x => x + y', { x: 1, y: 2 }), ['λ', ['x'], ['+', 'x', 2]]))
+
+  it('custom built-ins', it.is(
+    createExpreva({ builtins: { max: Math.max } }).partialEvaluate('max(1, 2)', {}, { pure: ['max'] }),
+    2
+  ))
+})
+
+test('partial evaluate forms', it => {
+
+  it('inlines let', it.is(partialEvaluateSyntaxTree(['let', ['x', 2, 'y', ['*', 'x', 3]], ['+', 'y', 'z']]), ['+', 6, 'z']))
+  it('keeps let with unknown value', it.is(
+    partialEvaluateSyntaxTree(['let', ['x', ['f'], 'y', 1], ['+', 'x', 'y']]),
+    ['let', ['x', ['f']], ['+', 'x', 1]]
+  ))
+  it('keeps let with side effect', it.is(
+    partialEvaluateSyntaxTree(['let', ['x', ['f']], 1]),
+    ['let', ['x', ['f']], 1]
+  ))
+  it('keeps let with dynamic scope', it.is(
+    partialEvaluateSyntaxTree(['let', ['x', 1], ['get', 'local', ['expr', 'x']]]),
+    ['let', ['x', 1], ['get', 'local', ['expr', 'x']]]
+  ))
+
+  it('prunes if', it.is(partialEvaluate('1 < 2 ? a : b'), 'a'))
+  it('prunes else', it.is(partialEvaluate('x > 1 ? a : b', { x: 0 }), 'b'))
+  it('if without else', it.is(partialEvaluateSyntaxTree(['if', false, 'a']), ['do']))
+  it('keeps if with unknown condition', it.is(partialEvaluate('x ? 1 + 1 : 2'), ['if', 'x', 2, 2]))
+
+  it('beta reduces lambda', it.is(partialEvaluate('(x => x * 2)(3)'), 6))
+  it('beta reduces with unknown argument', it.is(
+    partialEvaluate('((x, y) => x * y)(a, 2)'),
+    ['let', ['x', 'a'], ['*', 'x', 2]]
+  ))
+  it('beta reduces default value', it.is(partialEvaluate('((x, y = 2) => x + y)(1)'), 3))
+  it('keeps argument referring to parameter', it.is(
+    partialEvaluate('((x, y) => x + y)(1, x)'),
+    [['λ', ['x', 'y'], ['+', 'x', 'y']], 1, 'x']
+  ))
+  it('keeps rest parameter', it.is(
+    partialEvaluate('((...x) => x)(1)'),
+    [['λ', [['...', 'x']], 'x'], 1]
+  ))
+
+  it('removes constant statements', it.is(partialEvaluate('1; f(); 2'), ['do', ['f'], 2]))
+})
+
+test('partial evaluate is same as evaluate', it => {
+
+  it('arithmetic', same('a * (2 + 3) - 1', { a: 4 }))
+  it('unknown input', same('a * (2 + 3) - b', { a: 4, b: 1 }, { a: 4 }))
+  it('nil branch', same('a > 1 ? nil : 1', { a: 2 }))
+  it('object with nil', same('{ a: nil, b: 1 + 1 }'))
+  it('function', same('f = (x, y = 2) => x ^ y; f(3)'))
+  it('let', same('(x => (y => x + y)(2))(1)'))
+  it('declaration', same('f = x => (let y = x * 2; y + 1); f(2)'))
+  it('catch parameter', same('try(throw(), e => x)', { x: 1, throw: () => { throw new Error() } }, { x: 1 }))
+})
@@ -121,3 +121,86 @@ test('parse statements', it => {
     it(key, it.is(result, exprs[key]), 'expected', exprs[key], 'actual', result)
   }
 })
+
+test('parse with recovery', it => {
+
+  const { ParseError } = require('../index')
+
+  it('throws parse error without recovery', it.throws(() => parse('x = ; 1'), ParseError))
+
+  let errors = []
+  it('valid source has no errors', it.is(parse('x = 1; x', undefined, undefined, { errors }), ['do', ['def', 'x', 1], 'x']) && !errors.length)
+
+  errors = []
+  it('resyncs at semicolon', it.is(
+    parse('x = 1; y = ; z = 3', undefined, undefined, { errors }),
+    ['do', ['def', 'x', 1], ['def', 'z', 3]]
+  ))
+  it('reports error', errors.length===1 && errors[0] instanceof ParseError)
+  it('expected expression at end of statement', errors[0].expected.includes('NUMBER'))
+  it('reports missing operand', it.is(
+    [errors[0].reason, errors[0].span, errors[0].found],
+    [
+      'Unexpected `;`, expected expression',
+      { start: { line: 1, column: 12 }, end: { line: 1, column: 13 } },
+      { type: ';', match: ';' }
+    ]
+  ))
+
+  errors = []
+  it('resyncs at new line', it.is(
+    parse('x = 1\ny = *\nz = 3 +\nw = 4', undefined, undefined, { errors }),
+    ['do', ['def', 'x', 1], ['def', 'w', 4]]
+  ))
+  it('reports every error', it.is(errors.map(e => [e.reason, e.span]), [
+    [
+      'Unexpected `*`, expected expression',
+      { start: { line: 2, column: 5 }, end: { line: 2, column: 6 } }
+    ],
+    [
+      'Unexpected new line, expected expression',
+      { start: { line: 3, column: 8 }, end: { line: 4, column: 1 } }
+    ],
+  ]))
+
+  errors = []
+  it('resyncs at unmatched closing bracket', it.is(
+    parse('f(1)) + 2', undefined, undefined, { errors }),
+    ['do', ['f', 1], 2]
+  ))
+  it('reports found token', it.is(
+    [errors[0].reason, errors[0].found, errors[0].span.start],
+    ['Unexpected `)`', { type: ')', match: ')' }, { line: 1, column: 5 }]
+  ))
+
+  errors = []
+  it('skips unexpected input', it.is(parse('x = @ 1', undefined, undefined, { errors }), ['def', 'x', 1]))
+  it('reports unexpected input', it.is(
+    [errors[0].reason, errors[0].found, errors[0].span.start],
+    ['Unexpected `@`', { type: 'UNKNOWN', match: '@' }, { line: 1, column: 5 }]
+  ))
+
+  errors = []
+  it('reports expected token type', parse('f(1, 2 ]', undefined, undefined, { errors })===undefined
+    && errors[0].expected.includes(')')
+  )
+  it('reports expected token', it.is(
+    [errors[0].reason, errors[0].span],
+    ['Unexpected `]`, expected `)`', { start: { line: 1, column: 8 }, end: { line: 1, column: 9 } }]
+  ))
+
+  errors = []
+  parse('[1, 2', undefined, undefined, { errors })
+  it('reports end of input', it.is(
+    [errors[0].reason, errors[0].span, errors[0].found],
+    ['Unexpected end of input, expected `]`', { start: { line: 1, column: 6 }, end: { line: 1, column: 6 } }, undefined]
+  ))
+
+  errors = []
+  parse('x = )', undefined, undefined, { errors })
+  it('reports unmatched bracket once', it.is(errors.map(e => e.reason), ['Unexpected `)`']))
+
+  it('reports without recovery', it.throws(() => parse('y = ;'), e => e.reason==='Unexpected `;`, expected expression'
+    && e.span.start.column===5
+  ))
+})
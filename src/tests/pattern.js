@@ -0,0 +1,53 @@
+const { eva } = require('./common')
+
+test('destructure list', it => {
+  const is = eva(it)
+
+  is('[a, b] = [1, 2]; [b, a]', [2, 1])
+  is('[a, b = 2, ...r] = [1, nil, 3, 4]; [a, b, r]', [1, 2, [3, 4]])
+  is('[a, b] = [1]; b', undefined)
+  is('[a, [b, c]] = [1, [2, 3]]; a + b + c', 6)
+  is('[a, b] = [1, 2]', [1, 2])
+  is('for (e in { a: 1, b: 2 }) ([k, v] = e); [k, v]', ['b', 2])
+})
+
+test('destructure object', it => {
+  const is = eva(it)
+
+  is('{ x, y: z = 5, ...o } = { x: 1, w: 2 }; [x, z, o]', [1, 5, { w: 2 }])
+  is(`{ 'a b': c } = { 'a b': 3 }; c`, 3)
+  is('{ p: { q }, r: [s] } = { p: { q: 7 }, r: [8] }; q + s', 15)
+  is('{ x = 1 } = { x: nil }; x', 1)
+})
+
+test('destructure declaration', it => {
+  const is = eva(it)
+
+  is('let { p: { q } } = { p: { q: 7 } }; q', 7)
+  is('f = () => (let [a, { b }] = [1, { b: 2 }]; a + b); [f(), a]', 'Undefined symbol "a"')
+  is('const [k] = [1]; k = 2', 'Cannot assign to constant "k"')
+  is('f = () => (const [k] = [1]; k = 2); f()', 'Cannot assign to constant "k"')
+  is('f = () => (let x = 0; [x] = [5]; x); f()', 5)
+  is('x = 0; f = () => ([x, y] = [1, 2]); f(); [x, y]', [1, 2])
+})
+
+test('destructure parameters', it => {
+  const is = eva(it)
+
+  is('swap = ([a, b]) => [b, a]; swap([1, 2])', [2, 1])
+  is('f = ([a, [b, c]], { d = 4 }) => [a, b, c, d]; f([1, [2, 3]], {})', [1, 2, 3, 4])
+  is('f = ([a, b] = [1, 2], c = a + b) => [a, b, c]; f()', [1, 2, 3])
+  is('f = ({ n = 1 } = {}) => n; [f(), f({ n: 2 })]', [1, 2])
+  is('[{ x: 1 }, { x: 2 }]->map(({ x }) => x * 2)', [2, 4])
+})
+
+test('destructure mismatch', it => {
+  const is = eva(it)
+
+  is('let [a] = 1', 'Cannot destructure number with [a]: expected list')
+  is('[a, b] = { a: 1 }', 'Cannot destructure object with [a, b]: expected list')
+  is('{ a } = [1]', 'Cannot destructure list with { a }: expected object')
+  is('f = ({ a }) => a; f(nil)', 'Cannot destructure nil with { a }: expected object')
+  is('{ p: [q] } = { p: 1 }', 'Cannot destructure number with [q]: expected list')
+  is('[1] = x', 'Invalid destructuring pattern: [1]')
+})
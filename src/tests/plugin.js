@@ -0,0 +1,67 @@
+const expreva = require('../index')
+
+const modulo = {
+  name: 'modulo',
+  tokens: [
+    { type: '%', pattern: '%', before: 'IDENTIFIER' }
+  ],
+  parselets: [
+    {
+      type: 'infix',
+      token: '%',
+      precedence: 'PRODUCT',
+      parse: (token, left, right) => ({ value: token.match, left, right })
+    }
+  ],
+  builtins: {
+    '%': (a, b) => a % b
+  }
+}
+
+const isEven = {
+  name: 'isEven',
+  dependencies: ['modulo'],
+  builtins: {
+    isEven: x => x % 2===0
+  }
+}
+
+const unless = {
+  name: 'unless',
+  specialForms: {
+    // Evaluate body only if condition is false
+    unless: ([condition, body], env, evaluate) =>
+      evaluate(condition, env) ? undefined : evaluate(body, env)
+  }
+}
+
+test('plugin', async it => {
+
+  const instance = expreva.createExpreva()
+  instance.use(isEven, modulo)
+
+  it('sorts by dependencies', it.is(instance.plugins, ['modulo', 'isEven']))
+  it('adds token and grammar rule', it.is(instance.parse('1 + 7 % 4'), ['+', 1, ['%', 7, 4]]))
+  it('uses named precedence', it.is(instance.parse('2 * 7 % 4'), ['%', ['*', 2, 7], 4]))
+  it('adds builtins', instance.evaluate('isEven(4) && 7 % 4 == 3'))
+  it('is used once', it.is(instance.use(modulo).plugins, ['modulo', 'isEven']))
+
+  it('requires dependencies', it.throws(() => expreva.createExpreva().use(isEven)))
+  it('does not change default instance', it.throws(() => expreva.evaluate('7 % 4')))
+
+  const withForms = expreva.createExpreva({ plugins: [unless] })
+  for (const backend of ['interpreter', 'vm', 'closure']) {
+    it(`special form (${backend})`, it.is(
+      withForms.evaluate('x = 0; unless(true, x = 1); unless(false, x + 2)', undefined, { backend }),
+      2
+    ))
+  }
+  it('special form async', it.is(await withForms.evaluateAsync('unless(false, 3)'), 3))
+  it('special form async skips body', it.is(await withForms.evaluateAsync('unless(true, 3)'), undefined))
+  it('special form async awaits result', it.is(
+    await withForms.evaluateAsync('unless(false, double(2))', withForms.createEnvironment({
+      double: x => Promise.resolve(x * 2)
+    })),
+    4
+  ))
+})
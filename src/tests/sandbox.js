@@ -0,0 +1,77 @@
+const expreva = require('../index')
+const { EvaluationContext } = require('../evaluate')
+
+test('sandbox', it => {
+
+  const backends = ['interpreter', 'vm', 'closure']
+
+  const host = {
+    user: { name: 'Alice', tags: ['a', 'b'] },
+    getUser() { return host.user },
+    settings: { theme: 'dark' },
+    evaluation: new EvaluationContext({ maxTicks: 1000 }),
+  }
+
+  const run = (source, backend) => {
+    const env = expreva.createEnvironment(host, { strict: true, allow: [host.settings] })
+    try {
+      return expreva.evaluate(source, env, { backend })
+    } catch(e) {
+      return e.message
+    }
+  }
+
+  const denied = key => `Access denied to member "${key}"`
+  const readOnly = 'Cannot modify host object'
+
+  for (const backend of backends) {
+
+    const suffix = backend==='interpreter' ? '' : ` (${backend})`
+    const is = (source, expected) => {
+      const result = run(source, backend)
+      it(source + suffix, it.is(result, expected), result)
+    }
+
+    is('user.name', 'Alice')
+    is('user.tags.1', 'b')
+    is('user.constructor', denied('constructor'))
+    is('x = {}; x.constructor', denied('constructor'))
+    is('x = {}; x.__proto__', denied('__proto__'))
+    is('x = {}; x.hasOwnProperty', denied('hasOwnProperty'))
+    is('x = {}; x.toString', denied('toString'))
+    is('user.valueOf', denied('valueOf'))
+    is('x = []; x.prototype', denied('prototype'))
+    is('user.name = "Bob"', readOnly)
+    is('user.tags->push("c")', readOnly)
+    is('user->set("name", "Bob")', readOnly)
+    is('user->join({ name: "Bob" })', readOnly)
+    is('getUser().name = "Bob"', readOnly)
+    is('size(user.tags)', 2)
+    is('user.tags->map(x => x + "!")', ['a!', 'b!'])
+    is('x = {}; x.a = 1; x.a', 1)
+    is('settings.theme = "light"', 'light')
+
+    // Environment and evaluator internals
+    is('global.context', undefined)
+    is('global.sandbox', undefined)
+    is('global.root', denied('root'))
+    is('local.root', denied('root'))
+    is('f = () => local.parent; f()', denied('parent'))
+    is('global.create', denied('create'))
+    is('global.root = 1', denied('root'))
+    is('x = 1; global.x', 1)
+    is('root = 1; local.root', 1)
+    is('evaluation.budget', denied('budget'))
+    is('evaluation.callStack', denied('callStack'))
+    is('f = evaluation.locate; f', denied('locate'))
+  }
+
+  it('does not mutate host objects', it.is(host.user, { name: 'Alice', tags: ['a', 'b'] }))
+  it('allows whitelisted objects', host.settings.theme==='light')
+
+  it('root is frozen', Object.isFrozen(expreva.createEnvironment().root))
+  it('root functions are frozen', Object.isFrozen(expreva.createEnvironment().root.map))
+  it('assigning root function keeps its name', expreva.evaluate('f = map; f')===expreva.createEnvironment().root.map)
+
+  it('is optional', expreva.evaluate('x = { a: 1 }; x.hasOwnProperty("a")')===true)
+})
@@ -0,0 +1,105 @@
+const expreva = require('../index')
+const { eva, parse } = require('./common')
+const { typecheck, inferType, typecheckSyntaxTree, createEnvironment, createExpreva, TypeCheckError } = expreva
+
+const reasons = (source, envTypes) => typecheck(source, envTypes).map(e => e.reason)
+
+test('type annotations', it => {
+
+  it('parse parameter types', it.is(
+    parse('(x: number, y) => x'),
+    [':', ['λ', ['x', 'y'], 'x'], ['λ', ['number', '_'], '_']]
+  ))
+  it('parse return type', it.is(
+    parse('(x): [string] => x'),
+    [':', ['λ', ['x'], 'x'], ['λ', ['_'], ['list', 'string']]]
+  ))
+  it('parse rest parameter type', it.is(
+    parse('(...xs: [number]) => xs'),
+    [':', ['λ', [['...', 'xs']], 'xs'], ['λ', [['...', ['list', 'number']]], '_']]
+  ))
+  it('parse variable type', it.is(parse('x: number = 1'), ['def', 'x', [':', 1, 'number']]))
+  it('parse function type in parentheses', it.is(
+    parse('f: ((number) => string) = g'),
+    ['def', 'f', [':', 'g', ['λ', ['number'], 'string']]]
+  ))
+  it('colon in conditional and object', it.is(
+    parse('c ? { a: 1 } : 2'),
+    ['if', 'c', ['obj', ['a', 1]], 2]
+  ))
+
+  const is = eva(it)
+  is('f = (x: number, y = 2): number => x * y; f(3)', 6)
+  is('x: number = 1; x + 1', 2)
+  is('(1 + 2): number', 3)
+})
+
+test('typecheck', it => {
+
+  it('infers function type', it.is(inferType('x => x + 1'), '(number) => number'))
+  it('infers generic function', it.is(inferType('x => x'), '(a) => a'))
+  it('generic function at top level', it.is(reasons('id = x => x; id(1); id("a")'), []))
+  it('recursive function', it.is(inferType('f = n => n < 1 ? 1 : n * f(n - 1)'), '(number) => number'))
+  it('function used before definition', it.is(inferType('g = () => h(1); h = x => x * 2; g()'), 'number'))
+  it('object member', it.is(inferType('p => p.name'), '({ name: a, ... }) => a'))
+
+  it('string + number', it.is(reasons('1 + "a"'), ['Argument 2 of "+": Expected number, but got string']))
+  it('strings can be added', it.is(reasons('"a" + "b"'), []))
+  it('operator on other types', it.is(reasons('true + true'), ['Operator + expects number or string, but got boolean']))
+  it('calling non-function', it.is(reasons('f = 1; f(2)'), ['Cannot call number']))
+  it('member of nil', it.is(reasons('nil.a'), ['Cannot access member "a" of nil']))
+  it('optional chain of nil', it.is(reasons('a = nil; [a?.b.c, a?.b(1).c]; f = nil; f?.(1).y'), []))
+  it('optional chain of value', it.is(reasons('a = { b: 1 }; a?.b.c'), ['Cannot access member "c" of number']))
+  it('unknown member', it.is(reasons('o = { a: 1 }; o.b'), ['Unknown member "b" of { a: number }']))
+  it('argument count', it.is(reasons('f = (a, b = 1) => a + b; f()'), ['Function "f" expects 1 to 2 arguments, but got 0']))
+  it('argument type from usage', it.is(
+    reasons('f = p => p.name + 1; f({ name: "x" })'),
+    ['Argument 1 of "f": Expected { name: number, ... }, but got { name: string }']
+  ))
+  it('branches', it.is(reasons('c = true; c ? 1 : "a"'), ['Branches have different types: Expected number, but got string']))
+  it('nil is compatible', it.is(reasons('c = true; c ? 1 : nil'), []))
+
+  it('parameter annotation', it.is(reasons('(x: string) => x * 2'), ['Argument 1 of "*": Expected number, but got string']))
+  it('variable annotation', it.is(reasons('x: number = "a"'), ['Expected number, but got string']))
+  it('return annotation', it.is(reasons('(x: number): string => x'), ['Return value: Expected string, but got number']))
+  it('unknown type', it.is(reasons('x: numbr = 1'), ['Unknown type "numbr"']))
+  it('declaration annotation', it.is(reasons('let x: number = "a"'), ['Expected number, but got string']))
+  it('assignment keeps variable type', it.is(
+    reasons('f = () => (let x = 1; x = "a")'),
+    ['Variable "x": Expected number, but got string']
+  ))
+  it('loop variable', it.is(reasons('for (x in ["a"]) x * 2'), ['Argument 1 of "*": Expected number, but got string']))
+  it('loop range', it.is(reasons('for (i = 1, "a") i'), ['Loop range: Expected number, but got string']))
+  it('return value', it.is(reasons('(x: number): string => (x > 1 ? (return "a") : nil; x)'), ['Return value: Expected string, but got number']))
+  it('names in pattern are any', it.is(reasons('{ a, b: [c] } = { a: 1, b: ["x"] }; a * c'), []))
+  it('match branches', it.is(reasons('match 1 { 1 => "a", n => n * 2 }'), ['Branches have different types: Expected string, but got number']))
+  it('any is not checked', it.is(reasons('(x: any) => x * 2 + x.a'), []))
+
+  it('built-in map', it.is(inferType('[1, 2]->map(x => x * 2)'), '[number]'))
+  it('built-in filter', it.is(reasons('[1, 2]->filter(x => x > "a")'), ['Argument 2 of ">": Expected number, but got string']))
+  it('built-in reduce', it.is(inferType('[1, 2]->reduce((sum, x) => sum + x, 0)'), 'number'))
+
+  const errors = typecheck('a = 1\nb = a + "x"')
+  it('returns type errors', errors[0] instanceof TypeCheckError)
+  it('with span', it.is(errors[0].span.start, { line: 2, column: 5 }))
+  it('syntax tree without span', typecheckSyntaxTree(parse('1 + "x"'))[0].span===undefined)
+})
+
+test('typecheck with host environment', it => {
+
+  const envTypes = { send: '(string) => number', config: '{ width: number }' }
+  it('declared types', it.is(reasons('send(config.width)', envTypes), ['Argument 1 of "send": Expected string, but got number']))
+  it('generic declared type', it.is(inferType('first([1])', { first: '([a]) => a' }), 'number'))
+
+  const send = message => message.length
+  send.signature = '(string) => number'
+  const env = createEnvironment({ send, config: { width: 10 } })
+  it('signature of host function', it.is(reasons('send(config.width)', env), ['Argument 1 of "send": Expected string, but got number']))
+  it('type of host value', it.is(reasons('config.height', env), ['Unknown member "height" of { width: number }']))
+  it('host function still works', expreva.evaluate('send("abc")', env)===3)
+
+  const max = (a, b) => Math.max(a, b)
+  max.signature = '(number, number) => number'
+  const instance = createExpreva({ builtins: { max } })
+  it('signature of built-in', it.is(instance.typecheck('max(1, "a")').map(e => e.reason), ['Argument 2 of "max": Expected number, but got string']))
+})
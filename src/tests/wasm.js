@@ -0,0 +1,61 @@
+const expreva = require('../index')
+const { parse } = require('./common')
+
+test('webassembly', it => {
+
+  const inputs = { price: 2, quantity: 3, x: 4 }
+
+  // Same result as evaluate
+  const same = source => {
+    const program = expreva.compileWasm(parse(source))
+    const expected = expreva.evaluate(source, expreva.createEnvironment(inputs))
+    const result = expreva.runWasm(program, inputs)
+    it(source, it.is(result, expected), result, expected)
+  }
+
+  same('1 + 2 * 3')
+  same('1 / 4 - 2')
+  same('2 ^ 10')
+  same('-x + 3')
+  same('price * quantity')
+  same('1 < 2')
+  same('1 >= 2')
+  same('1 == 1')
+  same('!0')
+  same('x > 3 ? 1 : 2')
+  same('0 ? 1 : 2')
+  same('let((a, 1, b, a + 1), a * b)')
+  same('a = 2; a * 3')
+  same('fib = n => n < 2 ? n : fib(n - 1) + fib(n - 2); fib(15)')
+  same('double = x => x * 2; square = x => x * x; square(double(x))')
+
+  const program = expreva.compileWasm(parse('square = x => x * x'), { wat: true })
+
+  it('is valid module', WebAssembly.validate(program.binary))
+  it('exports function', expreva.runWasm(program)(3)===9)
+  it('has text format', program.wat.startsWith('(module')
+    && program.wat.includes('(func $square (export "square") (param f64) (result f64)'))
+  it('has inputs', it.is(expreva.compileWasm(parse('a * b + a')).inputs, ['a', 'b']))
+  it('requires inputs', it.throws(() => expreva.runWasm(expreva.compileWasm(parse('a + 1')))))
+  it('rejects input other than number or boolean', it.throws(
+    () => expreva.runWasm(expreva.compileWasm(parse('a + 1')), { a: '2' }),
+    e => e instanceof expreva.RuntimeError && e.message==='Input "a" must be a number or boolean, not string'
+  ))
+  it('accepts boolean input', expreva.runWasm(expreva.compileWasm(parse('a ? 1 : 2')), { a: true })===1)
+
+  let e
+  try {
+    expreva.compileWasm(parse('[1, 2]; let((a, 1), a ? true : 2); f = (x = 1) => x; nil + 1'))
+  } catch(error) {
+    e = error
+  }
+  it('reports unsupported expressions', e instanceof expreva.WasmCompileError && it.is(
+    e.unsupported.map(item => item.message),
+    [
+      'Default or rest argument in "f"',
+      'Unsupported expression "list"',
+      'Branches of number and boolean',
+      'Unsupported value nil'
+    ]
+  ), e && e.message)
+})
@@ -0,0 +1,58 @@
+/**
+ * Types of built-in functions and values of root environment, in annotation syntax
+ */
+export const builtinTypes: { [name: string]: string } = {
+
+  true: 'boolean',
+  false: 'boolean',
+  nil: 'nil',
+
+  // Operator + also takes strings
+  '+': '(a, a) => a',
+  '-': '(number, number) => number',
+  '*': '(number, number) => number',
+  '/': '(number, number) => number',
+  '^': '(number, number) => number',
+
+  round: '(number, places = number) => number',
+  floor: '(number, places = number) => number',
+  ceil: '(number, places = number) => number',
+  toFixed: '(number, places = number) => string',
+
+  '!': '(any) => boolean',
+
+  '==': '(any, any) => boolean',
+  '!=': '(any, any) => boolean',
+
+  '<': '(a, a) => boolean',
+  '<=': '(a, a) => boolean',
+  '>': '(a, a) => boolean',
+  '>=': '(a, a) => boolean',
+
+  // Functions that take a list, object or string are typed for lists
+  map: '([a]) => ((a, number) => b) => [b]',
+  filter: '([a]) => ((a, number) => boolean) => [a]',
+  reduce: '([a]) => ((b, a) => b, b) => b',
+  join: '(any) => (any) => any',
+  size: '(any) => number',
+  search: '(any) => (any) => any',
+  push: '([a]) => (a) => [a]',
+  pop: '([a]) => a',
+  insert: '([a]) => (number, a) => [a]',
+  slice: '([a]) => (number, end = number) => [a]',
+  keys: '(any) => [string]',
+  set: '(a) => (any, value = any) => a',
+  unset: '(a) => (string) => a',
+  print: '(...[any]) => nil',
+}
+
+/**
+ * Operand types of operators with type variables
+ */
+export const operandTypes: { [name: string]: string[] } = {
+  '+': ['number', 'string'],
+  '<': ['number', 'string'],
+  '<=': ['number', 'string'],
+  '>': ['number', 'string'],
+  '>=': ['number', 'string'],
+}
@@ -0,0 +1,1010 @@
+/**
+ * Gradual type checker - infers types of unannotated code, checks them against
+ * annotations, and declared types of built-ins and host environment. Values of
+ * type "any" are not checked.
+ */
+
+import type { Expression, RuntimeEnvironment } from '../evaluate'
+import { Environment, globalScope, rootScope } from '../evaluate/environment'
+import { isExactNumber } from '../evaluate/exact'
+import { isOptional } from '../evaluate/chain'
+import type { SourceMap, SourceSpan } from '../parse/sourceMap'
+import { parse } from '../parse'
+import {
+  SyntaxNode,
+  nodeType,
+  declaredNames,
+  parameterNames,
+  patternNames,
+  patternDefaults,
+  matchPatternNames,
+  isPatternNode
+} from '../ast'
+import { builtinTypes, operandTypes } from './builtins'
+import {
+  Type,
+  PrimitiveName,
+  TypeVariable,
+  FunctionType,
+  TypeMismatch,
+  GENERIC,
+  primitive,
+  variable,
+  list,
+  fn,
+  object,
+  isPrimitive,
+  resolve,
+  objectFields,
+  unify,
+  generalize,
+  instantiate,
+  printType
+} from './types'
+
+export { printType }
+export type { Type }
+
+/**
+ * Types of host environment by name - in annotation syntax like "(number) => string",
+ * or its syntax tree
+ */
+export type TypeEnvironment = {
+  [name: string]: string | Expression
+}
+
+export type TypeCheckOptions = {
+  // Root environment with built-ins, if not given environment
+  root?: RuntimeEnvironment
+  // Names of special forms, which are not type checked
+  specialForms?: string[]
+  // Source map from parse, to locate errors
+  sourceMap?: SourceMap
+}
+
+export class TypeCheckError extends Error {
+  constructor(
+    public reason: string,
+    // Nearest list node
+    public expression: Expression,
+    public span?: SourceSpan
+  ) {
+    super(span
+      ? `Type error: ${reason} at line ${span.start.line} column ${span.start.column}`
+      : `Type error: ${reason}`
+    )
+  }
+}
+
+type Scope = {
+  types: { [name: string]: Type }
+  parent?: Scope
+}
+
+const any = primitive('any')
+const nil = primitive('nil')
+
+const primitiveNames = ['number', 'string', 'boolean', 'nil', 'any']
+
+// Type variable in annotation
+const typeVariablePattern = /^[a-z]$/
+
+/**
+ * Type check syntax tree, and return errors
+ */
+export function typecheck(
+  ast: Expression,
+  envTypes?: TypeEnvironment | RuntimeEnvironment,
+  options: TypeCheckOptions = {}
+): TypeCheckError[] {
+  const checker = new TypeChecker(envTypes, options)
+  checker.run(ast)
+  return checker.errors
+}
+
+/**
+ * Infer type of syntax tree, in annotation syntax
+ */
+export function inferType(
+  ast: Expression,
+  envTypes?: TypeEnvironment | RuntimeEnvironment,
+  options: TypeCheckOptions = {}
+): string {
+  return printType(new TypeChecker(envTypes, options).run(ast))
+}
+
+/**
+ * Type of host value - functions can declare their type with a signature property
+ */
+export function typeOfValue(value: any, depth = 0): Type {
+
+  if (value instanceof Function) {
+    return typeof value.signature==='string' ? parseType(value.signature) : any
+  }
+  if (value==null) return nil
+  if (isExactNumber(value)) return primitive('number')
+
+  switch (typeof value) {
+  case 'number':
+  case 'string':
+  case 'boolean':
+    return primitive(typeof value as 'number' | 'string' | 'boolean')
+  }
+
+  if (depth > 2) return any
+
+  if (Array.isArray(value)) {
+    const types = value.map(item => typeOfValue(item, depth + 1))
+    const [first] = types
+    return list(first && first.kind==='primitive'
+      && types.every(type => isPrimitive(type, first.name))
+      ? first
+      : any
+    )
+  }
+
+  if (typeof value==='object') {
+    const fields: { [key: string]: Type } = {}
+    for (const key of Object.keys(value)) fields[ key ] = typeOfValue(value[ key ], depth + 1)
+    return object(fields)
+  }
+
+  return any
+}
+
+/**
+ * Parse type in annotation syntax - its type variables are generic
+ */
+export function parseType(source: string): Type {
+  return typeFromSyntax(parse(source), GENERIC, new Map, reason => {
+    throw new Error(`${reason} in "${source}"`)
+  })
+}
+
+/**
+ * Type from syntax tree of annotation, with variables by name
+ */
+function typeFromSyntax(
+  syntax: Expression,
+  level: number,
+  variables: Map<string, TypeVariable>,
+  report: (reason: string) => void
+): Type {
+
+  const from = (syntax: Expression) => typeFromSyntax(syntax, level, variables, report)
+
+  if (typeof syntax==='string') {
+    if (primitiveNames.includes(syntax)) return primitive(syntax as PrimitiveName)
+    if (syntax==='_') return variable(level)
+    if (typeVariablePattern.test(syntax)) {
+      if (!variables.has(syntax)) variables.set(syntax, variable(level))
+      return variables.get(syntax) as TypeVariable
+    }
+    report(`Unknown type "${syntax}"`)
+    return any
+  }
+
+  if (!Array.isArray(syntax)) {
+    report(`Unknown type "${syntax}"`)
+    return any
+  }
+
+  switch (nodeType(syntax)) {
+
+  case 'list':
+    return list(syntax[1]!=null ? from(syntax[1]) : variable(level))
+
+  case 'obj': {
+    const fields: { [key: string]: Type } = {}
+    for (const pair of syntax.slice(1)) {
+      if (!Array.isArray(pair)) continue
+      const [key, value] = pair
+      const name = Array.isArray(key) && key[0]==='expr' ? key[1] : key
+      if (typeof name==='string') fields[ name ] = pair.length > 1 ? from(value) : any
+    }
+    return object(fields)
+  }
+
+  case 'lambda': {
+    const params: Type[] = []
+    let required = 0
+    let rest: Type | undefined
+    for (const param of Array.isArray(syntax[1]) ? syntax[1] : [syntax[1]]) {
+      // Optional parameter: name = type
+      if (Array.isArray(param) && param[0]==='def') {
+        params.push(from(param[2]))
+        continue
+      }
+      if (Array.isArray(param) && param[0]==='...') {
+        rest = from(param[1])
+        continue
+      }
+      params.push(from(param))
+      if (required===params.length - 1) required = params.length
+    }
+    return fn(params, from(syntax[2]), required, rest)
+  }
+
+  // Function type with parameter names: (x: number) => x
+  case 'annotation': {
+    const [lambda, type] = syntax.slice(1) as Expression[][]
+    if (!Array.isArray(type) || nodeType(type)!=='lambda') return from(type)
+    const { params, required, rest, result } = from(type) as FunctionType
+    return fn(params,
+      type[2]==='_' && Array.isArray(lambda) ? from(lambda[2]) : result,
+      required, rest)
+  }
+  }
+
+  report(`Unknown type "${syntax[0]}"`)
+  return any
+}
+
+class TypeChecker {
+
+  errors: TypeCheckError[] = []
+
+  // Depth of let and def, to generalize types of their values
+  level = 0
+  // Inside function body
+  functionDepth = 0
+  // Type of values returned from function body, and if there's any return
+  returns?: { type: Type, found: boolean }
+
+  // Types of host environment and built-ins, generic
+  external: { [name: string]: Type } = {}
+  specialForms: string[]
+
+  // Number of definitions of global variables
+  definitions: { [name: string]: number } = {}
+  // Types of global variables defined so far
+  globals: { [name: string]: Type } = {}
+  // Types of global variables used before definition, or defined more than once
+  forward: { [name: string]: TypeVariable } = {}
+  // Variable being defined, for recursion
+  defining: { [name: string]: Type } = {}
+  // List nodes being inferred, to locate errors in nodes without source location
+  path: Expression[] = []
+  // Members and calls skipped in optional chain, since a target after `?.` is nil
+  skippedChains = new WeakSet<Expression[]>()
+
+  constructor(
+    envTypes: TypeEnvironment | RuntimeEnvironment = {},
+    public options: TypeCheckOptions
+  ) {
+
+    const env = envTypes instanceof Environment
+      ? globalScope(envTypes as RuntimeEnvironment)
+      : undefined
+    const root = (env && rootScope(env)) || options.root || Environment.root
+
+    this.specialForms = options.specialForms || Object.keys(root.specialForms || {})
+
+    for (const name of Object.keys(root)) {
+      this.external[ name ] = builtinTypes[ name ]
+        ? parseType(builtinTypes[ name ])
+        : typeOfValue(root[ name ])
+    }
+
+    if (env) {
+      for (const name of Object.keys(env)) this.external[ name ] = typeOfValue(env[ name ])
+      return
+    }
+
+    for (const name of Object.keys(envTypes)) {
+      const type = (envTypes as TypeEnvironment)[ name ]
+      this.external[ name ] = typeof type==='string'
+        ? parseType(type)
+        : typeFromSyntax(type, GENERIC, new Map, reason => {
+          throw new Error(`${reason} for "${name}"`)
+        })
+    }
+  }
+
+  run(ast: Expression): Type {
+    this.countDefinitions(ast)
+    return this.infer(ast, undefined)
+  }
+
+  report(reason: string, expression: Expression) {
+    const { sourceMap } = this.options
+    let span: SourceSpan | undefined
+    if (sourceMap) {
+      span = Array.isArray(expression) ? sourceMap.get(expression) : undefined
+      for (let i = this.path.length - 1; !span && i >= 0; i--) {
+        const node = this.path[i]
+        if (Array.isArray(node)) span = sourceMap.get(node)
+      }
+    }
+    this.errors.push(new TypeCheckError(reason, expression, span))
+  }
+
+  /**
+   * Unify types, or report mismatch
+   */
+  check(expected: Type, actual: Type, expression: Expression, describe?: string): boolean {
+    try {
+      unify(expected, actual)
+      return true
+    } catch (e) {
+      if (!(e instanceof TypeMismatch)) throw e
+      const names = new Map
+      const reason = `Expected ${printType(expected, names)}, but got ${printType(actual, names)}`
+      this.report(
+        (describe ? `${describe}: ` : '')
+          + (e.reason ? `${e.reason} - ${reason[0].toLowerCase()}${reason.slice(1)}` : reason),
+        expression
+      )
+      return false
+    }
+  }
+
+  /**
+   * Count definitions of global variables - def and declaration that is not local
+   */
+  countDefinitions(ast: Expression, locals: string[] = []): void {
+    if (!Array.isArray(ast)) return
+    const type = nodeType(ast)
+    if (type==='expr' || type==='comment') return
+    if (type==='annotation') return this.countDefinitions(ast[1], locals)
+    if (type==='lambda') {
+      locals = [...locals, ...parameterNames(ast[1] as SyntaxNode), ...this.declaredNames(ast[2])]
+    } else if (type==='let' && Array.isArray(ast[1])) {
+      locals = [
+        ...locals,
+        ...ast[1].filter((name, i) => i % 2===0 && typeof name==='string') as string[],
+        ...this.declaredNames(ast[2])
+      ]
+    } else if (type==='while' || type==='for' || type==='forIn') {
+      // Locals of loop body - its other arguments are in outer scope
+      const body = ast[ ast.length-1 ]
+      for (const child of ast.slice(1, -1)) this.countDefinitions(child, locals)
+      return this.countDefinitions(body, [
+        ...locals,
+        ...(type==='while' ? [] : [ast[1] as string]),
+        ...this.declaredNames(body)
+      ])
+    } else if (type==='match') {
+      // Locals of each branch - value is in outer scope
+      this.countDefinitions(ast[1], locals)
+      for (const branch of ast.slice(2)) {
+        if (!Array.isArray(branch)) continue
+        const branchLocals = [
+          ...locals,
+          ...matchPatternNames(branch[0] as SyntaxNode),
+          ...branch.slice(1).flatMap(expr => this.declaredNames(expr))
+        ]
+        for (const expr of branch.slice(1)) this.countDefinitions(expr, branchLocals)
+      }
+      return
+    } else if ((type==='def' || type==='declare') && isPatternNode(ast[1])) {
+      for (const name of patternNames(ast[1])) {
+        if (!locals.includes(name)) this.definitions[ name ] = (this.definitions[ name ] || 0) + 1
+      }
+      // Default values and value, without names in pattern
+      for (const child of [...patternDefaults(ast[1]), ast[2]]) {
+        this.countDefinitions(child as Expression, locals)
+      }
+      return
+    } else if ((type==='def' || type==='declare') && typeof ast[1]==='string' && !locals.includes(ast[1])) {
+      this.definitions[ ast[1] ] = (this.definitions[ ast[1] ] || 0) + 1
+    }
+    for (const child of ast) this.countDefinitions(child, locals)
+  }
+
+  declaredNames(body: Expression): string[] {
+    return declaredNames(body as SyntaxNode)
+  }
+
+  /**
+   * Variables declared in body of scope, before inferring it - so functions in the
+   * same scope can call each other
+   */
+  declare(scope: Scope, body: Expression) {
+    for (const name of this.declaredNames(body)) {
+      if (!scope.types.hasOwnProperty(name)) scope.types[ name ] = variable(this.level)
+    }
+  }
+
+  /**
+   * Local scope that has variable
+   */
+  scopeOf(name: string, scope?: Scope): Scope | undefined {
+    for (let current = scope; current; current = current.parent) {
+      if (current.types.hasOwnProperty(name)) return current
+    }
+    return undefined
+  }
+
+  lookup(name: string, scope?: Scope): Type {
+
+    for (let current = scope; current; current = current.parent) {
+      if (current.types.hasOwnProperty(name)) return instantiate(current.types[ name ], this.level)
+    }
+
+    if (this.defining.hasOwnProperty(name)) return this.defining[ name ]
+    if (this.globals.hasOwnProperty(name)) return instantiate(this.globals[ name ], this.level)
+
+    const isExternal = this.external.hasOwnProperty(name)
+    if (this.definitions[ name ] && !isExternal) return this.forwardType(name)
+    if (isExternal) return instantiate(this.external[ name ], this.level)
+
+    // Undefined symbol is reported by analyzer
+    return any
+  }
+
+  forwardType(name: string): TypeVariable {
+    return this.forward[ name ] || (this.forward[ name ] = variable(0))
+  }
+
+  isBuiltin(name: string, scope?: Scope) {
+    for (let current = scope; current; current = current.parent) {
+      if (current.types.hasOwnProperty(name)) return false
+    }
+    return !this.definitions[ name ] && builtinTypes.hasOwnProperty(name)
+  }
+
+  infer(ast: Expression, scope: Scope | undefined): Type {
+    if (!Array.isArray(ast)) return this.inferNode(ast, scope)
+    this.path.push(ast)
+    const type = this.inferNode(ast, scope)
+    this.path.pop()
+    return type
+  }
+
+  inferNode(ast: Expression, scope: Scope | undefined): Type {
+
+    if (typeof ast==='number') return primitive('number')
+    if (typeof ast==='boolean') return primitive('boolean')
+    if (ast==null) return nil
+    if (typeof ast==='string') return this.lookup(ast, scope)
+    if (!Array.isArray(ast)) return any
+    if (!ast.length) return nil
+
+    const args = ast.slice(1)
+
+    switch (nodeType(ast)) {
+
+    case 'expr':
+      return typeof args[0]==='string' ? primitive('string') : any
+
+    case 'comment':
+      return nil
+
+    case 'macro':
+    case 'eva':
+      this.infer(args[0], scope)
+      return any
+
+    case 'annotation':
+      return this.inferAnnotation(ast, scope)
+
+    case 'def':
+    case 'declare':
+      return this.inferDef(ast, scope)
+
+    case 'get':
+    case 'optionalGet':
+      return this.inferGet(ast, scope)
+
+    case 'optionalCall':
+      return this.inferCall(args, scope, ast)
+
+    case 'lambda':
+      return this.inferLambda(ast, scope)
+
+    case 'if': {
+      const [condition, trueBranch, falseBranch] = args
+      this.infer(condition, scope)
+      const trueType = this.infer(trueBranch, scope)
+      if (args.length < 3) return trueType
+      const falseType = this.infer(falseBranch, scope)
+      return this.check(trueType, falseType, ast, 'Branches have different types')
+        ? trueType : any
+    }
+
+    case 'logical': {
+      const [left, right] = args
+      const leftType = this.infer(left, scope)
+      const rightType = this.infer(right, scope)
+      // Nil on the left of ?? is replaced
+      if (ast[0]==='??' && isPrimitive(resolve(leftType), 'nil')) return rightType
+      return this.check(leftType, rightType, ast, 'Operands have different types')
+        ? leftType : any
+    }
+
+    case 'let':
+      return this.inferLet(ast, scope)
+
+    case 'match':
+      return this.inferMatch(ast, scope)
+
+    case 'while':
+      this.infer(args[0], scope)
+      return this.inferLoop(ast, scope)
+
+    case 'for':
+      args.slice(1, -1).forEach(arg =>
+        this.check(primitive('number'), this.infer(arg, scope), ast, 'Loop range')
+      )
+      return this.inferLoop(ast, scope, primitive('number'))
+
+    case 'forIn': {
+      const collection = resolve(this.infer(args[1], scope))
+      const item = collection.kind==='list' ? collection.item
+        : isPrimitive(collection, 'string') ? collection
+          : collection.kind==='object' ? list(any)
+            : any
+      return this.inferLoop(ast, scope, item)
+    }
+
+    // Exit does not have a value where it is
+    case 'exit': {
+      const { returns } = this
+      if (ast[0]==='return' && returns) returns.found = true
+      if (args.length) {
+        const type = this.infer(args[0], scope)
+        if (returns) this.check(returns.type, type, ast, 'Return value')
+      }
+      return variable(this.level)
+    }
+
+    case 'do': {
+      let type: Type = nil
+      for (const arg of args) type = this.infer(arg, scope)
+      return type
+    }
+
+    case 'list': {
+      const item = variable(this.level)
+      for (const arg of args) {
+        if (Array.isArray(arg) && arg[0]==='...') {
+          this.check(list(item), this.infer(arg[1], scope), ast)
+        } else {
+          this.check(item, this.infer(arg, scope), ast, 'List items have different types')
+        }
+      }
+      return list(item)
+    }
+
+    case 'obj':
+      return this.inferObject(ast, scope)
+
+    case 'try': {
+      const [body, handler] = args
+      const type = this.infer(body, scope)
+      if (Array.isArray(handler)) {
+        const handlerType = resolve(this.infer(handler, scope))
+        // Error is any value
+        if (handlerType.kind==='function') this.check(type, handlerType.result, ast)
+      }
+      return type
+    }
+
+    case 'spread':
+      this.infer(args[0], scope)
+      return any
+    }
+
+    return this.inferCall(ast, scope)
+  }
+
+  inferAnnotation(ast: Expression[], scope: Scope | undefined): Type {
+
+    const [value, syntax] = ast.slice(1)
+    const variables = new Map<string, TypeVariable>()
+    const report = (reason: string) => this.report(reason, ast)
+
+    // Function with types of parameters
+    if (Array.isArray(value) && nodeType(value)==='lambda'
+      && Array.isArray(syntax) && nodeType(syntax)==='lambda'
+    ) {
+      const params = Array.isArray(syntax[1]) ? syntax[1] : []
+      const types = params.map(param =>
+        param==='_' ? undefined
+          : Array.isArray(param) && param[0]==='...'
+            ? typeFromSyntax(param[1], this.level, variables, report)
+            : typeFromSyntax(param, this.level, variables, report)
+      )
+      const result = syntax[2]==='_' ? undefined
+        : typeFromSyntax(syntax[2], this.level, variables, report)
+      return this.inferLambda(value, scope, types, result)
+    }
+
+    const type = typeFromSyntax(syntax, this.level, variables, report)
+    this.check(type, this.infer(value, scope), ast)
+    return type
+  }
+
+  inferDef(ast: Expression[], scope: Scope | undefined): Type {
+
+    const [target, value] = ast.slice(1)
+
+    if (isPatternNode(target)) return this.inferPattern(ast, scope)
+
+    if (typeof target!=='string') {
+      // Set member
+      this.infer(target, scope)
+      return this.infer(value, scope)
+    }
+
+    // Local variable, or declared in local scope
+    const local = ast[0]==='def' ? this.scopeOf(target, scope) : scope
+    if (local) {
+      const type = this.infer(value, scope)
+      // Declared without value
+      if (ast.length < 3) return type
+      if (!local.types.hasOwnProperty(target)) local.types[ target ] = variable(this.level)
+      this.check(instantiate(local.types[ target ], this.level), type, ast, `Variable "${target}"`)
+      return type
+    }
+
+    // Global variable defined once, at top level, can be generic
+    if (this.definitions[ target ]!==1 || this.functionDepth) {
+      const type = this.infer(value, scope)
+      this.check(this.forwardType(target), type, ast, `Variable "${target}"`)
+      return type
+    }
+
+    this.level++
+    const self = this.defining[ target ] = variable(this.level)
+    const type = this.infer(value, scope)
+    this.check(self, type, ast)
+    delete this.defining[ target ]
+    this.level--
+
+    generalize(type, this.level)
+    this.globals[ target ] = type
+
+    if (this.forward[ target ]) {
+      this.check(this.forward[ target ], instantiate(type, this.level), ast, `Variable "${target}"`)
+    }
+
+    return instantiate(type, this.level)
+  }
+
+  /**
+   * Destructuring assignment or declaration - names in pattern have type any
+   */
+  inferPattern(ast: Expression[], scope: Scope | undefined): Type {
+    const [target, value] = ast.slice(1)
+    const type = this.infer(value, scope)
+    this.bindPattern(target, ast[0]==='def' ? undefined : scope, scope)
+    return type
+  }
+
+  /**
+   * Bind names in pattern to type any, in given scope or where they're defined
+   */
+  bindPattern(pattern: Expression, local: Scope | undefined, scope: Scope | undefined) {
+    for (const value of patternDefaults(pattern as SyntaxNode)) this.infer(value as Expression, scope)
+    for (const name of patternNames(pattern as SyntaxNode)) {
+      const target = local || this.scopeOf(name, scope)
+      if (target) target.types[ name ] = any
+      else this.globals[ name ] = any
+    }
+  }
+
+  inferLet(ast: Expression[], scope: Scope | undefined): Type {
+
+    const bindings = ast[1]
+    if (!Array.isArray(bindings)) return any
+
+    const letScope: Scope = { types: {}, parent: scope }
+
+    for (let i = 0; i < bindings.length; i += 2) {
+      const name = bindings[i]
+      if (typeof name!=='string') continue
+      this.level++
+      const self = letScope.types[ name ] = variable(this.level)
+      const type = this.infer(bindings[i + 1], letScope)
+      this.check(self, type, ast)
+      this.level--
+      letScope.types[ name ] = generalize(type, this.level)
+    }
+
+    this.declare(letScope, ast[2])
+    return this.infer(ast[2], letScope)
+  }
+
+  /**
+   * Each branch of match has its own scope, with names in pattern of type any -
+   * results of branches have the same type
+   */
+  inferMatch(ast: Expression[], scope: Scope | undefined): Type {
+
+    this.infer(ast[1], scope)
+
+    let type: Type | undefined
+    let isSame = true
+
+    for (const branch of ast.slice(2)) {
+      if (!Array.isArray(branch)) continue
+
+      const branchScope: Scope = { types: {}, parent: scope }
+      for (const name of matchPatternNames(branch[0] as SyntaxNode)) branchScope.types[ name ] = any
+      for (const expr of branch.slice(1)) this.declare(branchScope, expr)
+
+      if (branch.length > 2) this.infer(branch[1], branchScope)
+      const result = this.infer(branch[ branch.length-1 ], branchScope)
+
+      if (!type) type = result
+      else if (isSame) isSame = this.check(type, result, ast, 'Branches have different types')
+    }
+
+    return type && isSame ? type : any
+  }
+
+  /**
+   * Loop body has its own scope, with type of loop variable if any - loop is nil
+   */
+  inferLoop(ast: Expression[], scope: Scope | undefined, item?: Type): Type {
+
+    const body = ast[ ast.length-1 ]
+    const loopScope: Scope = { types: {}, parent: scope }
+
+    if (item && typeof ast[1]==='string') loopScope.types[ ast[1] ] = item
+
+    this.declare(loopScope, body)
+    this.infer(body, loopScope)
+    return nil
+  }
+
+  inferLambda(
+    ast: Expression[],
+    scope: Scope | undefined,
+    // Types of parameters and result from annotation
+    types: (Type | undefined)[] = [],
+    annotatedResult?: Type
+  ): Type {
+
+    const params = Array.isArray(ast[1]) ? ast[1] : [ast[1]]
+    const functionScope: Scope = { types: {}, parent: scope }
+    const paramTypes: Type[] = []
+    let required = 0
+    let rest: Type | undefined
+    let hasDefault = false
+
+    params.forEach((param, i) => {
+
+      const type = types[i] || variable(this.level)
+
+      if (param==='&') return
+
+      // Rest parameter
+      if (params[i - 1]==='&' || (Array.isArray(param) && param[0]==='...')) {
+        rest = types[i] || list(variable(this.level))
+        const name = Array.isArray(param) ? param[1] : param
+        if (typeof name==='string') functionScope.types[ name ] = rest
+        if (isPatternNode(name)) this.bindPattern(name, functionScope, functionScope)
+        return
+      }
+
+      // Default value
+      if (Array.isArray(param) && param[0]==='def') {
+        hasDefault = true
+        if (isPatternNode(param[1])) {
+          this.infer(param[2], functionScope)
+          this.bindPattern(param[1], functionScope, functionScope)
+          paramTypes.push(type)
+          return
+        }
+        this.check(type, this.infer(param[2], functionScope), ast, `Default value of "${param[1]}"`)
+        if (typeof param[1]==='string') functionScope.types[ param[1] ] = type
+        paramTypes.push(type)
+        return
+      }
+
+      if (isPatternNode(param)) this.bindPattern(param, functionScope, functionScope)
+      if (typeof param==='string') functionScope.types[ param ] = type
+      paramTypes.push(type)
+      if (!hasDefault) required = paramTypes.length
+    })
+
+    this.declare(functionScope, ast[2])
+
+    const outerReturns = this.returns
+    const returns = this.returns = { type: annotatedResult || variable(this.level), found: false }
+
+    this.functionDepth++
+    const result = this.infer(ast[2], functionScope)
+    this.functionDepth--
+    this.returns = outerReturns
+
+    // Nil after return in loop is allowed, like if without else
+    if (!returns.found || !isPrimitive(resolve(result), 'nil')) {
+      this.check(returns.type, result, ast, 'Return value')
+    }
+
+    return fn(paramTypes, returns.type, required, rest)
+  }
+
+  inferObject(ast: Expression[], scope: Scope | undefined): Type {
+
+    const fields: { [key: string]: Type } = {}
+    let isKnown = true
+
+    for (const pair of ast.slice(1)) {
+
+      if (!Array.isArray(pair)) continue
+      const [key, value] = pair
+
+      // Spread
+      if (pair.length===1 && Array.isArray(key) && key[0]==='...') {
+        const type = resolve(this.infer(key[1], scope))
+        if (type.kind==='object') Object.assign(fields, objectFields(type).fields)
+        else isKnown = false
+        continue
+      }
+
+      if (typeof key!=='string') {
+        // Computed key
+        this.infer(key, scope)
+        if (pair.length > 1) this.infer(value, scope)
+        isKnown = false
+        continue
+      }
+
+      fields[ key ] = this.infer(pair.length > 1 ? value : key, scope)
+    }
+
+    return isKnown ? object(fields) : any
+  }
+
+  inferGet(ast: Expression[], scope: Scope | undefined): Type {
+
+    const [target, ...members] = ast.slice(1)
+    let type = this.infer(target, scope)
+
+    // Optional chain of nil is nil
+    if (this.skipsChain(ast, target, type)) return nil
+
+    for (const member of members) {
+
+      // Set member
+      if (Array.isArray(member) && member[0]==='def') {
+        return this.infer(member[2], scope)
+      }
+
+      const key = Array.isArray(member) && member[0]==='expr' ? member[1] : member
+
+      if (typeof key==='string') type = this.memberType(type, key, ast)
+      else if (typeof key==='number') type = this.indexType(type, key, ast)
+      else {
+        this.infer(member, scope)
+        type = any
+      }
+    }
+
+    return type
+  }
+
+  /**
+   * Check if member or call is skipped, since its target is nil after `?.` or
+   * continues a skipped optional chain
+   */
+  skipsChain(ast: Expression[], target: Expression, type: Type): boolean {
+    const skips = (isOptional(ast) && isPrimitive(resolve(type), 'nil'))
+      || (Array.isArray(target) && this.skippedChains.has(target))
+    if (skips) this.skippedChains.add(ast)
+    return skips
+  }
+
+  memberType(type: Type, key: string, ast: Expression): Type {
+
+    const target = resolve(type)
+
+    switch (target.kind) {
+    case 'variable':
+    case 'object': {
+      if (target.kind==='object') {
+        const { fields, row } = objectFields(target)
+        if (fields[ key ]) return fields[ key ]
+        if (!row) {
+          this.report(`Unknown member "${key}" of ${printType(target)}`, ast)
+          return any
+        }
+      }
+      const member = variable(this.level)
+      this.check(target, object({ [key]: member }, variable(this.level)), ast)
+      return member
+    }
+    case 'list':
+    case 'primitive':
+      if (target.kind==='primitive' && target.name==='any') return any
+      if (target.kind==='primitive' && target.name!=='string') {
+        this.report(`Cannot access member "${key}" of ${target.name}`, ast)
+        return any
+      }
+      return key==='length' ? primitive('number') : any
+    }
+
+    return any
+  }
+
+  indexType(type: Type, index: number, ast: Expression): Type {
+    const target = resolve(type)
+    if (target.kind==='list') return target.item
+    if (target.kind==='object') return this.memberType(target, String(index), ast)
+    if (target.kind==='primitive' && target.name==='string') return target
+    if (target.kind==='primitive' && target.name!=='any') {
+      this.report(`Cannot access member ${index} of ${target.name}`, ast)
+    }
+    return any
+  }
+
+  inferCall(ast: Expression[], scope: Scope | undefined, node: Expression[] = ast): Type {
+
+    const [head, ...args] = ast
+
+    if (typeof head==='string' && this.specialForms.includes(head)) {
+      for (const arg of args) this.infer(arg, scope)
+      return any
+    }
+
+    const headType = this.infer(head, scope)
+    const target = resolve(headType)
+    const hasSpread = args.some(arg => Array.isArray(arg) && arg[0]==='...')
+    const argTypes = args.map((arg, i) => {
+      if (Array.isArray(arg) && arg[0]==='...') {
+        this.infer(arg[1], scope)
+        return any
+      }
+      // Function argument gets parameter types from callback type, to report errors inside it
+      const callback = target.kind==='function' && i < target.params.length
+        ? resolve(target.params[i]) : undefined
+      if (callback && callback.kind==='function' && nodeType(arg)==='lambda') {
+        this.path.push(arg)
+        const type = this.inferLambda(arg as Expression[], scope, callback.params)
+        this.path.pop()
+        return type
+      }
+      return this.infer(arg, scope)
+    })
+
+    const name = typeof head==='string' ? `"${head}"` : 'function'
+
+    if (target.kind==='variable') {
+      const result = variable(this.level)
+      if (!hasSpread) this.check(target, fn(argTypes, result), ast)
+      return result
+    }
+
+    if (target.kind!=='function') {
+      // Optional chain of nil is nil
+      if (this.skipsChain(node, head, headType)) return nil
+      if (!isPrimitive(target, 'any')) this.report(`Cannot call ${printType(target)}`, ast)
+      return any
+    }
+
+    if (hasSpread) return target.result
+
+    const { params, required, rest } = target
+    if (args.length < required || (args.length > params.length && !rest)) {
+      const expected = required===params.length ? `${required}`
+        : rest ? `at least ${required}`
+          : `${required} to ${params.length}`
+      this.report(`Function ${name} expects ${expected} argument${expected==='1' ? '' : 's'}, but got ${args.length}`, ast)
+    }
+
+    const restType = rest && resolve(rest)
+    const restItem = restType && restType.kind==='list' ? restType.item : any
+
+    argTypes.forEach((argType, i) => {
+      const param = i < params.length ? params[i] : rest ? restItem : undefined
+      if (param) this.check(param, argType, ast, `Argument ${i + 1} of ${name}`)
+    })
+
+    // Operator with type variable for some types only
+    if (typeof head==='string' && operandTypes[ head ] && this.isBuiltin(head, scope)) {
+      const operand = resolve(argTypes[0] || any)
+      if (operand.kind!=='variable' && !isPrimitive(operand, 'any')
+        && !operandTypes[ head ].includes(printType(operand))
+      ) {
+        this.report(`Operator ${head} expects ${operandTypes[ head ].join(' or ')}, but got ${printType(operand)}`, ast)
+      }
+    }
+
+    return target.result
+  }
+}
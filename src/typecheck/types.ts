@@ -0,0 +1,293 @@
+/**
+ * Types for inference - type variables are bound by unification, and generalized
+ * by level, so each use of a polymorphic function gets its own instance
+ */
+
+export type PrimitiveName = 'number' | 'string' | 'boolean' | 'nil' | 'any'
+
+export type TypeVariable = {
+  kind: 'variable'
+  id: number
+  // Scope depth where it was created, or GENERIC if generalized
+  level: number
+  // Bound type, after unification
+  instance?: Type
+}
+
+export type PrimitiveType = {
+  kind: 'primitive'
+  name: PrimitiveName
+}
+
+export type ListType = {
+  kind: 'list'
+  item: Type
+}
+
+export type FunctionType = {
+  kind: 'function'
+  params: Type[]
+  // Number of parameters without default value
+  required: number
+  // List type of rest parameter
+  rest?: Type
+  result: Type
+}
+
+export type ObjectType = {
+  kind: 'object'
+  fields: { [key: string]: Type }
+  // Variable for more fields, or closed object without it
+  row?: TypeVariable
+}
+
+export type Type = TypeVariable | PrimitiveType | ListType | FunctionType | ObjectType
+
+/**
+ * Unification failed with given types
+ */
+export class TypeMismatch {
+  constructor(public expected: Type, public actual: Type, public reason?: string) {}
+}
+
+export const GENERIC = Infinity
+
+let lastId = 0
+
+export const primitive = (name: PrimitiveName): PrimitiveType => ({ kind: 'primitive', name })
+
+export const variable = (level: number): TypeVariable => ({ kind: 'variable', id: ++lastId, level })
+
+export const list = (item: Type): ListType => ({ kind: 'list', item })
+
+export const fn = (params: Type[], result: Type, required = params.length, rest?: Type): FunctionType =>
+  rest ? { kind: 'function', params, required, rest, result }
+    : { kind: 'function', params, required, result }
+
+export const object = (fields: { [key: string]: Type }, row?: TypeVariable): ObjectType =>
+  row ? { kind: 'object', fields, row } : { kind: 'object', fields }
+
+export const isPrimitive = (type: Type, name?: PrimitiveName): type is PrimitiveType =>
+  type.kind==='primitive' && (name==null || type.name===name)
+
+/**
+ * Type "any" or "nil", which is compatible with every type
+ */
+const isOpen = (type: Type): boolean =>
+  type.kind==='primitive' && (type.name==='any' || type.name==='nil')
+
+/**
+ * Follow bound type variables
+ */
+export function resolve(type: Type): Type {
+  while (type.kind==='variable' && type.instance) type = type.instance
+  return type
+}
+
+/**
+ * Fields of object, including those bound to its row variable
+ */
+export function objectFields(type: ObjectType): ObjectType {
+  const fields = { ...type.fields }
+  let row = type.row
+  let bound
+  while (row && (bound = resolve(row)).kind==='object') {
+    Object.assign(fields, bound.fields)
+    row = bound.row
+  }
+  return object(fields, row && resolve(row) as TypeVariable)
+}
+
+/**
+ * Make two types equal, by binding their type variables - "any" and "nil"
+ * are compatible with every type
+ */
+export function unify(expected: Type, actual: Type): void {
+
+  const a = resolve(expected)
+  const b = resolve(actual)
+
+  if (a===b) return
+  if (a.kind==='variable') return bind(a, b)
+  if (b.kind==='variable') return bind(b, a)
+
+  if (isOpen(a) || isOpen(b)) return
+
+  if (a.kind==='primitive' && b.kind==='primitive') {
+    if (a.name!==b.name) throw new TypeMismatch(a, b)
+    return
+  }
+
+  if (a.kind==='list' && b.kind==='list') return unify(a.item, b.item)
+
+  if (a.kind==='function' && b.kind==='function') {
+    // Function can take fewer arguments than given
+    const count = Math.min(a.params.length, b.params.length)
+    for (let i = 0; i < count; i++) unify(a.params[i], b.params[i])
+    if (a.rest && b.rest) unify(a.rest, b.rest)
+    return unify(a.result, b.result)
+  }
+
+  if (a.kind==='object' && b.kind==='object') return unifyObjects(a, b)
+
+  throw new TypeMismatch(a, b)
+}
+
+function unifyObjects(expected: ObjectType, actual: ObjectType) {
+
+  const a = objectFields(expected)
+  const b = objectFields(actual)
+
+  for (const key of Object.keys(a.fields)) {
+    if (b.fields[ key ]) unify(a.fields[ key ], b.fields[ key ])
+  }
+
+  const onlyA = Object.keys(a.fields).filter(key => !b.fields[ key ])
+  const onlyB = Object.keys(b.fields).filter(key => !a.fields[ key ])
+  const pick = (type: ObjectType, keys: string[]) =>
+    keys.reduce((fields, key) => ({ ...fields, [key]: type.fields[ key ] }), {})
+
+  if (onlyB.length && !a.row) throw new TypeMismatch(a, b, `Unknown member "${onlyB[0]}"`)
+  if (onlyA.length && !b.row) throw new TypeMismatch(a, b, `Missing member "${onlyA[0]}"`)
+
+  if (a.row && b.row) {
+    if (a.row===b.row) return
+    const row = variable(Math.min(a.row.level, b.row.level))
+    bind(a.row, object(pick(b, onlyB), row))
+    bind(b.row, object(pick(a, onlyA), row))
+    return
+  }
+  if (a.row) bind(a.row, object(pick(b, onlyB)))
+  if (b.row) bind(b.row, object(pick(a, onlyA)))
+}
+
+function bind(v: TypeVariable, type: Type) {
+
+  // Variable stays open for any type
+  if (isOpen(type)) return
+
+  if (occurs(v, type)) throw new TypeMismatch(v, type, 'Recursive type')
+
+  v.instance = type
+}
+
+/**
+ * Check if variable occurs in type, and lower levels of variables in it
+ */
+function occurs(v: TypeVariable, type: Type): boolean {
+  type = resolve(type)
+  switch (type.kind) {
+  case 'variable':
+    if (type===v) return true
+    type.level = Math.min(type.level, v.level)
+    return false
+  case 'list': return occurs(v, type.item)
+  case 'function':
+    return type.params.some(param => occurs(v, param))
+      || (type.rest!=null && occurs(v, type.rest))
+      || occurs(v, type.result)
+  case 'object': {
+    const { fields, row } = type
+    return Object.keys(fields).some(key => occurs(v, fields[ key ]))
+      || (row!=null && occurs(v, row))
+  }
+  }
+  return false
+}
+
+/**
+ * Generalize type variables created deeper than given level
+ */
+export function generalize(type: Type, level: number): Type {
+  const visit = (type: Type): void => {
+    type = resolve(type)
+    switch (type.kind) {
+    case 'variable':
+      if (type.level > level) type.level = GENERIC
+      return
+    case 'list': return visit(type.item)
+    case 'function':
+      type.params.forEach(visit)
+      if (type.rest) visit(type.rest)
+      return visit(type.result)
+    case 'object': {
+      const { fields, row } = type
+      Object.keys(fields).forEach(key => visit(fields[ key ]))
+      if (row) visit(row)
+    }
+    }
+  }
+  visit(type)
+  return type
+}
+
+/**
+ * Copy type with new variables for generalized ones
+ */
+export function instantiate(type: Type, level: number): Type {
+
+  const variables = new Map<TypeVariable, TypeVariable>()
+
+  const copy = (type: Type): Type => {
+    type = resolve(type)
+    switch (type.kind) {
+    case 'variable':
+      if (type.level!==GENERIC) return type
+      if (!variables.has(type)) variables.set(type, variable(level))
+      return variables.get(type) as TypeVariable
+    case 'list': return list(copy(type.item))
+    case 'function':
+      return fn(type.params.map(copy), copy(type.result), type.required,
+        type.rest && copy(type.rest))
+    case 'object': {
+      const { fields, row } = objectFields(type)
+      const copied: { [key: string]: Type } = {}
+      for (const key of Object.keys(fields)) copied[ key ] = copy(fields[ key ])
+      return object(copied, row && copy(row) as TypeVariable)
+    }
+    }
+    return type
+  }
+
+  return copy(type)
+}
+
+const identifierPattern = /^[a-zA-Z_][a-zA-Z0-9_]*$/
+
+/**
+ * Print type in annotation syntax, with variables named a, b, c..
+ */
+export function printType(type: Type, names = new Map<TypeVariable, string>()): string {
+
+  const nameOf = (v: TypeVariable) => {
+    if (!names.has(v)) names.set(v, String.fromCharCode(97 + names.size % 26) + (
+      names.size >= 26 ? Math.floor(names.size / 26) : ''
+    ))
+    return names.get(v) as string
+  }
+
+  const print = (type: Type, isParam = false): string => {
+    type = resolve(type)
+    switch (type.kind) {
+    case 'variable': return nameOf(type)
+    case 'primitive': return type.name
+    case 'list': return `[${print(type.item)}]`
+    case 'function': {
+      const params = type.params.map(param => print(param, true))
+      if (type.rest) params.push(`...${print(type.rest)}`)
+      const text = `(${params.join(', ')}) => ${print(type.result)}`
+      return isParam ? `(${text})` : text
+    }
+    case 'object': {
+      const { fields, row } = objectFields(type)
+      const items = Object.keys(fields).map(key =>
+        `${identifierPattern.test(key) ? key : JSON.stringify(key)}: ${print(fields[ key ])}`
+      )
+      if (row) items.push('...')
+      return items.length ? `{ ${items.join(', ')} }` : '{}'
+    }
+    }
+  }
+
+  return print(type)
+}
@@ -0,0 +1,543 @@
+/**
+ * Compile the numeric subset of the language to WebAssembly
+ *
+ * Supported are numbers, arithmetic, comparisons, `if`, `let`, and lambdas
+ * defined at top level that do not capture local variables. All numbers are
+ * 64-bit floats, and comparisons result in booleans as 32-bit integers. Variables
+ * and functions are numbers, so results are the same as evaluate.
+ *
+ * Symbols that are not defined in the program become inputs, imported as
+ * globals from the host.
+ */
+
+import type { Expression } from '../evaluate'
+import type { SourceMap, SourceSpan } from '../parse/sourceMap'
+import {
+  ValueType,
+  WasmInstruction,
+  WasmFunction,
+  WasmModule,
+  encodeModule,
+  printModule,
+} from './module'
+
+export type WasmCompileOptions = {
+  // Source map from parse, to locate unsupported expressions
+  sourceMap?: SourceMap
+  // Include module in WebAssembly text format
+  wat?: boolean
+}
+
+export type WasmProgram = {
+  binary: Uint8Array
+  wat?: string
+  // Symbols imported from host
+  inputs: string[]
+  // Exported functions, besides main
+  functions: string[]
+  // Result type of main: number, boolean, or function defined by last expression
+  result: 'number' | 'boolean' | 'function'
+}
+
+export type UnsupportedExpression = {
+  message: string
+  expression: Expression
+  location?: SourceSpan
+}
+
+/**
+ * Error with all expressions outside the supported subset
+ */
+export class WasmCompileError extends Error {
+  constructor(public unsupported: UnsupportedExpression[]) {
+    super(`Unsupported in WebAssembly: ${
+      unsupported.map(item => item.message).join(', ')
+    }`)
+  }
+}
+
+// Module name for imports from host
+export const importModule = 'env'
+
+// Scope of local variables, mapped to local index
+type Scope = {
+  names: { [name: string]: number }
+  parent?: Scope
+}
+
+type FunctionContext = {
+  fn: WasmFunction
+  // Local for truthiness check of number
+  temp?: number
+}
+
+const arithmetic: { [op: string]: [string, number] } = {
+  // Instruction and default value of missing argument
+  '+': ['f64.add', 0],
+  '-': ['f64.sub', 0],
+  '*': ['f64.mul', 1],
+  '/': ['f64.div', 1],
+  '^': ['pow', 0],
+}
+
+const comparison: { [op: string]: string } = {
+  '==': 'eq',
+  '!=': 'ne',
+  '<': 'lt',
+  '<=': 'le',
+  '>': 'gt',
+  '>=': 'ge',
+}
+
+// Expression without type annotation
+const withoutAnnotation = (ast: Expression): Expression =>
+  Array.isArray(ast) && ast[0]===':' ? withoutAnnotation(ast[1]) : ast
+
+const isLambda = (ast: Expression) => {
+  ast = withoutAnnotation(ast)
+  return Array.isArray(ast) && (ast[0]==='λ' || ast[0]==='lambda')
+}
+
+export function compileWasm(ast: Expression, options: WasmCompileOptions = {}): WasmProgram {
+  return new WasmCompiler(options).compileProgram(ast)
+}
+
+class WasmCompiler {
+
+  unsupported: UnsupportedExpression[] = []
+
+  module: WasmModule = {
+    imports: [],
+    globals: [],
+    functions: []
+  }
+
+  // Lambdas defined at top level, by name
+  lambdas: { [name: string]: Expression[] } = {}
+  // Variables defined at top level
+  variables: string[] = []
+  inputs: string[] = []
+
+  constructor(private options: WasmCompileOptions) {}
+
+  report(message: string, expression: Expression) {
+    const location = this.options.sourceMap && Array.isArray(expression)
+      ? this.options.sourceMap.get(expression)
+      : undefined
+    this.unsupported.push(location
+      ? { message, expression, location }
+      : { message, expression }
+    )
+  }
+
+  compileProgram(ast: Expression): WasmProgram {
+
+    const statements = Array.isArray(ast) && ast[0]==='do'
+      ? ast.slice(1)
+      : [ast]
+
+    // Declare functions and variables first, so they can be used before definition
+    for (const statement of statements) {
+      if (!Array.isArray(statement) || statement[0]!=='def') continue
+      const [, name, value] = statement
+      if (typeof name!=='string') continue
+      if (isLambda(value)) {
+        if (name==='main') this.report('Function named "main"', statement)
+        if (this.lambdas[ name ] || this.variables.includes(name)) {
+          this.report(`Redefined function "${name}"`, statement)
+        }
+        this.lambdas[ name ] = withoutAnnotation(value) as Expression[]
+      } else if (this.lambdas[ name ]) {
+        this.report(`Redefined function "${name}"`, statement)
+      } else if (!this.variables.includes(name)) {
+        this.variables.push(name)
+        this.module.globals.push({ name, type: 'f64' })
+      }
+    }
+
+    const functionNames = Object.keys(this.lambdas)
+    for (const name of functionNames) {
+      this.compileFunction(name, this.lambdas[ name ])
+    }
+
+    const main: WasmFunction = {
+      name: 'main',
+      params: [],
+      locals: [],
+      body: [],
+      exported: true
+    }
+    this.module.functions.unshift(main)
+
+    const context: FunctionContext = { fn: main }
+    const last = statements[ statements.length - 1 ]
+    let result: WasmProgram['result'] = 'number'
+
+    statements.forEach((statement, i) => {
+
+      const isLast = i===statements.length - 1
+
+      // Function definition
+      if (Array.isArray(statement) && statement[0]==='def' && isLambda(statement[2])) {
+        if (isLast) result = 'function'
+        return
+      }
+
+      // Variable definition
+      if (Array.isArray(statement) && statement[0]==='def' && typeof statement[1]==='string') {
+        const type = this.compileExpression(statement[2], context, main.body, undefined)
+        if (type==='i32') this.report(`Boolean value of variable "${statement[1]}"`, statement)
+        main.body.push(['global.set', statement[1]])
+        if (isLast) main.body.push(['global.get', statement[1]])
+        return
+      }
+
+      const type = this.compileExpression(statement, context, main.body, undefined)
+      if (!isLast) {
+        main.body.push(['drop'])
+        return
+      }
+      main.result = type
+      if (type==='i32') result = 'boolean'
+    })
+
+    if (result==='number' && !main.result) {
+      main.result = 'f64'
+      if (!Array.isArray(last) || last[0]!=='def') main.body.push(['f64.const', 0])
+    }
+
+    if (this.unsupported.length) throw new WasmCompileError(this.unsupported)
+
+    // Inputs and imported functions
+    for (const name of this.inputs) {
+      this.module.imports.push({ module: importModule, name, kind: 'global', type: 'f64' })
+    }
+
+    const program: WasmProgram = {
+      binary: encodeModule(this.module),
+      inputs: this.inputs,
+      functions: functionNames,
+      result
+    }
+    if (this.options.wat) program.wat = printModule(this.module)
+    return program
+  }
+
+  compileFunction(name: string, ast: Expression[]) {
+
+    const args = Array.isArray(ast[1]) ? ast[1] : []
+    const scope: Scope = { names: {} }
+
+    args.forEach((arg, i) => {
+      if (typeof arg!=='string' || arg==='&') {
+        this.report(`Default or rest argument in "${name}"`, ast)
+        return
+      }
+      scope.names[ arg ] = i
+    })
+
+    const fn: WasmFunction = {
+      name,
+      params: args.map(() => 'f64'),
+      result: 'f64',
+      locals: [],
+      body: [],
+      exported: true
+    }
+    this.module.functions.push(fn)
+
+    const type = this.compileExpression(ast[2], { fn }, fn.body, scope)
+    if (type==='i32') this.report(`Boolean result of function "${name}"`, ast)
+  }
+
+  addLocal(context: FunctionContext, type: ValueType): number {
+    const { fn } = context
+    return fn.params.length + fn.locals.push(type) - 1
+  }
+
+  resolve(name: string, scope?: Scope): number | undefined {
+    for (; scope; scope = scope.parent) {
+      if (scope.names[ name ]!=null) return scope.names[ name ]
+    }
+    return
+  }
+
+  localType(context: FunctionContext, index: number): ValueType {
+    const { params, locals } = context.fn
+    return index < params.length ? params[ index ] : locals[ index - params.length ]
+  }
+
+  /**
+   * Compile number expression
+   */
+  compileNumber(ast: Expression, context: FunctionContext, code: WasmInstruction[], scope?: Scope) {
+    const type = this.compileExpression(ast, context, code, scope)
+    if (type==='i32') code.push(['f64.convert_i32_u'])
+  }
+
+  /**
+   * Compile expression as condition, with the same truthiness as JavaScript
+   */
+  compileCondition(ast: Expression, context: FunctionContext, code: WasmInstruction[], scope?: Scope) {
+
+    const type = this.compileExpression(ast, context, code, scope)
+    if (type==='i32') return
+
+    // Zero and NaN are false
+    if (context.temp==null) context.temp = this.addLocal(context, 'f64')
+    code.push(
+      ['local.tee', context.temp],
+      ['local.get', context.temp],
+      ['f64.eq'],
+      ['local.get', context.temp],
+      ['f64.const', 0],
+      ['f64.ne'],
+      ['i32.and'],
+    )
+  }
+
+  /**
+   * Compile expression and return its type
+   */
+  compileExpression(
+    ast: Expression,
+    context: FunctionContext,
+    code: WasmInstruction[],
+    scope?: Scope
+  ): ValueType {
+
+    if (typeof ast==='number') {
+      code.push(['f64.const', ast])
+      return 'f64'
+    }
+
+    if (typeof ast==='string') {
+
+      const index = this.resolve(ast, scope)
+      if (index!=null) {
+        code.push(['local.get', index])
+        return this.localType(context, index)
+      }
+
+      if (ast==='true' || ast==='false') {
+        code.push(['i32.const', ast==='true' ? 1 : 0])
+        return 'i32'
+      }
+      if (ast==='nil') {
+        this.report('Unsupported value nil', ast)
+        return this.placeholder(code)
+      }
+      if (this.lambdas[ ast ]) {
+        this.report(`Function "${ast}" used as value`, ast)
+        return this.placeholder(code)
+      }
+      if (!this.variables.includes(ast) && !this.inputs.includes(ast)) {
+        this.inputs.push(ast)
+      }
+      code.push(['global.get', ast])
+      return 'f64'
+    }
+
+    if (!Array.isArray(ast)) {
+      this.report(`Unsupported value ${JSON.stringify(ast)}`, ast)
+      return this.placeholder(code)
+    }
+
+    const [head, ...args] = ast
+    const isBuiltin = typeof head==='string' && this.resolve(head, scope)==null
+
+    if (isBuiltin && arithmetic[ head as string ] && args.length <= 2) {
+
+      const [instruction, defaultValue] = arithmetic[ head as string ]
+
+      for (let i = 0; i < 2; i++) {
+        if (args[i]==null) code.push(['f64.const', defaultValue])
+        else this.compileNumber(args[i], context, code, scope)
+      }
+
+      if (instruction==='pow') {
+        this.importPow()
+        code.push(['call', 'pow'])
+      } else {
+        code.push([instruction])
+      }
+      return 'f64'
+    }
+
+    if (isBuiltin && comparison[ head as string ] && args.length===2) {
+
+      const op = comparison[ head as string ]
+      const left: WasmInstruction[] = []
+      const right: WasmInstruction[] = []
+      const leftType = this.compileExpression(args[0], context, left, scope)
+      const rightType = this.compileExpression(args[1], context, right, scope)
+
+      if (leftType==='i32' && rightType==='i32' && (op==='eq' || op==='ne')) {
+        code.push(...left, ...right, [`i32.${op}`])
+        return 'i32'
+      }
+      if (leftType!==rightType && (op==='eq' || op==='ne')) {
+        this.report('Equality of number and boolean', ast)
+        return this.placeholder(code)
+      }
+
+      code.push(...left)
+      if (leftType==='i32') code.push(['f64.convert_i32_u'])
+      code.push(...right)
+      if (rightType==='i32') code.push(['f64.convert_i32_u'])
+      code.push([`f64.${op}`])
+      return 'i32'
+    }
+
+    if (isBuiltin && head==='!' && args.length===1) {
+      this.compileCondition(args[0], context, code, scope)
+      code.push(['i32.eqz'])
+      return 'i32'
+    }
+
+    switch (isBuiltin ? head : undefined) {
+
+    case 'if': {
+      if (ast.length!==4) {
+        this.report('Condition without else branch', ast)
+        return this.placeholder(code)
+      }
+
+      const trueBranch: WasmInstruction[] = []
+      const elseBranch: WasmInstruction[] = []
+      const trueType = this.compileExpression(ast[2], context, trueBranch, scope)
+      const elseType = this.compileExpression(ast[3], context, elseBranch, scope)
+
+      if (trueType!==elseType) {
+        this.report('Branches of number and boolean', ast)
+        return this.placeholder(code)
+      }
+
+      this.compileCondition(ast[1], context, code, scope)
+      code.push(['if', trueType], ...trueBranch, ['else'], ...elseBranch, ['end'])
+      return trueType
+    }
+
+    case 'let': {
+      const pairs = ast[1]
+      if (!Array.isArray(pairs) || pairs.length % 2) {
+        this.report('Invalid let', ast)
+        return this.placeholder(code)
+      }
+
+      const letScope: Scope = { names: {}, parent: scope }
+
+      for (let i = 0; i < pairs.length; i += 2) {
+        const name = pairs[i]
+        if (typeof name!=='string') {
+          this.report('Destructuring in let', ast)
+          continue
+        }
+        const type = this.compileExpression(pairs[i + 1], context, code, letScope)
+        const index = this.addLocal(context, type)
+        code.push(['local.set', index])
+        letScope.names[ name ] = index
+      }
+
+      return this.compileExpression(ast[2], context, code, letScope)
+    }
+
+    case 'do': {
+      if (ast.length < 2) {
+        this.report('Empty expression', ast)
+        return this.placeholder(code)
+      }
+      let type: ValueType = 'f64'
+      args.forEach((expr, i) => {
+        type = this.compileExpression(expr, context, code, scope)
+        if (i < args.length - 1) code.push(['drop'])
+      })
+      return type
+    }
+
+    case 'λ':
+    case 'lambda': {
+      const params = Array.isArray(ast[1]) ? ast[1] : []
+      const captured = this.findCaptured(ast[2], scope, params)
+      this.report(captured
+        ? `Lambda captures "${captured}"`
+        : 'Lambda must be defined at top level',
+      ast)
+      return this.placeholder(code)
+    }
+
+    // Type annotation
+    case ':':
+      return this.compileExpression(ast[1], context, code, scope)
+
+    case '`':
+    case 'expr':
+      this.report('Quoted expression or string', ast)
+      return this.placeholder(code)
+
+    case 'def':
+      this.report('Definition must be at top level', ast)
+      return this.placeholder(code)
+    }
+
+    // Function call
+
+    if (typeof head==='string' && isBuiltin && this.lambdas[ head ]) {
+
+      const params = this.lambdas[ head ][1]
+      const paramsCount = Array.isArray(params) ? params.length : 0
+
+      if (args.length!==paramsCount) {
+        this.report(`Function "${head}" expects ${paramsCount} arguments`, ast)
+        return this.placeholder(code)
+      }
+
+      args.forEach(arg => {
+        const type = this.compileExpression(arg, context, code, scope)
+        if (type==='i32') this.report(`Boolean argument to function "${head}"`, ast)
+      })
+      code.push(['call', head])
+      return 'f64'
+    }
+
+    this.report(typeof head==='string'
+      ? `Unsupported expression "${head}"`
+      : 'Unsupported expression',
+    ast)
+    return this.placeholder(code)
+  }
+
+  /**
+   * Instruction in place of unsupported expression, which is reported
+   */
+  placeholder(code: WasmInstruction[]): ValueType {
+    code.push(['unreachable'])
+    return 'f64'
+  }
+
+  importPow() {
+    if (this.module.imports.some(item => item.name==='pow')) return
+    this.module.imports.push({
+      module: importModule,
+      name: 'pow',
+      kind: 'func',
+      params: ['f64', 'f64'],
+      result: 'f64'
+    })
+  }
+
+  /**
+   * Find local variable from outer scope used in lambda
+   */
+  findCaptured(ast: Expression, scope: Scope | undefined, params: Expression[]): string | undefined {
+    if (typeof ast==='string') {
+      return !params.includes(ast) && this.resolve(ast, scope)!=null ? ast : undefined
+    }
+    if (!Array.isArray(ast)) return
+    for (const expr of ast) {
+      const captured = this.findCaptured(expr, scope, params)
+      if (captured) return captured
+    }
+    return
+  }
+}
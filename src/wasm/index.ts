@@ -0,0 +1,8 @@
+export { compileWasm, importModule, WasmCompileError } from './compile'
+export type {
+  WasmCompileOptions,
+  WasmProgram,
+  UnsupportedExpression
+} from './compile'
+export { runWasm, instantiateWasm } from './run'
+export type { WasmInputs } from './run'
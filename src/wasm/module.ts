@@ -0,0 +1,274 @@
+/**
+ * WebAssembly module definition, encoded to binary format or printed as text (WAT)
+ *
+ * Instructions refer to functions and globals by name, which are resolved to
+ * indices when encoding. Imported functions come first in the function index space.
+ */
+
+export type ValueType = 'f64' | 'i32'
+
+export type WasmInstruction = [string, ...(number | string)[]]
+
+export type WasmImport = {
+  module: string
+  name: string
+} & ({
+  kind: 'func'
+  params: ValueType[]
+  result: ValueType
+} | {
+  kind: 'global'
+  type: ValueType
+})
+
+export type WasmGlobal = {
+  name: string
+  type: ValueType
+}
+
+export type WasmFunction = {
+  name: string
+  params: ValueType[]
+  result?: ValueType
+  locals: ValueType[]
+  body: WasmInstruction[]
+  exported: boolean
+}
+
+export type WasmModule = {
+  imports: WasmImport[]
+  globals: WasmGlobal[]
+  functions: WasmFunction[]
+}
+
+const valueTypes: { [type in ValueType]: number } = {
+  i32: 0x7f,
+  f64: 0x7c,
+}
+
+const opcodes: { [op: string]: number } = {
+  'unreachable': 0x00,
+  'if': 0x04,
+  'else': 0x05,
+  'end': 0x0b,
+  'call': 0x10,
+  'drop': 0x1a,
+  'local.get': 0x20,
+  'local.set': 0x21,
+  'local.tee': 0x22,
+  'global.get': 0x23,
+  'global.set': 0x24,
+  'i32.const': 0x41,
+  'f64.const': 0x44,
+  'i32.eqz': 0x45,
+  'i32.eq': 0x46,
+  'i32.ne': 0x47,
+  'f64.eq': 0x61,
+  'f64.ne': 0x62,
+  'f64.lt': 0x63,
+  'f64.gt': 0x64,
+  'f64.le': 0x65,
+  'f64.ge': 0x66,
+  'i32.and': 0x71,
+  'f64.add': 0xa0,
+  'f64.sub': 0xa1,
+  'f64.mul': 0xa2,
+  'f64.div': 0xa3,
+  'f64.convert_i32_u': 0xb8,
+}
+
+function unsigned(value: number): number[] {
+  const bytes: number[] = []
+  do {
+    let byte = value & 0x7f
+    value >>>= 7
+    if (value) byte |= 0x80
+    bytes.push(byte)
+  } while (value)
+  return bytes
+}
+
+function signed(value: number): number[] {
+  const bytes: number[] = []
+  while (true) {
+    const byte = value & 0x7f
+    value >>= 7
+    if ((value===0 && !(byte & 0x40)) || (value===-1 && (byte & 0x40))) {
+      bytes.push(byte)
+      return bytes
+    }
+    bytes.push(byte | 0x80)
+  }
+}
+
+function float64(value: number): number[] {
+  const bytes = new Uint8Array(8)
+  new DataView(bytes.buffer).setFloat64(0, value, true)
+  return Array.from(bytes)
+}
+
+function text(value: string): number[] {
+  const bytes = Array.from(new TextEncoder().encode(value))
+  return [...unsigned(bytes.length), ...bytes]
+}
+
+function vector(items: number[][]): number[] {
+  return [...unsigned(items.length), ...items.flat()]
+}
+
+function section(id: number, items: number[][]): number[] {
+  if (!items.length) return []
+  const content = vector(items)
+  return [id, ...unsigned(content.length), ...content]
+}
+
+function functionType(params: ValueType[], result?: ValueType): number[] {
+  return [
+    0x60,
+    ...vector(params.map(type => [valueTypes[type]])),
+    ...vector(result ? [[valueTypes[result]]] : [])
+  ]
+}
+
+/**
+ * Index of functions and globals by name, imports first
+ */
+function createIndex(module: WasmModule) {
+  const functions: string[] = []
+  const globals: string[] = []
+  for (const item of module.imports) {
+    if (item.kind==='func') functions.push(item.name)
+    else globals.push(item.name)
+  }
+  module.functions.forEach(fn => functions.push(fn.name))
+  module.globals.forEach(global => globals.push(global.name))
+  return { functions, globals }
+}
+
+export function encodeModule(module: WasmModule): Uint8Array {
+
+  const index = createIndex(module)
+
+  const resolve = (names: string[], name: string | number) => {
+    const i = names.indexOf(name as string)
+    if (i < 0) throw new Error(`Unknown reference: ${name}`)
+    return i
+  }
+
+  const instruction = ([op, operand]: WasmInstruction): number[] => {
+    const opcode = opcodes[op]
+    if (opcode==null) throw new Error(`Unknown instruction: ${op}`)
+    switch (op) {
+    case 'if': return [opcode, operand==null ? 0x40 : valueTypes[operand as ValueType]]
+    case 'call': return [opcode, ...unsigned(resolve(index.functions, operand))]
+    case 'global.get':
+    case 'global.set': return [opcode, ...unsigned(resolve(index.globals, operand))]
+    case 'local.get':
+    case 'local.set':
+    case 'local.tee': return [opcode, ...unsigned(operand as number)]
+    case 'i32.const': return [opcode, ...signed(operand as number)]
+    case 'f64.const': return [opcode, ...float64(operand as number)]
+    }
+    return [opcode]
+  }
+
+  // Each function has its own type
+  const types = [
+    ...module.imports.map(item => item.kind==='func'
+      ? functionType(item.params, item.result)
+      : null
+    ),
+    ...module.functions.map(fn => functionType(fn.params, fn.result))
+  ]
+  const typeIndex = (i: number) => types.slice(0, i).filter(Boolean).length
+
+  const imports = module.imports.map((item, i) => [
+    ...text(item.module),
+    ...text(item.name),
+    ...(item.kind==='func'
+      ? [0x00, ...unsigned(typeIndex(i))]
+      : [0x03, valueTypes[item.type], 0x00]
+    )
+  ])
+
+  const functions = module.functions.map((_, i) =>
+    unsigned(typeIndex(module.imports.length + i))
+  )
+
+  const globals = module.globals.map(global => [
+    valueTypes[global.type],
+    0x01, // Mutable
+    ...instruction(global.type==='f64' ? ['f64.const', 0] : ['i32.const', 0]),
+    opcodes.end
+  ])
+
+  const exports = module.functions
+    .filter(fn => fn.exported)
+    .map(fn => [...text(fn.name), 0x00, ...unsigned(resolve(index.functions, fn.name))])
+
+  const code = module.functions.map(fn => {
+    const locals = vector(fn.locals.map(type => [0x01, valueTypes[type]]))
+    const body = [...locals, ...fn.body.flatMap(instruction), opcodes.end]
+    return [...unsigned(body.length), ...body]
+  })
+
+  return new Uint8Array([
+    0x00, 0x61, 0x73, 0x6d, // Magic number
+    0x01, 0x00, 0x00, 0x00, // Version
+    ...section(1, types.filter(Boolean) as number[][]),
+    ...section(2, imports),
+    ...section(3, functions),
+    ...section(6, globals),
+    ...section(7, exports),
+    ...section(10, code),
+  ])
+}
+
+/**
+ * Print module in WebAssembly text format
+ */
+export function printModule(module: WasmModule): string {
+
+  const signature = (params: ValueType[], result?: ValueType) =>
+    params.map(type => ` (param ${type})`).join('')
+    + (result ? ` (result ${result})` : '')
+
+  const lines: string[] = ['(module']
+
+  for (const item of module.imports) {
+    lines.push(`  (import "${item.module}" "${item.name}" `
+      + (item.kind==='func'
+        ? `(func $${item.name}${signature(item.params, item.result)}))`
+        : `(global $${item.name} ${item.type}))`
+      )
+    )
+  }
+
+  for (const global of module.globals) {
+    lines.push(`  (global $${global.name} (mut ${global.type}) (${global.type}.const 0))`)
+  }
+
+  for (const fn of module.functions) {
+    lines.push(`  (func $${fn.name}`
+      + (fn.exported ? ` (export "${fn.name}")` : '')
+      + signature(fn.params, fn.result)
+    )
+    if (fn.locals.length) {
+      lines.push(`    (local ${fn.locals.join(' ')})`)
+    }
+    let depth = 2
+    for (const [op, operand] of fn.body) {
+      if (op==='end' || op==='else') depth--
+      const immediate = operand==null ? ''
+        : op==='call' || op.startsWith('global.') ? ` $${operand}`
+        : op==='if' ? ` (result ${operand})`
+        : ` ${operand}`
+      lines.push(`${'  '.repeat(depth)}${op}${immediate}`)
+      if (op==='if' || op==='else') depth++
+    }
+    lines[ lines.length - 1 ] += ')'
+  }
+
+  lines[ lines.length - 1 ] += ')'
+  return lines.join('\n')
+}
@@ -0,0 +1,45 @@
+import { RuntimeError } from '../evaluate'
+import { WasmProgram, importModule } from './compile'
+
+export type WasmInputs = {
+  [name: string]: number | boolean
+}
+
+/**
+ * Instantiate compiled program with inputs from host
+ */
+export function instantiateWasm(program: WasmProgram, inputs: WasmInputs = {}): WebAssembly.Instance {
+
+  const imports: { [name: string]: any } = {
+    pow: Math.pow
+  }
+
+  for (const name of program.inputs) {
+    const value = inputs[ name ]
+    if (value==null) {
+      throw new RuntimeError(`Undefined symbol "${name}"`)
+    }
+    if (typeof value!=='number' && typeof value!=='boolean') {
+      throw new RuntimeError(`Input "${name}" must be a number or boolean, not ${typeof value}`)
+    }
+    imports[ name ] = Number(value)
+  }
+
+  const module = new WebAssembly.Module(program.binary)
+  return new WebAssembly.Instance(module, { [importModule]: imports })
+}
+
+/**
+ * Run compiled program, and convert result to the same value as evaluate
+ */
+export function runWasm(program: WasmProgram, inputs?: WasmInputs): any {
+
+  const { exports } = instantiateWasm(program, inputs)
+  const result = (exports.main as Function)()
+
+  switch (program.result) {
+  case 'boolean': return result===1
+  case 'function': return exports[ program.functions[ program.functions.length - 1 ] ]
+  }
+  return result
+}
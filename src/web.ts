@@ -2,6 +2,10 @@ import * as expreva from './index'
 
 declare var window: {
   expreva: typeof expreva
+  exprevaPlugins?: expreva.Plugin[]
 }
 
 window.expreva = expreva
+
+// Plugins loaded before the library
+if (window.exprevaPlugins) expreva.use(...window.exprevaPlugins)